@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+// Runs an arena match against a running dev server and prints the report. Players are
+// route[:engine[:level]], e.g. v1, v2, v3:local:8 or v3:llm:4.
+//
+//   node scripts/arena.mjs --a v3:local:8 --b v1 [--games 10] [--time 1000] [--max-plies 200] [--url http://localhost:3000]
+//
+// Every game is saved as PGN on the server, under ARENA_DIR (data/arena by default).
+
+const USAGE = 'Usage: node scripts/arena.mjs --a <player> --b <player> [--games N] [--time MS] [--max-plies N] [--url URL]';
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) throw new Error(USAGE);
+    args[argv[i].slice(2)] = argv[i + 1];
+  }
+  if (!args.a || !args.b) throw new Error(USAGE);
+  return args;
+}
+
+function parsePlayer(spec) {
+  const [route, engine, level] = spec.split(':');
+  return {
+    route,
+    ...(engine ? { engine } : {}),
+    ...(level ? { difficulty: Number(level) } : {}),
+  };
+}
+
+const optionalNumber = value => (value === undefined ? undefined : Number(value));
+const formatElo = value => (value === null ? '∞' : value > 0 ? `+${value}` : String(value));
+const pad = (value, width) => String(value).padEnd(width);
+
+function printReport(report) {
+  const { labels, stats, elo } = report;
+  console.log(`\n${labels.a} vs ${labels.b}: ${report.score}/${report.games}`);
+  console.log(`  W/D/L (A): ${report.wins}/${report.draws}/${report.losses}`);
+  console.log(elo.diff === null
+    ? `  Elo (A - B): unbounded, ${report.losses === 0 ? 'A' : 'B'} scored every point`
+    : `  Elo (A - B): ${formatElo(elo.diff)} (95%: ${formatElo(elo.low)} to ${formatElo(elo.high)})`);
+
+  const rows = [
+    ['', 'A', 'B'],
+    ['Moves', stats.a.moves, stats.b.moves],
+    ['Avg latency (ms)', ...['a', 'b'].map(side => (stats[side].moves ? Math.round(stats[side].totalLatencyMs / stats[side].moves) : '-'))],
+    ['Over time limit', stats.a.overTimeMoves, stats.b.overTimeMoves],
+    ['Retries', stats.a.retries, stats.b.retries],
+    ['Fallbacks', stats.a.fallbacks, stats.b.fallbacks],
+    ['LLM calls', stats.a.usage.calls, stats.b.usage.calls],
+    ['Prompt tokens', stats.a.usage.promptTokens, stats.b.usage.promptTokens],
+    ['Completion tokens', stats.a.usage.completionTokens, stats.b.usage.completionTokens],
+  ];
+  console.log();
+  for (const [name, a, b] of rows) console.log(`  ${pad(name, 18)}${pad(a, 10)}${b}`);
+  console.log(`\nPGNs: ${report.directory}`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const url = new URL('/api/arena', args.url ?? 'http://localhost:3000');
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      playerA: parsePlayer(args.a),
+      playerB: parsePlayer(args.b),
+      games: optionalNumber(args.games),
+      timeLimitMs: optionalNumber(args.time),
+      maxPlies: optionalNumber(args['max-plies']),
+    }),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(`Arena request failed (${response.status}): ${error}`);
+  }
+
+  // NDJSON: one event per line, possibly split across chunks
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for await (const chunk of response.body) {
+    buffered += decoder.decode(chunk, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop();
+
+    for (const line of lines.filter(Boolean)) {
+      const event = JSON.parse(line);
+      if (event.type === 'move') {
+        process.stdout.write('.');
+      } else if (event.type === 'game') {
+        const { game } = event;
+        console.log(`\nGame ${game.round} (${game.opening}, A as ${game.white === 'a' ? 'White' : 'Black'}): ` +
+          `${game.result} by ${game.termination}, ${game.plies} plies`);
+      } else if (event.type === 'report') {
+        printReport(event.report);
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      }
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+// Minimal UCI engine for exercising the UCI adapter without a real engine binary.
+// It plays the first legal move (captures first) and reports a material-only score.
+//
+//   UCI_ENGINE_PATH=./scripts/fake-uci-engine.mjs npm run dev
+//
+// Flags: --delay=<ms> waits before answering `go`; --hang never answers `go` (timeout handling).
+import { createInterface } from 'readline';
+import { Chess } from 'chess.js';
+
+const args = process.argv.slice(2);
+const delayArg = args.find(arg => arg.startsWith('--delay='));
+const delayMs = delayArg ? Number(delayArg.split('=')[1]) : 0;
+const hang = args.includes('--hang');
+
+const PIECE_VALUES = { p: 100, n: 300, b: 300, r: 500, q: 900, k: 0 };
+
+let game = new Chess();
+let pendingSearch = null;
+
+const send = line => process.stdout.write(`${line}\n`);
+
+const materialForSideToMove = () => {
+  let score = 0;
+  for (const row of game.board()) {
+    for (const piece of row) {
+      if (piece) score += (piece.color === game.turn() ? 1 : -1) * PIECE_VALUES[piece.type];
+    }
+  }
+  return score;
+};
+
+const setPosition = tokens => {
+  const movesIndex = tokens.indexOf('moves');
+  const end = movesIndex === -1 ? tokens.length : movesIndex;
+  game = tokens[1] === 'startpos' ? new Chess() : new Chess(tokens.slice(2, end).join(' '));
+  if (movesIndex !== -1) {
+    for (const move of tokens.slice(movesIndex + 1)) {
+      game.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] });
+    }
+  }
+};
+
+const finishSearch = () => {
+  pendingSearch = null;
+  const moves = game.moves({ verbose: true });
+  if (moves.length === 0) {
+    send('bestmove (none)');
+    return;
+  }
+  const [best] = [...moves].sort((a, b) => Number(!!b.captured) - Number(!!a.captured));
+  const uci = best.from + best.to + (best.promotion ?? '');
+  send(`info depth 1 seldepth 1 multipv 1 score cp ${materialForSideToMove()} nodes ${moves.length} nps 1000 time 1 pv ${uci}`);
+  send(`bestmove ${uci}`);
+};
+
+const handlers = {
+  uci: () => {
+    send('id name FakeEngine 1.0');
+    send('id author chess-app-ai');
+    send('option name Hash type spin default 16 min 1 max 1024');
+    send('uciok');
+  },
+  isready: () => send('readyok'),
+  ucinewgame: () => {
+    game = new Chess();
+  },
+  setoption: () => {},
+  position: setPosition,
+  go: () => {
+    if (hang) return;
+    pendingSearch = setTimeout(finishSearch, delayMs);
+  },
+  stop: () => {
+    if (pendingSearch) {
+      clearTimeout(pendingSearch);
+      finishSearch();
+    }
+  },
+  quit: () => process.exit(0),
+};
+
+createInterface({ input: process.stdin }).on('line', line => {
+  const tokens = line.trim().split(/\s+/);
+  try {
+    handlers[tokens[0]]?.(tokens);
+  } catch (error) {
+    send(`info string error ${error instanceof Error ? error.message : error}`);
+  }
+}).on('close', () => {
+  // Answer a search still in flight before exiting when stdin closes
+  handlers.stop();
+  process.exit(0);
+});
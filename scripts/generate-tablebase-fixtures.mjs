@@ -0,0 +1,299 @@
+#!/usr/bin/env node
+// Builds the bundled KQvK and KRvK Syzygy tables (src/tablebase/fixtures) from an exact retrograde
+// solve, so tablebase play can be tried without downloading anything. The tables are real .rtbw/.rtbz
+// files, but stored with plain fixed-length codes instead of the official generator's compression.
+//
+//   node scripts/generate-tablebase-fixtures.mjs [output directory]
+//
+// Real tables (https://syzygy-tables.info) can be used instead by pointing SYZYGY_PATH at them.
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const outputDir = process.argv[2] ?? join('src', 'tablebase', 'fixtures');
+
+const WDL_MAGIC = [0x71, 0xe8, 0x23, 0x5d];
+const DTZ_MAGIC = [0xd7, 0x66, 0x0c, 0xa5];
+const WHITE_KING = 6;
+const BLACK_KING = 14;
+const TABLES = [
+  { name: 'KQvK', piece: 5, directions: [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]] },
+  { name: 'KRvK', piece: 4, directions: [[1, 0], [-1, 0], [0, 1], [0, -1]] },
+];
+
+// Three unique pieces fit in 31332 indices once the board's symmetries are folded away
+const TABLE_SIZE = 31332;
+const BLOCK_SIZE_LOG2 = 6;
+const SPAN_LOG2 = 6;
+
+const fileOf = square => square & 7;
+const rankOf = square => square >> 3;
+const offA1H8 = square => rankOf(square) - fileOf(square);
+const touching = (a, b) => Math.abs(fileOf(a) - fileOf(b)) <= 1 && Math.abs(rankOf(a) - rankOf(b)) <= 1;
+
+const kingMoves = square => {
+  const moves = [];
+  for (let df = -1; df <= 1; df++) {
+    for (let dr = -1; dr <= 1; dr++) {
+      const f = fileOf(square) + df;
+      const r = rankOf(square) + dr;
+      if ((df || dr) && f >= 0 && f < 8 && r >= 0 && r < 8) moves.push(r * 8 + f);
+    }
+  }
+  return moves;
+};
+
+// Squares the piece reaches from `from`, stopping in front of anything on `blockers`
+const slides = (from, directions, blockers) => {
+  const squares = [];
+  for (const [df, dr] of directions) {
+    let f = fileOf(from) + df;
+    let r = rankOf(from) + dr;
+    while (f >= 0 && f < 8 && r >= 0 && r < 8 && !blockers.includes(r * 8 + f)) {
+      squares.push(r * 8 + f);
+      f += df;
+      r += dr;
+    }
+  }
+  return squares;
+};
+
+const positionIndex = (wk, piece, bk) => (wk * 64 + piece) * 64 + bk;
+
+// Distance to mate in plies for KXvK, white to move (wins) and black to move (losses); -1 is a draw
+function solve({ directions }) {
+  const size = 64 * 64 * 64;
+  const whiteToMove = new Int16Array(size).fill(-1);
+  const blackToMove = new Int16Array(size).fill(-1);
+  const legal = new Uint8Array(size); // bit 0: legal with white to move, bit 1: with black to move
+  const blackMoves = new Array(size);
+  const whiteMoves = new Array(size);
+
+  for (let wk = 0; wk < 64; wk++) {
+    for (let piece = 0; piece < 64; piece++) {
+      for (let bk = 0; bk < 64; bk++) {
+        if (wk === piece || wk === bk || piece === bk || touching(wk, bk)) continue;
+        const index = positionIndex(wk, piece, bk);
+        const checks = slides(piece, directions, [wk]).includes(bk);
+        legal[index] = (checks ? 0 : 1) | 2;
+
+        // Black: king moves, a capture of an undefended piece draws at once
+        const replies = [];
+        let canEscape = false;
+        for (const to of kingMoves(bk)) {
+          if (touching(to, wk)) continue;
+          if (to === piece) {
+            if (!touching(piece, wk)) canEscape = true;
+            continue;
+          }
+          if (slides(piece, directions, [wk]).includes(to)) continue;
+          replies.push(positionIndex(wk, piece, to));
+        }
+        blackMoves[index] = { replies, canEscape, checks };
+
+        if (!checks) {
+          const moves = [];
+          for (const to of kingMoves(wk)) {
+            if (to !== piece && !touching(to, bk)) moves.push(positionIndex(to, piece, bk));
+          }
+          for (const to of slides(piece, directions, [wk, bk])) moves.push(positionIndex(wk, to, bk));
+          whiteMoves[index] = moves;
+        }
+      }
+    }
+  }
+
+  for (let index = 0; index < size; index++) {
+    const moves = blackMoves[index];
+    if (moves && moves.checks && !moves.canEscape && moves.replies.length === 0) blackToMove[index] = 0;
+  }
+
+  // Done once neither side has found anything new for a full move
+  for (let ply = 1, quietPlies = 0; quietPlies < 2; ply++) {
+    let changed = false;
+    for (let index = 0; index < size; index++) {
+      if (ply % 2) {
+        if (whiteToMove[index] !== -1 || !whiteMoves[index]) continue;
+        if (whiteMoves[index].some(next => blackToMove[next] === ply - 1)) {
+          whiteToMove[index] = ply;
+          changed = true;
+        }
+      } else {
+        const moves = blackMoves[index];
+        if (blackToMove[index] !== -1 || !moves || moves.canEscape || moves.replies.length === 0) continue;
+        if (moves.replies.every(next => whiteToMove[next] !== -1)) {
+          blackToMove[index] = ply;
+          changed = true;
+        }
+      }
+    }
+    quietPlies = changed ? 0 : quietPlies + 1;
+  }
+
+  return { whiteToMove, blackToMove, legal };
+}
+
+// Build the index tables the way the probing code does (see src/tablebase/syzygy.ts)
+const mapB1H1H7 = new Array(64).fill(0);
+const mapA1D1D4 = new Array(64).fill(0);
+{
+  let code = 0;
+  for (let s = 0; s < 64; s++) if (offA1H8(s) < 0) mapB1H1H7[s] = code++;
+  code = 0;
+  const diagonal = [];
+  for (let s = 0; s <= 27; s++) {
+    if (offA1H8(s) < 0 && fileOf(s) <= 3) mapA1D1D4[s] = code++;
+    else if (offA1H8(s) === 0 && fileOf(s) <= 3) diagonal.push(s);
+  }
+  diagonal.forEach(s => (mapA1D1D4[s] = code++));
+}
+
+// The table index of piece, white king, black king (the order the tables are written in)
+function tableIndex(squares) {
+  let [s0, s1, s2] = squares;
+  if (fileOf(s0) > 3) [s0, s1, s2] = [s0 ^ 7, s1 ^ 7, s2 ^ 7];
+  if (rankOf(s0) > 3) [s0, s1, s2] = [s0 ^ 56, s1 ^ 56, s2 ^ 56];
+  const transpose = s => ((s >> 3) | (s << 3)) & 63;
+  const all = [s0, s1, s2];
+  const first = all.findIndex(s => offA1H8(s) !== 0);
+  if (first !== -1 && offA1H8(all[first]) > 0) {
+    for (let j = first; j < 3; j++) all[j] = transpose(all[j]);
+  }
+  [s0, s1, s2] = all;
+
+  const adjust1 = s1 > s0 ? 1 : 0;
+  const adjust2 = (s2 > s0 ? 1 : 0) + (s2 > s1 ? 1 : 0);
+  if (offA1H8(s0)) return (mapA1D1D4[s0] * 63 + (s1 - adjust1)) * 62 + s2 - adjust2;
+  if (offA1H8(s1)) return (6 * 63 + rankOf(s0) * 28 + mapB1H1H7[s1]) * 62 + s2 - adjust2;
+  if (offA1H8(s2)) return 6 * 63 * 62 + 4 * 28 * 62 + rankOf(s0) * 7 * 28 + (rankOf(s1) - adjust1) * 28 + mapB1H1H7[s2];
+  return 6 * 63 * 62 + 4 * 28 * 62 + 4 * 7 * 28 + rankOf(s0) * 7 * 6 + (rankOf(s1) - adjust1) * 6 + (rankOf(s2) - adjust2);
+}
+
+// Stored values by table index; positions that fold onto the same index must agree
+function tabulate(legal, bit, valueOf) {
+  const values = new Int16Array(TABLE_SIZE).fill(-1);
+  for (let wk = 0; wk < 64; wk++) {
+    for (let piece = 0; piece < 64; piece++) {
+      for (let bk = 0; bk < 64; bk++) {
+        const index = positionIndex(wk, piece, bk);
+        if (!(legal[index] & bit)) continue;
+        const value = valueOf(index);
+        const tableIdx = tableIndex([piece, wk, bk]);
+        if (values[tableIdx] !== -1 && values[tableIdx] !== value) {
+          throw new Error(`Symmetric positions disagree at index ${tableIdx}`);
+        }
+        values[tableIdx] = value;
+      }
+    }
+  }
+
+  // Unreachable indices are "don't care": give them the most common value
+  const counts = new Map();
+  values.forEach(value => value !== -1 && counts.set(value, (counts.get(value) ?? 0) + 1));
+  const common = [...counts].sort((a, b) => b[1] - a[1])[0][0];
+  return values.map(value => (value === -1 ? common : value));
+}
+
+class Writer {
+  bytes = [];
+  get offset() { return this.bytes.length; }
+  u8(value) { this.bytes.push(value & 0xff); }
+  u16(value) { this.u8(value); this.u8(value >> 8); }
+  u32(value) { this.u16(value & 0xffff); this.u16(value >>> 16); }
+  align(bytes) { while (this.offset % bytes) this.u8(0); }
+}
+
+// One side's compressed data: a single value, or fixed-length codes (one symbol per value)
+function encodeSide(values, flags) {
+  const max = values.reduce((a, b) => Math.max(a, b));
+  if (values.every(value => value === values[0])) {
+    return { sizes: [0x80, values[0]], sparse: [], lengths: [], blocks: [] };
+  }
+
+  const bits = Math.max(1, Math.ceil(Math.log2(max + 1)));
+  const blockSize = 2 ** BLOCK_SIZE_LOG2;
+  const span = 2 ** SPAN_LOG2;
+  const perBlock = Math.floor((blockSize * 8) / bits);
+  const numBlocks = Math.ceil(values.length / perBlock);
+
+  const sizes = new Writer();
+  sizes.u8(flags);
+  sizes.u8(BLOCK_SIZE_LOG2);
+  sizes.u8(SPAN_LOG2);
+  sizes.u8(0); // block length padding
+  sizes.u32(numBlocks);
+  sizes.u8(bits); // longest code
+  sizes.u8(bits); // shortest code
+  sizes.u16(0); // lowest symbol of that length
+  sizes.u16(max + 1);
+  for (let symbol = 0; symbol <= max; symbol++) {
+    // A leaf: the left half holds the value, the right half 0xfff
+    sizes.u8(symbol & 0xff);
+    sizes.u8(((symbol >> 8) & 0xf) | 0xf0);
+    sizes.u8(0xff);
+  }
+  if ((max + 1) & 1) sizes.u8(0);
+
+  const sparse = new Writer();
+  for (let k = 0; k < Math.ceil(values.length / span); k++) {
+    const target = k * span + span / 2;
+    const block = Math.min(Math.floor(target / perBlock), numBlocks - 1);
+    sparse.u32(block);
+    sparse.u16(target - block * perBlock);
+  }
+
+  const lengths = new Writer();
+  const blocks = new Uint8Array(numBlocks * blockSize);
+  for (let block = 0; block < numBlocks; block++) {
+    const slice = values.slice(block * perBlock, (block + 1) * perBlock);
+    lengths.u16(slice.length - 1);
+    slice.forEach((value, i) => {
+      for (let bit = 0; bit < bits; bit++) {
+        if (value & (1 << (bits - 1 - bit))) {
+          const position = i * bits + bit;
+          blocks[block * blockSize + (position >> 3)] |= 0x80 >> (position & 7);
+        }
+      }
+    });
+  }
+
+  return { sizes: sizes.bytes, sparse: sparse.bytes, lengths: lengths.bytes, blocks: [...blocks] };
+}
+
+function writeTable(magic, pieces, sides, isDtz) {
+  const out = new Writer();
+  magic.forEach(byte => out.u8(byte));
+  out.u8(1); // split: the two colours hold different material
+  out.u8(0); // the leading group is encoded first
+  pieces.forEach(piece => out.u8(isDtz ? piece : (piece << 4) | piece));
+  out.align(2);
+
+  sides.forEach(side => side.sizes.forEach(byte => out.u8(byte)));
+  if (isDtz) out.align(2); // no DTZ value map
+  sides.forEach(side => side.sparse.forEach(byte => out.u8(byte)));
+  sides.forEach(side => side.lengths.forEach(byte => out.u8(byte)));
+  sides.forEach(side => {
+    out.align(64);
+    side.blocks.forEach(byte => out.u8(byte));
+  });
+  return Buffer.from(out.bytes);
+}
+
+mkdirSync(outputDir, { recursive: true });
+
+for (const table of TABLES) {
+  const { whiteToMove, blackToMove, legal } = solve(table);
+  const pieces = [table.piece, WHITE_KING, BLACK_KING];
+
+  // WDL values are stored as wdl + 2; DTZ in plies less one (flag 4: wins counted in plies)
+  const wdlSides = [
+    tabulate(legal, 1, index => (whiteToMove[index] === -1 ? 2 : 4)),
+    tabulate(legal, 2, index => (blackToMove[index] === -1 ? 2 : 0)),
+  ].map(values => encodeSide(values, 0));
+  const dtzSide = encodeSide(tabulate(legal, 1, index => Math.max(0, whiteToMove[index] - 1)), 4);
+
+  writeFileSync(join(outputDir, `${table.name}.rtbw`), writeTable(WDL_MAGIC, pieces, wdlSides, false));
+  writeFileSync(join(outputDir, `${table.name}.rtbz`), writeTable(DTZ_MAGIC, pieces, [dtzSide], true));
+
+  const longest = whiteToMove.reduce((a, b) => Math.max(a, b));
+  console.log(`${table.name}: longest win ${longest} plies, written to ${outputDir}`);
+}
@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Chess } from 'chess.js';
-import { ChatOpenAI } from '@langchain/openai';
 import { PromptTemplate } from '@langchain/core/prompts';
 import { RunnableSequence } from '@langchain/core/runnables';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { RunnablePassthrough } from '@langchain/core/runnables';
-import { StringOutputParser } from '@langchain/core/output_parsers';
+import type { BasePromptValueInterface } from '@langchain/core/prompt_values';
 import { DynamicTool } from '@langchain/core/tools';
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import { getLlmProvider, type LlmProvider } from '@/llm';
 
 // Types for our agentic workflow
 interface MoveCandidate {
@@ -32,7 +32,7 @@ export async function POST(request: NextRequest) {
   console.log('🚀 AI Move V2 API - Starting request');
   
   try {
-    const { fen } = await request.json();
+    const { fen, aiColor = 'b' } = await request.json();
     console.log('📥 Received FEN:', fen);
     
     if (!fen) {
@@ -43,15 +43,22 @@ export async function POST(request: NextRequest) {
     const game = new Chess(fen);
     console.log('♟️ Chess game initialized, turn:', game.turn());
     
-    // Check if it's black's turn
-    if (game.turn() !== 'b') {
-      console.log('❌ Error: Not black\'s turn, current turn:', game.turn());
-      return NextResponse.json({ error: 'Not black\'s turn' }, { status: 400 });
+    if (aiColor !== 'w' && aiColor !== 'b') {
+      console.log('❌ Error: Invalid aiColor:', aiColor);
+      return NextResponse.json({ error: 'aiColor must be "w" or "b"' }, { status: 400 });
     }
 
-    // Check if black has opened yet
-    const hasBlackOpened = hasBlackMadeOpeningMove(game);
-    console.log('🎯 Opening phase check - Black has opened:', hasBlackOpened);
+    const sideName = aiColor === 'w' ? 'white' : 'black';
+
+    // Check if it's the AI's turn
+    if (game.turn() !== aiColor) {
+      console.log(`❌ Error: Not ${sideName}'s turn, current turn:`, game.turn());
+      return NextResponse.json({ error: `Not ${sideName}'s turn` }, { status: 400 });
+    }
+
+    // Check if the AI has opened yet
+    const hasAIOpened = hasMadeOpeningMove(game, aiColor);
+    console.log(`🎯 Opening phase check - ${sideName} has opened:`, hasAIOpened);
 
     // Get all possible moves
     const moves = game.moves({ verbose: true });
@@ -73,18 +80,13 @@ export async function POST(request: NextRequest) {
     }));
     console.log('📝 Formatted moves:', formattedMoves.map(m => m.notation).join(', '));
 
-    // Initialize LangChain ChatOpenAI
-    const llm = new ChatOpenAI({
-      openAIApiKey: process.env.OPENAI_API_KEY,
-      modelName: "gpt-4o-mini",
-      temperature: 0.1,
-      maxTokens: 400,
-    });
-    console.log('🤖 LangChain ChatOpenAI initialized');
+    // LLM provider configured by LLM_PROVIDER
+    const llm = getLlmProvider();
+    console.log('🤖 LLM provider initialized:', llm.name);
 
     // Load openings prompt if needed
     let openingsContent = '';
-    if (!hasBlackOpened) {
+    if (!hasAIOpened) {
       try {
         const openingsPath = join(process.cwd(), 'src', 'prompts', 'openings.prompt');
         openingsContent = readFileSync(openingsPath, 'utf-8');
@@ -102,7 +104,8 @@ export async function POST(request: NextRequest) {
       llm,
       game,
       formattedMoves,
-      hasBlackOpened,
+      sideName,
+      hasAIOpened,
       openingsContent
     );
 
@@ -127,10 +130,11 @@ export async function POST(request: NextRequest) {
 
 // Main agentic workflow using LangChain chains
 async function runAgenticWorkflowChain(
-  llm: ChatOpenAI,
+  llm: LlmProvider,
   game: Chess,
   moves: MoveCandidate[],
-  hasBlackOpened: boolean,
+  sideName: string,
+  hasAIOpened: boolean,
   openingsContent: string
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ): Promise<any> {
@@ -157,7 +161,8 @@ async function runAgenticWorkflowChain(
     const selectorResponse = await moveSelectorChain.invoke({
       game,
       moves,
-      hasBlackOpened,
+      sideName,
+      hasAIOpened,
       openingsContent,
       attemptHistory
     });
@@ -186,7 +191,8 @@ async function runAgenticWorkflowChain(
     const toolInput = JSON.stringify({
       fen: game.fen(),
       candidateMove: selectedMove,
-      hasBlackOpened,
+      sideName,
+      hasAIOpened,
       openingsContent
     });
     
@@ -273,16 +279,27 @@ async function runAgenticWorkflowChain(
   return result;
 }
 
+// Chain step that sends the rendered prompt to the LLM provider and returns the reply text
+function completeWith(llm: LlmProvider) {
+  return async (prompt: BasePromptValueInterface): Promise<string> => {
+    const completion = await llm.complete([{ role: 'user', content: prompt.toString() }], {
+      temperature: 0.1,
+      maxTokens: 400,
+    });
+    return completion.content ?? '';
+  };
+}
+
 // Create Move Selector Chain using LangChain
-function createMoveSelectorChain(llm: ChatOpenAI) {
+function createMoveSelectorChain(llm: LlmProvider) {
   const promptTemplate = PromptTemplate.fromTemplate(`
-You are the Move Selector Agent, a chess expert playing as black. Your job is to choose the BEST move from the available options.
+You are the Move Selector Agent, a chess expert playing as {sideName}. Your job is to choose the BEST move from the available options.
 
 Current board position:
 {boardVisual}
 
 Current FEN: {fen}
-It's black's turn to move.
+It's {sideName}'s turn to move.
 
 Available moves:
 {availableMoves}
@@ -312,6 +329,8 @@ REASONING: [your analysis of why this move is best]
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       fen: (input: any) => input.game.fen(),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sideName: (input: any) => input.sideName,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
       availableMoves: (input: any) => input.moves.map((move: MoveCandidate, index: number) => 
         `${index + 1}. ${move.notation} - ${move.description}`
       ).join('\n'),
@@ -327,17 +346,16 @@ REASONING: [your analysis of why this move is best]
       },
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       openingTheory: (input: any) => {
-        if (!input.hasBlackOpened && input.openingsContent) {
+        if (!input.hasAIOpened && input.openingsContent) {
           return `\nOPENING THEORY REFERENCE:\n${input.openingsContent}\n\nSince this is the opening phase, prioritize moves that follow opening principles and established theory.`;
         }
         return '';
       },
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      openingCriteria: (input: any) => input.hasBlackOpened ? '' : '- Opening principles and theory adherence'
+      openingCriteria: (input: any) => input.hasAIOpened ? '' : '- Opening principles and theory adherence'
     },
     promptTemplate,
-    llm,
-    new StringOutputParser(),
+    completeWith(llm),
     (response: string) => {
       const moveMatch = response.match(/MOVE:\s*([^\n\r]+)/i);
       const reasoningMatch = response.match(/REASONING:\s*([^\n\r]+(?:\n[^\n\r]+)*)/i);
@@ -351,7 +369,7 @@ REASONING: [your analysis of why this move is best]
 }
 
 // Create Move Evaluator Tool using DynamicTool
-function createMoveEvaluatorTool(llm: ChatOpenAI) {
+function createMoveEvaluatorTool(llm: LlmProvider) {
   return new DynamicTool({
     name: "move_evaluator",
     description: "Evaluates a chess move on a scale of 1-10 considering material balance, king safety, piece activity, pawn structure, tactical soundness, and positional value. Returns approval status, score, reasoning, and suggestions.",
@@ -359,10 +377,10 @@ function createMoveEvaluatorTool(llm: ChatOpenAI) {
       console.log('🔧 Move Evaluator Tool - Starting evaluation');
       try {
         const params = JSON.parse(input);
-        const { fen, candidateMove, hasBlackOpened, openingsContent } = params;
+        const { fen, candidateMove, sideName, hasAIOpened, openingsContent } = params;
         
         console.log('📋 Evaluating move:', candidateMove.notation);
-        console.log('🎯 Opening phase:', !hasBlackOpened);
+        console.log('🎯 Opening phase:', !hasAIOpened);
         
         // Reconstruct game from FEN
         const game = new Chess(fen);
@@ -386,7 +404,7 @@ function createMoveEvaluatorTool(llm: ChatOpenAI) {
         console.log('✅ Move simulation successful');
 
         const promptTemplate = PromptTemplate.fromTemplate(`
-You are the Move Evaluator Agent, a chess expert evaluating a candidate move for black.
+You are the Move Evaluator Agent, a chess expert evaluating a candidate move for {sideName}.
 
 Current board position:
 {boardVisual}
@@ -419,20 +437,20 @@ SUGGESTIONS: [optional suggestions for improvement if not approved]
         const chain = RunnableSequence.from([
           {
             boardVisual: () => boardVisual,
+            sideName: () => sideName,
             moveNotation: () => candidateMove.notation,
             moveDescription: () => candidateMove.description,
             newBoardVisual: () => newBoardVisual,
             openingTheory: () => {
-              if (!hasBlackOpened && openingsContent) {
+              if (!hasAIOpened && openingsContent) {
                 return `\nOPENING THEORY REFERENCE:\n${openingsContent}\n\nEvaluate this move considering opening principles and theory.`;
               }
               return '';
             },
-            evaluationCriteria: () => hasBlackOpened ? '' : '- Opening principles adherence'
+            evaluationCriteria: () => hasAIOpened ? '' : '- Opening principles adherence'
           },
           promptTemplate,
-          llm,
-          new StringOutputParser()
+          completeWith(llm)
         ]);
 
         console.log('🤖 Calling LLM for evaluation...');
@@ -479,10 +497,10 @@ SUGGESTIONS: [optional suggestions for improvement if not approved]
 }
 
 // Helper functions (reused from original)
-function hasBlackMadeOpeningMove(game: Chess): boolean {
+function hasMadeOpeningMove(game: Chess, color: 'w' | 'b'): boolean {
   const history = game.history({ verbose: true });
-  const blackMoves = history.filter((_, index) => index % 2 === 1);
-  return blackMoves.length >= 3;
+  const sideMoves = history.filter(move => move.color === color);
+  return sideMoves.length >= 3;
 }
 
 function createBoardVisual(game: Chess): string {
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { Chess, validateFen } from 'chess.js';
+import { getColorName } from '@/utils/chessUtils';
+import { getBoardResult } from '@/utils/gameResult';
+import { isEngineName, type EngineName, type MoveEngineRequest } from '@/engines';
+import { isLocalTimeLimit, MAX_LOCAL_TIME_LIMIT } from '@/engines/localEngine';
+import { DIFFICULTY_LEVELS, isDifficultyLevel } from '@/engines/difficulty';
+
+export type ParsedMoveRequest =
+  | { ok: true; engineName?: EngineName; request: MoveEngineRequest }
+  | { ok: false; response: NextResponse };
+
+const isWholeNumber = (value: unknown): value is number => Number.isInteger(value);
+const reject = (body: object, status = 400): ParsedMoveRequest => ({ ok: false, response: NextResponse.json(body, { status }) });
+
+// Validate an /api/ai-move-v3 body (shared by the JSON and streaming routes)
+export function parseMoveRequest(body: unknown): ParsedMoveRequest {
+  const fields: Record<string, unknown> = typeof body === 'object' && body !== null ? { ...body } : {};
+  const { fen, tacticalPatterns, moveCount, aiColor = 'b', engine: engineName, timeLimitMs, difficulty } = fields;
+  if (typeof fen !== 'string' || !fen) {
+    return reject({ error: 'FEN string is required' });
+  }
+
+  const validation = validateFen(fen);
+  if (!validation.ok) {
+    return reject({ error: validation.error });
+  }
+
+  const game = new Chess(fen);
+
+  const boardResult = getBoardResult(game);
+  if (boardResult) {
+    return reject({ error: 'Game is already over', gameOver: true, ...boardResult });
+  }
+
+  if (aiColor !== 'w' && aiColor !== 'b') {
+    return reject({ error: 'aiColor must be "w" or "b"' });
+  }
+
+  if (game.turn() !== aiColor) {
+    console.error(`🤖 V3 API - ERROR: Not ${getColorName(aiColor)}'s turn! Turn is:`, game.turn());
+    return reject({ error: `Not ${getColorName(aiColor)}'s turn` });
+  }
+
+  if (engineName !== undefined && !isEngineName(engineName)) {
+    return reject({ error: `Unknown engine: ${engineName}` });
+  }
+
+  if (timeLimitMs !== undefined && !isLocalTimeLimit(timeLimitMs)) {
+    return reject({ error: `timeLimitMs must be a whole number of milliseconds from 1 to ${MAX_LOCAL_TIME_LIMIT}` });
+  }
+
+  if (difficulty !== undefined && !isDifficultyLevel(difficulty)) {
+    return reject({ error: 'difficulty must be a level from 1 to 10' });
+  }
+
+  if (moveCount !== undefined && !isWholeNumber(moveCount)) {
+    return reject({ error: 'moveCount must be a whole number' });
+  }
+
+  // The browser sends the current strategy's patterns as a list
+  const patterns = Array.isArray(tacticalPatterns) && tacticalPatterns.every(pattern => typeof pattern === 'string')
+    ? tacticalPatterns.join(', ')
+    : tacticalPatterns;
+  if (patterns !== undefined && typeof patterns !== 'string') {
+    return reject({ error: 'tacticalPatterns must be a string or an array of strings' });
+  }
+
+  return {
+    ok: true,
+    engineName,
+    request: {
+      fen,
+      aiColor,
+      moveCount: moveCount ?? 0,
+      tacticalPatterns: patterns || undefined,
+      timeLimitMs,
+      difficulty: difficulty === undefined ? undefined : DIFFICULTY_LEVELS[difficulty]
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMoveEngine, type MoveStreamEvent } from '@/engines';
+import { chooseMoveAtLevel } from '@/engines/difficulty';
+import { parseMoveRequest } from '../moveRequest';
+
+// Same as /api/ai-move-v3, but streams progress as NDJSON: one MoveStreamEvent per line, ending with
+// a `move` or `error` event. Closing the connection cancels the thinking.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseMoveRequest(await request.json());
+    if (!parsed.ok) {
+      return parsed.response;
+    }
+
+    const { engine, fallbackFrom } = getMoveEngine(parsed.engineName);
+    console.log(`🤖 V3 stream - Using ${engine.name} engine${fallbackFrom ? ` (instead of ${fallbackFrom})` : ''}`);
+
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: MoveStreamEvent) => {
+          if (!abort.signal.aborted) {
+            controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+          }
+        };
+
+        try {
+          const result = await chooseMoveAtLevel(engine, { ...parsed.request, onProgress: send, signal: abort.signal });
+          send({ type: 'move', ...result, fallbackFrom });
+        } catch (error) {
+          if (abort.signal.aborted) {
+            console.log('🤖 V3 stream - Cancelled by the client');
+          } else {
+            console.error('AI move v3 stream error:', error);
+            send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+          }
+        } finally {
+          if (!abort.signal.aborted) controller.close();
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
+
+  } catch (error) {
+    console.error('AI move v3 stream error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
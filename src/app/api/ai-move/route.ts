@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Chess } from 'chess.js';
-import OpenAI from 'openai';
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import { getLlmProvider } from '@/llm';
+import { getBoardResult } from '@/utils/gameResult';
 
 export async function POST(request: NextRequest) {
   try {
-    const { fen, gameHistory } = await request.json();
+    const { fen, gameHistory, aiColor = 'b' } = await request.json();
     
     
     if (!fen) {
@@ -16,21 +17,24 @@ export async function POST(request: NextRequest) {
     const game = new Chess(fen);
     
     // Check if game is over
-    if (game.isGameOver()) {
-      return NextResponse.json({ 
-        error: 'Game is already over',
-        gameOver: true,
-        result: game.isCheckmate() ? 'checkmate' : game.isStalemate() ? 'stalemate' : 'draw'
-      }, { status: 400 });
+    const boardResult = getBoardResult(game);
+    if (boardResult) {
+      return NextResponse.json({ error: 'Game is already over', gameOver: true, ...boardResult }, { status: 400 });
     }
     
-    // Check if it's black's turn
-    if (game.turn() !== 'b') {
-      return NextResponse.json({ error: 'Not black\'s turn' }, { status: 400 });
+    if (aiColor !== 'w' && aiColor !== 'b') {
+      return NextResponse.json({ error: 'aiColor must be "w" or "b"' }, { status: 400 });
     }
 
-    // Check if black has opened yet (determine if we're in opening phase)
-    const hasBlackOpened = hasBlackMadeOpeningMove(game);
+    const sideName = aiColor === 'w' ? 'white' : 'black';
+
+    // Check if it's the AI's turn
+    if (game.turn() !== aiColor) {
+      return NextResponse.json({ error: `Not ${sideName}'s turn` }, { status: 400 });
+    }
+
+    // Check if the AI has opened yet (determine if we're in opening phase)
+    const hasAIOpened = hasMadeOpeningMove(game);
     // Get all possible moves
     const moves = game.moves({ verbose: true });
     
@@ -38,10 +42,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No moves available' }, { status: 400 });
     }
 
-    // Initialize OpenAI client
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    // LLM provider configured by LLM_PROVIDER
+    const llm = getLlmProvider();
 
     // Create a visual representation of the board
     const boardVisual = createBoardVisual(game);
@@ -60,9 +62,9 @@ export async function POST(request: NextRequest) {
       description: `${move.piece.toUpperCase()} from ${move.from} to ${move.to}${move.captured ? ` (captures ${move.captured.toUpperCase()})` : ''}`
     }));
 
-    // Load openings prompt if black hasn't opened yet
+    // Load openings prompt if the AI hasn't opened yet
     let openingsContent = '';
-    if (!hasBlackOpened) {
+    if (!hasAIOpened) {
       try {
         const openingsPath = join(process.cwd(), 'src', 'prompts', 'openings.prompt');
         openingsContent = readFileSync(openingsPath, 'utf-8');
@@ -71,23 +73,23 @@ export async function POST(request: NextRequest) {
         console.warn('Could not load openings prompt:', error);
       }
     } else {
-      console.log('🚫 Skipping openings prompt - Black has opened');
+      console.log(`🚫 Skipping openings prompt - ${sideName} has opened`);
     }
 
     // Create the prompt for the LLM
-    const prompt = `You are a chess expert playing as black. Here's the current board position:
+    const prompt = `You are a chess expert playing as ${sideName}. Here's the current board position:
 
 ${boardVisual}
 
 Current FEN: ${fen}
-It's black's turn to move.
+It's ${sideName}'s turn to move.
 
 Recent moves (last 6): ${recentMoves.length > 0 ? recentMoves.join(', ') : 'Game just started'}
 
 Available moves:
 ${formattedMoves.map((move, index) => `${index + 1}. ${move.notation} - ${move.description}`).join('\n')}
 
-${!hasBlackOpened && openingsContent ? `
+${!hasAIOpened && openingsContent ? `
 
 OPENING THEORY REFERENCE:
 ${openingsContent}
@@ -101,7 +103,7 @@ Please analyze the position and choose the best move. Consider:
 - Pawn structure
 - Tactical opportunities
 - Positional advantages
-${!hasBlackOpened ? '- Opening principles and theory' : ''}
+${!hasAIOpened ? '- Opening principles and theory' : ''}
 
 Respond in this exact format:
 MOVE: [move notation]
@@ -111,24 +113,22 @@ Example:
 MOVE: Nf6
 REASONING: This develops the knight to a natural square, controls the center, and prepares for castling. It also puts pressure on the e4 square and follows opening principles.`;
 
-    // Call OpenAI API
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: "You are a chess expert. Always respond in the exact format requested: MOVE: [notation] REASONING: [analysis]"
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      max_tokens: 200,
+    // Call the LLM
+    const completion = await llm.complete([
+      {
+        role: "system",
+        content: "You are a chess expert. Always respond in the exact format requested: MOVE: [notation] REASONING: [analysis]"
+      },
+      {
+        role: "user",
+        content: prompt
+      }
+    ], {
+      maxTokens: 200,
       temperature: 0.1,
     });
     console.log('LLM prompt:', prompt)
-    const llmResponse = completion.choices[0]?.message?.content?.trim();
+    const llmResponse = completion.content?.trim();
    
     
     if (!llmResponse) {
@@ -233,15 +233,16 @@ function getPieceSymbol(piece: any): string {
   return symbols[piece.color][piece.type] || '?';
 }
 
-// Helper function to determine if black has made an opening move
-function hasBlackMadeOpeningMove(game: Chess): boolean {
-  // Get the fullmove number from FEN - this tells us how many complete moves have been made
+// Helper function to determine if the side to move has made an opening move
+function hasMadeOpeningMove(game: Chess): boolean {
+  // Get the fullmove number from FEN - this tells us how many complete moves have been made.
+  // On its own turn, either side has already moved once the fullmove number reaches 2.
   const fen = game.fen();
   const fullmoveNumber = parseInt(fen.split(' ')[5]);
   console.log('📊 Fullmove number from FEN:', fullmoveNumber);
   
-  const blackHasMoved = fullmoveNumber >= 2;
-  console.log('📋 Black has moved:', blackHasMoved);
+  const sideHasMoved = fullmoveNumber >= 2;
+  console.log('📋 Side to move has moved:', sideHasMoved);
   
-  return blackHasMoved;
+  return sideHasMoved;
 }
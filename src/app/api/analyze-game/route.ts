@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFen } from 'chess.js';
+import { DEFAULT_EVALUATION_TIME_LIMIT } from '@/engines/evaluator';
+import { analyzeGame } from '@/engines/gameAnalysis';
+import { isLocalTimeLimit, MAX_LOCAL_TIME_LIMIT } from '@/engines/localEngine';
+
+const MAX_PLIES = 400;
+// Positions are searched one after another, each holding the server, so the whole game shares this budget
+const MAX_TOTAL_TIME_MS = 60_000;
+
+// Post-game review: evaluates every position and classifies each move for both sides
+export async function POST(request: NextRequest) {
+  try {
+    const { moves, startFen, timeLimitMs } = await request.json();
+
+    if (!Array.isArray(moves) || moves.length === 0 || !moves.every(move => typeof move === 'string')) {
+      return NextResponse.json({ error: 'moves must be a non-empty array of SAN strings' }, { status: 400 });
+    }
+
+    if (moves.length > MAX_PLIES) {
+      return NextResponse.json({ error: `Games longer than ${MAX_PLIES} plies can't be analyzed` }, { status: 400 });
+    }
+
+    if (startFen !== undefined) {
+      const validation = validateFen(startFen);
+      if (!validation.ok) {
+        return NextResponse.json({ error: validation.error }, { status: 400 });
+      }
+    }
+
+    if (timeLimitMs !== undefined && !isLocalTimeLimit(timeLimitMs)) {
+      return NextResponse.json(
+        { error: `timeLimitMs must be a whole number of milliseconds from 1 to ${MAX_LOCAL_TIME_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    // Long games get less time per position (at least 149 ms for the longest)
+    const positionTimeLimitMs = Math.min(
+      timeLimitMs ?? DEFAULT_EVALUATION_TIME_LIMIT,
+      Math.floor(MAX_TOTAL_TIME_MS / (moves.length + 1))
+    );
+
+    const started = Date.now();
+    const analysis = await analyzeGame({ moves, startFen, timeLimitMs: positionTimeLimitMs });
+    console.log(
+      `📊 Game analysis: ${moves.length} plies in ${Date.now() - started}ms - ` +
+      `accuracy White ${analysis.accuracy.w ?? '-'}%, Black ${analysis.accuracy.b ?? '-'}%`
+    );
+
+    return NextResponse.json(analysis);
+
+  } catch (error) {
+    console.error('Game analysis error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
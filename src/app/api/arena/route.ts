@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createArenaOutput,
+  createMatchId,
+  getArenaDirectory,
+  runArenaMatch,
+  validateArenaOptions,
+  type ArenaEvent
+} from '@/arena';
+
+// Development harness: plays two move-route configurations against each other and streams the match
+// as NDJSON, one ArenaEvent per line, ending with a `report` or `error` event. Closing the
+// connection stops the match.
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === 'production' && process.env.ENABLE_ARENA !== 'true') {
+      return NextResponse.json({ error: 'The arena is disabled in production' }, { status: 403 });
+    }
+
+    const parsed = validateArenaOptions(await request.json());
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const options = parsed.value;
+    const matchId = createMatchId();
+    const output = createArenaOutput(getArenaDirectory(matchId));
+    console.log(`🏁 Arena match ${matchId}: ${options.games} games, saving to ${output.directory}`);
+
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ArenaEvent) => {
+          if (!abort.signal.aborted) {
+            controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+          }
+        };
+
+        try {
+          const report = await runArenaMatch(matchId, options, output, send, abort.signal);
+          console.log(`🏁 Arena match ${matchId}: ${report.labels.a} ${report.score} - ` +
+            `${report.games - report.score} ${report.labels.b}`);
+          send({ type: 'report', report });
+        } catch (error) {
+          if (abort.signal.aborted) {
+            console.log(`🏁 Arena match ${matchId}: cancelled by the client`);
+          } else {
+            console.error('Arena error:', error);
+            send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+          }
+        } finally {
+          if (!abort.signal.aborted) controller.close();
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
+
+  } catch (error) {
+    console.error('Arena error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Chess, validateFen } from 'chess.js';
+import { decideDrawOffer } from '@/engines/drawPolicy';
+import { getBoardResult } from '@/utils/gameResult';
+
+// The human offers a draw; the AI answers based on its evaluation of the position
+export async function POST(request: NextRequest) {
+  try {
+    const { fen, aiColor } = await request.json();
+    if (!fen) {
+      return NextResponse.json({ error: 'FEN string is required' }, { status: 400 });
+    }
+
+    const validation = validateFen(fen);
+    if (!validation.ok) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    if (aiColor !== 'w' && aiColor !== 'b') {
+      return NextResponse.json({ error: 'aiColor must be "w" or "b"' }, { status: 400 });
+    }
+
+    const boardResult = getBoardResult(new Chess(fen));
+    if (boardResult) {
+      return NextResponse.json({ error: 'Game is already over', gameOver: true, ...boardResult }, { status: 400 });
+    }
+
+    const decision = await decideDrawOffer(fen, aiColor);
+    console.log(`🤝 Draw offer ${decision.accepted ? 'accepted' : 'declined'} (AI eval ${decision.evaluation.toFixed(2)})`);
+
+    return NextResponse.json(decision);
+
+  } catch (error) {
+    console.error('Draw offer error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Chess, validateFen } from 'chess.js';
+import { evaluateFen } from '@/engines/evaluator';
+import { MAX_LOCAL_TIME_LIMIT } from '@/engines/localEngine';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { fen, timeLimitMs } = await request.json();
+    if (!fen) {
+      return NextResponse.json({ error: 'FEN string is required' }, { status: 400 });
+    }
+
+    const validation = validateFen(fen);
+    if (!validation.ok) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    if (timeLimitMs !== undefined && (!Number.isInteger(timeLimitMs) || timeLimitMs <= 0)) {
+      return NextResponse.json({ error: 'timeLimitMs must be a positive whole number of milliseconds' }, { status: 400 });
+    }
+
+    if (new Chess(fen).isGameOver()) {
+      return NextResponse.json({ error: 'Game is already over', gameOver: true }, { status: 400 });
+    }
+
+    const evaluation = await evaluateFen(fen, timeLimitMs === undefined ? undefined : Math.min(timeLimitMs, MAX_LOCAL_TIME_LIMIT));
+    return NextResponse.json(evaluation);
+
+  } catch (error) {
+    console.error('Evaluation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGameStore, validateGameInput } from '@/games';
+
+interface GameRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = (id: string) => NextResponse.json({ error: `No archived game ${id}` }, { status: 404 });
+
+const serverError = (label: string, error: unknown) => {
+  console.error(`${label}:`, error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+};
+
+// One archived game with its full record: moves, FENs, reasoning, strategies and clock times
+export async function GET(_request: NextRequest, { params }: GameRouteContext) {
+  try {
+    const { id } = await params;
+    const game = await getGameStore().get(id);
+    return game ? NextResponse.json(game) : notFound(id);
+  } catch (error) {
+    return serverError('Game fetch error', error);
+  }
+}
+
+// Replace an archived game with its latest state, e.g. after more moves were played
+export async function PUT(request: NextRequest, { params }: GameRouteContext) {
+  try {
+    const { id } = await params;
+    const validation = validateGameInput(await request.json());
+    if (!validation.ok) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const game = await getGameStore().update(id, validation.value);
+    return game ? NextResponse.json(game) : notFound(id);
+  } catch (error) {
+    return serverError('Game update error', error);
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: GameRouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getGameStore().delete(id))) {
+      return notFound(id);
+    }
+    console.log(`🗄️ Deleted archived game ${id}`);
+    return NextResponse.json({ deleted: true, id });
+  } catch (error) {
+    return serverError('Game delete error', error);
+  }
+}
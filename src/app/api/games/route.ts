@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGameStore, parseGameFilter, validateGameInput } from '@/games';
+
+// List archived games, newest first, optionally filtered by result, date, opening and AI version
+export async function GET(request: NextRequest) {
+  try {
+    const filter = parseGameFilter(request.nextUrl.searchParams);
+    if (!filter.ok) {
+      return NextResponse.json({ error: filter.error }, { status: 400 });
+    }
+
+    const games = await getGameStore().list(filter.value);
+    return NextResponse.json({ games });
+
+  } catch (error) {
+    console.error('Game list error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Archive a new game
+export async function POST(request: NextRequest) {
+  try {
+    const validation = validateGameInput(await request.json());
+    if (!validation.ok) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const game = await getGameStore().create(validation.value);
+    console.log(`🗄️ Archived game ${game.id} (${game.moves.length} plies)`);
+    return NextResponse.json(game, { status: 201 });
+
+  } catch (error) {
+    console.error('Game archive error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
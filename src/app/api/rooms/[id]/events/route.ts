@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomStore, type RoomState } from '@/multiplayer';
+
+interface RoomRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Proxies drop connections that stay silent for too long
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+// Server-sent events: the room's state now and after every change. Players pass their seat
+// token (?token=...) so the others see them as connected; anyone else is a spectator.
+export async function GET(request: NextRequest, { params }: RoomRouteContext) {
+  const { id } = await params;
+  if (!getRoomStore().get(id)) {
+    return NextResponse.json({ error: `No room ${id}` }, { status: 404 });
+  }
+
+  const token = request.nextUrl.searchParams.get('token');
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // A client that went away without the request being aborted is dropped on the next write
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          stop();
+        }
+      };
+      const send = (state: RoomState) => write(`data: ${JSON.stringify(state)}\n\n`);
+      const unsubscribe = getRoomStore().subscribe(id, token, send);
+      if (!unsubscribe) {
+        controller.close();
+        return;
+      }
+
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+      stop = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+        stop = () => {};
+      };
+      request.signal.addEventListener('abort', () => {
+        stop();
+        controller.close();
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomStore } from '@/multiplayer';
+
+interface RoomRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Take the free seat: the colour the room's creator didn't pick
+export async function POST(_request: NextRequest, { params }: RoomRouteContext) {
+  const { id } = await params;
+  const store = getRoomStore();
+  const joined = store.join(id);
+  if (!joined.ok) {
+    return NextResponse.json({ error: joined.error }, { status: joined.status });
+  }
+
+  console.log(`👥 Room ${id}: ${joined.value.color === 'w' ? 'White' : 'Black'} joined`);
+  return NextResponse.json({ ticket: joined.value, room: store.get(id) });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomStore } from '@/multiplayer';
+
+interface RoomRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Play a move for the seat `token` holds; chess.js checks it's legal and that seat's turn
+export async function POST(request: NextRequest, { params }: RoomRouteContext) {
+  try {
+    const { id } = await params;
+    const { token, move } = await request.json();
+    if (typeof token !== 'string' || typeof move !== 'string') {
+      return NextResponse.json({ error: 'token and move (SAN) are required' }, { status: 400 });
+    }
+
+    const played = getRoomStore().move(id, token, move);
+    if (!played.ok) {
+      return NextResponse.json({ error: played.error }, { status: played.status });
+    }
+    return NextResponse.json(played.value);
+
+  } catch (error) {
+    console.error('Room move error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomStore } from '@/multiplayer';
+
+interface RoomRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RoomRouteContext) {
+  try {
+    const { id } = await params;
+    const { token } = await request.json();
+    if (typeof token !== 'string') {
+      return NextResponse.json({ error: 'token is required' }, { status: 400 });
+    }
+
+    const resigned = getRoomStore().resign(id, token);
+    if (!resigned.ok) {
+      return NextResponse.json({ error: resigned.error }, { status: resigned.status });
+    }
+    console.log(`🏳️ Room ${id}: resignation`);
+    return NextResponse.json(resigned.value);
+
+  } catch (error) {
+    console.error('Room resign error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomStore } from '@/multiplayer';
+
+interface RoomRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The room's game and who is in it, e.g. to decide whether to join or watch
+export async function GET(_request: NextRequest, { params }: RoomRouteContext) {
+  const { id } = await params;
+  const room = getRoomStore().get(id);
+  return room
+    ? NextResponse.json(room)
+    : NextResponse.json({ error: `No room ${id}` }, { status: 404 });
+}
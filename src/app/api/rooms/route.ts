@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomStore, type Seat } from '@/multiplayer';
+
+// Open a room for two humans; the creator takes a seat and shares the room link with the opponent
+export async function POST(request: NextRequest) {
+  try {
+    // No body at all means the defaults
+    const text = await request.text();
+    let body;
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const { color = 'w' } = body ?? {};
+    if (color !== 'w' && color !== 'b' && color !== 'random') {
+      return NextResponse.json({ error: 'color must be "w", "b" or "random"' }, { status: 400 });
+    }
+
+    const seat: Seat = color === 'random' ? (Math.random() < 0.5 ? 'w' : 'b') : color;
+    const store = getRoomStore();
+    const ticket = store.create(seat);
+    console.log(`👥 Room ${ticket.roomId} created`);
+
+    return NextResponse.json({ ticket, room: store.get(ticket.roomId) }, { status: 201 });
+
+  } catch (error) {
+    console.error('Room create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isDifficultyLevel } from '@/engines/difficulty';
+import { MAX_LOCAL_TIME_LIMIT } from '@/engines/localEngine';
+import { runSelfPlayMatch } from '@/engines/selfPlay';
+
+const MAX_GAMES = 50;
+// The local engine searches synchronously, so a match has to stay short enough not to stall the server
+const MAX_PLIES = 400;
+
+const isIntegerInRange = (value: unknown, max: number) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max;
+
+// Development harness: pits two difficulty levels of the local engine against each other
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === 'production' && process.env.ENABLE_SELF_PLAY !== 'true') {
+      return NextResponse.json({ error: 'Self-play is disabled in production' }, { status: 403 });
+    }
+
+    const {
+      levelA,
+      levelB,
+      games = 4,
+      timeLimitMs = 100,
+      maxPlies = 200,
+      seed = Date.now()
+    } = await request.json();
+
+    if (!isDifficultyLevel(levelA) || !isDifficultyLevel(levelB)) {
+      return NextResponse.json({ error: 'levelA and levelB must be levels from 1 to 10' }, { status: 400 });
+    }
+
+    if (!isIntegerInRange(games, MAX_GAMES)) {
+      return NextResponse.json({ error: `games must be between 1 and ${MAX_GAMES}` }, { status: 400 });
+    }
+
+    if (!isIntegerInRange(timeLimitMs, MAX_LOCAL_TIME_LIMIT)) {
+      return NextResponse.json({ error: `timeLimitMs must be between 1 and ${MAX_LOCAL_TIME_LIMIT}` }, { status: 400 });
+    }
+
+    if (!isIntegerInRange(maxPlies, MAX_PLIES)) {
+      return NextResponse.json({ error: `maxPlies must be between 1 and ${MAX_PLIES}` }, { status: 400 });
+    }
+
+    const match = await runSelfPlayMatch({ levelA, levelB, games, timeLimitMs, maxPlies, seed });
+    console.log(`🏁 Self-play match: level ${levelA} ${match.score.levelA} - ${match.score.levelB} level ${levelB}`);
+
+    return NextResponse.json({ ...match, seed });
+
+  } catch (error) {
+    console.error('Self-play error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,45 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Chess } from 'chess.js';
-import OpenAI from 'openai';
-import { openingsPrompt } from '@/prompts/openings';
+import { createOpeningPrompt } from '@/prompts/openings';
+import { getOpeningAt } from '@/openings/eco';
 import { middleGamePrompt } from '@/prompts/middleGame';
 import { endgamePrompt } from '@/prompts/endGame';
 import {
   determineGamePhase,
   analyzePosition,
   analyzeHistoricalMoves,
-  createBoardVisual
+  createBoardVisual,
+  getColorName
 } from '@/utils/chessUtils';
+import { getBoardResult } from '@/utils/gameResult';
+import { getLlmProvider } from '@/llm';
+import {
+  STRATEGY_SCHEMA,
+  parseStructuredResponse,
+  type StructuredOutputMetadata,
+  type StructuredStrategyResponse
+} from '@/utils/structuredOutput';
+
+const STRATEGY_RESPONSE_FORMAT = 'tactical_strategy';
 
 export async function POST(request: NextRequest) {
   try {
-    const { fen, gameHistory, currentStrategy, moveCount } = await request.json();
+    const { fen, gameHistory, currentStrategy, moveCount, aiColor = 'b' } = await request.json();
 
     if (!fen) {
       return NextResponse.json({ error: 'FEN string is required' }, { status: 400 });
     }
 
     const game = new Chess(fen);
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const llm = getLlmProvider();
     
-    if (game.isGameOver()) {
-      return NextResponse.json({ 
-        error: 'Game is already over',
-        gameOver: true,
-        result: game.isCheckmate() ? 'checkmate' : game.isStalemate() ? 'stalemate' : 'draw'
-      }, { status: 400 });
+    const boardResult = getBoardResult(game);
+    if (boardResult) {
+      return NextResponse.json({ error: 'Game is already over', gameOver: true, ...boardResult }, { status: 400 });
     }
 
     const recentMoves = game.history().slice(-10); // Use actual game history instead of passed gameHistory
     const gamePhase = determineGamePhase(game, moveCount);
     const positionAnalysis = analyzePosition(game);
-    const historicalAnalysis = await analyzeHistoricalMoves(recentMoves, openai);
+    const historicalAnalysis = await analyzeHistoricalMoves(recentMoves, llm);
 
     // Create tactical strategy prompt based on game phase
     let phasePrompt = '';
     switch (gamePhase) {
       case 'opening':
-        phasePrompt = openingsPrompt;
+        phasePrompt = createOpeningPrompt(getOpeningAt(fen));
         break;
       case 'middlegame':
         phasePrompt = middleGamePrompt;
@@ -54,10 +62,11 @@ export async function POST(request: NextRequest) {
     const tacticalStrategyPrompt = `
 # TACTICAL STRATEGY ANALYSIS
 
-You are analyzing the current chess position to develop a comprehensive tactical strategy for the next several moves.
+You are analyzing the current chess position to develop a comprehensive tactical strategy for ${getColorName(aiColor)} for the next several moves.
 
 ## CURRENT POSITION ANALYSIS
 **FEN:** ${fen}
+**Playing As:** ${getColorName(aiColor)}
 **Game Phase:** ${gamePhase}
 **Move History:** ${recentMoves.join(' ')}
 
@@ -65,7 +74,7 @@ You are analyzing the current chess position to develop a comprehensive tactical
 ${createBoardVisual(game)}
 
 ## POSITION ANALYSIS
-${positionAnalysis}
+${positionAnalysis.summary}
 
 ## HISTORICAL ANALYSIS
 ${historicalAnalysis}
@@ -89,79 +98,40 @@ Develop a comprehensive tactical strategy that will guide the next 3-5 moves. Th
 If there's a previous strategy, use it as context to maintain strategic continuity while adapting to the current position.
 
 ## OUTPUT FORMAT
-Respond with a JSON object containing:
-
-\`\`\`json
-{
-  "strategy": {
-    "primaryGoal": "Main strategic objective for the next few moves",
-    "tacticalPatterns": [
-      "Specific tactical pattern 1",
-      "Specific tactical pattern 2",
-      "Specific tactical pattern 3"
-    ],
-    "pieceCoordination": "How pieces should work together",
-    "keySquares": ["e4", "d5", "f7"],
-    "pawnStructure": "Pawn structure goals and weaknesses to target",
-    "opponentThreats": "What to watch out for from opponent",
-    "movePriorities": [
-      "Priority 1: Specific move or idea",
-      "Priority 2: Specific move or idea",
-      "Priority 3: Specific move or idea"
-    ]
-  },
-  "reasoning": "Detailed explanation of why this strategy fits the current position",
-  "gamePhase": "${gamePhase}",
-  "timestamp": ${Date.now()}
-}
-\`\`\`
+Respond with a JSON object containing a "strategy" (primaryGoal, tacticalPatterns, pieceCoordination, keySquares, pawnStructure, opponentThreats, movePriorities) and a "reasoning" field explaining why this strategy fits the current position.
 
 Focus on creating a strategy that can be consistently applied across multiple moves while remaining adaptable to the opponent's responses.
 `;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: tacticalStrategyPrompt }],
+    const completion = await llm.complete([{ role: 'user', content: tacticalStrategyPrompt }], {
       temperature: 0.6,
-      max_tokens: 800,
+      maxTokens: 800,
+      responseFormat: { name: STRATEGY_RESPONSE_FORMAT, schema: STRATEGY_SCHEMA },
     });
 
-    const response = completion.choices[0]?.message?.content || '';
-    
-    // Try to parse JSON response
-    let strategyData;
-    try {
-      // Extract JSON from response if it's wrapped in markdown
-      const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || response.match(/\{[\s\S]*\}/);
-      const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : response;
-      strategyData = JSON.parse(jsonString);
-    } catch (parseError) {
-      console.error('Failed to parse strategy JSON:', parseError);
-      // Fallback: create a basic strategy structure
-      strategyData = {
-        strategy: {
-          primaryGoal: "Develop pieces and control the center",
-          tacticalPatterns: ["Control key central squares", "Develop pieces harmoniously", "Maintain king safety"],
-          pieceCoordination: "Coordinate pieces for central control",
-          keySquares: ["e4", "e5", "d4", "d5"],
-          pawnStructure: "Maintain solid pawn structure",
-          opponentThreats: "Watch for tactical shots and counterplay",
-          movePriorities: ["Develop pieces", "Control center", "Castle"]
-        },
-        reasoning: response || "Generated basic strategy due to parsing error",
-        gamePhase: gamePhase,
-        timestamp: Date.now()
-      };
+    const { data, violations } = parseStructuredResponse<StructuredStrategyResponse>(completion, STRATEGY_SCHEMA);
+    const metadata: StructuredOutputMetadata = {
+      responseFormat: STRATEGY_RESPONSE_FORMAT,
+      attempts: 1,
+      schemaViolations: violations.map(violation => `attempt 1: ${violation}`),
+      degraded: !data,
+    };
+
+    if (!data) {
+      // Degraded mode: no strategy this time; the client keeps whatever it already has
+      console.warn('🎯 Tactical Analysis - Invalid structured response:', violations);
+    } else {
+      console.log('🎯 Tactical Analysis - Generated strategy:', data);
     }
 
-    console.log('🎯 Tactical Analysis - Generated strategy:', strategyData);
-
     return NextResponse.json({
-      strategy: strategyData.strategy,
-      reasoning: strategyData.reasoning,
-      gamePhase: strategyData.gamePhase,
-      timestamp: strategyData.timestamp || Date.now(),
-      fen: fen
+      strategy: data?.strategy ?? null,
+      reasoning: data?.reasoning ?? null,
+      gamePhase,
+      timestamp: Date.now(),
+      fen: fen,
+      degraded: metadata.degraded,
+      metadata
     });
 
   } catch (error) {
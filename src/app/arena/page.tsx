@@ -0,0 +1,16 @@
+import Arena from '@/components/Arena';
+
+export default function ArenaPage() {
+  return (
+    <div className="min-h-screen bg-gray-100 py-8">
+      <div className="container mx-auto px-4">
+        <h1 className="text-4xl font-bold text-center mb-8 text-gray-800">
+          AI Arena
+        </h1>
+        <div className="flex justify-center">
+          <Arena />
+        </div>
+      </div>
+    </div>
+  );
+}
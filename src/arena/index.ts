@@ -0,0 +1,32 @@
+import { join } from 'path';
+
+export type {
+  ArenaEvent,
+  ArenaGame,
+  ArenaOpening,
+  ArenaOptions,
+  ArenaPlayer,
+  ArenaPlayerStats,
+  ArenaReport,
+  ArenaRequest,
+  ArenaRoute,
+  ArenaSide,
+  EloEstimate
+} from './types';
+export type { ArenaOutput } from './runner';
+export { ARENA_OPENINGS } from './openings';
+export { getPlayerLabel } from './players';
+export { estimateElo } from './stats';
+export { runArenaMatch } from './runner';
+export { createArenaOutput } from './output';
+export { validateArenaOptions } from './validate';
+
+// Where match directories are created unless ARENA_DIR says otherwise
+export const DEFAULT_ARENA_DIR = join(process.cwd(), 'data', 'arena');
+
+// A sortable, file-system-safe id, e.g. 2026-10-19T19-06-14-789Z
+export const createMatchId = (date = new Date()) => date.toISOString().replace(/[:.]/g, '-');
+
+export function getArenaDirectory(matchId: string): string {
+  return join(process.env.ARENA_DIR || DEFAULT_ARENA_DIR, matchId);
+}
@@ -0,0 +1,14 @@
+import type { ArenaOpening } from './types';
+
+// Balanced, well-known start lines. Each is played twice in a row with colours swapped, so neither
+// side gets the better end of an opening.
+export const ARENA_OPENINGS: ArenaOpening[] = [
+  { name: 'Ruy Lopez', moves: ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6'] },
+  { name: 'Sicilian Defense, Najdorf', moves: ['e4', 'c5', 'Nf3', 'd6', 'd4', 'cxd4', 'Nxd4', 'Nf6', 'Nc3', 'a6'] },
+  { name: 'French Defense', moves: ['e4', 'e6', 'd4', 'd5', 'Nc3', 'Nf6'] },
+  { name: 'Caro-Kann Defense', moves: ['e4', 'c6', 'd4', 'd5', 'Nc3', 'dxe4', 'Nxe4', 'Bf5'] },
+  { name: "Queen's Gambit Declined", moves: ['d4', 'd5', 'c4', 'e6', 'Nc3', 'Nf6'] },
+  { name: 'Slav Defense', moves: ['d4', 'd5', 'c4', 'c6', 'Nf3', 'Nf6'] },
+  { name: "King's Indian Defense", moves: ['d4', 'Nf6', 'c4', 'g6', 'Nc3', 'Bg7', 'e4', 'd6'] },
+  { name: 'English Opening', moves: ['c4', 'e5', 'Nc3', 'Nf6', 'Nf3', 'Nc6'] },
+];
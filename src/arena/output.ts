@@ -0,0 +1,24 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { ArenaOutput } from './runner';
+
+// A match's own directory: every game as game-001.pgn and so on, all of them in match.pgn, and
+// report.json once the match is over
+export function createArenaOutput(directory: string): ArenaOutput {
+  const ready = mkdir(directory, { recursive: true });
+
+  return {
+    directory,
+
+    async saveGame(game) {
+      await ready;
+      await writeFile(join(directory, `game-${String(game.round).padStart(3, '0')}.pgn`), game.pgn);
+      await writeFile(join(directory, 'match.pgn'), `${game.pgn}\n`, { flag: 'a' });
+    },
+
+    async saveReport(report) {
+      await ready;
+      await writeFile(join(directory, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+    },
+  };
+}
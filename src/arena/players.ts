@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { POST as moveV1 } from '@/app/api/ai-move/route';
+import { POST as moveV2 } from '@/app/api/ai-move-v2/route';
+import { POST as moveV3 } from '@/app/api/ai-move-v3/route';
+import { DIFFICULTY_LEVELS, getDifficultyLabel } from '@/engines/difficulty';
+import type { ArenaPlayer, ArenaRoute } from './types';
+
+export interface ArenaMoveRequest {
+  fen: string;
+  color: 'w' | 'b';
+  history: string[]; // SAN moves so far
+  timeLimitMs: number;
+}
+
+// What a route answered: a move to check, or why there isn't one
+export type ArenaMoveReply =
+  | { ok: true; move: string; reasoning?: string; routeRetries: number; fallback: boolean }
+  | { ok: false; error: string };
+
+const ROUTES: Record<ArenaRoute, { path: string; handler: (request: NextRequest) => Promise<Response> }> = {
+  v1: { path: '/api/ai-move', handler: moveV1 },
+  v2: { path: '/api/ai-move-v2', handler: moveV2 },
+  v3: { path: '/api/ai-move-v3', handler: moveV3 },
+};
+
+// e.g. "v3 local, Level 8 (~1800)" or "v1"
+export function getPlayerLabel({ route, engine, difficulty }: ArenaPlayer): string {
+  if (route !== 'v3') return route;
+  const parts = [engine ?? 'default engine', difficulty ? getDifficultyLabel(DIFFICULTY_LEVELS[difficulty]) : null];
+  return `v3 ${parts.filter(Boolean).join(', ')}`;
+}
+
+// Each route's own body: v1 wants the recent moves, v3 its engine settings and time limit
+function buildBody(player: ArenaPlayer, { fen, color, history, timeLimitMs }: ArenaMoveRequest): Record<string, unknown> {
+  switch (player.route) {
+    case 'v1':
+      return { fen, aiColor: color, gameHistory: history };
+    case 'v2':
+      return { fen, aiColor: color };
+    case 'v3':
+      return {
+        fen,
+        aiColor: color,
+        moveCount: history.length,
+        engine: player.engine,
+        difficulty: player.difficulty,
+        timeLimitMs,
+      };
+  }
+}
+
+// Ask the player's route for a move, calling its handler in this process as a request would.
+// v1 marks a move it substituted for an unusable reply with `fallback`; v3 reports its attempts.
+export async function requestArenaMove(player: ArenaPlayer, request: ArenaMoveRequest): Promise<ArenaMoveReply> {
+  const { path, handler } = ROUTES[player.route];
+  const response = await handler(new NextRequest(new URL(path, 'http://arena.local'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(buildBody(player, request)),
+  }));
+  const data = await response.json();
+
+  if (!response.ok || typeof data.move !== 'string') {
+    return { ok: false, error: data.error || `${path} answered ${response.status}` };
+  }
+  return {
+    ok: true,
+    move: data.move,
+    reasoning: typeof data.reasoning === 'string' ? data.reasoning : undefined,
+    routeRetries: Math.max(0, (data.metadata?.attempts ?? 1) - 1),
+    fallback: data.fallback === true || data.metadata?.degraded === true,
+  };
+}
@@ -0,0 +1,187 @@
+import { Chess } from 'chess.js';
+import { trackLlmUsage } from '@/llm/usage';
+import { exportPgn, formatPgnDate, type PgnMove } from '@/utils/pgnUtils';
+import { END_REASON_LABELS, getBoardResult, getLinePositions, type GameResultToken } from '@/utils/gameResult';
+import { getPlayerLabel, requestArenaMove } from './players';
+import { addPlayerStats, addUsage, emptyPlayerStats, estimateElo } from './stats';
+import type { ArenaEvent, ArenaGame, ArenaOptions, ArenaPlayerStats, ArenaReport, ArenaSide } from './types';
+
+// Requests per move before a side forfeits the game: the first try and two retries
+const MAX_MOVE_ATTEMPTS = 3;
+
+export interface ArenaOutput {
+  directory: string;
+  saveGame(game: ArenaGame): Promise<void>;
+  saveReport(report: ArenaReport): Promise<void>;
+}
+
+const other = (side: ArenaSide): ArenaSide => (side === 'a' ? 'b' : 'a');
+
+// Play one game from the round's opening. A side that can't come up with a legal move in
+// MAX_MOVE_ATTEMPTS requests loses it.
+async function playArenaGame(
+  round: number,
+  options: ArenaOptions,
+  labels: Record<ArenaSide, string>,
+  onEvent: (event: ArenaEvent) => void,
+  signal?: AbortSignal
+): Promise<ArenaGame> {
+  const { timeLimitMs, maxPlies, openings } = options;
+  // Each opening twice, A taking White first
+  const opening = openings[Math.floor((round - 1) / 2) % openings.length];
+  const white: ArenaSide = round % 2 === 1 ? 'a' : 'b';
+  const sideToMove = (game: Chess): ArenaSide => (game.turn() === 'w' ? white : other(white));
+
+  const game = new Chess();
+  const moves: PgnMove[] = [];
+  for (const move of opening.moves) {
+    const played = game.move(move);
+    moves.push({ move: played.san, color: played.color, fen: game.fen() });
+  }
+
+  const stats: Record<ArenaSide, ArenaPlayerStats> = { a: emptyPlayerStats(), b: emptyPlayerStats() };
+  let forfeit: ArenaSide | null = null;
+
+  while (!getBoardResult(game, getLinePositions(moves)) && moves.length < maxPlies && !forfeit) {
+    signal?.throwIfAborted();
+    const side = sideToMove(game);
+    const player = side === 'a' ? options.playerA : options.playerB;
+    const sideStats = stats[side];
+    let played = false;
+
+    for (let attempt = 1; attempt <= MAX_MOVE_ATTEMPTS && !played; attempt++) {
+      const startedAt = Date.now();
+      const { value: reply, usage } = await trackLlmUsage(() => requestArenaMove(player, {
+        fen: game.fen(),
+        color: game.turn(),
+        history: moves.map(entry => entry.move),
+        timeLimitMs,
+      }));
+      const latencyMs = Date.now() - startedAt;
+      sideStats.usage = addUsage(sideStats.usage, usage); // failed attempts cost tokens too
+
+      const move = reply.ok ? tryMove(game, reply.move) : null;
+      if (!reply.ok || !move) {
+        sideStats.retries++;
+        console.warn(`⚠️ Arena round ${round}: ${labels[side]} ${reply.ok ? `played illegal ${reply.move}` : `failed: ${reply.error}`}` +
+          ` (attempt ${attempt}/${MAX_MOVE_ATTEMPTS})`);
+        continue;
+      }
+
+      sideStats.moves++;
+      sideStats.totalLatencyMs += latencyMs;
+      sideStats.retries += reply.routeRetries;
+      if (reply.fallback) sideStats.fallbacks++;
+      if (latencyMs > timeLimitMs) sideStats.overTimeMoves++;
+      moves.push({ move: move.san, color: move.color, fen: game.fen(), reasoning: reply.reasoning });
+      onEvent({ type: 'move', round, ply: moves.length, move: move.san, side, latencyMs });
+      played = true;
+    }
+
+    if (!played) forfeit = side;
+  }
+
+  // Games cut off at the move limit are scored as draws, like self-play
+  const boardResult = getBoardResult(game, getLinePositions(moves));
+  let result: GameResultToken;
+  let termination: string;
+  if (forfeit) {
+    result = forfeit === white ? '0-1' : '1-0';
+    termination = `forfeit (${labels[forfeit]} returned no legal move)`;
+  } else if (boardResult) {
+    result = boardResult.result;
+    termination = END_REASON_LABELS[boardResult.reason];
+  } else {
+    result = '1/2-1/2';
+    termination = `move limit (${maxPlies} plies)`;
+  }
+
+  return {
+    round,
+    opening: opening.name,
+    white,
+    result,
+    termination,
+    plies: moves.length,
+    stats,
+    pgn: exportPgn({
+      moves,
+      headers: {
+        Event: 'Arena',
+        Date: formatPgnDate(new Date()),
+        Round: String(round),
+        White: labels[white],
+        Black: labels[other(white)],
+        Result: result,
+        Opening: opening.name,
+        Termination: termination,
+      },
+    }),
+  };
+}
+
+// chess.js throws on illegal moves; null instead
+function tryMove(game: Chess, move: string) {
+  try {
+    return game.move(move);
+  } catch {
+    return null;
+  }
+}
+
+// Points A scored in a game
+const scoreForA = (game: ArenaGame) => {
+  if (game.result === '1/2-1/2') return 0.5;
+  const whiteWon = game.result === '1-0';
+  return whiteWon === (game.white === 'a') ? 1 : 0;
+};
+
+// Play the match game by game, saving each PGN as it finishes, and report from A's point of view.
+// Aborting `signal` stops the match before its next move; games already finished stay saved.
+export async function runArenaMatch(
+  matchId: string,
+  options: ArenaOptions,
+  output: ArenaOutput,
+  onEvent: (event: ArenaEvent) => void = () => {},
+  signal?: AbortSignal
+): Promise<ArenaReport> {
+  const labelA = getPlayerLabel(options.playerA);
+  const labelB = getPlayerLabel(options.playerB);
+  // The same configuration on both sides still needs telling apart in the PGNs
+  const labels = labelA === labelB ? { a: `${labelA} (A)`, b: `${labelB} (B)` } : { a: labelA, b: labelB };
+  const played: ArenaGame[] = [];
+  onEvent({ type: 'start', matchId, labels });
+
+  for (let round = 1; round <= options.games; round++) {
+    const game = await playArenaGame(round, options, labels, onEvent, signal);
+    played.push(game);
+    await output.saveGame(game);
+    onEvent({ type: 'game', game });
+    console.log(`🏁 Arena game ${round}/${options.games}: ${labels[game.white]} vs ${labels[other(game.white)]} ` +
+      `${game.result} (${game.termination})`);
+  }
+
+  const scores = played.map(scoreForA);
+  const wins = scores.filter(score => score === 1).length;
+  const draws = scores.filter(score => score === 0.5).length;
+  const losses = scores.filter(score => score === 0).length;
+
+  const report: ArenaReport = {
+    matchId,
+    labels,
+    options,
+    games: played.length,
+    wins,
+    draws,
+    losses,
+    score: wins + draws / 2,
+    elo: estimateElo(wins, draws, losses),
+    stats: {
+      a: played.reduce((total, game) => addPlayerStats(total, game.stats.a), emptyPlayerStats()),
+      b: played.reduce((total, game) => addPlayerStats(total, game.stats.b), emptyPlayerStats()),
+    },
+    directory: output.directory,
+  };
+  await output.saveReport(report);
+  return report;
+}
@@ -0,0 +1,55 @@
+import { emptyUsage, type LlmUsageTotals } from '@/llm/usage';
+import type { ArenaPlayerStats, EloEstimate } from './types';
+
+// Two-sided 95% interval
+const Z_95 = 1.96;
+
+export const emptyPlayerStats = (): ArenaPlayerStats => ({
+  moves: 0,
+  totalLatencyMs: 0,
+  overTimeMoves: 0,
+  retries: 0,
+  fallbacks: 0,
+  usage: emptyUsage(),
+});
+
+export const addUsage = (total: LlmUsageTotals, usage: LlmUsageTotals): LlmUsageTotals => ({
+  calls: total.calls + usage.calls,
+  promptTokens: total.promptTokens + usage.promptTokens,
+  completionTokens: total.completionTokens + usage.completionTokens,
+});
+
+export function addPlayerStats(total: ArenaPlayerStats, stats: ArenaPlayerStats): ArenaPlayerStats {
+  return {
+    moves: total.moves + stats.moves,
+    totalLatencyMs: total.totalLatencyMs + stats.totalLatencyMs,
+    overTimeMoves: total.overTimeMoves + stats.overTimeMoves,
+    retries: total.retries + stats.retries,
+    fallbacks: total.fallbacks + stats.fallbacks,
+    usage: addUsage(total.usage, stats.usage),
+  };
+}
+
+// The rating difference that makes `score` (a fraction of the points) the expected score;
+// unbounded at 0 and 1
+function eloFromScore(score: number): number | null {
+  if (score <= 0 || score >= 1) return null;
+  return -400 * Math.log10(1 / score - 1);
+}
+
+// Elo difference from a match's results, with the 95% interval of the mean game score mapped to Elo
+export function estimateElo(wins: number, draws: number, losses: number): EloEstimate {
+  const games = wins + draws + losses;
+  if (games === 0) return { diff: null, low: null, high: null };
+
+  const score = (wins + draws / 2) / games;
+  const variance = (wins * (1 - score) ** 2 + draws * (0.5 - score) ** 2 + losses * score ** 2) / games;
+  const margin = Z_95 * Math.sqrt(variance / games);
+  const round = (elo: number | null) => (elo === null ? null : Math.round(elo));
+
+  return {
+    diff: round(eloFromScore(score)),
+    low: round(eloFromScore(score - margin)),
+    high: round(eloFromScore(score + margin)),
+  };
+}
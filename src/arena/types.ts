@@ -0,0 +1,85 @@
+import type { EngineName } from '@/engines/types';
+import type { DifficultyLevel } from '@/engines/difficulty';
+import type { GameResultToken } from '@/utils/gameResult';
+import type { LlmUsageTotals } from '@/llm/usage';
+
+// The move routes: /api/ai-move, /api/ai-move-v2 (selector/evaluator agents) and /api/ai-move-v3
+export type ArenaRoute = 'v1' | 'v2' | 'v3';
+
+// One side of a match; engine and difficulty only apply to v3
+export interface ArenaPlayer {
+  route: ArenaRoute;
+  engine?: EngineName;
+  difficulty?: DifficultyLevel;
+}
+
+// A start line played from the initial position, in SAN
+export interface ArenaOpening {
+  name: string;
+  moves: string[];
+}
+
+export interface ArenaOptions {
+  playerA: ArenaPlayer;
+  playerB: ArenaPlayer;
+  games: number;
+  timeLimitMs: number; // per move: passed to the routes that take it, and moves over it are counted
+  maxPlies: number; // games still going after this many plies are scored as draws
+  openings: ArenaOpening[];
+}
+
+// The /api/arena body: anything left out gets its default, openings included
+export type ArenaRequest = Pick<ArenaOptions, 'playerA' | 'playerB'> & Partial<Omit<ArenaOptions, 'playerA' | 'playerB'>>;
+
+// How one side fared over a game or a match
+export interface ArenaPlayerStats {
+  moves: number;
+  totalLatencyMs: number;
+  overTimeMoves: number; // moves that took longer than timeLimitMs
+  retries: number; // failed requests and illegal moves the arena asked again for, plus the route's own retries
+  fallbacks: number; // moves the route played itself after the model's move was unusable
+  usage: LlmUsageTotals;
+}
+
+export type ArenaSide = 'a' | 'b';
+
+export interface ArenaGame {
+  round: number;
+  opening: string;
+  white: ArenaSide;
+  result: GameResultToken;
+  termination: string;
+  plies: number;
+  pgn: string;
+  stats: Record<ArenaSide, ArenaPlayerStats>;
+}
+
+// Elo difference of A over B with its 95% interval; null where it's unbounded (e.g. A won every game)
+export interface EloEstimate {
+  diff: number | null;
+  low: number | null;
+  high: number | null;
+}
+
+export interface ArenaReport {
+  matchId: string;
+  labels: Record<ArenaSide, string>;
+  options: ArenaOptions;
+  games: number;
+  // From A's point of view
+  wins: number;
+  draws: number;
+  losses: number;
+  score: number;
+  elo: EloEstimate;
+  stats: Record<ArenaSide, ArenaPlayerStats>;
+  directory: string; // where the PGNs and this report were saved
+}
+
+// One line of the /api/arena NDJSON response
+export type ArenaEvent =
+  | { type: 'start'; matchId: string; labels: Record<ArenaSide, string> }
+  | { type: 'move'; round: number; ply: number; move: string; side: ArenaSide; latencyMs: number }
+  | { type: 'game'; game: ArenaGame }
+  | { type: 'report'; report: ArenaReport }
+  | { type: 'error'; error: string };
@@ -0,0 +1,87 @@
+import { Chess } from 'chess.js';
+import { isEngineName } from '@/engines';
+import { isDifficultyLevel } from '@/engines/difficulty';
+import { isLocalTimeLimit, MAX_LOCAL_TIME_LIMIT } from '@/engines/localEngine';
+import type { Validation } from '@/games/validate';
+import { ARENA_OPENINGS } from './openings';
+import type { ArenaOpening, ArenaOptions, ArenaPlayer, ArenaRoute } from './types';
+
+const ROUTES: ArenaRoute[] = ['v1', 'v2', 'v3'];
+const MAX_GAMES = 200;
+const DEFAULTS = { games: 10, timeLimitMs: 1000, maxPlies: 200 };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+const invalid = <T>(error: string): Validation<T> => ({ ok: false, error });
+
+function validatePlayer(value: unknown, name: string): Validation<ArenaPlayer> {
+  if (!isObject(value) || !ROUTES.includes(value.route as ArenaRoute)) {
+    return invalid(`${name}.route must be one of: ${ROUTES.join(', ')}`);
+  }
+  const { route, engine, difficulty } = value;
+  if (route !== 'v3' && (engine !== undefined || difficulty !== undefined)) {
+    return invalid(`${name}: engine and difficulty only apply to v3`);
+  }
+  if (engine !== undefined && !isEngineName(engine)) {
+    return invalid(`${name}: unknown engine ${engine}`);
+  }
+  if (difficulty !== undefined && !isDifficultyLevel(difficulty)) {
+    return invalid(`${name}.difficulty must be a level from 1 to 10`);
+  }
+  return { ok: true, value: { route: route as ArenaRoute, engine, difficulty } };
+}
+
+// Openings are SAN lines from the start position; they have to play out
+function validateOpenings(value: unknown): Validation<ArenaOpening[]> {
+  if (value === undefined) return { ok: true, value: ARENA_OPENINGS };
+  if (!Array.isArray(value) || value.length === 0) {
+    return invalid('openings must be a non-empty array of { name, moves }');
+  }
+
+  for (const [index, opening] of value.entries()) {
+    if (!isObject(opening) || typeof opening.name !== 'string' || !Array.isArray(opening.moves)) {
+      return invalid(`Opening ${index + 1} needs a name and an array of SAN moves`);
+    }
+    const game = new Chess();
+    try {
+      opening.moves.forEach(move => game.move(move));
+    } catch {
+      return invalid(`Opening ${index + 1} (${opening.name}) has an illegal move`);
+    }
+    if (game.isGameOver()) {
+      return invalid(`Opening ${index + 1} (${opening.name}) ends the game`);
+    }
+  }
+  return { ok: true, value: value as ArenaOpening[] };
+}
+
+// Check an /api/arena body and fill in the defaults
+export function validateArenaOptions(body: unknown): Validation<ArenaOptions> {
+  if (!isObject(body)) return invalid('Request body must be a JSON object');
+
+  const playerA = validatePlayer(body.playerA, 'playerA');
+  if (!playerA.ok) return playerA;
+  const playerB = validatePlayer(body.playerB, 'playerB');
+  if (!playerB.ok) return playerB;
+
+  const { games = DEFAULTS.games, timeLimitMs = DEFAULTS.timeLimitMs, maxPlies = DEFAULTS.maxPlies } = body;
+  if (!isPositiveInteger(games) || games > MAX_GAMES) {
+    return invalid(`games must be between 1 and ${MAX_GAMES}`);
+  }
+  // Forwarded to v3, which holds the local search to the same limit
+  if (!isLocalTimeLimit(timeLimitMs)) {
+    return invalid(`timeLimitMs must be a whole number of milliseconds from 1 to ${MAX_LOCAL_TIME_LIMIT}`);
+  }
+  if (!isPositiveInteger(maxPlies)) {
+    return invalid('maxPlies must be a positive whole number');
+  }
+
+  const openings = validateOpenings(body.openings);
+  if (!openings.ok) return openings;
+
+  return {
+    ok: true,
+    value: { playerA: playerA.value, playerB: playerB.value, games, timeLimitMs, maxPlies, openings: openings.value },
+  };
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import styles from './Arena.module.css';
+import { useArena } from '@/hooks/useArena';
+import type { ArenaPlayer, ArenaPlayerStats, ArenaRoute, ArenaSide } from '@/arena/types';
+import type { EngineName } from '@/engines/types';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_LEVELS, getDifficultyLabel, type DifficultyLevel } from '@/engines/difficulty';
+import { MAX_LOCAL_TIME_LIMIT } from '@/engines/localEngine';
+import { formatResultToken } from '@/utils/gameResult';
+
+const ROUTE_OPTIONS: { value: ArenaRoute; label: string }[] = [
+  { value: 'v1', label: 'v1 (single prompt)' },
+  { value: 'v2', label: 'v2 (selector + evaluator)' },
+  { value: 'v3', label: 'v3 (move engines)' },
+];
+
+const ENGINE_OPTIONS: { value: EngineName; label: string }[] = [
+  { value: 'llm', label: 'LLM' },
+  { value: 'local', label: 'Local engine (offline)' },
+  { value: 'uci', label: 'UCI engine (server)' },
+];
+
+const SIDES: ArenaSide[] = ['a', 'b'];
+
+// e.g. "+35", or `unbounded` when the score leaves that end of the interval open
+const formatElo = (elo: number | null, unbounded = '∞') => {
+  if (elo === null) return unbounded;
+  return elo > 0 ? `+${elo}` : String(elo);
+};
+
+const STAT_ROWS: { label: string; value: (stats: ArenaPlayerStats) => string | number }[] = [
+  { label: 'Moves', value: stats => stats.moves },
+  { label: 'Avg latency', value: stats => (stats.moves ? `${Math.round(stats.totalLatencyMs / stats.moves)} ms` : '-') },
+  { label: 'Over time limit', value: stats => stats.overTimeMoves },
+  { label: 'Retries', value: stats => stats.retries },
+  { label: 'Fallback moves', value: stats => stats.fallbacks },
+  { label: 'LLM calls', value: stats => stats.usage.calls },
+  { label: 'Tokens (prompt / completion)', value: stats => `${stats.usage.promptTokens} / ${stats.usage.completionTokens}` },
+];
+
+interface PlayerPickerProps {
+  name: string;
+  player: ArenaPlayer;
+  disabled: boolean;
+  onChange: (player: ArenaPlayer) => void;
+}
+
+const PlayerPicker: React.FC<PlayerPickerProps> = ({ name, player, disabled, onChange }) => (
+  <div className={styles.player}>
+    <span className={styles.playerName}>{name}</span>
+    <select
+      value={player.route}
+      disabled={disabled}
+      onChange={(e) => {
+        const route = e.target.value as ArenaRoute;
+        onChange(route === 'v3' ? { route, engine: 'local', difficulty: DEFAULT_DIFFICULTY } : { route });
+      }}
+      className={styles.input}
+    >
+      {ROUTE_OPTIONS.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+    {player.route === 'v3' && (
+      <>
+        <select
+          value={player.engine}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...player, engine: e.target.value as EngineName })}
+          className={styles.input}
+        >
+          {ENGINE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={player.difficulty}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...player, difficulty: Number(e.target.value) as DifficultyLevel })}
+          className={styles.input}
+        >
+          {Object.values(DIFFICULTY_LEVELS).map(settings => (
+            <option key={settings.level} value={settings.level}>{getDifficultyLabel(settings)}</option>
+          ))}
+        </select>
+      </>
+    )}
+  </div>
+);
+
+const Arena: React.FC = () => {
+  const { isRunning, labels, games, progress, report, error, startMatch, stopMatch } = useArena();
+  const [playerA, setPlayerA] = useState<ArenaPlayer>({ route: 'v3', engine: 'local', difficulty: DEFAULT_DIFFICULTY });
+  const [playerB, setPlayerB] = useState<ArenaPlayer>({ route: 'v3', engine: 'llm', difficulty: DEFAULT_DIFFICULTY });
+  const [gameCount, setGameCount] = useState(4);
+  const [timeLimitMs, setTimeLimitMs] = useState(1000);
+  const [maxPlies, setMaxPlies] = useState(200);
+
+  const handleStart = () => startMatch({ playerA, playerB, games: gameCount, timeLimitMs, maxPlies });
+
+  // Every finished game in one file, the same as match.pgn on the server
+  const handleDownload = () => {
+    const blob = new Blob([games.map(game => `${game.pgn}\n`).join('\n')], { type: 'application/x-chess-pgn' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `arena-${report?.matchId ?? new Date().toISOString().slice(0, 10)}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={styles.arena}>
+      <div className={styles.setup}>
+        <PlayerPicker name="A" player={playerA} disabled={isRunning} onChange={setPlayerA} />
+        <PlayerPicker name="B" player={playerB} disabled={isRunning} onChange={setPlayerB} />
+        <div className={styles.limits}>
+          <label className={styles.limit}>
+            Games
+            <input
+              type="number"
+              min={1}
+              max={200}
+              value={gameCount}
+              disabled={isRunning}
+              onChange={(e) => setGameCount(Number(e.target.value))}
+              className={styles.input}
+            />
+          </label>
+          <label className={styles.limit}>
+            Time per move (ms)
+            <input
+              type="number"
+              min={1}
+              max={MAX_LOCAL_TIME_LIMIT}
+              value={timeLimitMs}
+              disabled={isRunning}
+              onChange={(e) => setTimeLimitMs(Number(e.target.value))}
+              className={styles.input}
+            />
+          </label>
+          <label className={styles.limit}>
+            Max plies
+            <input
+              type="number"
+              min={1}
+              value={maxPlies}
+              disabled={isRunning}
+              onChange={(e) => setMaxPlies(Number(e.target.value))}
+              className={styles.input}
+            />
+          </label>
+        </div>
+        <div className={styles.actions}>
+          {isRunning ? (
+            <button className={styles.button} onClick={stopMatch}>Stop</button>
+          ) : (
+            <button className={styles.button} onClick={handleStart}>Start Match</button>
+          )}
+          <button className={styles.button} onClick={handleDownload} disabled={games.length === 0}>
+            Download PGNs
+          </button>
+        </div>
+        <div className={styles.note}>
+          Each opening is played twice with colours swapped. A side that returns no legal move in 3 tries forfeits.
+        </div>
+      </div>
+
+      {error && <div className={styles.error}>{error}</div>}
+
+      {isRunning && (
+        <div className={styles.status}>
+          Game {progress?.round ?? games.length + 1} of {gameCount}
+          {progress && ` · ply ${progress.ply} (${progress.lastMove})`}
+        </div>
+      )}
+
+      {labels && games.length > 0 && (
+        <div className={styles.gameList}>
+          {games.map(game => (
+            <div key={game.round} className={styles.gameRow}>
+              <span className={styles.gameResult}>{formatResultToken(game.result)}</span>
+              <span>
+                {game.round}. {labels[game.white]} vs {labels[game.white === 'a' ? 'b' : 'a']}
+                <span className={styles.gameDetails}> · {game.opening} · {game.termination} · {game.plies} plies</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report && (
+        <div className={styles.report}>
+          <div className={styles.score}>
+            {report.labels.a} {report.score} - {report.games - report.score} {report.labels.b}
+          </div>
+          <div className={styles.summary}>
+            A: +{report.wins} ={report.draws} -{report.losses} · Elo difference{' '}
+            {report.elo.diff === null
+              ? 'unbounded (one side scored every point)'
+              : `${formatElo(report.elo.diff)} (95%: ${formatElo(report.elo.low, '-∞')} to ${formatElo(report.elo.high, '+∞')})`}
+          </div>
+          <table className={styles.statsTable}>
+            <thead>
+              <tr>
+                <th />
+                {SIDES.map(side => <th key={side}>{report.labels[side]}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {STAT_ROWS.map(row => (
+                <tr key={row.label}>
+                  <td>{row.label}</td>
+                  {SIDES.map(side => <td key={side}>{row.value(report.stats[side])}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className={styles.note}>Saved to {report.directory}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Arena;
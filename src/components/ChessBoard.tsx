@@ -5,6 +5,47 @@ import styles from './ChessBoard.module.css';
 import { useChessGame } from '@/hooks/useChessGame';
 import { usePieceImage } from '@/hooks/usePieceImage';
 import { useAIMove } from '@/hooks/useAIMove';
+import PositionEditor from './PositionEditor';
+import GameReview from './GameReview';
+import GameArchive from './GameArchive';
+import OnlinePanel from './OnlinePanel';
+import type { GameMode, SideChoice, PromotionPiece, MoveHistoryEntry } from '@/hooks/useChessGame';
+import { REPLAY_SPEEDS } from '@/hooks/useMoveNavigation';
+import { getContinuationIds } from '@/utils/moveTree';
+import { describeResult, formatResultToken } from '@/utils/gameResult';
+import { formatOpening } from '@/openings/eco';
+import { TIME_CONTROL_PRESETS, formatClock, type BonusType, type TimeControlId } from '@/utils/clockUtils';
+import type { EngineName } from '@/engines/types';
+import { DIFFICULTY_LEVELS, getDifficultyLabel, type DifficultyLevel } from '@/engines/difficulty';
+
+const SIDE_OPTIONS: { value: SideChoice; label: string }[] = [
+  { value: 'w', label: 'White' },
+  { value: 'b', label: 'Black' },
+  { value: 'random', label: 'Random' },
+];
+
+const MODE_OPTIONS: { value: GameMode; label: string }[] = [
+  { value: 'ai', label: 'vs AI' },
+  { value: 'hotseat', label: 'Hot-seat (two players, this device)' },
+  { value: 'online', label: 'Online (room link)' },
+];
+
+const ENGINE_OPTIONS: { value: EngineName; label: string }[] = [
+  { value: 'llm', label: 'LLM' },
+  { value: 'local', label: 'Local engine (offline)' },
+  { value: 'uci', label: 'UCI engine (server)' },
+];
+
+const PROMOTION_PIECES: PromotionPiece[] = ['q', 'r', 'b', 'n'];
+const SQUARE_SIZE = 60;
+// Moves of a variation shown in the history before it is cut short
+const VARIATION_PREVIEW_PLIES = 8;
+
+// "12." for White's moves and "12..." for Black's, from the full-move counter in the FEN after the move
+const moveNumberLabel = (entry: MoveHistoryEntry) => {
+  const fullMove = Number(entry.fen.split(' ')[5]);
+  return entry.color === 'w' ? `${fullMove}.` : `${fullMove - 1}...`;
+};
 
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
 interface ChessBoardProps {}
@@ -14,48 +55,249 @@ const ChessBoard: React.FC<ChessBoardProps> = () => {
     gameState,
     selectedSquare,
     validMoves,
+    pendingPromotion,
     isPlayerTurn,
     lastAIMove,
+    aiThinking,
+    stopAIThinking,
     moveHistory,
+    opening,
+    moveTree,
+    currentLineIds,
+    goToNode,
+    promoteVariation,
+    deleteVariation,
+    playerColor,
+    sideChoice,
+    chooseSide,
     resetGame,
+    startFromPosition,
     undoMove,
     handleSquareClick,
+    completePromotion,
+    cancelPromotion,
+    exportGamePgn,
+    importGamePgn,
+    pgnError,
+    openArchivedGame,
+    archiveError,
+    resumableGame,
+    resumeGame,
+    dismissResumableGame,
+    resign,
+    offerDraw,
+    isDrawOfferPending,
+    drawOfferResponse,
+    viewedPly,
+    isViewingHistory,
+    goToPly,
+    goToFirst,
+    goToPrevious,
+    goToNext,
+    goToLast,
+    isReplaying,
+    toggleReplay,
+    replaySpeed,
+    setReplaySpeed,
+    gameAnalysis,
+    isAnalyzing,
+    analysisError,
+    analyzeGame,
+    clearAnalysis,
+    exportGameAnalysisPgn,
     makeAIMove,
+    engineName,
+    setEngineName,
+    difficulty,
+    setDifficulty,
+    gameMode,
+    changeGameMode,
+    showEvaluation,
+    setShowEvaluation,
+    onlineRoom,
+    onlineSeat,
+    onlineError,
+    createOnlineRoom,
+    joinOnlineRoom,
+    leaveOnlineRoom,
     setIsPlayerTurn,
     refreshStrategy,
     clearStrategy,
     whiteTime,
     blackTime,
+    timeControl,
+    bonusType,
+    runningClock,
+    isClockPaused,
+    changeTimeControl,
+    resumeClock,
   } = useChessGame();
 
   const { getPieceImage } = usePieceImage();
   const historyContentRef = useRef<HTMLDivElement>(null);
   const [isStrategyExpanded, setIsStrategyExpanded] = useState(false);
+  const [isPgnImportOpen, setIsPgnImportOpen] = useState(false);
+  const [isEditingPosition, setIsEditingPosition] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [pgnText, setPgnText] = useState('');
+  const [pgnExportError, setPgnExportError] = useState<string | null>(null);
 
   // Auto-trigger AI moves
   useAIMove({ isPlayerTurn, makeAIMove, setIsPlayerTurn });
 
-  // Auto-scroll to bottom when new moves are added
+  // Auto-scroll to bottom when new moves are added, or to the viewed move while browsing
   useEffect(() => {
-    if (historyContentRef.current) {
-      historyContentRef.current.scrollTop = historyContentRef.current.scrollHeight;
+    const content = historyContentRef.current;
+    if (!content) return;
+    if (viewedPly === null) {
+      content.scrollTop = content.scrollHeight;
+    } else {
+      content.querySelector(`[data-ply="${viewedPly}"]`)?.scrollIntoView({ block: 'nearest' });
     }
-  }, [moveHistory]);
+  }, [moveHistory, viewedPly]);
 
+  // Arrow keys step through the moves, Home/End jump to the start and back to the live game
   useEffect(() => {
-  if (whiteTime <= 0 || blackTime <= 0){
-    resetGame()
-  }},[whiteTime, blackTime])
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const actions: Record<string, () => void> = {
+        ArrowLeft: goToPrevious,
+        ArrowRight: goToNext,
+        Home: goToFirst,
+        End: goToLast,
+      };
+      const action = actions[event.key];
+      if (action) {
+        event.preventDefault();
+        action();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goToPrevious, goToNext, goToFirst, goToLast]);
+
+  const viewedMove = viewedPly ? moveHistory[viewedPly - 1] : null;
+
+  // Whether each move of the current line is also on the main line
+  const mainLineFlags = useMemo(() => {
+    let onMainLine = true;
+    return currentLineIds.map(id => {
+      onMainLine = onMainLine && moveTree.nodes[moveTree.nodes[id].parentId!].children[0] === id;
+      return onMainLine;
+    });
+  }, [currentLineIds, moveTree]);
+  const continuationIds = moveTree.nodes[moveTree.currentId].children;
+
+  // Buttons acting on a move node; clicks must not reach the history entry underneath
+  const renderNodeActions = (id: string, canPromote: boolean) => {
+    const act = (action: (nodeId: string) => void) => (event: React.MouseEvent) => {
+      event.stopPropagation();
+      action(id);
+    };
+    return (
+      <span className={styles.nodeActions}>
+        {canPromote && (
+          <button className={styles.nodeAction} onClick={act(promoteVariation)} title="Promote to main line">★</button>
+        )}
+        <button className={styles.nodeAction} onClick={act(analyzeGame)} title="Analyze up to here">📊</button>
+        <button className={styles.nodeAction} onClick={act(deleteVariation)} title="Delete from here">✕</button>
+      </span>
+    );
+  };
+
+  // A sideline starting at `firstId`, previewed along its own main line; clicking a move continues from it
+  const renderVariation = (firstId: string) => {
+    const ids = [firstId, ...getContinuationIds(moveTree, firstId)];
+    return (
+      <div key={firstId} className={styles.variation}>
+        {ids.slice(0, VARIATION_PREVIEW_PLIES).map((id, index) => {
+          const entry = moveTree.nodes[id].entry!;
+          return (
+            <button key={id} className={styles.variationMove} onClick={() => goToNode(id)}>
+              {index === 0 || entry.color === 'w' ? `${moveNumberLabel(entry)} ` : ''}{entry.move}
+            </button>
+          );
+        })}
+        {ids.length > VARIATION_PREVIEW_PLIES && <span className={styles.variationMore}>…</span>}
+        {renderNodeActions(firstId, true)}
+      </div>
+    );
+  };
+  const viewedMoveLabel = viewedPly && viewedMove
+    ? `${Math.floor((viewedPly - 1) / 2) + 1}${viewedMove.color === 'w' ? '.' : '...'} ${viewedMove.move}`
+    : 'start position';
+
+  const playerSideName = playerColor === 'w' ? 'White' : 'Black';
+  const aiSideName = playerColor === 'w' ? 'Black' : 'White';
+  const sideToMoveName = gameState.turn === 'w' ? 'White' : 'Black';
+  const isOnline = gameMode === 'online';
+  // Seated in an online room; spectators (and anyone without a room) can't resign
+  const isSeated = !isOnline || (onlineRoom !== null && onlineSeat !== null);
+
+  // Whose move it is, in the terms of the game mode
+  const turnLabel = (() => {
+    if (gameMode === 'hotseat') return `${sideToMoveName} to Move`;
+    if (!isOnline) return isPlayerTurn ? `Your Turn (${playerSideName})` : `AI Thinking... (${aiSideName})`;
+    if (!onlineRoom) return 'Create or open a room to play';
+    if (onlineSeat === null) return `Watching - ${sideToMoveName} to Move`;
+    if (isPlayerTurn) return `Your Turn (${playerSideName})`;
+    return onlineRoom.seats[onlineSeat === 'w' ? 'b' : 'w'].taken
+      ? `Waiting for ${aiSideName}...`
+      : 'Waiting for an opponent to join...';
+  })();
+
+  // Download a PGN built by `buildPgn` as a .pgn file
+  const downloadPgn = (buildPgn: () => string, name: string) => {
+    try {
+      const pgn = buildPgn();
+      const blob = new Blob([pgn], { type: 'application/x-chess-pgn' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${name}-${new Date().toISOString().slice(0, 10)}.pgn`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setPgnExportError(null);
+    } catch (error) {
+      setPgnExportError(error instanceof Error ? error.message : 'Failed to export PGN');
+    }
+  };
+
+  const handleExportPgn = () => downloadPgn(exportGamePgn, 'chess-game');
+  const handleExportAnalysisPgn = () => downloadPgn(exportGameAnalysisPgn, 'chess-analysis');
+
+  const handleImportPgn = () => {
+    if (importGamePgn(pgnText)) {
+      setIsPgnImportOpen(false);
+      setPgnText('');
+    }
+  };
+
+  const handlePgnFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setPgnText(await file.text());
+    }
+  };
 
-  // Memoized board rendering
+  // Memoized board rendering, flipped so the human's pieces are at the bottom
   const boardSquares = useMemo(() => {
-    return gameState.board.map((row, i) =>
-      row.map((piece, j) => {
+    const isFlipped = playerColor === 'b';
+    const rows = isFlipped
+      ? [...gameState.board].reverse().map(row => [...row].reverse())
+      : gameState.board;
+
+    return rows.map((row, displayRow) =>
+      row.map((piece, displayCol) => {
+        const i = isFlipped ? 7 - displayRow : displayRow;
+        const j = isFlipped ? 7 - displayCol : displayCol;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const square = (String.fromCharCode(97 + j) + (8 - i)) as any;
         const isLight = (i + j) % 2 === 0;
-        const isSelected = selectedSquare === square;
-        const isValidMove = validMoves.includes(square);
+        const isSelected = !isViewingHistory && selectedSquare === square;
+        const isValidMove = !isViewingHistory && validMoves.includes(square);
         
         const squareClasses = [
           styles.chessSquare,
@@ -89,25 +331,60 @@ const ChessBoard: React.FC<ChessBoardProps> = () => {
         );
       })
     ).flat();
-  }, [gameState.board, selectedSquare, validMoves, getPieceImage, handleSquareClick]);
+  }, [gameState.board, playerColor, selectedSquare, validMoves, isViewingHistory, getPieceImage, handleSquareClick]);
+
+  // Promotion chooser laid over the target square; the human always promotes on the top rank
+  const promotionChooser = useMemo(() => {
+    if (!pendingPromotion) return null;
+
+    const file = pendingPromotion.to.charCodeAt(0) - 97;
+    const rank = Number(pendingPromotion.to[1]);
+    const isFlipped = playerColor === 'b';
+    const displayCol = isFlipped ? 7 - file : file;
+    const displayRow = isFlipped ? rank - 1 : 8 - rank;
+    return (
+      <div
+        className={styles.promotionChooser}
+        style={{ left: displayCol * SQUARE_SIZE, top: displayRow * SQUARE_SIZE }}
+      >
+        {PROMOTION_PIECES.map(type => (
+          <button
+            key={type}
+            className={styles.promotionOption}
+            onClick={() => completePromotion(type)}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={getPieceImage({ type, color: pendingPromotion.color })!}
+              alt={`Promote to ${type}`}
+              className={styles.chessPiece}
+            />
+          </button>
+        ))}
+        <button className={styles.promotionCancel} onClick={cancelPromotion}>
+          ✕
+        </button>
+      </div>
+    );
+  }, [pendingPromotion, playerColor, getPieceImage, completePromotion, cancelPromotion]);
 
   // Memoized game status
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const gameStatus = useMemo(() => {
-    if (gameState.isGameOver) {
+    if (gameState.gameResult) {
       return (
         <span className={styles.gameStatusOver}>
-          Game Over - {gameState.isCheckmate ? 'Checkmate!' : 'Stalemate!'}
+          Game Over - {describeResult(gameState.gameResult)}
         </span>
       );
     }
     
     return (
       <span className={isPlayerTurn ? styles.gameStatusPlayer : styles.gameStatusAI}>
-        {isPlayerTurn ? 'Your Turn (White)' : 'AI Thinking... (Black)'}
+        {turnLabel}
       </span>
     );
-  }, [gameState.isGameOver, gameState.isCheckmate, isPlayerTurn]);
+  }, [gameState.gameResult, isPlayerTurn, turnLabel]);
 
   // Professional position evaluation progress bar
   const positionEvaluation = useMemo(() => {
@@ -221,67 +498,371 @@ const ChessBoard: React.FC<ChessBoardProps> = () => {
           </div>
         )}
 
-        <div className={styles.barContainer}>
-          <div 
-            className={styles.barFill}
-            style={{ 
-              height: `${positionEvaluation.percentage}%`,
-              backgroundColor: positionEvaluation.advantage === 'White' ? '#22c55e' : 
-                               positionEvaluation.advantage === 'Black' ? '#ef4444' : '#f59e0b'
-            }}
+        <label className={styles.evaluationToggle}>
+          <input
+            type="checkbox"
+            checked={showEvaluation}
+            onChange={(e) => setShowEvaluation(e.target.checked)}
           />
-        </div>
-        <div className={styles.winPercentages}>
-          <div className={styles.blackWin}>
-            BLACK: {(100 - positionEvaluation.winChance).toFixed(1)}%
-          </div>
-          <div className={styles.whiteWin}>
-            WHITE: {positionEvaluation.winChance.toFixed(1)}%
-          </div>
-        </div>
-        <div>
-          <div className={styles.blackWin}>
-            BLACK: Time {blackTime}
-          </div>
-          <div className={styles.whiteWin}>
-            WHITE: Time {whiteTime}
+          Eval bar
+        </label>
+        {showEvaluation && (
+          <>
+            <div className={styles.barContainer}>
+              <div 
+                className={styles.barFill}
+                style={{ 
+                  height: `${positionEvaluation.percentage}%`,
+                  backgroundColor: positionEvaluation.advantage === 'White' ? '#22c55e' : 
+                                   positionEvaluation.advantage === 'Black' ? '#ef4444' : '#f59e0b'
+                }}
+              />
+            </div>
+            <div className={styles.winPercentages}>
+              <div className={styles.blackWin}>
+                BLACK: {(100 - positionEvaluation.winChance).toFixed(1)}%
+              </div>
+              <div className={styles.whiteWin}>
+                WHITE: {positionEvaluation.winChance.toFixed(1)}%
+              </div>
+            </div>
+            {gameState.evaluation?.tablebase && (
+              <div className={styles.tablebaseResult}>{gameState.evaluation.text}</div>
+            )}
+          </>
+        )}
+        {whiteTime !== null && blackTime !== null && (
+          <div className={styles.clocks}>
+            <div className={`${styles.clock} ${runningClock === 'b' ? styles.clockRunning : ''} ${gameState.flagged === 'b' ? styles.clockFlagged : ''}`}>
+              BLACK: {formatClock(blackTime)}
+            </div>
+            <div className={`${styles.clock} ${runningClock === 'w' ? styles.clockRunning : ''} ${gameState.flagged === 'w' ? styles.clockFlagged : ''}`}>
+              WHITE: {formatClock(whiteTime)}
+            </div>
+            {isClockPaused && !gameState.isGameOver && (
+              <button onClick={resumeClock} className={styles.resumeButton}>
+                Resume Clock
+              </button>
+            )}
           </div>
-        </div>
+        )}
         <div className={styles.turnText}>
-          {isPlayerTurn ? 'Your Turn' : 'AI Thinking...'}
+          {isViewingHistory
+            ? `Viewing ${viewedMoveLabel}`
+            : gameState.gameResult
+            ? `${describeResult(gameState.gameResult)} (${formatResultToken(gameState.gameResult.result)})`
+            : turnLabel}
         </div>
-        {gameState.isEvaluating && (
+        {opening && (
+          <div className={styles.openingName} title="Opening (ECO code and name)">
+            {formatOpening(opening)}
+          </div>
+        )}
+        {showEvaluation && gameState.isEvaluating && (
           <div className={styles.evaluatingIndicator}>
             🔍
           </div>
         )}
       </div>
       <div className={styles.gameArea}>
+        {isEditingPosition ? (
+          <PositionEditor
+            initialFen={gameState.fen}
+            onStart={(fen) => {
+              startFromPosition(fen);
+              setIsEditingPosition(false);
+            }}
+            onCancel={() => setIsEditingPosition(false)}
+          />
+        ) : (
+          <>
+            {resumableGame && (
+              <div className={styles.resumePrompt}>
+                <span>
+                  Game in progress from {new Date(resumableGame.savedAt).toLocaleString()}: you
+                  play {resumableGame.playerColor === 'w' ? 'White' : 'Black'}, {resumableGame.moveCount} moves
+                  played, {resumableGame.turn === resumableGame.playerColor ? 'your' : "the AI's"} turn
+                </span>
+                <div className={styles.resumePromptActions}>
+                  <button onClick={resumeGame} className={styles.controlButton}>
+                    Resume Game
+                  </button>
+                  <button onClick={dismissResumableGame} className={styles.controlButton}>
+                    Discard
+                  </button>
+                </div>
+              </div>
+            )}
 
-        <div className={styles.chessBoard}>
-          {boardSquares}
-        </div>
-        
-        <div className={styles.gameControls}>
-          <button
-            onClick={resetGame}
-            className={styles.controlButton}
-          >
-            New Game
-          </button>
-          
-          <button
-            onClick={undoMove}
-            disabled={moveHistory.length === 0}
-            className={`${styles.controlButton} ${moveHistory.length === 0 ? styles.disabledButton : ''}`}
-          >
-            Undo
-          </button>
-        </div>
+            <div className={styles.chessBoard}>
+              {boardSquares}
+              {promotionChooser}
+            </div>
+
+            <div className={styles.sidePicker}>
+              <span className={styles.sidePickerLabel}>Mode:</span>
+              <select
+                value={gameMode}
+                onChange={(e) => changeGameMode(e.target.value as GameMode)}
+                className={styles.timeControlSelect}
+              >
+                {MODE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {isOnline && (
+              <OnlinePanel
+                room={onlineRoom}
+                seat={onlineSeat}
+                error={onlineError}
+                onCreate={createOnlineRoom}
+                onJoin={joinOnlineRoom}
+                onLeave={leaveOnlineRoom}
+              />
+            )}
+
+            {!isOnline && (
+              <>
+                <div className={styles.sidePicker}>
+                  <span className={styles.sidePickerLabel}>{gameMode === 'hotseat' ? 'Board side:' : 'Play as:'}</span>
+                  {SIDE_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => chooseSide(option.value)}
+                      className={`${styles.sideButton} ${sideChoice === option.value ? styles.sideButtonActive : ''}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                <div className={styles.sidePicker}>
+                  <span className={styles.sidePickerLabel}>Time:</span>
+                  <select
+                    value={timeControl.id}
+                    onChange={(e) => changeTimeControl(e.target.value as TimeControlId)}
+                    className={styles.timeControlSelect}
+                  >
+                    {Object.values(TIME_CONTROL_PRESETS).map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={bonusType}
+                    onChange={(e) => changeTimeControl(timeControl.id, e.target.value as BonusType)}
+                    disabled={timeControl.bonusMs === 0}
+                    className={styles.timeControlSelect}
+                  >
+                    <option value="fischer">Fischer increment</option>
+                    <option value="bronstein">Bronstein delay</option>
+                  </select>
+                </div>
+              </>
+            )}
+
+            {gameMode === 'ai' && (
+              <div className={styles.sidePicker}>
+                <span className={styles.sidePickerLabel}>Opponent:</span>
+                <select
+                  value={engineName}
+                  onChange={(e) => setEngineName(e.target.value as EngineName)}
+                  className={styles.timeControlSelect}
+                >
+                  {ENGINE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(Number(e.target.value) as DifficultyLevel)}
+                  className={styles.timeControlSelect}
+                >
+                  {Object.values(DIFFICULTY_LEVELS).map(settings => (
+                    <option key={settings.level} value={settings.level}>{getDifficultyLabel(settings)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className={styles.gameControls}>
+              {/* An online game belongs to its room: no restarting, taking back or loading other games */}
+              {!isOnline && (
+                <>
+                  <button
+                    onClick={resetGame}
+                    className={styles.controlButton}
+                  >
+                    New Game
+                  </button>
+
+                  <button
+                    onClick={undoMove}
+                    disabled={moveHistory.length === 0}
+                    className={`${styles.controlButton} ${moveHistory.length === 0 ? styles.disabledButton : ''}`}
+                  >
+                    Undo
+                  </button>
+                </>
+              )}
+
+              <button
+                onClick={handleExportPgn}
+                className={styles.controlButton}
+              >
+                Export PGN
+              </button>
+
+              {!isOnline && (
+                <>
+                  <button
+                    onClick={() => setIsPgnImportOpen(!isPgnImportOpen)}
+                    className={styles.controlButton}
+                  >
+                    Import PGN
+                  </button>
+
+                  <button
+                    onClick={() => setIsEditingPosition(true)}
+                    className={styles.controlButton}
+                  >
+                    Set Up Position
+                  </button>
+                </>
+              )}
+
+              <button
+                onClick={() => setIsArchiveOpen(!isArchiveOpen)}
+                className={styles.controlButton}
+              >
+                My Games
+              </button>
+
+              {!gameState.isGameOver && isSeated && (
+                <>
+                  {!isOnline && (
+                    <button
+                      onClick={offerDraw}
+                      disabled={isDrawOfferPending}
+                      className={`${styles.controlButton} ${isDrawOfferPending ? styles.disabledButton : ''}`}
+                    >
+                      {isDrawOfferPending ? 'Offering Draw...' : gameMode === 'hotseat' ? 'Agree Draw' : 'Offer Draw'}
+                    </button>
+                  )}
+
+                  <button
+                    onClick={() => window.confirm(gameMode === 'hotseat' ? `Resign this game for ${sideToMoveName}?` : 'Resign this game?') && resign()}
+                    className={styles.controlButton}
+                  >
+                    Resign
+                  </button>
+                </>
+              )}
+
+              {gameState.isGameOver && moveHistory.length > 0 && !gameAnalysis && (
+                <button
+                  onClick={() => analyzeGame()}
+                  disabled={isAnalyzing}
+                  className={`${styles.controlButton} ${isAnalyzing ? styles.disabledButton : ''}`}
+                >
+                  {isAnalyzing ? 'Analyzing...' : 'Analyze Game'}
+                </button>
+              )}
+            </div>
+
+            {drawOfferResponse && !gameState.isGameOver && (
+              <div className={styles.drawOfferResponse}>{drawOfferResponse}</div>
+            )}
+
+            {analysisError && (
+              <div className={styles.pgnError}>{analysisError}</div>
+            )}
+
+            {pgnExportError && (
+              <div className={styles.pgnError}>{pgnExportError}</div>
+            )}
+
+            {archiveError && (
+              <div className={styles.pgnError}>Couldn&apos;t save this game: {archiveError}</div>
+            )}
+
+            {isPgnImportOpen && (
+              <div className={styles.pgnPanel}>
+                <textarea
+                  className={styles.pgnTextarea}
+                  value={pgnText}
+                  onChange={(e) => setPgnText(e.target.value)}
+                  placeholder="Paste PGN here..."
+                  rows={8}
+                />
+                <div className={styles.pgnPanelControls}>
+                  <input type="file" accept=".pgn,text/plain" onChange={handlePgnFile} />
+                  <button
+                    onClick={handleImportPgn}
+                    disabled={!pgnText.trim()}
+                    className={`${styles.controlButton} ${!pgnText.trim() ? styles.disabledButton : ''}`}
+                  >
+                    Load
+                  </button>
+                </div>
+                {pgnError && (
+                  <div className={styles.pgnError}>{pgnError}</div>
+                )}
+              </div>
+            )}
+
+            {isArchiveOpen && (
+              <GameArchive
+                onOpen={(archived) => {
+                  openArchivedGame(archived);
+                  setIsArchiveOpen(false);
+                }}
+                onClose={() => setIsArchiveOpen(false)}
+              />
+            )}
+
+            {gameAnalysis && (
+              <GameReview
+                analysis={gameAnalysis}
+                onExportPgn={handleExportAnalysisPgn}
+                onClose={clearAnalysis}
+              />
+            )}
+          </>
+        )}
       </div>
 
-      {/* AI Move Info */}
-      {lastAIMove && (
+      {/* AI Thinking (live) */}
+      {aiThinking ? (
+        <div className={styles.aiMoveInfo}>
+          <div className={styles.thinkingHeader}>
+            <span className={styles.thinkingStatus}>{aiThinking.status}</span>
+            <button className={styles.stopThinkingButton} onClick={stopAIThinking}>
+              Move Now
+            </button>
+          </div>
+          {aiThinking.candidates.length > 0 && (
+            <div className={styles.thinkingCandidates}>
+              {aiThinking.candidates.map(candidate => (
+                <span key={candidate.notation} className={styles.thinkingCandidate}>
+                  {candidate.notation} ({candidate.score})
+                </span>
+              ))}
+            </div>
+          )}
+          {aiThinking.reasoning && (
+            <div className={styles.moveReasoning}>{aiThinking.reasoning}</div>
+          )}
+        </div>
+      ) : isViewingHistory ? (
+        viewedMove?.reasoning && (
+          <div className={styles.aiMoveInfo}>
+            <div className={styles.moveNotation}>{viewedMove.move}</div>
+            <div className={styles.moveReasoning}>{viewedMove.reasoning}</div>
+          </div>
+        )
+      ) : lastAIMove && (
         <div className={styles.aiMoveInfo}>
           <div className={styles.moveNotation}>{lastAIMove.move}</div>
           <div className={styles.moveReasoning}>{lastAIMove.reasoning}</div>
@@ -291,21 +872,66 @@ const ChessBoard: React.FC<ChessBoardProps> = () => {
       {/* Move History */}
       <div className={styles.moveHistory}>
         <div className={styles.historyHeader}>Move History</div>
+        <div className={styles.historyNavigation}>
+          <button onClick={goToFirst} disabled={viewedPly === 0 || moveHistory.length === 0} className={styles.navButton} title="First (Home)">⏮</button>
+          <button onClick={goToPrevious} disabled={viewedPly === 0 || moveHistory.length === 0} className={styles.navButton} title="Previous (←)">◀</button>
+          <button onClick={goToNext} disabled={!isViewingHistory} className={styles.navButton} title="Next (→)">▶</button>
+          <button onClick={goToLast} disabled={!isViewingHistory} className={styles.navButton} title="Live game (End)">⏭</button>
+          <button onClick={toggleReplay} disabled={moveHistory.length === 0} className={styles.navButton}>
+            {isReplaying ? '⏸ Pause' : '⟳ Replay'}
+          </button>
+          <select
+            value={replaySpeed}
+            onChange={(e) => setReplaySpeed(Number(e.target.value))}
+            className={styles.replaySpeedSelect}
+          >
+            {REPLAY_SPEEDS.map(speed => (
+              <option key={speed.ms} value={speed.ms}>{speed.label}</option>
+            ))}
+          </select>
+        </div>
         <div className={styles.historyContent} ref={historyContentRef}>
-          {moveHistory.length === 0 ? (
+          {moveHistory.length === 0 && continuationIds.length === 0 ? (
             <div className={styles.emptyHistory}>No moves yet</div>
           ) : (
-            moveHistory.map((entry, index) => (
-              <div key={index} className={styles.historyEntry}>
-                <div className={styles.moveNumber}>{Math.floor(index / 2) + 1}.</div>
-                <div className={entry.isPlayerMove ? styles.playerMove : styles.aiMove}>
-                  {entry.move}
+            moveHistory.map((entry, index) => {
+              const id = currentLineIds[index];
+              const alternatives = moveTree.nodes[moveTree.nodes[id].parentId!].children.filter(childId => childId !== id);
+              return (
+                <div key={id}>
+                  <div
+                    data-ply={index + 1}
+                    className={[
+                      styles.historyEntry,
+                      (viewedPly ?? moveHistory.length) === index + 1 ? styles.historyEntryCurrent : '',
+                      mainLineFlags[index] ? '' : styles.sidelineEntry
+                    ].filter(Boolean).join(' ')}
+                    onClick={() => goToPly(index + 1)}
+                  >
+                    <div className={styles.moveNumber}>{Math.floor(index / 2) + 1}.</div>
+                    <div className={entry.isPlayerMove ? styles.playerMove : styles.aiMove}>
+                      {entry.move}
+                    </div>
+                    <div className={styles.movePlayer}>
+                      {entry.color === 'w' ? '(White)' : '(Black)'}
+                    </div>
+                    {renderNodeActions(id, !mainLineFlags[index])}
+                  </div>
+                  {alternatives.map(renderVariation)}
                 </div>
-                <div className={styles.movePlayer}>
-                  {entry.isPlayerMove ? '(White)' : '(Black)'}
-                </div>
-              </div>
-            ))
+              );
+            })
+          )}
+          {gameState.gameResult && (
+            <div className={styles.historyResult}>
+              {formatResultToken(gameState.gameResult.result)} - {describeResult(gameState.gameResult)}
+            </div>
+          )}
+          {continuationIds.length > 0 && (
+            <div className={styles.continuations}>
+              <div className={styles.continuationsLabel}>Continues with</div>
+              {continuationIds.map(renderVariation)}
+            </div>
           )}
         </div>
       </div>
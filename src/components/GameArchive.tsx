@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import styles from './GameArchive.module.css';
+import { useGameArchive } from '@/hooks/useGameArchive';
+import { AI_VERSION, type ArchivedGame, type ArchivedGameSummary, type GameFilter, type GameResultFilter } from '@/games/types';
+import { describeResult, formatResultToken } from '@/utils/gameResult';
+import { formatOpening } from '@/openings/eco';
+
+interface GameArchiveProps {
+  onOpen: (game: ArchivedGame) => void;
+  onClose: () => void;
+}
+
+const RESULT_OPTIONS: { value: GameResultFilter | ''; label: string }[] = [
+  { value: '', label: 'Any result' },
+  { value: '1-0', label: 'White won' },
+  { value: '0-1', label: 'Black won' },
+  { value: '1/2-1/2', label: 'Draw' },
+  { value: 'ongoing', label: 'In progress' },
+];
+
+const ENGINE_LABELS: Record<ArchivedGame['ai']['engine'], string> = {
+  llm: 'LLM',
+  local: 'Built-in',
+  uci: 'UCI',
+};
+
+// e.g. "You (White) vs LLM level 6 · 23 moves"
+const describeGame = (game: ArchivedGameSummary) => {
+  const side = game.playerColor === 'w' ? 'White' : 'Black';
+  const fullMoves = Math.ceil(game.moveCount / 2);
+  return `You (${side}) vs ${ENGINE_LABELS[game.ai.engine]} level ${game.ai.difficulty} · ${fullMoves} move${fullMoves === 1 ? '' : 's'}`;
+};
+
+const GameArchive: React.FC<GameArchiveProps> = ({ onOpen, onClose }) => {
+  const { games, isLoading, error, listGames, fetchGame, deleteGame } = useGameArchive();
+  const [filter, setFilter] = useState<GameFilter>({});
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listGames(filter);
+  }, [filter, listGames]);
+
+  // The current version is always on offer, even before any game with it is saved
+  const aiVersions = useMemo(
+    () => [...new Set([AI_VERSION, ...games.map(game => game.ai.version)])],
+    [games]
+  );
+
+  const updateFilter = (changes: Partial<GameFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  const handleOpen = async (id: string) => {
+    setOpeningId(id);
+    const game = await fetchGame(id);
+    setOpeningId(null);
+    if (game) {
+      onOpen(game);
+    }
+  };
+
+  return (
+    <div className={styles.archive}>
+      <div className={styles.archiveHeader}>
+        <span>My Games</span>
+        <button className={styles.archiveButton} onClick={onClose}>✕</button>
+      </div>
+
+      <div className={styles.filters}>
+        <select
+          value={filter.result ?? ''}
+          onChange={(e) => updateFilter({ result: (e.target.value || undefined) as GameResultFilter | undefined })}
+          className={styles.filterInput}
+        >
+          {RESULT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={filter.aiVersion ?? ''}
+          onChange={(e) => updateFilter({ aiVersion: e.target.value || undefined })}
+          className={styles.filterInput}
+        >
+          <option value="">Any AI version</option>
+          {aiVersions.map(version => (
+            <option key={version} value={version}>AI {version}</option>
+          ))}
+        </select>
+        <input
+          value={filter.opening ?? ''}
+          onChange={(e) => updateFilter({ opening: e.target.value || undefined })}
+          placeholder="Opening or ECO code"
+          className={styles.filterInput}
+        />
+        <label className={styles.dateFilter}>
+          From
+          <input
+            type="date"
+            value={filter.from ?? ''}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            className={styles.filterInput}
+          />
+        </label>
+        <label className={styles.dateFilter}>
+          To
+          <input
+            type="date"
+            value={filter.to ?? ''}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            className={styles.filterInput}
+          />
+        </label>
+      </div>
+
+      {error && <div className={styles.archiveError}>{error}</div>}
+
+      <div className={styles.gameList}>
+        {games.length === 0 && (
+          <div className={styles.emptyList}>
+            {isLoading ? 'Loading games...' : 'No saved games match these filters.'}
+          </div>
+        )}
+        {games.map(game => (
+          <div key={game.id} className={styles.gameRow}>
+            <div className={styles.gameInfo}>
+              <div className={styles.gameTitle}>
+                <span className={styles.gameResult}>
+                  {game.result ? formatResultToken(game.result.result) : '*'}
+                </span>
+                {describeGame(game)}
+              </div>
+              <div className={styles.gameDetails}>
+                {new Date(game.createdAt).toLocaleString()}
+                {' · '}
+                {game.result ? describeResult(game.result) : 'In progress'}
+                {game.opening && ` · ${formatOpening(game.opening)}`}
+              </div>
+            </div>
+            <div className={styles.gameActions}>
+              <button
+                className={styles.archiveButton}
+                onClick={() => handleOpen(game.id)}
+                disabled={openingId !== null}
+              >
+                {openingId === game.id ? 'Opening...' : 'Open'}
+              </button>
+              <button
+                className={styles.archiveButton}
+                onClick={() => window.confirm('Delete this game from the archive?') && deleteGame(game.id)}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GameArchive;
@@ -0,0 +1,189 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Color } from 'chess.js';
+import styles from './GameReview.module.css';
+import {
+  CLASSIFICATION_LABELS,
+  MOVE_CLASSIFICATIONS,
+  type AnalyzedMove,
+  type GameAnalysis,
+  type MoveClassification
+} from '@/utils/moveClassification';
+
+interface GameReviewProps {
+  analysis: GameAnalysis;
+  onExportPgn: () => void;
+  onClose: () => void;
+}
+
+const GRAPH_WIDTH = 480;
+const GRAPH_HEIGHT = 120;
+// Evaluations beyond ±10 pawns (and mates) are drawn at the edge of the graph
+const GRAPH_EVAL_CAP = 10;
+
+const GLYPHS: Partial<Record<MoveClassification, string>> = {
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+  'missed-mate': '?',
+};
+
+const CLASSIFICATION_STYLES: Record<MoveClassification, string> = {
+  best: styles.best,
+  excellent: styles.excellent,
+  good: styles.good,
+  inaccuracy: styles.inaccuracy,
+  mistake: styles.mistake,
+  blunder: styles.blunder,
+  'missed-mate': styles.missedMate,
+};
+
+const SIDES: { color: Color; label: string }[] = [
+  { color: 'w', label: 'White' },
+  { color: 'b', label: 'Black' },
+];
+
+const formatEval = (pawns: number, mate?: number) => {
+  if (mate !== undefined) return `#${mate}`;
+  return pawns > 0 ? `+${pawns.toFixed(2)}` : pawns.toFixed(2);
+};
+
+const GameReview: React.FC<GameReviewProps> = ({ analysis, onExportPgn, onClose }) => {
+  const [selectedPly, setSelectedPly] = useState<number | null>(null);
+  const selectedMove = selectedPly === null ? null : analysis.moves[selectedPly - 1];
+
+  // Points of the eval graph: x by ply, y from White's advantage (top = White winning)
+  const graphPoints = useMemo(() => {
+    const lastIndex = Math.max(1, analysis.evaluations.length - 1);
+    return analysis.evaluations.map((pawns, index) => {
+      const capped = Math.max(-GRAPH_EVAL_CAP, Math.min(GRAPH_EVAL_CAP, pawns));
+      return {
+        x: (index / lastIndex) * GRAPH_WIDTH,
+        y: GRAPH_HEIGHT / 2 - (capped / GRAPH_EVAL_CAP) * (GRAPH_HEIGHT / 2),
+      };
+    });
+  }, [analysis.evaluations]);
+
+  const graphLine = graphPoints.map(point => `${point.x},${point.y}`).join(' ');
+  const graphArea = `0,${GRAPH_HEIGHT} ${graphLine} ${GRAPH_WIDTH},${GRAPH_HEIGHT}`;
+
+  // Pair White's and Black's moves into numbered rows
+  const moveRows = useMemo(() => {
+    const rows: { moveNumber: number; white?: AnalyzedMove; black?: AnalyzedMove }[] = [];
+    analysis.moves.forEach(move => {
+      const last = rows[rows.length - 1];
+      if (move.color === 'b' && last && last.moveNumber === move.moveNumber && !last.black) {
+        last.black = move;
+      } else {
+        rows.push({ moveNumber: move.moveNumber, [move.color === 'w' ? 'white' : 'black']: move });
+      }
+    });
+    return rows;
+  }, [analysis.moves]);
+
+  const renderMove = (move: AnalyzedMove) => {
+    return (
+      <button
+        className={[
+          styles.moveCell,
+          CLASSIFICATION_STYLES[move.classification],
+          selectedPly === move.ply ? styles.selectedMove : ''
+        ].filter(Boolean).join(' ')}
+        onClick={() => setSelectedPly(selectedPly === move.ply ? null : move.ply)}
+        title={CLASSIFICATION_LABELS[move.classification]}
+      >
+        {move.move}{GLYPHS[move.classification] ?? ''}
+      </button>
+    );
+  };
+
+  return (
+    <div className={styles.review}>
+      <div className={styles.reviewHeader}>
+        <span>Game Review</span>
+        <div className={styles.reviewActions}>
+          <button className={styles.reviewButton} onClick={onExportPgn}>Export Analysis PGN</button>
+          <button className={styles.reviewButton} onClick={onClose}>✕</button>
+        </div>
+      </div>
+
+      <div className={styles.accuracyRow}>
+        {SIDES.map(({ color, label }) => (
+          <div key={color} className={styles.accuracyCard}>
+            <div className={styles.accuracyLabel}>{label}</div>
+            <div className={styles.accuracyValue}>
+              {analysis.accuracy[color] === null ? '-' : `${analysis.accuracy[color]}%`}
+            </div>
+            <div className={styles.classificationCounts}>
+              {MOVE_CLASSIFICATIONS.filter(classification => analysis.summary[color][classification] > 0).map(classification => (
+                <span key={classification} className={CLASSIFICATION_STYLES[classification]}>
+                  {analysis.summary[color][classification]} {CLASSIFICATION_LABELS[classification].toLowerCase()}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <svg
+        className={styles.evalGraph}
+        viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+        preserveAspectRatio="none"
+      >
+        <rect width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className={styles.graphBackground} />
+        <polygon points={graphArea} className={styles.graphArea} />
+        <line x1={0} y1={GRAPH_HEIGHT / 2} x2={GRAPH_WIDTH} y2={GRAPH_HEIGHT / 2} className={styles.graphMidline} />
+        {analysis.moves.filter(move => GLYPHS[move.classification]).map(move => (
+          <circle
+            key={move.ply}
+            cx={graphPoints[move.ply].x}
+            cy={graphPoints[move.ply].y}
+            r={selectedPly === move.ply ? 5 : 3.5}
+            className={`${styles.graphMarker} ${CLASSIFICATION_STYLES[move.classification]}`}
+            onClick={() => setSelectedPly(move.ply)}
+          >
+            <title>{`${move.moveNumber}${move.color === 'w' ? '.' : '...'} ${move.move}: ${CLASSIFICATION_LABELS[move.classification]}`}</title>
+          </circle>
+        ))}
+        {selectedMove && (
+          <line
+            x1={graphPoints[selectedMove.ply].x}
+            y1={0}
+            x2={graphPoints[selectedMove.ply].x}
+            y2={GRAPH_HEIGHT}
+            className={styles.graphCursor}
+          />
+        )}
+      </svg>
+
+      {selectedMove && (
+        <div className={styles.moveDetail}>
+          <strong>
+            {selectedMove.moveNumber}{selectedMove.color === 'w' ? '.' : '...'} {selectedMove.move}
+          </strong>{' '}
+          {CLASSIFICATION_LABELS[selectedMove.classification]} · {formatEval(selectedMove.evalBefore)} →{' '}
+          {formatEval(selectedMove.evalAfter, selectedMove.mateAfter)} · accuracy {selectedMove.accuracy}%
+          {selectedMove.bestMove && (
+            <div className={styles.bestLine}>
+              Best was {selectedMove.bestMove}
+              {selectedMove.bestLine && selectedMove.bestLine.length > 1 && ` (${selectedMove.bestLine.join(' ')})`}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className={styles.moveList}>
+        {moveRows.map(row => (
+          <div key={`${row.moveNumber}-${row.white?.ply ?? row.black?.ply}`} className={styles.moveRow}>
+            <span className={styles.moveRowNumber}>{row.moveNumber}.</span>
+            {row.white ? renderMove(row.white) : <span className={styles.moveCell}>...</span>}
+            {row.black && renderMove(row.black)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GameReview;
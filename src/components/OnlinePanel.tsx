@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import styles from './OnlinePanel.module.css';
+import { getRoomLink } from '@/hooks/useOnlineRoom';
+import type { RoomState, Seat, SeatStatus } from '@/multiplayer/types';
+
+type RoomColorChoice = Seat | 'random';
+
+interface OnlinePanelProps {
+  room: RoomState | null;
+  seat: Seat | null; // null while watching
+  error: string | null;
+  onCreate: (color: RoomColorChoice) => void;
+  onJoin: (roomId: string) => void;
+  onLeave: () => void;
+}
+
+const COLOR_OPTIONS: { value: RoomColorChoice; label: string }[] = [
+  { value: 'w', label: 'White' },
+  { value: 'b', label: 'Black' },
+  { value: 'random', label: 'Random' },
+];
+
+const sideName = (seat: Seat) => (seat === 'w' ? 'White' : 'Black');
+
+const describeSeat = (status: SeatStatus) => {
+  if (!status.taken) return 'waiting for a player';
+  return status.connected ? 'connected' : 'away';
+};
+
+const OnlinePanel: React.FC<OnlinePanelProps> = ({ room, seat, error, onCreate, onJoin, onLeave }) => {
+  const [color, setColor] = useState<RoomColorChoice>('w');
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async (roomId: string) => {
+    try {
+      await navigator.clipboard.writeText(getRoomLink(roomId));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt('Copy the room link:', getRoomLink(roomId));
+    }
+  };
+
+  if (!room) {
+    return (
+      <div className={styles.onlinePanel}>
+        <div className={styles.panelHeader}>Play Online</div>
+        <div className={styles.panelRow}>
+          <span className={styles.panelLabel}>Your side:</span>
+          <select
+            value={color}
+            onChange={(e) => setColor(e.target.value as RoomColorChoice)}
+            className={styles.panelSelect}
+          >
+            {COLOR_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button className={styles.panelButton} onClick={() => onCreate(color)}>
+            Create Room
+          </button>
+        </div>
+        <div className={styles.panelHint}>
+          Share the room link with your opponent; anyone else with it can watch.
+        </div>
+        {error && <div className={styles.panelError}>{error}</div>}
+      </div>
+    );
+  }
+
+  const freeSeat = (['w', 'b'] as Seat[]).find(candidate => !room.seats[candidate].taken);
+
+  return (
+    <div className={styles.onlinePanel}>
+      <div className={styles.panelHeader}>
+        <span>Room {room.id}</span>
+        <button className={styles.panelButton} onClick={onLeave}>Leave</button>
+      </div>
+      <div className={styles.panelRow}>
+        <input className={styles.roomLink} value={getRoomLink(room.id)} readOnly onFocus={(e) => e.target.select()} />
+        <button className={styles.panelButton} onClick={() => copyLink(room.id)}>
+          {copied ? 'Copied!' : 'Copy Link'}
+        </button>
+      </div>
+      <div className={styles.seats}>
+        {(['w', 'b'] as Seat[]).map(candidate => (
+          <div key={candidate} className={room.seats[candidate].connected ? styles.seatConnected : styles.seat}>
+            {sideName(candidate)}{seat === candidate ? ' (you)' : ''}: {describeSeat(room.seats[candidate])}
+          </div>
+        ))}
+        <div className={styles.seat}>
+          {room.spectators} watching
+        </div>
+      </div>
+      {seat === null && (
+        <div className={styles.panelRow}>
+          <span className={styles.panelHint}>You&apos;re watching this game.</span>
+          {freeSeat && !room.result && (
+            <button className={styles.panelButton} onClick={() => onJoin(room.id)}>
+              Join as {sideName(freeSeat)}
+            </button>
+          )}
+        </div>
+      )}
+      {error && <div className={styles.panelError}>{error}</div>}
+    </div>
+  );
+};
+
+export default OnlinePanel;
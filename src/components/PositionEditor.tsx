@@ -0,0 +1,285 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Color, Piece, PieceSymbol, Square } from 'chess.js';
+import styles from './PositionEditor.module.css';
+import { usePieceImage } from '@/hooks/usePieceImage';
+import {
+  EDITOR_SQUARES,
+  EMPTY_FEN,
+  START_FEN,
+  fenToSetup,
+  setupToFen,
+  getAvailableCastling,
+  getEnPassantCandidates,
+  validatePosition,
+  type CastlingRights,
+  type PositionSetup
+} from '@/utils/fenUtils';
+
+interface PositionEditorProps {
+  initialFen: string;
+  onStart: (fen: string) => void;
+  onCancel: () => void;
+}
+
+type EditorTool = Piece | 'erase';
+
+interface DragPayload {
+  piece: Piece;
+  from?: Square;
+}
+
+const PALETTE_TYPES: PieceSymbol[] = ['k', 'q', 'r', 'b', 'n', 'p'];
+const DRAG_TYPE = 'application/x-chess-piece';
+const CASTLING_LABELS: { right: keyof CastlingRights; label: string }[] = [
+  { right: 'K', label: 'White O-O' },
+  { right: 'Q', label: 'White O-O-O' },
+  { right: 'k', label: 'Black O-O' },
+  { right: 'q', label: 'Black O-O-O' },
+];
+
+// Drop castling and en passant settings the piece placement no longer supports
+const normaliseSetup = (setup: PositionSetup): PositionSetup => {
+  const available = getAvailableCastling(setup);
+  const enPassant = setup.enPassant && getEnPassantCandidates(setup).includes(setup.enPassant)
+    ? setup.enPassant
+    : null;
+
+  return {
+    ...setup,
+    castling: {
+      K: setup.castling.K && available.K,
+      Q: setup.castling.Q && available.Q,
+      k: setup.castling.k && available.k,
+      q: setup.castling.q && available.q,
+    },
+    enPassant,
+  };
+};
+
+const PositionEditor: React.FC<PositionEditorProps> = ({ initialFen, onStart, onCancel }) => {
+  const { getPieceImage } = usePieceImage();
+  const [setup, setSetup] = useState<PositionSetup>(() => fenToSetup(initialFen));
+  const [tool, setTool] = useState<EditorTool>({ color: 'w', type: 'q' });
+  const [fenInput, setFenInput] = useState(initialFen);
+  const [fenInputError, setFenInputError] = useState<string | null>(null);
+
+  const fen = useMemo(() => setupToFen(setup), [setup]);
+  const errors = useMemo(() => validatePosition(fen), [fen]);
+  const availableCastling = useMemo(() => getAvailableCastling(setup), [setup]);
+  const enPassantCandidates = useMemo(() => getEnPassantCandidates(setup), [setup]);
+
+  const updateBoard = (update: (board: PositionSetup['board']) => void) => {
+    setSetup(prev => {
+      const board = { ...prev.board };
+      update(board);
+      return normaliseSetup({ ...prev, board });
+    });
+  };
+
+  const loadFen = (value: string) => {
+    try {
+      const loaded = fenToSetup(value);
+      setSetup(loaded);
+      setFenInput(setupToFen(loaded));
+      setFenInputError(null);
+    } catch (error) {
+      setFenInputError(error instanceof Error ? error.message : 'Invalid FEN');
+    }
+  };
+
+  const handleSquareClick = (square: Square) => {
+    updateBoard(board => {
+      const current = board[square];
+      if (tool === 'erase' || (current && current.color === tool.color && current.type === tool.type)) {
+        delete board[square];
+      } else {
+        board[square] = tool;
+      }
+    });
+  };
+
+  const handleDragStart = (event: React.DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = payload.from ? 'move' : 'copy';
+  };
+
+  const handleDrop = (event: React.DragEvent, square: Square) => {
+    event.preventDefault();
+    const data = event.dataTransfer.getData(DRAG_TYPE);
+    if (!data) return;
+
+    const payload: DragPayload = JSON.parse(data);
+    updateBoard(board => {
+      if (payload.from) {
+        delete board[payload.from];
+      }
+      board[square] = payload.piece;
+    });
+  };
+
+  // A board piece dropped anywhere off the board is removed
+  const handleBoardPieceDragEnd = (event: React.DragEvent, square: Square) => {
+    if (event.dataTransfer.dropEffect === 'none') {
+      updateBoard(board => {
+        delete board[square];
+      });
+    }
+  };
+
+  const renderPalette = (color: Color) => (
+    <div className={styles.paletteRow}>
+      {PALETTE_TYPES.map(type => {
+        const piece: Piece = { color, type };
+        const isActive = tool !== 'erase' && tool.color === color && tool.type === type;
+        return (
+          <div
+            key={`${color}${type}`}
+            className={`${styles.paletteItem} ${isActive ? styles.paletteItemActive : ''}`}
+            draggable
+            onDragStart={(e) => handleDragStart(e, { piece })}
+            onClick={() => setTool(piece)}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={getPieceImage(piece)!} alt={`${color} ${type}`} className={styles.palettePiece} />
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className={styles.editor}>
+      {renderPalette('b')}
+
+      <div className={styles.editorBoard}>
+        {EDITOR_SQUARES.map((square, index) => {
+          const piece = setup.board[square];
+          const isLight = (Math.floor(index / 8) + index % 8) % 2 === 0;
+          return (
+            <div
+              key={square}
+              className={`${styles.editorSquare} ${isLight ? styles.lightSquare : styles.darkSquare}`}
+              onClick={() => handleSquareClick(square)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => handleDrop(e, square)}
+            >
+              {piece && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={getPieceImage(piece)!}
+                  alt={`${piece.color} ${piece.type}`}
+                  className={styles.editorPiece}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, { piece, from: square })}
+                  onDragEnd={(e) => handleBoardPieceDragEnd(e, square)}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {renderPalette('w')}
+
+      <div className={styles.toolRow}>
+        <button
+          className={`${styles.toolButton} ${tool === 'erase' ? styles.toolButtonActive : ''}`}
+          onClick={() => setTool('erase')}
+        >
+          Eraser
+        </button>
+        <button className={styles.toolButton} onClick={() => loadFen(START_FEN)}>
+          Starting Position
+        </button>
+        <button className={styles.toolButton} onClick={() => loadFen(EMPTY_FEN)}>
+          Clear Board
+        </button>
+      </div>
+
+      <div className={styles.settings}>
+        <label className={styles.settingRow}>
+          <span>Side to move</span>
+          <select
+            value={setup.turn}
+            onChange={(e) => setSetup(prev => normaliseSetup({ ...prev, turn: e.target.value as Color }))}
+          >
+            <option value="w">White</option>
+            <option value="b">Black</option>
+          </select>
+        </label>
+
+        <div className={styles.settingRow}>
+          <span>Castling</span>
+          <div className={styles.castlingOptions}>
+            {CASTLING_LABELS.map(({ right, label }) => (
+              <label key={right} className={!availableCastling[right] ? styles.disabledOption : ''}>
+                <input
+                  type="checkbox"
+                  checked={setup.castling[right]}
+                  disabled={!availableCastling[right]}
+                  onChange={(e) => setSetup(prev => ({
+                    ...prev,
+                    castling: { ...prev.castling, [right]: e.target.checked },
+                  }))}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <label className={styles.settingRow}>
+          <span>En passant</span>
+          <select
+            value={setup.enPassant || ''}
+            onChange={(e) => setSetup(prev => ({ ...prev, enPassant: (e.target.value || null) as Square | null }))}
+          >
+            <option value="">None</option>
+            {enPassantCandidates.map(square => (
+              <option key={square} value={square}>{square}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.fenRow}>
+        <input
+          className={styles.fenInput}
+          value={fenInput}
+          onChange={(e) => setFenInput(e.target.value)}
+          placeholder="Paste a FEN..."
+        />
+        <button className={styles.toolButton} onClick={() => loadFen(fenInput)}>
+          Load FEN
+        </button>
+      </div>
+      <div className={styles.currentFen}>{fen}</div>
+      {fenInputError && <div className={styles.errorText}>{fenInputError}</div>}
+
+      {errors.length > 0 && (
+        <ul className={styles.errorList}>
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className={styles.toolRow}>
+        <button
+          className={`${styles.startButton} ${errors.length > 0 ? styles.disabledButton : ''}`}
+          disabled={errors.length > 0}
+          onClick={() => onStart(fen)}
+        >
+          Play From Here
+        </button>
+        <button className={styles.toolButton} onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PositionEditor;
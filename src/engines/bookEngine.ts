@@ -0,0 +1,39 @@
+import { Chess } from 'chess.js';
+import { formatOpening, getOpeningAt, getOpeningBook, pickBookMove, type OpeningBook } from '@/openings';
+import type { MoveEngine, MoveEngineRequest, MoveEngineResult } from './types';
+
+// Play from the opening book while the position is in it, and let `engine` take over afterwards
+export function withOpeningBook(
+  engine: MoveEngine,
+  getBook: () => OpeningBook | null = getOpeningBook,
+  random: () => number = Math.random
+): MoveEngine {
+  return {
+    name: engine.name,
+
+    async chooseMove(request: MoveEngineRequest): Promise<MoveEngineResult> {
+      const book = getBook();
+      const moves = book?.getMoves(request.fen) ?? [];
+      const choice = pickBookMove(moves, random);
+      if (!book || !choice) {
+        return engine.chooseMove(request);
+      }
+
+      const game = new Chess(request.fen);
+      game.move(choice.san);
+      const opening = getOpeningAt(game.fen()) ?? getOpeningAt(request.fen);
+      console.log(`📖 Book move ${choice.san} from ${book.name}`);
+
+      return {
+        move: choice.san,
+        reasoning:
+          `Book move from ${book.name}${opening ? ` (${formatOpening(opening)})` : ''}. ` +
+          `Chosen by weight from ${moves.map(move => `${move.san} ${move.weight}`).join(', ')}.`,
+        fen: game.fen(),
+        engine: engine.name,
+        gamePhase: 'opening',
+        book: book.name,
+      };
+    },
+  };
+}
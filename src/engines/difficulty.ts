@@ -0,0 +1,71 @@
+import { Chess } from 'chess.js';
+import type { MoveEngine, MoveEngineRequest, MoveEngineResult } from './types';
+
+export type DifficultyLevel = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
+
+export interface DifficultySettings {
+  level: DifficultyLevel;
+  approxElo: number;
+  blunderChance: number; // probability of playing a random legal move instead
+  candidateCount: number | null; // top formatAndScoreMoves entries shown to the LLM; null = all
+  searchDepth: number | null; // depth cap for search engines; null = limited by time only
+  temperature: number; // LLM sampling temperature
+}
+
+const level = (
+  level: DifficultyLevel,
+  approxElo: number,
+  blunderChance: number,
+  candidateCount: number | null,
+  searchDepth: number | null,
+  temperature: number
+): DifficultySettings => ({ level, approxElo, blunderChance, candidateCount, searchDepth, temperature });
+
+export const DIFFICULTY_LEVELS: Record<DifficultyLevel, DifficultySettings> = {
+  1: level(1, 400, 0.4, 3, 1, 1.2),
+  2: level(2, 600, 0.3, 4, 1, 1.1),
+  3: level(3, 800, 0.22, 5, 2, 1.0),
+  4: level(4, 1000, 0.15, 6, 2, 0.9),
+  5: level(5, 1200, 0.1, 8, 3, 0.8),
+  6: level(6, 1400, 0.06, 10, 3, 0.7),
+  7: level(7, 1600, 0.03, 12, 4, 0.6),
+  8: level(8, 1800, 0.015, 16, 5, 0.5),
+  9: level(9, 2000, 0.005, 20, 6, 0.4),
+  10: level(10, 2200, 0, null, null, 0.3),
+};
+
+export const DEFAULT_DIFFICULTY: DifficultyLevel = 6;
+
+export function isDifficultyLevel(value: unknown): value is DifficultyLevel {
+  return typeof value === 'number' && value in DIFFICULTY_LEVELS;
+}
+
+export function getDifficultyLabel(settings: DifficultySettings): string {
+  return `Level ${settings.level} (~${settings.approxElo})`;
+}
+
+// Let the engine choose, except when the level's blunder roll says to play a random move
+export async function chooseMoveAtLevel(
+  engine: MoveEngine,
+  request: MoveEngineRequest,
+  random: () => number = Math.random
+): Promise<MoveEngineResult> {
+  const { difficulty } = request;
+  if (!difficulty || random() >= difficulty.blunderChance) {
+    return engine.chooseMove(request);
+  }
+
+  const game = new Chess(request.fen);
+  const moves = game.moves();
+  if (moves.length === 0) {
+    throw new Error('No legal moves available');
+  }
+  const move = game.move(moves[Math.floor(random() * moves.length)]);
+
+  return {
+    move: move.san,
+    reasoning: `Played ${move.san} without much thought (${getDifficultyLabel(difficulty)}).`,
+    fen: game.fen(),
+    engine: engine.name,
+  };
+}
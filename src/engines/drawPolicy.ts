@@ -0,0 +1,34 @@
+import { Chess } from 'chess.js';
+import { evaluateFen } from './evaluator';
+
+export interface DrawOfferDecision {
+  accepted: boolean;
+  message: string;
+  evaluation: number; // pawns, from the AI's point of view
+}
+
+// The AI doesn't take draws in the opening, however level the position
+export const MIN_DRAW_OFFER_MOVE = 15;
+// ...and turns them down while it is better by more than this (pawns)
+export const DRAW_ACCEPT_THRESHOLD = 0.5;
+
+const DRAW_OFFER_TIME_LIMIT = 500;
+
+// Decide whether the AI playing `aiColor` agrees to a draw in this position
+export async function decideDrawOffer(fen: string, aiColor: 'w' | 'b'): Promise<DrawOfferDecision> {
+  const game = new Chess(fen);
+  const moveNumber = game.moveNumber();
+  const evaluation = await evaluateFen(fen, DRAW_OFFER_TIME_LIMIT);
+  const perspective = aiColor === 'w' ? 1 : -1;
+  const aiEval = evaluation.mate
+    ? Math.sign(evaluation.mate) * perspective * 100
+    : evaluation.eval * perspective;
+
+  if (moveNumber < MIN_DRAW_OFFER_MOVE && aiEval > -DRAW_ACCEPT_THRESHOLD) {
+    return { accepted: false, message: `Too early for a draw - play on until move ${MIN_DRAW_OFFER_MOVE}`, evaluation: aiEval };
+  }
+  if (aiEval > DRAW_ACCEPT_THRESHOLD) {
+    return { accepted: false, message: 'Declined - the AI thinks it is better here', evaluation: aiEval };
+  }
+  return { accepted: true, message: 'Draw agreed', evaluation: aiEval };
+}
@@ -0,0 +1,126 @@
+import { Chess } from 'chess.js';
+import { SearchBoard } from './search/board';
+import { searchBestMove, isMateScore, movesToMate } from './search/search';
+import { getUciPool, type UciEnginePool } from './uci/uciPool';
+import { uciScoreToCentipawns } from './uciEngine';
+import { uciLineToSan } from '@/utils/chessUtils';
+import { describeTablebaseProbe, probeTablebase, type TablebaseProbe, type Wdl } from '@/tablebase';
+
+// Same shape the eval bar consumed from chess-api.com, always from White's point of view
+export interface PositionEvaluation {
+  eval: number; // pawns
+  winChance: number; // White's winning chances, 0-100
+  text: string;
+  depth: number;
+  mate?: number; // positive when White mates
+  move?: string; // long algebraic, e.g. e2e4
+  san?: string;
+  continuationArr?: string[]; // SAN
+  tablebase?: { wdl: Wdl; dtz?: number }; // exact result for the side to move, when the tablebase covers the position
+}
+
+export const DEFAULT_EVALUATION_TIME_LIMIT = 300;
+
+// Logistic mapping from centipawns to winning chances (the curve chess-api.com and Lichess use)
+export function getWinChance(centipawns: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * centipawns)) - 1);
+}
+
+function describeAdvantage(pawns: number, mate?: number): string {
+  if (mate) {
+    return `${mate > 0 ? 'White' : 'Black'} has mate in ${Math.abs(mate)}`;
+  }
+  const side = pawns > 0 ? 'White' : 'Black';
+  const size = Math.abs(pawns);
+  if (size < 0.5) return 'The game is balanced';
+  if (size < 1.5) return `${side} is slightly better`;
+  if (size < 3) return `${side} is clearly better`;
+  return `${side} is winning`;
+}
+
+interface RawEvaluation {
+  score: number; // centipawns for the side to move, mates near ±MATE_SCORE
+  depth: number;
+  pv: string[]; // long algebraic
+}
+
+function searchLocally(fen: string, timeLimitMs: number): RawEvaluation {
+  const result = searchBestMove(fen, { timeLimitMs });
+  if (!result.move) {
+    throw new Error('Position has no legal moves');
+  }
+  return {
+    score: result.score,
+    depth: result.depth,
+    pv: (result.pv.length ? result.pv : [result.move]).map(SearchBoard.toUci),
+  };
+}
+
+async function searchWithUci(pool: UciEnginePool, fen: string, timeLimitMs: number): Promise<RawEvaluation> {
+  const result = await pool.withEngineFor(fen, engine => engine.go({ fen, movetime: timeLimitMs }));
+  return {
+    score: result.info.score ? uciScoreToCentipawns(result.info.score) : 0,
+    depth: result.info.depth ?? 0,
+    pv: result.info.pv?.length ? result.info.pv : [result.bestMove],
+  };
+}
+
+// A tablebase win is worth as much as a mate; cursed wins and blessed losses are draws
+function fromTablebase(fen: string, probe: TablebaseProbe): PositionEvaluation {
+  const perspective = new Chess(fen).turn() === 'w' ? 1 : -1;
+  const outcome = Math.abs(probe.wdl) === 2 ? Math.sign(probe.wdl) * perspective : 0;
+  const best = probe.bestMove;
+
+  return {
+    eval: outcome * 100,
+    winChance: 50 + outcome * 50,
+    text: describeTablebaseProbe(probe, fen),
+    depth: 0,
+    move: best?.uci,
+    san: best?.san,
+    continuationArr: best ? [best.san] : [],
+    tablebase: { wdl: probe.wdl, dtz: probe.dtz },
+  };
+}
+
+// Read the result from the tablebase when it covers the position; otherwise evaluate with the configured
+// UCI engine when there is one, or with the built-in searcher
+export async function evaluateFen(fen: string, timeLimitMs = DEFAULT_EVALUATION_TIME_LIMIT): Promise<PositionEvaluation> {
+  const probe = probeTablebase(fen);
+  if (probe) {
+    return fromTablebase(fen, probe);
+  }
+
+  const game = new Chess(fen);
+  const pool = getUciPool();
+
+  let raw: RawEvaluation;
+  try {
+    raw = pool ? await searchWithUci(pool, fen, timeLimitMs) : searchLocally(fen, timeLimitMs);
+  } catch (error) {
+    if (!pool) throw error;
+    console.warn('⚠️ UCI evaluation failed - falling back to the local engine:', error);
+    raw = searchLocally(fen, timeLimitMs);
+  }
+
+  const perspective = game.turn() === 'w' ? 1 : -1;
+  const mate = isMateScore(raw.score) ? movesToMate(raw.score) * perspective : undefined;
+  const centipawns = mate ? Math.sign(mate) * 10_000 : raw.score * perspective;
+  const pawns = Math.round(centipawns) / 100;
+
+  const continuationArr = uciLineToSan(fen, raw.pv);
+  const [move] = raw.pv;
+  const from = move.slice(0, 2);
+  const to = move.slice(2, 4);
+
+  return {
+    eval: mate ? Math.sign(mate) * 100 : pawns,
+    winChance: mate ? (mate > 0 ? 100 : 0) : getWinChance(centipawns),
+    text: `Move ${from} → ${to} (${continuationArr[0]}): [${pawns.toFixed(2)}]. ${describeAdvantage(pawns, mate)}. Depth ${raw.depth}.`,
+    depth: raw.depth,
+    mate,
+    move,
+    san: continuationArr[0],
+    continuationArr,
+  };
+}
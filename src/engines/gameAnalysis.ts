@@ -0,0 +1,67 @@
+import { Chess } from 'chess.js';
+import { evaluateFen, DEFAULT_EVALUATION_TIME_LIMIT } from './evaluator';
+import { classifyMove, summarizeMoves, type AnalyzedMove, type GameAnalysis, type ScoredPosition } from '@/utils/moveClassification';
+
+// Game-over positions can't be searched; score them directly
+function scoreFinalPosition(game: Chess): ScoredPosition {
+  if (game.isCheckmate()) {
+    return game.turn() === 'w' ? { eval: -100, winChance: 0 } : { eval: 100, winChance: 100 };
+  }
+  return { eval: 0, winChance: 50 };
+}
+
+// Evaluate every position of a game and classify each move for both sides
+export async function analyzeGame({
+  moves,
+  startFen,
+  timeLimitMs = DEFAULT_EVALUATION_TIME_LIMIT,
+}: {
+  moves: string[];
+  startFen?: string;
+  timeLimitMs?: number;
+}): Promise<GameAnalysis> {
+  const game = new Chess(startFen);
+  const positions = [{ fen: game.fen(), moveNumber: game.moveNumber(), color: game.turn() }];
+  const sanMoves: string[] = [];
+
+  moves.forEach((san, index) => {
+    try {
+      sanMoves.push(game.move(san).san);
+    } catch {
+      throw new Error(`Move ${index + 1} (${san}) is not legal from ${game.fen()}`);
+    }
+    positions.push({ fen: game.fen(), moveNumber: game.moveNumber(), color: game.turn() });
+  });
+
+  // One search per position; each evaluation serves as "after" for one move and "before" for the next
+  const scores: ScoredPosition[] = [];
+  for (const { fen } of positions) {
+    const position = new Chess(fen);
+    scores.push(position.isGameOver() ? scoreFinalPosition(position) : await evaluateFen(fen, timeLimitMs));
+  }
+
+  const analyzedMoves: AnalyzedMove[] = sanMoves.map((move, index) => {
+    const { moveNumber, color } = positions[index];
+    const before = scores[index];
+    const after = scores[index + 1];
+    return {
+      ply: index + 1,
+      moveNumber,
+      color,
+      move,
+      fen: positions[index + 1].fen,
+      evalBefore: before.eval,
+      evalAfter: after.eval,
+      mateAfter: after.mate,
+      ...classifyMove({ color, move, before, after, deliversMate: move.endsWith('#') }),
+    };
+  });
+
+  return {
+    startFen,
+    moves: analyzedMoves,
+    evaluations: scores.map(score => score.eval),
+    ...summarizeMoves(analyzedMoves),
+    timeLimitMs,
+  };
+}
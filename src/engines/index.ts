@@ -0,0 +1,50 @@
+import { llmEngine } from './llmEngine';
+import { localEngine } from './localEngine';
+import { uciEngine } from './uciEngine';
+import { withOpeningBook } from './bookEngine';
+import { withTablebase } from './tablebaseEngine';
+import { getUciConfigFromEnv } from './uci/uciPool';
+import { getLlmProviderName, isLlmConfigured } from '@/llm';
+import type { EngineName, MoveEngine } from './types';
+
+export type {
+  EngineName,
+  MoveEngine,
+  MoveEngineRequest,
+  MoveEngineResult,
+  MoveProgressEvent,
+  MoveStreamEvent,
+  SearchSummary
+} from './types';
+
+const MOVE_ENGINES: Record<EngineName, MoveEngine> = {
+  llm: llmEngine,
+  local: localEngine,
+  uci: uciEngine,
+};
+
+export const ENGINE_NAMES = Object.keys(MOVE_ENGINES) as EngineName[];
+
+export function isEngineName(name: unknown): name is EngineName {
+  return typeof name === 'string' && name in MOVE_ENGINES;
+}
+
+const withBookAndTablebase = (engine: MoveEngine) => withTablebase(withOpeningBook(engine));
+
+// Resolve the requested engine (or MOVE_ENGINE, defaulting to the LLM), playing from the opening book first
+// and from the endgame tablebase once few enough pieces are left. Without a usable LLM provider or a UCI
+// binary the local searcher plays instead.
+export function getMoveEngine(name?: EngineName): { engine: MoveEngine; fallbackFrom?: EngineName } {
+  const envDefault = isEngineName(process.env.MOVE_ENGINE) ? process.env.MOVE_ENGINE : 'llm';
+  const requested = name ?? envDefault;
+
+  if (requested === 'llm' && !isLlmConfigured()) {
+    console.warn(`⚠️ LLM provider "${getLlmProviderName()}" is not configured - using the local engine instead`);
+    return { engine: withBookAndTablebase(MOVE_ENGINES.local), fallbackFrom: 'llm' };
+  }
+  if (requested === 'uci' && !getUciConfigFromEnv()) {
+    console.warn('⚠️ UCI_ENGINE_PATH is not set - using the local engine instead');
+    return { engine: withBookAndTablebase(MOVE_ENGINES.local), fallbackFrom: 'uci' };
+  }
+  return { engine: withBookAndTablebase(MOVE_ENGINES[requested]) };
+}
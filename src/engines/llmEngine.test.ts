@@ -0,0 +1,92 @@
+import { Chess } from 'chess.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from '@/llm/mockProvider';
+import { formatAndScoreMoves } from '@/utils/chessUtils';
+import { buildMoveSchema, parseStructuredResponse, type StructuredMoveResponse } from '@/utils/structuredOutput';
+import { llmEngine } from './llmEngine';
+
+// The engine asks getLlmProvider(); each test hands it a freshly scripted mock
+let provider = createMockProvider();
+vi.mock('@/llm', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/llm')>(),
+  getLlmProvider: () => provider,
+}));
+
+// No moves played yet, so the engine makes no history call and the script only answers for the move
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const chooseFromStart = () => llmEngine.chooseMove({ fen: START, aiColor: 'w', moveCount: 0 });
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('parseStructuredResponse with the mock provider', () => {
+  const schema = buildMoveSchema(['e4', 'd4']);
+  const reply = (content: string) =>
+    createMockProvider({ responses: [content] }).complete([{ role: 'user', content: 'Move?' }], {
+      responseFormat: { name: 'chess_move', schema },
+    });
+
+  it('accepts a reply that matches the schema', async () => {
+    expect(parseStructuredResponse<StructuredMoveResponse>(await reply('{"move":"d4","reasoning":"Queen pawn."}'), schema))
+      .toEqual({ data: { move: 'd4', reasoning: 'Queen pawn.' }, violations: [] });
+  });
+
+  it('lists every way a reply breaks the schema', async () => {
+    expect(parseStructuredResponse(await reply('{"move":"Nf3","extra":1}'), schema)).toEqual({
+      data: null,
+      violations: ['$.reasoning is required', '$.extra is not allowed', '$.move "Nf3" is not one of the allowed values'],
+    });
+    expect(parseStructuredResponse(await reply('e4, obviously'), schema))
+      .toEqual({ data: null, violations: ['response is not valid JSON'] });
+  });
+
+  it('accepts the reply the mock builds from the schema once its script runs out', async () => {
+    const completion = await createMockProvider().complete([{ role: 'user', content: 'Move?' }], {
+      responseFormat: { name: 'chess_move', schema },
+    });
+    expect(parseStructuredResponse(completion, schema).data).toEqual({ move: 'e4', reasoning: 'Mock reasoning' });
+  });
+});
+
+describe('llmEngine with the mock provider', () => {
+  it('plays a valid structured move on the first attempt', async () => {
+    provider = createMockProvider({ responses: ['{"move":"e4","reasoning":"Takes the centre."}'] });
+    const result = await chooseFromStart();
+
+    expect(result).toMatchObject({ move: 'e4', reasoning: 'Takes the centre.', engine: 'llm' });
+    expect(result.metadata).toMatchObject({ attempts: 1, schemaViolations: [], degraded: false });
+    expect(provider.calls).toHaveLength(1);
+    expect(provider.calls[0][0].content).toContain('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+  });
+
+  it('asks again after a reply that breaks the schema', async () => {
+    provider = createMockProvider({
+      responses: ['{"move":"e5","reasoning":"Black\'s move."}', '{"move":"d4","reasoning":"Second try."}'],
+    });
+    const result = await chooseFromStart();
+
+    expect(result).toMatchObject({ move: 'd4', reasoning: 'Second try.' });
+    expect(result.metadata).toMatchObject({
+      attempts: 2,
+      schemaViolations: ['attempt 1: $.move "e5" is not one of the allowed values'],
+      degraded: false,
+    });
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('falls back to the top candidate once the attempts run out', async () => {
+    provider = createMockProvider({ responses: ['not JSON', '{"move":"e4"}'] });
+    const result = await chooseFromStart();
+    const [topCandidate] = formatAndScoreMoves(new Chess(START).moves({ verbose: true }), START, 'b');
+
+    expect(result.move).toBe(topCandidate.notation);
+    expect(result.reasoning).toMatch(/no valid response after 2 attempts/);
+    expect(result.metadata).toMatchObject({
+      attempts: 2,
+      schemaViolations: ['attempt 1: response is not valid JSON', 'attempt 2: $.reasoning is required'],
+      degraded: true,
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { Chess } from 'chess.js';
+import {
+  determineGamePhase,
+  analyzePosition,
+  analyzeHistoricalMoves,
+  createDynamicPrompt,
+  createBoardVisual,
+  formatAndScoreMoves
+} from '@/utils/chessUtils';
+import { getLlmProvider } from '@/llm';
+import {
+  buildMoveSchema,
+  parseStructuredResponse,
+  streamJsonStringField,
+  type StructuredMoveResponse,
+  type StructuredOutputMetadata
+} from '@/utils/structuredOutput';
+import type { MoveEngine, MoveEngineRequest, MoveEngineResult } from './types';
+
+const MOVE_RESPONSE_FORMAT = 'chess_move';
+const MAX_STRUCTURED_ATTEMPTS = 2;
+
+// The configured LLM prompted with scored candidate moves, answering with a schema-constrained JSON move
+export const llmEngine: MoveEngine = {
+  name: 'llm',
+
+  async chooseMove({
+    fen,
+    aiColor,
+    moveCount,
+    tacticalPatterns,
+    difficulty,
+    onProgress,
+    signal
+  }: MoveEngineRequest): Promise<MoveEngineResult> {
+    const game = new Chess(fen);
+    const llm = getLlmProvider();
+    const recentMoves = game.history().slice(-6); // Use actual game history instead of passed gameHistory
+    const moves = game.moves({ verbose: true });
+
+    if (moves.length === 0) {
+      throw new Error('No legal moves available');
+    }
+
+    const gamePhase = determineGamePhase(game, moveCount);
+    console.log('🤖 V3 API - Game phase:', gamePhase);
+    onProgress?.({ type: 'phase', gamePhase });
+    const positionAnalysis = analyzePosition(game);
+    const historicalAnalysis = await analyzeHistoricalMoves(recentMoves, llm, signal);
+    signal?.throwIfAborted();
+    onProgress?.({ type: 'historical-analysis', analysis: historicalAnalysis });
+
+    // Format and score moves using the helper function; weaker levels only see the top few
+    const opponentColor = aiColor === 'w' ? 'b' : 'w';
+    const scoredMoves = formatAndScoreMoves(moves, fen, opponentColor);
+    const formattedMoves = difficulty?.candidateCount ? scoredMoves.slice(0, difficulty.candidateCount) : scoredMoves;
+    onProgress?.({
+      type: 'candidates',
+      moves: formattedMoves.map(({ notation, score, description }) => ({ notation, score, description })),
+    });
+
+    const prompt = createDynamicPrompt({
+      boardVisual: createBoardVisual(game),
+      fen,
+      aiColor,
+      formattedMoves,
+      gamePhase,
+      positionAnalysis,
+      historicalAnalysis,
+      recentMoves,
+      tacticalPatterns
+    });
+    console.log('🤖 V3 API - Prompt:', prompt);
+
+    // The schema only admits the moves we offered, so a valid response is always a legal move
+    const schema = buildMoveSchema(formattedMoves.map(candidate => candidate.notation));
+    const metadata: StructuredOutputMetadata = {
+      responseFormat: MOVE_RESPONSE_FORMAT,
+      attempts: 0,
+      schemaViolations: [],
+      degraded: false,
+    };
+    let choice: StructuredMoveResponse | null = null;
+
+    while (!choice && metadata.attempts < MAX_STRUCTURED_ATTEMPTS) {
+      metadata.attempts++;
+      onProgress?.({ type: 'attempt', attempt: metadata.attempts, maxAttempts: MAX_STRUCTURED_ATTEMPTS });
+
+      const completion = await llm.complete([{ role: 'user', content: prompt }], {
+        temperature: difficulty?.temperature ?? 0.7,
+        maxTokens: 500,
+        responseFormat: { name: MOVE_RESPONSE_FORMAT, schema },
+        // Only stream tokens when someone is listening; they are pulled out of the JSON as they arrive
+        onToken: onProgress && streamJsonStringField('reasoning', delta => onProgress({ type: 'reasoning', delta })),
+        signal,
+      });
+
+      const { data, violations } = parseStructuredResponse<StructuredMoveResponse>(completion, schema);
+      metadata.schemaViolations.push(...violations.map(violation => `attempt ${metadata.attempts}: ${violation}`));
+      choice = data;
+    }
+
+    if (!choice) {
+      // Degraded mode: play the best-scored candidate rather than failing the request
+      console.warn('🤖 V3 API - No valid structured response, playing top candidate:', metadata.schemaViolations);
+      metadata.degraded = true;
+      choice = {
+        move: formattedMoves[0].notation,
+        reasoning: `The model gave no valid response after ${metadata.attempts} attempts, so the highest-scored candidate was played.`,
+      };
+    }
+
+    const move = game.move(choice.move);
+
+    return {
+      move: move.san, // Use the actual move notation from the validated move
+      reasoning: choice.reasoning,
+      fen: game.fen(),
+      engine: 'llm',
+      gamePhase,
+      positionAnalysis,
+      historicalAnalysis,
+      metadata
+    };
+  },
+};
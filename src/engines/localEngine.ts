@@ -0,0 +1,56 @@
+import { Chess } from 'chess.js';
+import { determineGamePhase, getColorName, uciLineToSan } from '@/utils/chessUtils';
+import { SearchBoard } from './search/board';
+import { searchBestMove, isMateScore, movesToMate } from './search/search';
+import type { MoveEngine, MoveEngineRequest, MoveEngineResult } from './types';
+
+export const DEFAULT_LOCAL_TIME_LIMIT = 1000;
+// The search runs synchronously and holds the server while it does, so a request can't ask for longer
+export const MAX_LOCAL_TIME_LIMIT = 2000;
+
+export function isLocalTimeLimit(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_LOCAL_TIME_LIMIT;
+}
+
+export function formatEngineScore(score: number): string {
+  if (isMateScore(score)) {
+    const mateIn = movesToMate(score);
+    return mateIn > 0 ? `mate in ${mateIn}` : `mated in ${-mateIn}`;
+  }
+  const pawns = score / 100;
+  return `${pawns >= 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+// Offline alpha-beta searcher; never touches the network
+export const localEngine: MoveEngine = {
+  name: 'local',
+
+  async chooseMove({ fen, aiColor, moveCount, timeLimitMs = DEFAULT_LOCAL_TIME_LIMIT, difficulty }: MoveEngineRequest): Promise<MoveEngineResult> {
+    const game = new Chess(fen);
+    const result = searchBestMove(fen, { timeLimitMs, maxDepth: difficulty?.searchDepth ?? undefined });
+    if (!result.move) {
+      throw new Error('No legal moves available');
+    }
+
+    const pv = uciLineToSan(fen, (result.pv.length ? result.pv : [result.move]).map(SearchBoard.toUci));
+    const move = game.move(pv[0]);
+
+    console.log(`🔍 Local engine - depth ${result.depth}, ${result.nodes} nodes, ${result.timeMs}ms, eval ${formatEngineScore(result.score)}`);
+
+    return {
+      move: move.san,
+      reasoning: `Searched ${result.depth} plies deep (${result.nodes.toLocaleString()} positions in ${result.timeMs}ms). ` +
+        `Evaluation for ${getColorName(aiColor)}: ${formatEngineScore(result.score)}. Expected line: ${pv.join(' ')}`,
+      fen: game.fen(),
+      engine: 'local',
+      gamePhase: determineGamePhase(new Chess(fen), moveCount),
+      search: {
+        depth: result.depth,
+        score: result.score,
+        nodes: result.nodes,
+        pv,
+        timeMs: result.timeMs,
+      },
+    };
+  },
+};
@@ -0,0 +1,423 @@
+// Compact 0x88 board used by the local search. chess.js is far too slow to search with
+// (every move() call regenerates SAN and FEN strings), so the engine keeps its own
+// representation and only hands the final move back to chess.js for SAN.
+
+export const WHITE = 1;
+export const BLACK = -1;
+
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+const CASTLE_WK = 1;
+const CASTLE_WQ = 2;
+const CASTLE_BK = 4;
+const CASTLE_BQ = 8;
+
+export const FLAG_NONE = 0;
+export const FLAG_EN_PASSANT = 1;
+export const FLAG_CASTLE = 2;
+export const FLAG_DOUBLE_PUSH = 3;
+
+export interface SearchMove {
+  from: number;
+  to: number;
+  piece: number; // signed piece code of the mover
+  captured: number; // signed piece code, 0 if none
+  promotion: number; // unsigned piece type, 0 if none
+  flag: number;
+}
+
+interface UndoState {
+  move: SearchMove;
+  castling: number;
+  epSquare: number;
+  halfmoveClock: number;
+  hashHi: number;
+  hashLo: number;
+}
+
+const KNIGHT_OFFSETS = [33, 31, 18, 14, -33, -31, -18, -14];
+const BISHOP_OFFSETS = [15, 17, -15, -17];
+const ROOK_OFFSETS = [16, 1, -16, -1];
+const KING_OFFSETS = [15, 16, 17, 1, -15, -16, -17, -1];
+
+const PIECE_CHARS = ' pnbrqk';
+
+// Castling rights lost when a piece moves from or to these squares
+const CASTLING_MASK = new Int8Array(128).fill(15);
+CASTLING_MASK[0x00] = 15 & ~CASTLE_WQ;
+CASTLING_MASK[0x07] = 15 & ~CASTLE_WK;
+CASTLING_MASK[0x04] = 15 & ~(CASTLE_WK | CASTLE_WQ);
+CASTLING_MASK[0x70] = 15 & ~CASTLE_BQ;
+CASTLING_MASK[0x77] = 15 & ~CASTLE_BK;
+CASTLING_MASK[0x74] = 15 & ~(CASTLE_BK | CASTLE_BQ);
+
+// Deterministic Zobrist keys (two 32-bit halves combined into a 52-bit number)
+let seed = 0x9e3779b9;
+const random32 = () => {
+  seed ^= seed << 13;
+  seed ^= seed >>> 17;
+  seed ^= seed << 5;
+  return seed >>> 0;
+};
+const PIECE_KEYS_HI: number[] = [];
+const PIECE_KEYS_LO: number[] = [];
+for (let i = 0; i < 13 * 128; i++) {
+  PIECE_KEYS_HI.push(random32() & 0xfffff);
+  PIECE_KEYS_LO.push(random32());
+}
+const CASTLE_KEYS_HI = Array.from({ length: 16 }, () => random32() & 0xfffff);
+const CASTLE_KEYS_LO = Array.from({ length: 16 }, () => random32());
+const EP_KEYS_HI = Array.from({ length: 128 }, () => random32() & 0xfffff);
+const EP_KEYS_LO = Array.from({ length: 128 }, () => random32());
+const SIDE_KEY_HI = random32() & 0xfffff;
+const SIDE_KEY_LO = random32();
+
+const pieceKeyIndex = (piece: number, square: number) => (piece + 6) * 128 + square;
+
+export const squareName = (square: number): string =>
+  'abcdefgh'[square & 7] + String((square >> 4) + 1);
+
+export const squareIndex = (name: string): number =>
+  (Number(name[1]) - 1) * 16 + (name.charCodeAt(0) - 97);
+
+export const onBoard = (square: number) => (square & 0x88) === 0;
+
+export class SearchBoard {
+  squares = new Int8Array(128);
+  side = WHITE;
+  castling = 0;
+  epSquare = -1;
+  halfmoveClock = 0;
+  kingSquare: Record<number, number> = { [WHITE]: -1, [BLACK]: -1 };
+  hashHi = 0;
+  hashLo = 0;
+  private history: UndoState[] = [];
+  private hashHistory: number[] = [];
+
+  constructor(fen: string) {
+    const [placement, turn, castling, ep, halfmove] = fen.split(/\s+/);
+    let rank = 7;
+    let file = 0;
+    for (const char of placement) {
+      if (char === '/') {
+        rank--;
+        file = 0;
+      } else if (/\d/.test(char)) {
+        file += Number(char);
+      } else {
+        const type = PIECE_CHARS.indexOf(char.toLowerCase());
+        const piece = char === char.toUpperCase() ? type : -type;
+        const square = rank * 16 + file;
+        this.squares[square] = piece;
+        if (type === KING) this.kingSquare[piece > 0 ? WHITE : BLACK] = square;
+        file++;
+      }
+    }
+    this.side = turn === 'b' ? BLACK : WHITE;
+    if (castling.includes('K')) this.castling |= CASTLE_WK;
+    if (castling.includes('Q')) this.castling |= CASTLE_WQ;
+    if (castling.includes('k')) this.castling |= CASTLE_BK;
+    if (castling.includes('q')) this.castling |= CASTLE_BQ;
+    this.epSquare = ep && ep !== '-' ? squareIndex(ep) : -1;
+    this.halfmoveClock = Number(halfmove) || 0;
+    this.computeHash();
+  }
+
+  private computeHash() {
+    this.hashHi = 0;
+    this.hashLo = 0;
+    for (let square = 0; square < 128; square++) {
+      if (!onBoard(square) || !this.squares[square]) continue;
+      const index = pieceKeyIndex(this.squares[square], square);
+      this.hashHi ^= PIECE_KEYS_HI[index];
+      this.hashLo ^= PIECE_KEYS_LO[index];
+    }
+    this.hashHi ^= CASTLE_KEYS_HI[this.castling];
+    this.hashLo ^= CASTLE_KEYS_LO[this.castling];
+    if (this.epSquare >= 0) {
+      this.hashHi ^= EP_KEYS_HI[this.epSquare];
+      this.hashLo ^= EP_KEYS_LO[this.epSquare];
+    }
+    if (this.side === BLACK) {
+      this.hashHi ^= SIDE_KEY_HI;
+      this.hashLo ^= SIDE_KEY_LO;
+    }
+  }
+
+  get hash(): number {
+    return this.hashHi * 4294967296 + (this.hashLo >>> 0);
+  }
+
+  private togglePiece(piece: number, square: number) {
+    const index = pieceKeyIndex(piece, square);
+    this.hashHi ^= PIECE_KEYS_HI[index];
+    this.hashLo ^= PIECE_KEYS_LO[index];
+  }
+
+  // Is `square` attacked by any piece of `bySide`?
+  isAttacked(square: number, bySide: number): boolean {
+    const pawnFrom = bySide === WHITE ? [square - 15, square - 17] : [square + 15, square + 17];
+    for (const from of pawnFrom) {
+      if (onBoard(from) && this.squares[from] === PAWN * bySide) return true;
+    }
+    for (const offset of KNIGHT_OFFSETS) {
+      const from = square + offset;
+      if (onBoard(from) && this.squares[from] === KNIGHT * bySide) return true;
+    }
+    for (const offset of KING_OFFSETS) {
+      const from = square + offset;
+      if (onBoard(from) && this.squares[from] === KING * bySide) return true;
+    }
+    for (const offset of BISHOP_OFFSETS) {
+      let from = square + offset;
+      while (onBoard(from)) {
+        const piece = this.squares[from];
+        if (piece) {
+          if (piece === BISHOP * bySide || piece === QUEEN * bySide) return true;
+          break;
+        }
+        from += offset;
+      }
+    }
+    for (const offset of ROOK_OFFSETS) {
+      let from = square + offset;
+      while (onBoard(from)) {
+        const piece = this.squares[from];
+        if (piece) {
+          if (piece === ROOK * bySide || piece === QUEEN * bySide) return true;
+          break;
+        }
+        from += offset;
+      }
+    }
+    return false;
+  }
+
+  inCheck(side: number = this.side): boolean {
+    return this.isAttacked(this.kingSquare[side], -side);
+  }
+
+  private addPawnMove(moves: SearchMove[], from: number, to: number, captured: number, flag: number) {
+    const lastRank = this.side === WHITE ? 7 : 0;
+    if (to >> 4 === lastRank) {
+      for (const promotion of [QUEEN, KNIGHT, ROOK, BISHOP]) {
+        moves.push({ from, to, piece: PAWN * this.side, captured, promotion, flag });
+      }
+    } else {
+      moves.push({ from, to, piece: PAWN * this.side, captured, promotion: 0, flag });
+    }
+  }
+
+  // Pseudo-legal moves; capturesOnly restricts to captures and promotions (for quiescence)
+  private generatePseudoLegal(capturesOnly: boolean): SearchMove[] {
+    const moves: SearchMove[] = [];
+    const side = this.side;
+
+    for (let from = 0; from < 128; from++) {
+      if (!onBoard(from)) {
+        from += 7;
+        continue;
+      }
+      const piece = this.squares[from];
+      if (!piece || Math.sign(piece) !== side) continue;
+      const type = Math.abs(piece);
+
+      if (type === PAWN) {
+        const forward = side === WHITE ? 16 : -16;
+        const startRank = side === WHITE ? 1 : 6;
+        const lastRank = side === WHITE ? 7 : 0;
+        const one = from + forward;
+        if (onBoard(one) && !this.squares[one]) {
+          if (!capturesOnly || one >> 4 === lastRank) {
+            this.addPawnMove(moves, from, one, 0, FLAG_NONE);
+          }
+          const two = one + forward;
+          if (!capturesOnly && from >> 4 === startRank && !this.squares[two]) {
+            moves.push({ from, to: two, piece, captured: 0, promotion: 0, flag: FLAG_DOUBLE_PUSH });
+          }
+        }
+        for (const diagonal of [forward - 1, forward + 1]) {
+          const to = from + diagonal;
+          if (!onBoard(to)) continue;
+          const target = this.squares[to];
+          if (target && Math.sign(target) === -side) {
+            this.addPawnMove(moves, from, to, target, FLAG_NONE);
+          } else if (to === this.epSquare) {
+            moves.push({ from, to, piece, captured: -side * PAWN, promotion: 0, flag: FLAG_EN_PASSANT });
+          }
+        }
+        continue;
+      }
+
+      const offsets = type === KNIGHT ? KNIGHT_OFFSETS
+        : type === BISHOP ? BISHOP_OFFSETS
+        : type === ROOK ? ROOK_OFFSETS
+        : KING_OFFSETS;
+      const slides = type === BISHOP || type === ROOK || type === QUEEN;
+
+      for (const offset of offsets) {
+        let to = from + offset;
+        while (onBoard(to)) {
+          const target = this.squares[to];
+          if (target) {
+            if (Math.sign(target) === -side) {
+              moves.push({ from, to, piece, captured: target, promotion: 0, flag: FLAG_NONE });
+            }
+            break;
+          }
+          if (!capturesOnly) {
+            moves.push({ from, to, piece, captured: 0, promotion: 0, flag: FLAG_NONE });
+          }
+          if (!slides) break;
+          to += offset;
+        }
+      }
+
+      if (type === KING && !capturesOnly) {
+        this.addCastlingMoves(moves, from);
+      }
+    }
+
+    return moves;
+  }
+
+  private addCastlingMoves(moves: SearchMove[], from: number) {
+    const side = this.side;
+    const [kingSide, queenSide] = side === WHITE ? [CASTLE_WK, CASTLE_WQ] : [CASTLE_BK, CASTLE_BQ];
+    const home = side === WHITE ? 0x04 : 0x74;
+    if (from !== home || this.isAttacked(from, -side)) return;
+
+    if (this.castling & kingSide &&
+        !this.squares[home + 1] && !this.squares[home + 2] &&
+        !this.isAttacked(home + 1, -side) && !this.isAttacked(home + 2, -side)) {
+      moves.push({ from, to: home + 2, piece: KING * side, captured: 0, promotion: 0, flag: FLAG_CASTLE });
+    }
+    if (this.castling & queenSide &&
+        !this.squares[home - 1] && !this.squares[home - 2] && !this.squares[home - 3] &&
+        !this.isAttacked(home - 1, -side) && !this.isAttacked(home - 2, -side)) {
+      moves.push({ from, to: home - 2, piece: KING * side, captured: 0, promotion: 0, flag: FLAG_CASTLE });
+    }
+  }
+
+  // Fully legal moves: pseudo-legal moves that do not leave our king in check
+  generateMoves(capturesOnly = false): SearchMove[] {
+    const legal: SearchMove[] = [];
+    for (const move of this.generatePseudoLegal(capturesOnly)) {
+      this.makeMove(move);
+      if (!this.inCheck(-this.side)) {
+        legal.push(move);
+      }
+      this.unmakeMove();
+    }
+    return legal;
+  }
+
+  makeMove(move: SearchMove) {
+    const side = this.side;
+    this.history.push({
+      move,
+      castling: this.castling,
+      epSquare: this.epSquare,
+      halfmoveClock: this.halfmoveClock,
+      hashHi: this.hashHi,
+      hashLo: this.hashLo,
+    });
+    this.hashHistory.push(this.hash);
+
+    // Remove the captured piece (en passant captures sit behind the target square)
+    if (move.captured) {
+      const captureSquare = move.flag === FLAG_EN_PASSANT ? move.to - 16 * side : move.to;
+      this.togglePiece(this.squares[captureSquare], captureSquare);
+      this.squares[captureSquare] = 0;
+    }
+
+    const placed = move.promotion ? move.promotion * side : move.piece;
+    this.togglePiece(move.piece, move.from);
+    this.squares[move.from] = 0;
+    this.squares[move.to] = placed;
+    this.togglePiece(placed, move.to);
+
+    if (Math.abs(move.piece) === KING) {
+      this.kingSquare[side] = move.to;
+      if (move.flag === FLAG_CASTLE) {
+        const [rookFrom, rookTo] = move.to > move.from ? [move.from + 3, move.from + 1] : [move.from - 4, move.from - 1];
+        const rook = this.squares[rookFrom];
+        this.togglePiece(rook, rookFrom);
+        this.squares[rookFrom] = 0;
+        this.squares[rookTo] = rook;
+        this.togglePiece(rook, rookTo);
+      }
+    }
+
+    this.hashHi ^= CASTLE_KEYS_HI[this.castling];
+    this.hashLo ^= CASTLE_KEYS_LO[this.castling];
+    this.castling &= CASTLING_MASK[move.from] & CASTLING_MASK[move.to];
+    this.hashHi ^= CASTLE_KEYS_HI[this.castling];
+    this.hashLo ^= CASTLE_KEYS_LO[this.castling];
+
+    if (this.epSquare >= 0) {
+      this.hashHi ^= EP_KEYS_HI[this.epSquare];
+      this.hashLo ^= EP_KEYS_LO[this.epSquare];
+    }
+    this.epSquare = move.flag === FLAG_DOUBLE_PUSH ? (move.from + move.to) / 2 : -1;
+    if (this.epSquare >= 0) {
+      this.hashHi ^= EP_KEYS_HI[this.epSquare];
+      this.hashLo ^= EP_KEYS_LO[this.epSquare];
+    }
+
+    this.halfmoveClock = move.captured || Math.abs(move.piece) === PAWN ? 0 : this.halfmoveClock + 1;
+    this.side = -side;
+    this.hashHi ^= SIDE_KEY_HI;
+    this.hashLo ^= SIDE_KEY_LO;
+  }
+
+  unmakeMove() {
+    const state = this.history.pop();
+    if (!state) return;
+    this.hashHistory.pop();
+    const { move } = state;
+    const side = -this.side;
+
+    this.squares[move.from] = move.piece;
+    this.squares[move.to] = 0;
+    if (move.captured) {
+      const captureSquare = move.flag === FLAG_EN_PASSANT ? move.to - 16 * side : move.to;
+      this.squares[captureSquare] = move.captured;
+    }
+    if (Math.abs(move.piece) === KING) {
+      this.kingSquare[side] = move.from;
+      if (move.flag === FLAG_CASTLE) {
+        const [rookFrom, rookTo] = move.to > move.from ? [move.from + 3, move.from + 1] : [move.from - 4, move.from - 1];
+        this.squares[rookFrom] = this.squares[rookTo];
+        this.squares[rookTo] = 0;
+      }
+    }
+
+    this.side = side;
+    this.castling = state.castling;
+    this.epSquare = state.epSquare;
+    this.halfmoveClock = state.halfmoveClock;
+    this.hashHi = state.hashHi;
+    this.hashLo = state.hashLo;
+  }
+
+  // Same position seen earlier since the last irreversible move
+  isRepetition(): boolean {
+    const current = this.hash;
+    const limit = Math.max(0, this.hashHistory.length - this.halfmoveClock);
+    for (let i = this.hashHistory.length - 2; i >= limit; i -= 2) {
+      if (this.hashHistory[i] === current) return true;
+    }
+    return false;
+  }
+
+  // Long algebraic form (e2e4, e7e8q) for matching against chess.js moves
+  static toUci(move: SearchMove): string {
+    return squareName(move.from) + squareName(move.to) + (move.promotion ? PIECE_CHARS[move.promotion] : '');
+  }
+}
@@ -0,0 +1,141 @@
+import { SearchBoard, WHITE, PAWN, KNIGHT, BISHOP, ROOK, QUEEN, KING, onBoard } from './board';
+
+export const PIECE_VALUES = [0, 100, 320, 330, 500, 900, 0];
+
+// Piece-square tables from White's point of view, rank 8 first (simplified evaluation function)
+const PAWN_TABLE = [
+   0,   0,   0,   0,   0,   0,   0,   0,
+  50,  50,  50,  50,  50,  50,  50,  50,
+  10,  10,  20,  30,  30,  20,  10,  10,
+   5,   5,  10,  25,  25,  10,   5,   5,
+   0,   0,   0,  20,  20,   0,   0,   0,
+   5,  -5, -10,   0,   0, -10,  -5,   5,
+   5,  10,  10, -20, -20,  10,  10,   5,
+   0,   0,   0,   0,   0,   0,   0,   0,
+];
+
+const KNIGHT_TABLE = [
+  -50, -40, -30, -30, -30, -30, -40, -50,
+  -40, -20,   0,   0,   0,   0, -20, -40,
+  -30,   0,  10,  15,  15,  10,   0, -30,
+  -30,   5,  15,  20,  20,  15,   5, -30,
+  -30,   0,  15,  20,  20,  15,   0, -30,
+  -30,   5,  10,  15,  15,  10,   5, -30,
+  -40, -20,   0,   5,   5,   0, -20, -40,
+  -50, -40, -30, -30, -30, -30, -40, -50,
+];
+
+const BISHOP_TABLE = [
+  -20, -10, -10, -10, -10, -10, -10, -20,
+  -10,   0,   0,   0,   0,   0,   0, -10,
+  -10,   0,   5,  10,  10,   5,   0, -10,
+  -10,   5,   5,  10,  10,   5,   5, -10,
+  -10,   0,  10,  10,  10,  10,   0, -10,
+  -10,  10,  10,  10,  10,  10,  10, -10,
+  -10,   5,   0,   0,   0,   0,   5, -10,
+  -20, -10, -10, -10, -10, -10, -10, -20,
+];
+
+const ROOK_TABLE = [
+   0,   0,   0,   0,   0,   0,   0,   0,
+   5,  10,  10,  10,  10,  10,  10,   5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+   0,   0,   0,   5,   5,   0,   0,   0,
+];
+
+const QUEEN_TABLE = [
+  -20, -10, -10,  -5,  -5, -10, -10, -20,
+  -10,   0,   0,   0,   0,   0,   0, -10,
+  -10,   0,   5,   5,   5,   5,   0, -10,
+   -5,   0,   5,   5,   5,   5,   0,  -5,
+    0,   0,   5,   5,   5,   5,   0,  -5,
+  -10,   5,   5,   5,   5,   5,   0, -10,
+  -10,   0,   5,   0,   0,   0,   0, -10,
+  -20, -10, -10,  -5,  -5, -10, -10, -20,
+];
+
+const KING_MIDDLEGAME_TABLE = [
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -20, -30, -30, -40, -40, -30, -30, -20,
+  -10, -20, -20, -20, -20, -20, -20, -10,
+   20,  20,   0,   0,   0,   0,  20,  20,
+   20,  30,  10,   0,   0,  10,  30,  20,
+];
+
+const KING_ENDGAME_TABLE = [
+  -50, -40, -30, -20, -20, -30, -40, -50,
+  -30, -20, -10,   0,   0, -10, -20, -30,
+  -30, -10,  20,  30,  30,  20, -10, -30,
+  -30, -10,  30,  40,  40,  30, -10, -30,
+  -30, -10,  30,  40,  40,  30, -10, -30,
+  -30, -10,  20,  30,  30,  20, -10, -30,
+  -30, -30,   0,   0,   0,   0, -30, -30,
+  -50, -30, -30, -30, -30, -30, -30, -50,
+];
+
+const PIECE_TABLES: Record<number, number[]> = {
+  [PAWN]: PAWN_TABLE,
+  [KNIGHT]: KNIGHT_TABLE,
+  [BISHOP]: BISHOP_TABLE,
+  [ROOK]: ROOK_TABLE,
+  [QUEEN]: QUEEN_TABLE,
+};
+
+// Below this much non-pawn material per side (excluding kings) the king should centralise
+const ENDGAME_MATERIAL = 1300;
+
+// Static evaluation in centipawns from the side to move's point of view
+export function evaluate(board: SearchBoard): number {
+  let score = 0;
+  let whiteMaterial = 0;
+  let blackMaterial = 0;
+  const kings: number[] = [];
+
+  for (let square = 0; square < 128; square++) {
+    if (!onBoard(square)) {
+      square += 7;
+      continue;
+    }
+    const piece = board.squares[square];
+    if (!piece) continue;
+
+    const type = Math.abs(piece);
+    if (type === KING) {
+      kings.push(square);
+      continue;
+    }
+
+    const tableIndex = tableIndexFor(piece, square);
+    const value = PIECE_VALUES[type] + PIECE_TABLES[type][tableIndex];
+    if (piece > 0) {
+      score += value;
+      if (type !== PAWN) whiteMaterial += PIECE_VALUES[type];
+    } else {
+      score -= value;
+      if (type !== PAWN) blackMaterial += PIECE_VALUES[type];
+    }
+  }
+
+  const isEndgame = whiteMaterial <= ENDGAME_MATERIAL && blackMaterial <= ENDGAME_MATERIAL;
+  const kingTable = isEndgame ? KING_ENDGAME_TABLE : KING_MIDDLEGAME_TABLE;
+  for (const square of kings) {
+    const piece = board.squares[square];
+    score += Math.sign(piece) * kingTable[tableIndexFor(piece, square)];
+  }
+
+  return board.side === WHITE ? score : -score;
+}
+
+// Black reads the tables mirrored vertically
+function tableIndexFor(piece: number, square: number): number {
+  const rank = square >> 4;
+  const file = square & 7;
+  return piece > 0 ? (7 - rank) * 8 + file : rank * 8 + file;
+}
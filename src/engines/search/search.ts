@@ -0,0 +1,228 @@
+import { SearchBoard, type SearchMove } from './board';
+import { evaluate, PIECE_VALUES } from './evaluate';
+
+export const MATE_SCORE = 100_000;
+const INFINITY = 1_000_000;
+const MAX_PLY = 64;
+const DEFAULT_MAX_DEPTH = 32;
+const MAX_TT_ENTRIES = 500_000;
+const TIME_CHECK_INTERVAL = 2047;
+
+const TT_EXACT = 0;
+const TT_LOWER = 1;
+const TT_UPPER = 2;
+
+interface TranspositionEntry {
+  depth: number;
+  score: number;
+  flag: number;
+  move: SearchMove | null;
+}
+
+export interface SearchOptions {
+  timeLimitMs: number;
+  maxDepth?: number;
+}
+
+export interface SearchResult {
+  move: SearchMove | null;
+  score: number; // centipawns from the side to move's point of view
+  depth: number;
+  nodes: number;
+  pv: SearchMove[];
+  timeMs: number;
+}
+
+const sameMove = (a: SearchMove | null, b: SearchMove) =>
+  !!a && a.from === b.from && a.to === b.to && a.promotion === b.promotion;
+
+// Mate scores are stored relative to the node so they stay valid at any ply
+const toTableScore = (score: number, ply: number) =>
+  score > MATE_SCORE - MAX_PLY ? score + ply : score < -MATE_SCORE + MAX_PLY ? score - ply : score;
+const fromTableScore = (score: number, ply: number) =>
+  score > MATE_SCORE - MAX_PLY ? score - ply : score < -MATE_SCORE + MAX_PLY ? score + ply : score;
+
+export const isMateScore = (score: number) => Math.abs(score) > MATE_SCORE - MAX_PLY;
+
+// Full moves until mate, positive when the side to move delivers it
+export const movesToMate = (score: number) => Math.sign(score) * Math.ceil((MATE_SCORE - Math.abs(score)) / 2);
+
+class Searcher {
+  nodes = 0;
+  stopped = false;
+  private canStop = false;
+  private table = new Map<number, TranspositionEntry>();
+  private killers: (SearchMove | null)[][] = Array.from({ length: MAX_PLY + 1 }, () => [null, null]);
+  private historyScores = new Int32Array(13 * 128);
+  private pvTable: SearchMove[][] = Array.from({ length: MAX_PLY + 2 }, () => []);
+  rootBest: { move: SearchMove; score: number } | null = null;
+
+  constructor(private board: SearchBoard, private deadline: number) {}
+
+  // Depth 1 always completes so there is a move to play even with a tiny budget
+  searchRoot(depth: number): number {
+    this.rootBest = null;
+    const score = this.negamax(depth, -INFINITY, INFINITY, 0);
+    this.canStop = true;
+    return score;
+  }
+
+  get pv(): SearchMove[] {
+    return this.pvTable[0];
+  }
+
+  private checkTime() {
+    if ((++this.nodes & TIME_CHECK_INTERVAL) === 0 && this.canStop && Date.now() >= this.deadline) {
+      this.stopped = true;
+    }
+  }
+
+  private negamax(depth: number, alpha: number, beta: number, ply: number): number {
+    this.pvTable[ply] = [];
+    this.checkTime();
+    if (this.stopped) return 0;
+
+    const board = this.board;
+    if (ply > 0 && (board.halfmoveClock >= 100 || board.isRepetition())) return 0;
+
+    const inCheck = board.inCheck();
+    if (inCheck) depth++;
+    if (depth <= 0) return this.quiesce(alpha, beta, ply);
+    if (ply >= MAX_PLY) return evaluate(board);
+
+    const key = board.hash;
+    const entry = this.table.get(key);
+    if (entry && ply > 0 && entry.depth >= depth) {
+      const score = fromTableScore(entry.score, ply);
+      if (entry.flag === TT_EXACT) return score;
+      if (entry.flag === TT_LOWER && score >= beta) return score;
+      if (entry.flag === TT_UPPER && score <= alpha) return score;
+    }
+
+    const moves = board.generateMoves();
+    if (moves.length === 0) {
+      return inCheck ? -MATE_SCORE + ply : 0;
+    }
+    this.orderMoves(moves, entry?.move ?? null, ply);
+
+    const originalAlpha = alpha;
+    let bestScore = -INFINITY;
+    let bestMove: SearchMove | null = null;
+
+    for (const move of moves) {
+      board.makeMove(move);
+      const score = -this.negamax(depth - 1, -beta, -alpha, ply + 1);
+      board.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = move;
+        if (ply === 0) this.rootBest = { move, score };
+      }
+      if (score > alpha) {
+        alpha = score;
+        this.pvTable[ply] = [move, ...this.pvTable[ply + 1]];
+        if (alpha >= beta) {
+          if (!move.captured && !move.promotion) this.recordQuietCutoff(move, depth, ply);
+          break;
+        }
+      }
+    }
+
+    if (this.table.size >= MAX_TT_ENTRIES) this.table.clear();
+    this.table.set(key, {
+      depth,
+      score: toTableScore(bestScore, ply),
+      flag: bestScore <= originalAlpha ? TT_UPPER : bestScore >= beta ? TT_LOWER : TT_EXACT,
+      move: bestMove,
+    });
+
+    return bestScore;
+  }
+
+  // Resolve captures and promotions so the static evaluation is not taken mid-exchange
+  private quiesce(alpha: number, beta: number, ply: number): number {
+    this.pvTable[ply] = [];
+    this.checkTime();
+    if (this.stopped) return 0;
+
+    const standPat = evaluate(this.board);
+    if (standPat >= beta || ply >= MAX_PLY) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const moves = this.board.generateMoves(true);
+    this.orderMoves(moves, null, ply);
+
+    for (const move of moves) {
+      this.board.makeMove(move);
+      const score = -this.quiesce(-beta, -alpha, ply + 1);
+      this.board.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+
+    return alpha;
+  }
+
+  private recordQuietCutoff(move: SearchMove, depth: number, ply: number) {
+    const killers = this.killers[ply];
+    if (!sameMove(killers[0], move)) {
+      killers[1] = killers[0];
+      killers[0] = move;
+    }
+    this.historyScores[(move.piece + 6) * 128 + move.to] += depth * depth;
+  }
+
+  // Hash move first, then captures by MVV-LVA, promotions, killers and history
+  private orderMoves(moves: SearchMove[], hashMove: SearchMove | null, ply: number) {
+    const killers = this.killers[ply] ?? [null, null];
+    const scoreMove = (move: SearchMove) => {
+      if (sameMove(hashMove, move)) return 10_000_000;
+      if (move.captured) {
+        return 1_000_000 + PIECE_VALUES[Math.abs(move.captured)] * 10 - Math.abs(move.piece);
+      }
+      if (move.promotion) return 900_000 + move.promotion;
+      if (sameMove(killers[0], move)) return 800_000;
+      if (sameMove(killers[1], move)) return 700_000;
+      return this.historyScores[(move.piece + 6) * 128 + move.to];
+    };
+
+    const scores = new Map(moves.map(move => [move, scoreMove(move)]));
+    moves.sort((a, b) => scores.get(b)! - scores.get(a)!);
+  }
+}
+
+// Iterative-deepening alpha-beta search within a time budget
+export function searchBestMove(fen: string, { timeLimitMs, maxDepth = DEFAULT_MAX_DEPTH }: SearchOptions): SearchResult {
+  const startedAt = Date.now();
+  const board = new SearchBoard(fen);
+  const searcher = new Searcher(board, startedAt + timeLimitMs);
+
+  let result: SearchResult = { move: null, score: 0, depth: 0, nodes: 0, pv: [], timeMs: 0 };
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const score = searcher.searchRoot(depth);
+
+    if (searcher.stopped) {
+      // The previous best is searched first, so a partial iteration can only have improved on it
+      const partial = searcher.rootBest;
+      if (partial && result.move && !sameMove(result.move, partial.move) && partial.score > result.score) {
+        result = { ...result, move: partial.move, score: partial.score, pv: [partial.move] };
+      }
+      break;
+    }
+
+    const pv = searcher.pv;
+    result = { move: pv[0] ?? searcher.rootBest?.move ?? null, score, depth, nodes: searcher.nodes, pv, timeMs: 0 };
+
+    // A forced mate that fits inside this depth will not change with deeper search
+    if (isMateScore(score) && MATE_SCORE - Math.abs(score) <= depth) break;
+    // The next iteration usually costs several times this one; don't start what can't finish
+    if ((Date.now() - startedAt) * 2 > timeLimitMs) break;
+  }
+
+  return { ...result, nodes: searcher.nodes, timeMs: Date.now() - startedAt };
+}
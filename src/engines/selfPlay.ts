@@ -0,0 +1,128 @@
+import { Chess } from 'chess.js';
+import { exportPgn, formatPgnDate, type PgnMove } from '@/utils/pgnUtils';
+import { END_REASON_LABELS, getBoardResult, getLinePositions } from '@/utils/gameResult';
+import { localEngine } from './localEngine';
+import { chooseMoveAtLevel, DIFFICULTY_LEVELS, getDifficultyLabel, type DifficultyLevel } from './difficulty';
+
+export interface SelfPlayGame {
+  white: DifficultyLevel;
+  black: DifficultyLevel;
+  result: string;
+  termination: string;
+  plies: number;
+  pgn: string;
+}
+
+export interface SelfPlayMatch {
+  levelA: DifficultyLevel;
+  levelB: DifficultyLevel;
+  games: SelfPlayGame[];
+  score: { levelA: number; levelB: number };
+}
+
+interface SelfPlayOptions {
+  timeLimitMs: number;
+  maxPlies: number;
+  random: () => number;
+}
+
+// Small seeded PRNG (mulberry32) so a match can be replayed exactly
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Play one local-engine game between two difficulty levels
+export async function playSelfPlayGame(
+  white: DifficultyLevel,
+  black: DifficultyLevel,
+  { timeLimitMs, maxPlies, random }: SelfPlayOptions
+): Promise<SelfPlayGame> {
+  // One chess.js instance for the whole game so repetition draws are detected
+  const game = new Chess();
+  const moves: PgnMove[] = [];
+
+  while (!game.isGameOver() && moves.length < maxPlies) {
+    const color = game.turn();
+    const level = color === 'w' ? white : black;
+    const result = await chooseMoveAtLevel(localEngine, {
+      fen: game.fen(),
+      aiColor: color,
+      moveCount: moves.length,
+      timeLimitMs,
+      difficulty: DIFFICULTY_LEVELS[level],
+    }, random);
+
+    game.move(result.move);
+    moves.push({ move: result.move, color, fen: game.fen() });
+  }
+
+  // Games cut off at the move limit are scored as draws
+  const boardResult = getBoardResult(game, getLinePositions(moves));
+  const result = boardResult?.result ?? '1/2-1/2';
+  const termination = boardResult ? END_REASON_LABELS[boardResult.reason] : `move limit (${maxPlies} plies)`;
+
+  return {
+    white,
+    black,
+    result,
+    termination,
+    plies: moves.length,
+    pgn: exportPgn({
+      moves,
+      headers: {
+        Event: 'Self-play',
+        Date: formatPgnDate(new Date()),
+        White: getDifficultyLabel(DIFFICULTY_LEVELS[white]),
+        Black: getDifficultyLabel(DIFFICULTY_LEVELS[black]),
+        Result: result,
+        Termination: termination,
+      },
+    }),
+  };
+}
+
+// Play a match between two levels, alternating colours, and total the points
+export async function runSelfPlayMatch({
+  levelA,
+  levelB,
+  games,
+  timeLimitMs,
+  maxPlies,
+  seed,
+}: {
+  levelA: DifficultyLevel;
+  levelB: DifficultyLevel;
+  games: number;
+  timeLimitMs: number;
+  maxPlies: number;
+  seed: number;
+}): Promise<SelfPlayMatch> {
+  const random = createSeededRandom(seed);
+  const played: SelfPlayGame[] = [];
+  const score = { levelA: 0, levelB: 0 };
+
+  for (let index = 0; index < games; index++) {
+    const aIsWhite = index % 2 === 0;
+    const game = await playSelfPlayGame(
+      aIsWhite ? levelA : levelB,
+      aIsWhite ? levelB : levelA,
+      { timeLimitMs, maxPlies, random }
+    );
+    played.push(game);
+
+    const whitePoints = game.result === '1-0' ? 1 : game.result === '0-1' ? 0 : 0.5;
+    score.levelA += aIsWhite ? whitePoints : 1 - whitePoints;
+    score.levelB += aIsWhite ? 1 - whitePoints : whitePoints;
+    console.log(`🏁 Self-play game ${index + 1}/${games}: ${getDifficultyLabel(DIFFICULTY_LEVELS[game.white])} vs ` +
+      `${getDifficultyLabel(DIFFICULTY_LEVELS[game.black])} ${game.result} (${game.termination})`);
+  }
+
+  return { levelA, levelB, games: played, score };
+}
@@ -0,0 +1,34 @@
+import { Chess } from 'chess.js';
+import { describeTablebaseProbe, probeTablebase, type TablebaseProbe } from '@/tablebase';
+import type { MoveEngine, MoveEngineRequest, MoveEngineResult } from './types';
+
+// Play the tablebase's best move whenever the position is covered, and let `engine` decide otherwise
+export function withTablebase(
+  engine: MoveEngine,
+  probe: (fen: string) => TablebaseProbe | null = probeTablebase
+): MoveEngine {
+  return {
+    name: engine.name,
+
+    async chooseMove(request: MoveEngineRequest): Promise<MoveEngineResult> {
+      const result = probe(request.fen);
+      if (!result?.bestMove) {
+        return engine.chooseMove(request);
+      }
+
+      const summary = describeTablebaseProbe(result, request.fen);
+      const game = new Chess(request.fen);
+      game.move(result.bestMove.san);
+      console.log(`🏁 Tablebase move ${result.bestMove.san} (${summary})`);
+
+      return {
+        move: result.bestMove.san,
+        reasoning: `${summary}. ${result.bestMove.san} is the tablebase's best move.`,
+        fen: game.fen(),
+        engine: engine.name,
+        gamePhase: 'endgame',
+        tablebase: summary,
+      };
+    },
+  };
+}
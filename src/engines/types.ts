@@ -0,0 +1,57 @@
+import type { StructuredOutputMetadata } from '@/utils/structuredOutput';
+import type { DifficultySettings } from './difficulty';
+
+export type EngineName = 'llm' | 'local' | 'uci';
+
+export interface MoveEngineRequest {
+  fen: string;
+  aiColor: 'w' | 'b';
+  moveCount: number;
+  tacticalPatterns?: string;
+  timeLimitMs?: number;
+  difficulty?: DifficultySettings;
+  onProgress?: (event: MoveProgressEvent) => void; // live updates while the engine thinks
+  signal?: AbortSignal; // aborts the search when the client goes away
+}
+
+// What an engine reports while it is still choosing
+export type MoveProgressEvent =
+  | { type: 'phase'; gamePhase: string }
+  | { type: 'historical-analysis'; analysis: string }
+  | { type: 'candidates'; moves: { notation: string; score: number; description: string }[] }
+  | { type: 'attempt'; attempt: number; maxAttempts: number }
+  | { type: 'reasoning'; delta: string };
+
+export interface SearchSummary {
+  depth: number;
+  score: number; // centipawns from the mover's point of view
+  nodes: number;
+  pv: string[]; // SAN
+  timeMs: number;
+}
+
+export interface MoveEngineResult {
+  move: string; // SAN
+  reasoning: string;
+  fen: string; // position after the move
+  engine: EngineName;
+  gamePhase?: string;
+  positionAnalysis?: unknown;
+  historicalAnalysis?: string;
+  search?: SearchSummary;
+  metadata?: StructuredOutputMetadata; // how the LLM's structured response fared
+  book?: string; // the opening book the move was played from
+  tablebase?: string; // the tablebase result the move was played for, e.g. "Tablebase win for White, DTZ 13"
+}
+
+// Anything that can pick a move for the side to play
+export interface MoveEngine {
+  name: EngineName;
+  chooseMove(request: MoveEngineRequest): Promise<MoveEngineResult>;
+}
+
+// One line of the /api/ai-move-v3/stream NDJSON response
+export type MoveStreamEvent =
+  | MoveProgressEvent
+  | ({ type: 'move'; fallbackFrom?: EngineName } & MoveEngineResult)
+  | { type: 'error'; error: string };
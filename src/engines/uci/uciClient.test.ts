@@ -0,0 +1,205 @@
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildGoCommand,
+  continuesGame,
+  parseBestMoveLine,
+  parseInfoLine,
+  UciEngineProcess,
+  type UciEngineConfig
+} from './uciClient';
+import { UciEnginePool } from './uciPool';
+
+const FAKE_ENGINE = join(process.cwd(), 'scripts', 'fake-uci-engine.mjs');
+const fakeEngine = (...flags: string[]): UciEngineConfig => ({
+  path: process.execPath,
+  args: [FAKE_ENGINE, ...flags],
+  options: { Hash: '32' },
+});
+
+// 1. e4 d5: exd5 is the only capture, so the fake engine plays it
+const SCANDINAVIAN = 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2';
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1';
+const AFTER_E4_E5 = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2';
+const FOOLS_MATE = 'rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3';
+
+// The commands the client writes to its engines
+const sentCommands = () => {
+  const send = vi.spyOn(UciEngineProcess.prototype as unknown as { send: (command: string) => void }, 'send');
+  return () => send.mock.calls.map(([command]) => command);
+};
+
+describe('parseInfoLine', () => {
+  it('reads depth, score, nodes, nps, time and the pv', () => {
+    expect(parseInfoLine('info depth 18 seldepth 24 multipv 1 score cp 34 nodes 512000 nps 1024000 time 500 pv e2e4 e7e5 g1f3'))
+      .toEqual({
+        depth: 18,
+        seldepth: 24,
+        multipv: 1,
+        score: { type: 'cp', value: 34 },
+        nodes: 512000,
+        nps: 1024000,
+        time: 500,
+        pv: ['e2e4', 'e7e5', 'g1f3'],
+      });
+  });
+
+  it('reads mate scores and bounds', () => {
+    expect(parseInfoLine('info depth 9 score mate -3 pv e8d8')?.score).toEqual({ type: 'mate', value: -3 });
+    expect(parseInfoLine('info depth 9 score cp 120 lowerbound nodes 10')?.score)
+      .toEqual({ type: 'cp', value: 120, bound: 'lower' });
+    expect(parseInfoLine('info depth 9 score cp -40 upperbound')?.score)
+      .toEqual({ type: 'cp', value: -40, bound: 'upper' });
+  });
+
+  it('ignores info strings and other lines', () => {
+    expect(parseInfoLine('info string NNUE evaluation enabled')).toBeNull();
+    expect(parseInfoLine('bestmove e2e4')).toBeNull();
+  });
+});
+
+describe('parseBestMoveLine', () => {
+  it('reads the move and the ponder move', () => {
+    expect(parseBestMoveLine('bestmove e2e4 ponder e7e5')).toEqual({ bestMove: 'e2e4', ponder: 'e7e5' });
+    expect(parseBestMoveLine('bestmove e7e8q')).toEqual({ bestMove: 'e7e8q', ponder: undefined });
+  });
+
+  it('rejects lines without a move', () => {
+    expect(parseBestMoveLine('bestmove')).toBeNull();
+    expect(parseBestMoveLine('info depth 1')).toBeNull();
+  });
+});
+
+describe('buildGoCommand', () => {
+  it('limits by time unless depth or nodes are given', () => {
+    expect(buildGoCommand({ fen: START })).toBe('go movetime 1000');
+    expect(buildGoCommand({ fen: START, movetime: 250 })).toBe('go movetime 250');
+    expect(buildGoCommand({ fen: START, depth: 12 })).toBe('go depth 12');
+    expect(buildGoCommand({ fen: START, depth: 3, movetime: 100 })).toBe('go depth 3 movetime 100');
+  });
+});
+
+describe('continuesGame', () => {
+  it('accepts the same position and positions up to two plies later', () => {
+    expect(continuesGame(START, START)).toBe(true);
+    expect(continuesGame(START, AFTER_E4)).toBe(true);
+    expect(continuesGame(START, AFTER_E4_E5)).toBe(true);
+  });
+
+  it('rejects earlier positions and other games', () => {
+    expect(continuesGame(AFTER_E4, START)).toBe(false);
+    expect(continuesGame(AFTER_E4_E5, SCANDINAVIAN)).toBe(false);
+    expect(continuesGame(START, FOOLS_MATE)).toBe(false);
+  });
+});
+
+describe('UciEngineProcess', () => {
+  let engine: UciEngineProcess | null = null;
+
+  afterEach(async () => {
+    await engine?.quit();
+    engine = null;
+    vi.restoreAllMocks();
+  });
+
+  it('completes the uci / setoption / ucinewgame / isready handshake', async () => {
+    const commands = sentCommands();
+    engine = new UciEngineProcess(fakeEngine());
+    await engine.start();
+
+    expect(engine.isAlive).toBe(true);
+    expect(engine.name).toBe('FakeEngine 1.0');
+    expect(commands()).toEqual(['uci', 'setoption name Hash value 32', 'ucinewgame', 'isready']);
+  });
+
+  it('returns the best move with the last scored info line', async () => {
+    engine = new UciEngineProcess(fakeEngine());
+    await engine.start();
+
+    const result = await engine.go({ fen: SCANDINAVIAN, movetime: 50 });
+    expect(result.bestMove).toBe('e4d5');
+    expect(result.info).toMatchObject({ depth: 1, nps: 1000, score: { type: 'cp', value: 0 }, pv: ['e4d5'] });
+    expect(engine.lastSearchedFen).toBe(SCANDINAVIAN);
+  });
+
+  it('searches the position after `moves`', async () => {
+    engine = new UciEngineProcess(fakeEngine());
+    await engine.start();
+
+    const result = await engine.go({ fen: START, moves: ['e2e4', 'd7d5'], movetime: 50 });
+    expect(result.bestMove).toBe('e4d5');
+    expect(continuesGame(SCANDINAVIAN, engine.lastSearchedFen!)).toBe(true);
+  });
+
+  it('fails when the engine has no move to play', async () => {
+    engine = new UciEngineProcess(fakeEngine());
+    await engine.start();
+
+    await expect(engine.go({ fen: FOOLS_MATE, movetime: 50 })).rejects.toThrow('UCI engine returned no move');
+  });
+
+  it('sends ucinewgame and forgets the last position on newGame', async () => {
+    engine = new UciEngineProcess(fakeEngine());
+    await engine.start();
+    await engine.go({ fen: SCANDINAVIAN, movetime: 50 });
+
+    const commands = sentCommands();
+    await engine.newGame();
+    expect(commands()).toEqual(['ucinewgame', 'isready']);
+    expect(engine.lastSearchedFen).toBeNull();
+  });
+
+  it('gives up on an engine that never answers and kills it', async () => {
+    engine = new UciEngineProcess(fakeEngine('--hang'));
+    await engine.start();
+
+    await expect(engine.go({ fen: START, movetime: 10 })).rejects.toThrow(/did not respond/);
+    expect(engine.isAlive).toBe(false);
+  }, 10_000);
+
+  it('reports a dead process and rejects further searches', async () => {
+    engine = new UciEngineProcess(fakeEngine());
+    await engine.start();
+    await engine.quit();
+
+    expect(engine.isAlive).toBe(false);
+    await expect(engine.go({ fen: START, movetime: 50 })).rejects.toThrow('UCI engine is not running');
+  });
+});
+
+describe('UciEnginePool', () => {
+  let pool: UciEnginePool | null = null;
+
+  afterEach(async () => {
+    await pool?.shutdown();
+    pool = null;
+    vi.restoreAllMocks();
+  });
+
+  it('replaces an engine that died with a fresh one', async () => {
+    pool = new UciEnginePool(fakeEngine(), 1);
+    const first = await pool.acquire();
+    first.kill();
+    pool.release(first);
+
+    const second = await pool.acquire();
+    expect(second).not.toBe(first);
+    expect(second.isAlive).toBe(true);
+    expect((await second.go({ fen: SCANDINAVIAN, movetime: 50 })).bestMove).toBe('e4d5');
+    pool.release(second);
+  });
+
+  it('starts a new game only when a search leaves the last one', async () => {
+    pool = new UciEnginePool(fakeEngine(), 1);
+    const newGame = vi.spyOn(UciEngineProcess.prototype, 'newGame');
+    const search = (fen: string) => pool!.withEngineFor(fen, engine => engine.go({ fen, movetime: 50 }));
+
+    await search(START);
+    await search(AFTER_E4_E5);
+    expect(newGame).not.toHaveBeenCalled();
+
+    await search(SCANDINAVIAN);
+    expect(newGame).toHaveBeenCalledTimes(1);
+  });
+});
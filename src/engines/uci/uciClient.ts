@@ -0,0 +1,319 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { createInterface } from 'readline';
+import { Chess } from 'chess.js';
+
+export interface UciScore {
+  type: 'cp' | 'mate';
+  value: number; // from the side to move's point of view
+  bound?: 'lower' | 'upper';
+}
+
+export interface UciInfo {
+  depth?: number;
+  seldepth?: number;
+  multipv?: number;
+  score?: UciScore;
+  nodes?: number;
+  nps?: number;
+  time?: number;
+  pv?: string[];
+}
+
+export interface UciGoOptions {
+  fen: string;
+  moves?: string[]; // long algebraic moves played from `fen`
+  movetime?: number;
+  depth?: number;
+  nodes?: number;
+}
+
+export interface UciSearchResult {
+  bestMove: string;
+  ponder?: string;
+  info: UciInfo; // last info line that carried a score
+}
+
+export interface UciEngineConfig {
+  path: string;
+  args?: string[];
+  options?: Record<string, string>;
+  handshakeTimeoutMs?: number;
+}
+
+interface LineWaiter {
+  match: (line: string) => boolean;
+  resolve: (line: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_HANDSHAKE_TIMEOUT = 10_000;
+// Extra time an engine gets past its movetime before we send `stop`, and then before we give up on it
+const SEARCH_GRACE_MS = 2_000;
+const QUIT_TIMEOUT_MS = 1_000;
+const UNTIMED_SEARCH_TIMEOUT_MS = 60_000;
+
+// Positions at most this many plies after an engine's last search count as the same game
+const SAME_GAME_PLIES = 2;
+
+const INFO_NUMBER_FIELDS = ['depth', 'seldepth', 'multipv', 'nodes', 'nps', 'time'] as const;
+
+// Parse a UCI `info` line; returns null for lines that are not search info (e.g. `info string`)
+export function parseInfoLine(line: string): UciInfo | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info' || tokens[1] === 'string') {
+    return null;
+  }
+
+  const info: UciInfo = {};
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if ((INFO_NUMBER_FIELDS as readonly string[]).includes(token)) {
+      info[token as typeof INFO_NUMBER_FIELDS[number]] = Number(tokens[++i]);
+    } else if (token === 'score') {
+      const type = tokens[++i];
+      const value = Number(tokens[++i]);
+      if (type === 'cp' || type === 'mate') {
+        info.score = { type, value };
+        if (tokens[i + 1] === 'lowerbound' || tokens[i + 1] === 'upperbound') {
+          info.score.bound = tokens[++i] === 'lowerbound' ? 'lower' : 'upper';
+        }
+      }
+    } else if (token === 'pv') {
+      // pv runs to the end of the line
+      info.pv = tokens.slice(i + 1);
+      break;
+    }
+  }
+  return info;
+}
+
+// The position a search is run on: `fen` with any `moves` played
+function searchedPosition({ fen, moves = [] }: UciGoOptions): string {
+  if (moves.length === 0) return fen;
+  const game = new Chess(fen);
+  moves.forEach(move => game.move(move));
+  return game.fen();
+}
+
+// Parse `bestmove e2e4 [ponder e7e5]`
+export function parseBestMoveLine(line: string): { bestMove: string; ponder?: string } | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'bestmove' || !tokens[1]) {
+    return null;
+  }
+  return { bestMove: tokens[1], ponder: tokens[2] === 'ponder' ? tokens[3] : undefined };
+}
+
+export function buildGoCommand({ movetime, depth, nodes }: UciGoOptions): string {
+  const parts = ['go'];
+  if (depth) parts.push('depth', String(depth));
+  if (nodes) parts.push('nodes', String(nodes));
+  if (movetime || parts.length === 1) parts.push('movetime', String(movetime ?? 1000));
+  return parts.join(' ');
+}
+
+// Placement, side to move and castling rights: FENs of one position can differ in the en passant
+// square (chess.js leaves it out when no capture is possible) and the move clocks
+const positionKey = (fen: string) => fen.split(' ').slice(0, 3).join(' ');
+
+// Whether `fen` can follow `previousFen` in the same game within SAME_GAME_PLIES plies, so an engine
+// that just searched `previousFen` can keep its hash and history for it
+export function continuesGame(previousFen: string, fen: string): boolean {
+  const target = positionKey(fen);
+  if (positionKey(previousFen) === target) return true;
+
+  const fullMove = (position: string) => Number(position.split(' ')[5]);
+  const movesApart = fullMove(fen) - fullMove(previousFen);
+  if (!(movesApart >= 0 && movesApart <= Math.ceil(SAME_GAME_PLIES / 2))) return false;
+
+  let positions = [new Chess(previousFen)];
+  for (let ply = 0; ply < SAME_GAME_PLIES; ply++) {
+    const next: Chess[] = [];
+    for (const position of positions) {
+      for (const move of position.moves()) {
+        const child = new Chess(position.fen());
+        child.move(move);
+        if (positionKey(child.fen()) === target) return true;
+        next.push(child);
+      }
+    }
+    positions = next;
+  }
+  return false;
+}
+
+// One engine process speaking UCI over stdio
+export class UciEngineProcess {
+  name = 'unknown';
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private waiters: LineWaiter[] = [];
+  private lineListener: ((line: string) => void) | null = null;
+  private exited = false;
+  private busy = false;
+  private searchedFen: string | null = null;
+
+  constructor(private config: UciEngineConfig) {}
+
+  get isAlive(): boolean {
+    return !!this.child && !this.exited;
+  }
+
+  // The position of the last search since the engine was told about a new game, if any
+  get lastSearchedFen(): string | null {
+    return this.searchedFen;
+  }
+
+  // Spawn the binary and complete the uci / setoption / ucinewgame / isready handshake
+  async start(): Promise<void> {
+    const child = spawn(this.config.path, this.config.args ?? [], { stdio: 'pipe' });
+    this.child = child;
+
+    const lines = createInterface({ input: child.stdout });
+    lines.on('line', line => this.handleLine(line));
+    child.stderr.on('data', data => console.warn('♟️ UCI engine stderr:', String(data).trim()));
+    child.on('error', error => this.fail(error));
+    // Writing to an engine that just died raises EPIPE here; the exit handler reports it
+    child.stdin.on('error', () => undefined);
+    child.on('exit', code => this.fail(new Error(`UCI engine exited with code ${code}`)));
+
+    const timeout = this.config.handshakeTimeoutMs ?? DEFAULT_HANDSHAKE_TIMEOUT;
+    this.send('uci');
+    await this.waitFor(line => line === 'uciok', timeout);
+
+    for (const [option, value] of Object.entries(this.config.options ?? {})) {
+      this.send(`setoption name ${option} value ${value}`);
+    }
+    this.send('ucinewgame');
+    await this.isReady(timeout);
+  }
+
+  async isReady(timeoutMs = DEFAULT_HANDSHAKE_TIMEOUT): Promise<void> {
+    this.send('isready');
+    await this.waitFor(line => line === 'readyok', timeoutMs);
+  }
+
+  // Clear the engine's hash and history before searching positions from another game
+  async newGame(): Promise<void> {
+    this.send('ucinewgame');
+    this.searchedFen = null;
+    await this.isReady();
+  }
+
+  // Run one search and collect its info lines until `bestmove`
+  async go(options: UciGoOptions): Promise<UciSearchResult> {
+    if (this.busy) {
+      throw new Error('UCI engine is already searching');
+    }
+    this.busy = true;
+
+    let info: UciInfo = {};
+    this.lineListener = line => {
+      const parsed = parseInfoLine(line);
+      if (parsed?.score) {
+        // Keep the main line only when the engine reports several
+        if (!parsed.multipv || parsed.multipv === 1) info = parsed;
+      }
+    };
+
+    // Depth- or node-limited searches without a movetime may legitimately run long
+    const isTimed = !!options.movetime || !(options.depth || options.nodes);
+    const stopAfter = (options.movetime ?? 0) + SEARCH_GRACE_MS;
+    const stopTimer = !isTimed ? null : setTimeout(() => {
+      if (this.isAlive) this.send('stop');
+    }, stopAfter);
+
+    try {
+      const moves = options.moves?.length ? ` moves ${options.moves.join(' ')}` : '';
+      this.send(`position fen ${options.fen}${moves}`);
+      this.searchedFen = searchedPosition(options);
+      this.send(buildGoCommand(options));
+
+      const timeout = isTimed ? stopAfter + SEARCH_GRACE_MS : UNTIMED_SEARCH_TIMEOUT_MS;
+      const line = await this.waitFor(candidate => candidate.startsWith('bestmove'), timeout);
+      const best = parseBestMoveLine(line);
+      if (!best || best.bestMove === '(none)' || best.bestMove === '0000') {
+        throw new Error('UCI engine returned no move');
+      }
+      return { ...best, info };
+    } finally {
+      if (stopTimer) clearTimeout(stopTimer);
+      this.lineListener = null;
+      this.busy = false;
+    }
+  }
+
+  // Ask the engine to quit, killing it if it doesn't
+  async quit(): Promise<void> {
+    const child = this.child;
+    if (!child || this.exited) return;
+
+    this.send('quit');
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        this.kill();
+        resolve();
+      }, QUIT_TIMEOUT_MS);
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  // Mark the process dead right away so the pool never hands it out again
+  kill() {
+    this.fail(new Error('UCI engine was killed'));
+    this.child?.kill();
+  }
+
+  private send(command: string) {
+    if (!this.child || this.exited) {
+      throw new Error('UCI engine is not running');
+    }
+    this.child.stdin.write(`${command}\n`);
+  }
+
+  private handleLine(rawLine: string) {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('id name ')) {
+      this.name = line.slice('id name '.length);
+    }
+    this.lineListener?.(line);
+
+    const index = this.waiters.findIndex(waiter => waiter.match(line));
+    if (index >= 0) {
+      const [waiter] = this.waiters.splice(index, 1);
+      clearTimeout(waiter.timer);
+      waiter.resolve(line);
+    }
+  }
+
+  private waitFor(match: (line: string) => boolean, timeoutMs: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const waiter: LineWaiter = {
+        match,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          reject(new Error(`UCI engine did not respond within ${timeoutMs}ms`));
+          // An engine that stops answering can't be trusted with the next request
+          this.kill();
+        }, timeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  private fail(error: Error) {
+    this.exited = true;
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.reject(error);
+    }
+    this.waiters = [];
+  }
+}
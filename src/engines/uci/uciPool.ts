@@ -0,0 +1,148 @@
+import { continuesGame, UciEngineProcess, type UciEngineConfig } from './uciClient';
+
+interface PoolWaiter {
+  resolve: (engine: UciEngineProcess) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_POOL_SIZE = 2;
+// Idle engines are shut down after this long so they don't hold memory between games
+const IDLE_TIMEOUT_MS = 5 * 60_000;
+
+// Read UCI_ENGINE_PATH, UCI_ENGINE_ARGS and UCI_ENGINE_OPTIONS ("Hash=64,Threads=2")
+export function getUciConfigFromEnv(): UciEngineConfig | null {
+  const path = process.env.UCI_ENGINE_PATH;
+  if (!path) {
+    return null;
+  }
+
+  const args = process.env.UCI_ENGINE_ARGS?.split(/\s+/).filter(Boolean) ?? [];
+  const options: Record<string, string> = {};
+  for (const pair of process.env.UCI_ENGINE_OPTIONS?.split(',') ?? []) {
+    const [name, value] = pair.split('=').map(part => part.trim());
+    if (name && value !== undefined) {
+      options[name] = value;
+    }
+  }
+  return { path, args, options };
+}
+
+// Keeps up to `size` engine processes warm and hands them out one search at a time
+export class UciEnginePool {
+  private idle: UciEngineProcess[] = [];
+  private idleTimers = new Map<UciEngineProcess, ReturnType<typeof setTimeout>>();
+  private waiters: PoolWaiter[] = [];
+  private total = 0;
+
+  constructor(private config: UciEngineConfig, private size = DEFAULT_POOL_SIZE) {}
+
+  async acquire(): Promise<UciEngineProcess> {
+    while (this.idle.length > 0) {
+      const engine = this.idle.pop()!;
+      clearTimeout(this.idleTimers.get(engine));
+      this.idleTimers.delete(engine);
+      if (engine.isAlive) return engine;
+      this.total--;
+    }
+
+    if (this.total < this.size) {
+      return this.spawn();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  release(engine: UciEngineProcess) {
+    if (!engine.isAlive) {
+      this.total--;
+      // Replace the dead engine for whoever is next in line
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        this.spawn().then(waiter.resolve, waiter.reject);
+      }
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve(engine);
+      return;
+    }
+
+    this.idle.push(engine);
+    this.idleTimers.set(engine, setTimeout(() => {
+      this.idle = this.idle.filter(candidate => candidate !== engine);
+      this.idleTimers.delete(engine);
+      this.total--;
+      engine.quit();
+    }, IDLE_TIMEOUT_MS));
+  }
+
+  // Borrow an engine for one task, always returning it to the pool
+  async withEngine<T>(task: (engine: UciEngineProcess) => Promise<T>): Promise<T> {
+    const engine = await this.acquire();
+    try {
+      return await task(engine);
+    } finally {
+      this.release(engine);
+    }
+  }
+
+  // Borrow an engine to search `fen`. Unless its last search was of the same game, it is told a new
+  // game has begun, so hash and history from another game don't carry over.
+  async withEngineFor<T>(fen: string, task: (engine: UciEngineProcess) => Promise<T>): Promise<T> {
+    return this.withEngine(async engine => {
+      const lastFen = engine.lastSearchedFen;
+      if (lastFen !== null && !continuesGame(lastFen, fen)) {
+        await engine.newGame();
+      }
+      return task(engine);
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    for (const timer of this.idleTimers.values()) clearTimeout(timer);
+    this.idleTimers.clear();
+    for (const waiter of this.waiters) waiter.reject(new Error('UCI engine pool is shutting down'));
+    this.waiters = [];
+    const engines = this.idle;
+    this.idle = [];
+    this.total = 0;
+    await Promise.all(engines.map(engine => engine.quit()));
+  }
+
+  private async spawn(): Promise<UciEngineProcess> {
+    this.total++;
+    const engine = new UciEngineProcess(this.config);
+    try {
+      await engine.start();
+      console.log(`♟️ UCI engine started: ${engine.name}`);
+      return engine;
+    } catch (error) {
+      this.total--;
+      await engine.quit().catch(() => undefined);
+      throw error;
+    }
+  }
+}
+
+// One pool per server process; kept on globalThis so dev-server reloads don't leak engines
+const globalForUci = globalThis as typeof globalThis & { uciEnginePool?: UciEnginePool | null };
+
+export function getUciPool(): UciEnginePool | null {
+  if (globalForUci.uciEnginePool === undefined) {
+    const config = getUciConfigFromEnv();
+    const size = Number(process.env.UCI_POOL_SIZE) || DEFAULT_POOL_SIZE;
+    globalForUci.uciEnginePool = config ? new UciEnginePool(config, size) : null;
+
+    const pool = globalForUci.uciEnginePool;
+    if (pool) {
+      process.once('exit', () => {
+        pool.shutdown();
+      });
+    }
+  }
+  return globalForUci.uciEnginePool;
+}
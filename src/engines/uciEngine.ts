@@ -0,0 +1,71 @@
+import { Chess } from 'chess.js';
+import { determineGamePhase, getColorName, uciLineToSan } from '@/utils/chessUtils';
+import { getUciPool } from './uci/uciPool';
+import type { UciScore } from './uci/uciClient';
+import type { MoveEngine, MoveEngineRequest, MoveEngineResult } from './types';
+import { MATE_SCORE } from './search/search';
+
+export const DEFAULT_UCI_MOVETIME = 1000;
+
+// Map a UCI score onto the local engine's centipawn scale (mates near ±MATE_SCORE)
+export function uciScoreToCentipawns(score: UciScore): number {
+  if (score.type === 'cp') {
+    return score.value;
+  }
+  const plies = score.value > 0 ? score.value * 2 - 1 : -score.value * 2;
+  return score.value > 0 ? MATE_SCORE - plies : -MATE_SCORE + plies;
+}
+
+function formatUciScore(score?: UciScore): string {
+  if (!score) return 'unknown';
+  if (score.type === 'mate') {
+    return score.value > 0 ? `mate in ${score.value}` : `mated in ${-score.value}`;
+  }
+  const pawns = score.value / 100;
+  return `${pawns >= 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+// External engine (Stockfish or any UCI binary) configured with UCI_ENGINE_PATH
+export const uciEngine: MoveEngine = {
+  name: 'uci',
+
+  async chooseMove({ fen, aiColor, moveCount, timeLimitMs = DEFAULT_UCI_MOVETIME, difficulty }: MoveEngineRequest): Promise<MoveEngineResult> {
+    const pool = getUciPool();
+    if (!pool) {
+      throw new Error('UCI_ENGINE_PATH is not configured');
+    }
+
+    const { result, engineName } = await pool.withEngineFor(fen, async engine => ({
+      result: await engine.go({ fen, movetime: timeLimitMs, depth: difficulty?.searchDepth ?? undefined }),
+      engineName: engine.name,
+    }));
+
+    const game = new Chess(fen);
+    const move = game.move({
+      from: result.bestMove.slice(0, 2),
+      to: result.bestMove.slice(2, 4),
+      promotion: result.bestMove[4]
+    });
+    const pv = uciLineToSan(fen, result.info.pv?.length ? result.info.pv : [result.bestMove]);
+    const { depth = 0, nodes = 0, time = 0, nps, score } = result.info;
+
+    console.log(`♟️ UCI engine - ${engineName}: ${move.san}, depth ${depth}, eval ${formatUciScore(score)}`);
+
+    return {
+      move: move.san,
+      reasoning: `${engineName} searched ${depth} plies deep (${nodes.toLocaleString()} positions` +
+        `${nps ? ` at ${nps.toLocaleString()} nps` : ''}). ` +
+        `Evaluation for ${getColorName(aiColor)}: ${formatUciScore(score)}. Expected line: ${pv.join(' ')}`,
+      fen: game.fen(),
+      engine: 'uci',
+      gamePhase: determineGamePhase(new Chess(fen), moveCount),
+      search: {
+        depth,
+        score: score ? uciScoreToCentipawns(score) : 0,
+        nodes,
+        pv,
+        timeMs: time,
+      },
+    };
+  },
+};
@@ -0,0 +1,30 @@
+import { join } from 'path';
+import { createGameStore, type GameStore } from './store';
+
+export type {
+  ArchivedAI,
+  ArchivedGame,
+  ArchivedGameInput,
+  ArchivedGameSummary,
+  ArchivedMove,
+  GameFilter,
+  GameResultFilter,
+  StrategySnapshot
+} from './types';
+export type { GameStore } from './store';
+export { AI_VERSION } from './types';
+export { createGameStore } from './store';
+export { parseGameFilter, validateGameInput } from './validate';
+
+// Where games are kept unless GAMES_DIR says otherwise
+export const DEFAULT_GAMES_DIR = join(process.cwd(), 'data', 'games');
+
+let cachedStore: GameStore | undefined;
+
+export function getGameStore(): GameStore {
+  if (!cachedStore) {
+    cachedStore = createGameStore(process.env.GAMES_DIR || DEFAULT_GAMES_DIR);
+    console.log(`🗄️ Game archive: ${cachedStore.directory}`);
+  }
+  return cachedStore;
+}
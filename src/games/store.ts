@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { classifyOpening } from '@/openings/eco';
+import { getLinePositions } from '@/utils/gameResult';
+import type { ArchivedGame, ArchivedGameInput, ArchivedGameSummary, GameFilter } from './types';
+
+export interface GameStore {
+  directory: string;
+  create(input: ArchivedGameInput): Promise<ArchivedGame>;
+  update(id: string, input: ArchivedGameInput): Promise<ArchivedGame | null>;
+  get(id: string): Promise<ArchivedGame | null>;
+  list(filter?: GameFilter): Promise<ArchivedGameSummary[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Ids are the file names, so anything else (e.g. "../") never reaches the file system
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const isMissingFile = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+function toSummary(game: ArchivedGame): ArchivedGameSummary {
+  const { id, createdAt, updatedAt, playerColor, startFen, result, ai, timeControl, bonusType, opening } = game;
+  return {
+    id,
+    createdAt,
+    updatedAt,
+    playerColor,
+    ...(startFen !== undefined && { startFen }),
+    result,
+    ai,
+    timeControl,
+    bonusType,
+    opening,
+    moveCount: game.moves.length,
+  };
+}
+
+function matchesFilter(game: ArchivedGame, filter: GameFilter): boolean {
+  if (filter.result && (game.result?.result ?? 'ongoing') !== filter.result) return false;
+  // Both sides are UTC ISO strings, so they compare as text; cutting the timestamp to the length
+  // of a bare date makes "to" include that whole day
+  if (filter.from && game.createdAt < filter.from) return false;
+  if (filter.to && game.createdAt.slice(0, filter.to.length) > filter.to) return false;
+  if (filter.aiVersion && game.ai.version !== filter.aiVersion) return false;
+  if (filter.opening) {
+    const query = filter.opening.toLowerCase();
+    const { eco = '', name = '' } = game.opening ?? {};
+    if (!eco.toLowerCase().startsWith(query) && !name.toLowerCase().includes(query)) return false;
+  }
+  return true;
+}
+
+// One JSON file per game; fine for a personal archive of a few thousand games
+export function createGameStore(directory: string): GameStore {
+  const pathFor = (id: string) => join(directory, `${id}.json`);
+
+  async function read(id: string): Promise<ArchivedGame | null> {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await readFile(pathFor(id), 'utf8'));
+    } catch (error) {
+      if (isMissingFile(error)) return null;
+      throw error;
+    }
+  }
+
+  // Write to a temporary file first, so a crash never leaves half a game behind
+  async function write(game: ArchivedGame): Promise<ArchivedGame> {
+    await mkdir(directory, { recursive: true });
+    const temporaryPath = `${pathFor(game.id)}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(game, null, 2));
+    await rename(temporaryPath, pathFor(game.id));
+    return game;
+  }
+
+  function build(input: ArchivedGameInput, id: string, createdAt?: string): ArchivedGame {
+    const now = new Date().toISOString();
+    return {
+      id,
+      createdAt: createdAt ?? now,
+      updatedAt: now,
+      ...input,
+      opening: classifyOpening(getLinePositions(input.moves, input.startFen)),
+    };
+  }
+
+  return {
+    directory,
+
+    async create(input) {
+      return write(build(input, randomUUID()));
+    },
+
+    async update(id, input) {
+      const existing = await read(id);
+      if (!existing) return null;
+      return write(build(input, id, existing.createdAt));
+    },
+
+    get: read,
+
+    // Newest first; unreadable files are logged and left out
+    async list(filter = {}) {
+      let fileNames: string[];
+      try {
+        fileNames = await readdir(directory);
+      } catch (error) {
+        if (isMissingFile(error)) return [];
+        throw error;
+      }
+
+      const games: ArchivedGame[] = [];
+      for (const fileName of fileNames.filter(name => name.endsWith('.json'))) {
+        try {
+          games.push(JSON.parse(await readFile(join(directory, fileName), 'utf8')));
+        } catch (error) {
+          console.warn(`⚠️ Skipping unreadable archived game ${fileName}:`, error);
+        }
+      }
+
+      return games
+        .filter(game => matchesFilter(game, filter))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(toSummary);
+    },
+
+    async delete(id) {
+      if (!ID_PATTERN.test(id)) return false;
+      try {
+        await unlink(pathFor(id));
+        return true;
+      } catch (error) {
+        if (isMissingFile(error)) return false;
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import type { DifficultyLevel } from '@/engines/difficulty';
+import type { EngineName } from '@/engines/types';
+import type { TacticalStrategy } from '@/hooks/useTacticalStrategy';
+import type { OpeningInfo } from '@/openings/types';
+import type { BonusType, TimeControl } from '@/utils/clockUtils';
+import type { GameResult, GameResultToken } from '@/utils/gameResult';
+
+// The move API the browser plays against, recorded with every game
+export const AI_VERSION = 'v3';
+
+export interface ArchivedMove {
+  move: string; // SAN
+  color: 'w' | 'b';
+  fen: string; // position after the move
+  timestamp: number;
+  isPlayerMove: boolean;
+  reasoning?: string;
+  clockMs?: number; // the mover's time left after the move, in timed games
+}
+
+// A strategy the AI worked from, and when it was generated
+export interface StrategySnapshot {
+  ply: number; // moves played when it was generated
+  fen: string;
+  timestamp: number;
+  gamePhase: string;
+  strategy: TacticalStrategy;
+  reasoning: string | null;
+}
+
+export interface ArchivedAI {
+  version: string;
+  engine: EngineName;
+  difficulty: DifficultyLevel;
+}
+
+// What the browser sends to save a game
+export interface ArchivedGameInput {
+  playerColor: 'w' | 'b';
+  startFen?: string; // omitted for the standard start position
+  moves: ArchivedMove[]; // the line played to the current position
+  result: GameResult | null; // null while the game is in progress
+  ai: ArchivedAI;
+  timeControl: TimeControl;
+  bonusType: BonusType;
+  strategies: StrategySnapshot[];
+  pgn: string; // with variations and the AI's reasoning as comments
+}
+
+export interface ArchivedGame extends ArchivedGameInput {
+  id: string;
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+  opening: OpeningInfo | null; // classified on save
+}
+
+// A game in the list, without the move-by-move record
+export interface ArchivedGameSummary extends Omit<ArchivedGame, 'moves' | 'strategies' | 'pgn'> {
+  moveCount: number;
+}
+
+export type GameResultFilter = GameResultToken | 'ongoing';
+
+export interface GameFilter {
+  result?: GameResultFilter;
+  from?: string; // ISO dates, inclusive, matched against when the game was created
+  to?: string;
+  opening?: string; // an ECO code prefix ("B9") or part of the name ("Sicilian")
+  aiVersion?: string;
+}
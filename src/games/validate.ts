@@ -0,0 +1,173 @@
+import { Chess, validateFen } from 'chess.js';
+import { isDifficultyLevel } from '@/engines/difficulty';
+import { TIME_CONTROL_PRESETS, type BonusType, type TimeControlId } from '@/utils/clockUtils';
+import { END_REASON_LABELS, type GameEndReason, type GameResult } from '@/utils/gameResult';
+import type { ArchivedGameInput, ArchivedMove, GameFilter, GameResultFilter, StrategySnapshot } from './types';
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const ENGINE_NAMES = ['llm', 'local', 'uci'];
+const BONUS_TYPES: BonusType[] = ['fischer', 'bronstein'];
+const RESULT_FILTERS: GameResultFilter[] = ['1-0', '0-1', '1/2-1/2', 'ongoing'];
+const MAX_PLIES = 1000;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isColor = (value: unknown): value is 'w' | 'b' => value === 'w' || value === 'b';
+const invalid = <T>(error: string): Validation<T> => ({ ok: false, error });
+
+// Replay the moves so the archive only ever holds games that can be played back
+function validateMoves(moves: unknown, startFen?: string): Validation<ArchivedMove[]> {
+  if (!Array.isArray(moves) || moves.length > MAX_PLIES) {
+    return invalid(`moves must be an array of at most ${MAX_PLIES} moves`);
+  }
+
+  const game = new Chess(startFen);
+  const validated: ArchivedMove[] = [];
+  for (const [index, entry] of moves.entries()) {
+    const label = `Move ${index + 1}`;
+    if (!isObject(entry) || typeof entry.move !== 'string' || typeof entry.fen !== 'string') {
+      return invalid(`${label} needs a SAN move and the FEN after it`);
+    }
+    const color = game.turn();
+    if (entry.color !== color) {
+      return invalid(`${label} (${entry.move}) is played by the wrong side`);
+    }
+    try {
+      game.move(entry.move);
+    } catch {
+      return invalid(`${label} (${entry.move}) is illegal`);
+    }
+    if (entry.fen !== game.fen()) {
+      return invalid(`${label} (${entry.move}) doesn't lead to the FEN given`);
+    }
+    if (entry.clockMs !== undefined && (typeof entry.clockMs !== 'number' || entry.clockMs < 0)) {
+      return invalid(`${label} has an invalid clockMs`);
+    }
+
+    validated.push({
+      move: entry.move,
+      color,
+      fen: entry.fen,
+      timestamp: typeof entry.timestamp === 'number' ? entry.timestamp : Date.now(),
+      isPlayerMove: entry.isPlayerMove === true,
+      ...(typeof entry.reasoning === 'string' && { reasoning: entry.reasoning }),
+      ...(entry.clockMs !== undefined && { clockMs: entry.clockMs }),
+    });
+  }
+  return { ok: true, value: validated };
+}
+
+function validateResult(result: unknown): Validation<GameResult | null> {
+  if (result === null || result === undefined) return { ok: true, value: null };
+  if (
+    !isObject(result) ||
+    !['1-0', '0-1', '1/2-1/2'].includes(result.result as string) ||
+    !(typeof result.reason === 'string' && result.reason in END_REASON_LABELS)
+  ) {
+    return invalid('result must be null or { result, reason }');
+  }
+  return { ok: true, value: { result: result.result, reason: result.reason as GameEndReason } as GameResult };
+}
+
+function validateStrategies(strategies: unknown): Validation<StrategySnapshot[]> {
+  if (strategies === undefined) return { ok: true, value: [] };
+  if (
+    !Array.isArray(strategies) ||
+    !strategies.every(snapshot => isObject(snapshot) && typeof snapshot.ply === 'number' && isObject(snapshot.strategy))
+  ) {
+    return invalid('strategies must be an array of { ply, strategy } snapshots');
+  }
+  return { ok: true, value: strategies as StrategySnapshot[] };
+}
+
+// Check a game sent by the browser, keeping only the fields the archive stores
+export function validateGameInput(body: unknown): Validation<ArchivedGameInput> {
+  if (!isObject(body)) return invalid('Game must be a JSON object');
+
+  const { playerColor, startFen, ai, timeControl, bonusType, pgn } = body;
+  if (!isColor(playerColor)) return invalid('playerColor must be "w" or "b"');
+
+  if (startFen !== undefined) {
+    if (typeof startFen !== 'string') return invalid('startFen must be a FEN string');
+    const validation = validateFen(startFen);
+    if (!validation.ok) return invalid(validation.error!);
+  }
+
+  const moves = validateMoves(body.moves, startFen);
+  if (!moves.ok) return moves;
+
+  const result = validateResult(body.result);
+  if (!result.ok) return result;
+
+  if (
+    !isObject(ai) ||
+    typeof ai.version !== 'string' ||
+    !ENGINE_NAMES.includes(ai.engine as string) ||
+    !isDifficultyLevel(ai.difficulty)
+  ) {
+    return invalid('ai must be { version, engine, difficulty }');
+  }
+
+  const timeControlId = isObject(timeControl) ? (timeControl.id as TimeControlId) : undefined;
+  if (!timeControlId || !(timeControlId in TIME_CONTROL_PRESETS)) {
+    return invalid(`timeControl must be one of ${Object.keys(TIME_CONTROL_PRESETS).join(', ')}`);
+  }
+  if (!BONUS_TYPES.includes(bonusType as BonusType)) {
+    return invalid(`bonusType must be one of ${BONUS_TYPES.join(', ')}`);
+  }
+
+  const strategies = validateStrategies(body.strategies);
+  if (!strategies.ok) return strategies;
+
+  return {
+    ok: true,
+    value: {
+      playerColor,
+      ...(startFen !== undefined && { startFen }),
+      moves: moves.value,
+      result: result.value,
+      ai: { version: ai.version, engine: ai.engine as ArchivedGameInput['ai']['engine'], difficulty: ai.difficulty },
+      timeControl: TIME_CONTROL_PRESETS[timeControlId],
+      bonusType: bonusType as BonusType,
+      strategies: strategies.value,
+      pgn: typeof pgn === 'string' ? pgn : '',
+    },
+  };
+}
+
+// Dates become UTC ISO strings so they compare with the stored timestamps; a bare date stays a
+// date, so "to" takes in the whole day
+function normalizeDate(value: string): string | null {
+  if (Number.isNaN(Date.parse(value))) return null;
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : new Date(value).toISOString();
+}
+
+// The list filters from a query string: ?result=1-0&from=2025-01-01&to=2025-01-31&opening=B9&aiVersion=v3
+export function parseGameFilter(params: URLSearchParams): Validation<GameFilter> {
+  const filter: GameFilter = {};
+
+  const result = params.get('result');
+  if (result) {
+    if (!RESULT_FILTERS.includes(result as GameResultFilter)) {
+      return invalid(`result must be one of ${RESULT_FILTERS.join(', ')}`);
+    }
+    filter.result = result as GameResultFilter;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    const date = normalizeDate(value);
+    if (!date) return invalid(`${key} must be a date`);
+    filter[key] = date;
+  }
+
+  const opening = params.get('opening')?.trim();
+  if (opening) filter.opening = opening;
+
+  const aiVersion = params.get('aiVersion')?.trim();
+  if (aiVersion) filter.aiVersion = aiVersion;
+
+  return { ok: true, value: filter };
+}
@@ -0,0 +1,108 @@
+import { useState, useCallback, useRef } from 'react';
+import type { ArenaEvent, ArenaGame, ArenaReport, ArenaRequest, ArenaSide } from '@/arena/types';
+
+export interface ArenaProgress {
+  round: number;
+  ply: number;
+  lastMove: string | null;
+}
+
+// Run an arena match through /api/arena, following its NDJSON stream game by game
+export const useArena = () => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [labels, setLabels] = useState<Record<ArenaSide, string> | null>(null);
+  const [games, setGames] = useState<ArenaGame[]>([]);
+  const [progress, setProgress] = useState<ArenaProgress | null>(null);
+  const [report, setReport] = useState<ArenaReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const applyEvent = useCallback((event: ArenaEvent) => {
+    switch (event.type) {
+      case 'start':
+        setLabels(event.labels);
+        break;
+      case 'move':
+        setProgress({ round: event.round, ply: event.ply, lastMove: event.move });
+        break;
+      case 'game':
+        setGames(prev => [...prev, event.game]);
+        setProgress(null);
+        break;
+      case 'report':
+        setReport(event.report);
+        break;
+      case 'error':
+        throw new Error(event.error);
+    }
+  }, []);
+
+  const startMatch = useCallback(async (request: ArenaRequest) => {
+    abortRef.current?.abort();
+    const abort = new AbortController();
+    abortRef.current = abort;
+
+    setIsRunning(true);
+    setLabels(null);
+    setGames([]);
+    setProgress(null);
+    setReport(null);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/arena', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: abort.signal,
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Arena error: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines.filter(entry => entry.trim())) {
+          applyEvent(JSON.parse(line) as ArenaEvent);
+        }
+        if (done) break;
+      }
+    } catch (err) {
+      if (abort.signal.aborted) return;
+      console.error('Arena error:', err);
+      setError(err instanceof Error ? err.message : 'Arena match failed');
+    } finally {
+      if (abortRef.current === abort) {
+        abortRef.current = null;
+        setIsRunning(false);
+        setProgress(null);
+      }
+    }
+  }, [applyEvent]);
+
+  // Closing the stream stops the match on the server; finished games stay saved there
+  const stopMatch = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  return {
+    isRunning,
+    labels,
+    games,
+    progress,
+    report,
+    error,
+    startMatch,
+    stopMatch,
+  };
+};
@@ -1,7 +1,8 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { Chess } from 'chess.js';
 
+// Mirrors PositionEvaluation from /api/evaluate (White's point of view)
 interface ChessAPIEvaluation {
   eval: number;
   winChance: number;
@@ -10,6 +11,8 @@ interface ChessAPIEvaluation {
   mate?: number;
   move?: string;
   san?: string;
+  continuationArr?: string[];
+  tablebase?: { wdl: number; dtz?: number };
 }
 
 interface UseChessAPIProps {
@@ -21,62 +24,53 @@ export const useChessAPI = ({ fen }: UseChessAPIProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Positions change faster than evaluations return; only the latest request may update state
+  const latestRequestRef = useRef(0);
+
   const evaluatePosition = useCallback(async (currentFen?: string) => {
     const fenToEvaluate = currentFen || fen;
     if (!fenToEvaluate) return;
 
+    const requestId = ++latestRequestRef.current;
     setIsLoading(true);
     setError(null);
 
     try {
-      const response = await fetch('https://chess-api.com/v1', {
+      const response = await fetch('/api/evaluate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          fen: fenToEvaluate,
-          depth: 30,
-          maxThinkingTime: 100,
-        }),
+        body: JSON.stringify({ fen: fenToEvaluate }),
       });
 
+      const data = await response.json();
+      if (requestId !== latestRequestRef.current) return;
+
       if (!response.ok) {
-        throw new Error(`Chess API error: ${response.status}`);
+        throw new Error(data.error || `Evaluation error: ${response.status}`);
       }
 
-      const data = await response.json();
-      
-      console.log('Chess API response:', data);
-      
-      // Handle different response types
-      if (data.type === 'bestmove' || data.type === 'move') {
-        // API returns evaluation from White's perspective:
-        // Positive eval = White winning, Negative eval = Black winning
-        // winChance = White's win percentage
-        const evalScore = data.eval || 0;
-        const winChance = data.winChance || 50;
-        
-        console.log('Eval:', evalScore, 'Win%:', winChance);
-        
-        setEvaluation({
-          eval: evalScore,
-          winChance: winChance,
-          text: data.text || '',
-          depth: data.depth || 0,
-          mate: data.mate,
-          move: data.move,
-          san: data.san,
-        });
-      } else if (data.type === 'info') {
-        // Handle info messages (errors, status updates)
-        setError(data.text || 'Unknown API response');
-      }
+      // Positive eval = White winning, negative eval = Black winning; winChance is White's
+      setEvaluation({
+        eval: data.eval,
+        winChance: data.winChance,
+        text: data.text || '',
+        depth: data.depth || 0,
+        mate: data.mate,
+        move: data.move,
+        san: data.san,
+        continuationArr: data.continuationArr,
+        tablebase: data.tablebase,
+      });
     } catch (err) {
-      console.error('Chess API evaluation error:', err);
+      if (requestId !== latestRequestRef.current) return;
+      console.error('Position evaluation error:', err);
       setError(err instanceof Error ? err.message : 'Failed to evaluate position');
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false);
+      }
     }
   }, [fen]);
 
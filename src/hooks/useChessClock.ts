@@ -0,0 +1,218 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  applyMoveTime,
+  DEFAULT_TIME_CONTROL,
+  TIME_CONTROL_PRESETS,
+  type BonusType,
+  type TimeControl
+} from '@/utils/clockUtils';
+
+type ClockColor = 'w' | 'b';
+
+interface ClockState {
+  remaining: Record<ClockColor, number>;
+  running: ClockColor | null;
+  turnStartedAt: number | null;
+  isPaused: boolean;
+  flagged: ClockColor | null;
+}
+
+// The clock as it stands, for checkpointing a game
+export interface ClockSnapshot {
+  timeControl: TimeControl;
+  bonusType: BonusType;
+  remaining: Record<ClockColor, number>;
+  running: ClockColor | null;
+  isPaused: boolean;
+  flagged: ClockColor | null;
+}
+
+interface UseChessClockProps {
+  onFlag?: (color: ClockColor) => void;
+}
+
+const TICK_INTERVAL = 100;
+
+const createClockState = (timeControl: TimeControl): ClockState => ({
+  remaining: {
+    w: timeControl.initialMs ?? 0,
+    b: timeControl.initialMs ?? 0,
+  },
+  running: null,
+  turnStartedAt: null,
+  isPaused: false,
+  flagged: null,
+});
+
+export const useChessClock = ({ onFlag }: UseChessClockProps = {}) => {
+  const [timeControl, setTimeControl] = useState<TimeControl>(TIME_CONTROL_PRESETS[DEFAULT_TIME_CONTROL]);
+  const [bonusType, setBonusType] = useState<BonusType>('fischer');
+  // The clock lives in a ref so move handlers always see the current times; `tick` only drives re-renders
+  const clockRef = useRef<ClockState>(createClockState(timeControl));
+  const [, setTick] = useState(0);
+  const onFlagRef = useRef(onFlag);
+  onFlagRef.current = onFlag;
+
+  const isTimed = timeControl.initialMs !== null;
+
+  const rerender = useCallback(() => setTick(tick => tick + 1), []);
+
+  // Time left for a side, counting the turn currently in progress
+  const getRemaining = useCallback((color: ClockColor) => {
+    const clock = clockRef.current;
+    if (clock.running === color && clock.turnStartedAt !== null) {
+      return Math.max(0, clock.remaining[color] - (Date.now() - clock.turnStartedAt));
+    }
+    return clock.remaining[color];
+  }, []);
+
+  const getFlagged = useCallback(() => clockRef.current.flagged, []);
+
+  // Stop both clocks with `color` out of time
+  const flag = useCallback((color: ClockColor) => {
+    const clock = clockRef.current;
+    clockRef.current = {
+      ...clock,
+      remaining: { ...clock.remaining, [color]: 0 },
+      running: null,
+      turnStartedAt: null,
+      flagged: color,
+    };
+    onFlagRef.current?.(color);
+  }, []);
+
+  // Tick only while a clock is running; the interval is torn down whenever it stops
+  const runningColor = clockRef.current.running;
+  useEffect(() => {
+    if (!runningColor) return;
+
+    const interval = setInterval(() => {
+      const clock = clockRef.current;
+      if (!clock.running) return;
+
+      if (getRemaining(clock.running) <= 0) {
+        flag(clock.running);
+      }
+      rerender();
+    }, TICK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [runningColor, getRemaining, flag, rerender]);
+
+  // Charge the mover for the turn, add the bonus, and start the opponent's clock. A move that comes in
+  // after the mover's time ran out (between ticks, or a late AI reply) flags them instead; returns
+  // false then, and the move doesn't count.
+  const switchTurn = useCallback((movedColor: ClockColor) => {
+    const clock = clockRef.current;
+    if (!isTimed) return true;
+    if (clock.flagged) return false;
+
+    if (clock.running === movedColor && getRemaining(movedColor) <= 0) {
+      flag(movedColor);
+      rerender();
+      return false;
+    }
+
+    const opponent: ClockColor = movedColor === 'w' ? 'b' : 'w';
+    const remaining = { ...clock.remaining };
+
+    if (clock.running === movedColor && clock.turnStartedAt !== null) {
+      const elapsed = Date.now() - clock.turnStartedAt;
+      remaining[movedColor] = applyMoveTime(remaining[movedColor], elapsed, timeControl.bonusMs, bonusType);
+    }
+
+    clockRef.current = {
+      ...clock,
+      remaining,
+      running: opponent,
+      turnStartedAt: Date.now(),
+      isPaused: false,
+    };
+    rerender();
+    return true;
+  }, [isTimed, timeControl.bonusMs, bonusType, getRemaining, flag, rerender]);
+
+  // Stop the running clock (e.g. on undo); the next move restarts it
+  const pause = useCallback(() => {
+    const clock = clockRef.current;
+    if (!clock.running) return;
+
+    clockRef.current = {
+      ...clock,
+      remaining: { ...clock.remaining, [clock.running]: getRemaining(clock.running) },
+      running: null,
+      turnStartedAt: null,
+      isPaused: true,
+    };
+    rerender();
+  }, [getRemaining, rerender]);
+
+  const resume = useCallback((color: ClockColor) => {
+    const clock = clockRef.current;
+    if (!isTimed || clock.flagged || clock.running) return;
+
+    clockRef.current = {
+      ...clock,
+      running: color,
+      turnStartedAt: Date.now(),
+      isPaused: false,
+    };
+    rerender();
+  }, [isTimed, rerender]);
+
+  // Reset both clocks, optionally switching to a new time control
+  const reset = useCallback((control: TimeControl = timeControl, bonus: BonusType = bonusType) => {
+    setTimeControl(control);
+    setBonusType(bonus);
+    clockRef.current = createClockState(control);
+    rerender();
+  }, [timeControl, bonusType, rerender]);
+
+  // A running turn is counted up to now
+  const getSnapshot = useCallback((): ClockSnapshot => {
+    const clock = clockRef.current;
+    return {
+      timeControl,
+      bonusType,
+      remaining: { w: getRemaining('w'), b: getRemaining('b') },
+      running: clock.running,
+      isPaused: clock.isPaused,
+      flagged: clock.flagged,
+    };
+  }, [timeControl, bonusType, getRemaining]);
+
+  // Pick up from a snapshot; a running clock restarts now, so time away from the page isn't charged
+  const restore = useCallback((snapshot: ClockSnapshot) => {
+    setTimeControl(snapshot.timeControl);
+    setBonusType(snapshot.bonusType);
+    clockRef.current = {
+      remaining: { ...snapshot.remaining },
+      running: snapshot.running,
+      turnStartedAt: snapshot.running ? Date.now() : null,
+      isPaused: snapshot.isPaused,
+      flagged: snapshot.flagged,
+    };
+    rerender();
+  }, [rerender]);
+
+  const clock = clockRef.current;
+
+  return {
+    timeControl,
+    bonusType,
+    isTimed,
+    whiteMs: isTimed ? getRemaining('w') : null,
+    blackMs: isTimed ? getRemaining('b') : null,
+    runningColor: clock.running,
+    isPaused: clock.isPaused,
+    flagged: clock.flagged,
+    getRemaining,
+    getFlagged,
+    switchTurn,
+    pause,
+    resume,
+    reset,
+    getSnapshot,
+    restore
+  };
+};
@@ -1,36 +1,244 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Chess } from 'chess.js';
 import { useChessAPI } from './useChessAPI';
-import { useTacticalStrategy } from './useTacticalStrategy';
+import { useTacticalStrategy, type StrategyCheckpoint } from './useTacticalStrategy';
+import { useChessClock, type ClockSnapshot } from './useChessClock';
+import { useGameAnalysis } from './useGameAnalysis';
+import { useMoveNavigation } from './useMoveNavigation';
+import { useDrawOffer } from './useDrawOffer';
+import { useGameAutosave } from './useGameAutosave';
+import { useGameCheckpoint } from './useGameCheckpoint';
+import { useOnlineRoom } from './useOnlineRoom';
+import { exportAnalysisPgn, exportPgnTree, importPgn } from '@/utils/pgnUtils';
+import {
+  addMove,
+  createMoveTree,
+  deleteBranch,
+  getLine,
+  getLineIds,
+  mapMoveTree,
+  moveTreeFromLine,
+  promoteToMainLine,
+  selectNode,
+  type MoveTree
+} from '@/utils/moveTree';
+import {
+  DRAW_BY_AGREEMENT,
+  describeResult,
+  getBoardResult,
+  getLinePositions,
+  getPgnTermination,
+  getResignationResult,
+  getTimeoutResult,
+  type GameResult
+} from '@/utils/gameResult';
+import { classifyOpening } from '@/openings/eco';
+import { TIME_CONTROL_PRESETS, getMoveTimeBudget, type BonusType, type TimeControlId } from '@/utils/clockUtils';
+import { localEngine, MAX_LOCAL_TIME_LIMIT } from '@/engines/localEngine';
+import type { EngineName, MoveProgressEvent, MoveStreamEvent } from '@/engines/types';
+import { chooseMoveAtLevel, DEFAULT_DIFFICULTY, DIFFICULTY_LEVELS, type DifficultyLevel } from '@/engines/difficulty';
+import { AI_VERSION, type ArchivedGame, type ArchivedGameInput, type StrategySnapshot } from '@/games/types';
+
+export type PlayerColor = 'w' | 'b';
+export type SideChoice = PlayerColor | 'random';
+// Against the AI, two humans sharing this device (hot-seat), or two humans in an online room
+export type GameMode = 'ai' | 'hotseat' | 'online';
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+
+export interface PendingPromotion {
+  from: string;
+  to: string;
+  color: PlayerColor;
+}
+
+export interface MoveHistoryEntry {
+  fen: string;
+  move: string;
+  color: PlayerColor;
+  timestamp: number;
+  isPlayerMove: boolean;
+  isPlayerTurn: boolean;
+  reasoning?: string;
+  clockMs?: number; // the mover's time left after the move, in timed games
+}
+
+// Everything a reload needs to pick the game up where it was
+interface GameCheckpoint {
+  moveTree: MoveTree<MoveHistoryEntry>;
+  startFen?: string;
+  playerColor: PlayerColor;
+  sideChoice: SideChoice;
+  engineName: EngineName;
+  difficulty: DifficultyLevel;
+  clock: ClockSnapshot;
+  strategy: StrategyCheckpoint;
+  strategySnapshots: StrategySnapshot[];
+  archiveId: string | null;
+}
+
+// What the AI has reported so far while it thinks
+export interface AIThinkingState {
+  status: string;
+  gamePhase?: string;
+  candidates: { notation: string; score: number }[];
+  reasoning: string; // streamed as the model writes it
+}
+
+// Pick the human's colour for a new game, flipping a coin for 'random'
+const resolveSide = (choice: SideChoice): PlayerColor => {
+  if (choice === 'random') {
+    return Math.random() < 0.5 ? 'w' : 'b';
+  }
+  return choice;
+};
+
+// Think time for the in-browser fallback, kept short because it blocks the UI
+const OFFLINE_FALLBACK_TIME_LIMIT = 500;
+const THINKING_CANDIDATE_COUNT = 3;
+// Abort reasons: play the offline fallback straight away, or drop the move because the game changed
+const MOVE_NOW = 'move-now';
+const DISCARD = 'discard';
+
+const INITIAL_THINKING: AIThinkingState = { status: 'Thinking...', candidates: [], reasoning: '' };
+
+function applyThinkingEvent(state: AIThinkingState, event: MoveProgressEvent): AIThinkingState {
+  switch (event.type) {
+    case 'phase':
+      return { ...state, status: `Game phase: ${event.gamePhase}`, gamePhase: event.gamePhase };
+    case 'historical-analysis':
+      return { ...state, status: 'Reviewed recent moves' };
+    case 'candidates':
+      return {
+        ...state,
+        status: `Scored ${event.moves.length} candidate moves`,
+        candidates: event.moves.slice(0, THINKING_CANDIDATE_COUNT).map(({ notation, score }) => ({ notation, score })),
+      };
+    case 'attempt':
+      return { ...state, status: `Choosing a move (attempt ${event.attempt}/${event.maxAttempts})`, reasoning: '' };
+    case 'reasoning':
+      return { ...state, reasoning: state.reasoning + event.delta };
+  }
+}
+
+// Read the NDJSON move stream, passing progress on until the final move (or error) arrives
+async function readMoveStream(response: Response, onProgress: (event: MoveProgressEvent) => void) {
+  if (!response.body) {
+    throw new Error('Move stream has no body');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines.filter(entry => entry.trim())) {
+      const event = JSON.parse(line) as MoveStreamEvent;
+      if (event.type === 'move') return event;
+      if (event.type === 'error') throw new Error(event.error);
+      onProgress(event);
+    }
+    if (done) {
+      throw new Error('Move stream ended without a move');
+    }
+  }
+}
 
 export const useChessGame = () => {
   const [game, setGame] = useState(() => new Chess());
+  const [startFen, setStartFen] = useState<string | undefined>(undefined);
+  const [pgnError, setPgnError] = useState<string | null>(null);
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
+  const [pendingPromotion, setPendingPromotion] = useState<PendingPromotion | null>(null);
+  const [sideChoice, setSideChoice] = useState<SideChoice>('w');
+  const [playerColor, setPlayerColor] = useState<PlayerColor>('w');
   const [isPlayerTurn, setIsPlayerTurn] = useState(true);
-  const [intervalId, setIntervalId] = useState(null);
-  
-  const [blackTime, setBlackTime] = useState(20)
-  const [whiteTime, setWhiteTime] = useState(20)
+  const [engineName, setEngineName] = useState<EngineName>('llm');
+  const [difficulty, setDifficulty] = useState<DifficultyLevel>(DEFAULT_DIFFICULTY);
+  const [gameMode, setGameMode] = useState<GameMode>('ai');
+  // The eval bar is on against the AI and off between humans, where it would give hints
+  const [showEvaluation, setShowEvaluation] = useState(true);
+  const {
+    room: onlineRoom,
+    seat: onlineSeat,
+    error: onlineError,
+    createRoom,
+    joinRoom,
+    openRoom,
+    leaveRoom,
+    sendMove: sendOnlineMove,
+    resign: resignOnline
+  } = useOnlineRoom();
+  const aiColor: PlayerColor = playerColor === 'w' ? 'b' : 'w';
+
+  const clock = useChessClock();
+  const {
+    timeControl,
+    bonusType,
+    whiteMs: whiteTime,
+    blackMs: blackTime,
+    flagged,
+    getFlagged,
+    getRemaining,
+    switchTurn: switchClock,
+    pause: pauseClock,
+    resume: resumeClockFor,
+    reset: resetClock,
+    getSnapshot: getClockSnapshot,
+    restore: restoreClock
+  } = clock;
   
   const [lastAIMove, setLastAIMove] = useState<{
     move: string;
     reasoning: string;
     timestamp: number;
   } | null>(null);
-  const [moveHistory, setMoveHistory] = useState<Array<{
-    fen: string;
-    move: string;
-    timestamp: number;
-    isPlayerMove: boolean;
-    isPlayerTurn: boolean;
-  }>>([]);
+  // Every move played, with variations; moveHistory is the line leading to the current position
+  const [moveTree, setMoveTree] = useState<MoveTree<MoveHistoryEntry>>(createMoveTree);
+  const moveHistory = useMemo(() => getLine(moveTree), [moveTree]);
+  const currentLineIds = useMemo(() => getLineIds(moveTree), [moveTree]);
   const [moveCount, setMoveCount] = useState(0);
+  // Every strategy the AI has worked from this game, for the archive
+  const [strategySnapshots, setStrategySnapshots] = useState<StrategySnapshot[]>([]);
+  // A result the board doesn't show: resignation or a draw by agreement
+  const [declaredResult, setDeclaredResult] = useState<GameResult | null>(null);
+  const [aiThinking, setAIThinking] = useState<AIThinkingState | null>(null);
+  const aiAbortRef = useRef<AbortController | null>(null);
+
+  // Stop the AI's current think; MOVE_NOW makes it play the offline fallback, DISCARD drops the move
+  const abortAIMove = useCallback((reason: typeof MOVE_NOW | typeof DISCARD) => {
+    const controller = aiAbortRef.current;
+    if (!controller) return;
+    aiAbortRef.current = null;
+    setAIThinking(null);
+    controller.abort(reason);
+  }, []);
+
+  const stopAIThinking = useCallback(() => abortAIMove(MOVE_NOW), [abortAIMove]);
 
-  const { evaluation, isLoading: isEvaluating, error: evaluationError, evaluatePosition } = useChessAPI({ fen: game.fen() });
-  
   const fen = game.fen();
 
+  // The position on the board: the live game, or an earlier one while browsing the move list
+  const navigation = useMoveNavigation({ plyCount: moveHistory.length });
+  const { viewedPly, goToLast: followLiveGame } = navigation;
+  const displayedGame = useMemo(() => {
+    if (viewedPly === null) return game;
+    return new Chess(viewedPly === 0 ? startFen : moveHistory[viewedPly - 1].fen);
+  }, [game, viewedPly, startFen, moveHistory]);
+  const displayedFen = displayedGame.fen();
+
+  // The opening of the line up to the position on the board
+  const opening = useMemo(() => {
+    const positions = getLinePositions(moveHistory, startFen);
+    return classifyOpening(positions.slice(0, (viewedPly ?? moveHistory.length) + 1));
+  }, [moveHistory, startFen, viewedPly]);
+
+  const { evaluation, isLoading: isEvaluating, error: evaluationError, evaluatePosition } = useChessAPI({ fen: displayedFen });
+
   // Console log the board state for debugging
   console.log('Current board state:', game.board());
   console.log('Current FEN:', game.fen());
@@ -52,49 +260,61 @@ export const useChessGame = () => {
     movesUntilNextUpdate,
     getTacticalPatterns,
     refreshStrategy,
-    clearStrategy
+    clearStrategy,
+    seedStrategy,
+    checkpoint: strategyCheckpoint,
+    restoreStrategy
   } = useTacticalStrategy({ 
     fen, 
     gameHistory: gameWithHistory.history(), 
-    moveCount 
+    moveCount,
+    aiColor,
+    enabled: gameMode === 'ai'
   });
   
+  // Keep each new strategy; one generated for the same moment (e.g. on re-render) is only kept once
   useEffect(() => {
-    if (!game.isGameOver()) {
-      evaluatePosition(fen);
+    if (!strategyData?.strategy) return;
+    const { fen: strategyFen, timestamp, gamePhase, strategy, reasoning } = strategyData;
+    setStrategySnapshots(prev => prev.some(snapshot => snapshot.timestamp === timestamp)
+      ? prev
+      : [...prev, { ply: moveCount, fen: strategyFen, timestamp, gamePhase, strategy, reasoning }]);
+  }, [strategyData, moveCount]);
+
+  // The eval bar follows the position on the board, while it's shown
+  useEffect(() => {
+    if (showEvaluation && !displayedGame.isGameOver()) {
+      evaluatePosition(displayedFen);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [fen]);
+  }, [displayedFen, showEvaluation]);
+
 
+  // How the game ended, if it has: on the board, on the clock, or by resignation or agreement.
+  // Repetitions are counted over the line played, since `game` is rebuilt from a FEN after every move.
+  const gameResult = useMemo(() => {
+    const boardResult = getBoardResult(gameWithHistory, getLinePositions(moveHistory, startFen));
+    return boardResult ?? (flagged ? getTimeoutResult(gameWithHistory, flagged) : declaredResult);
+  }, [gameWithHistory, moveHistory, startFen, flagged, declaredResult]);
 
+  // Nothing more is played once the game is decided, so stop the clock
   useEffect(() => {
-    if (isPlayerTurn && moveCount > 0){
-      const interval = setInterval(() => {
-        setWhiteTime(prevCount => prevCount - 1);
-        setIntervalId(interval)
-      }, 1000);
-      setBlackTime(prevCount => prevCount - 3);
+    if (gameResult) {
+      pauseClock();
     }
-    if (!isPlayerTurn){
-      const interval = setInterval(() => {
-        setBlackTime(prevCount => prevCount - 1);
-        setIntervalId(interval)
-      }, 1000);
-    }
-    clearInterval(intervalId);
-    setIntervalId(null)
-  }, [isPlayerTurn, moveCount]);
-
+  }, [gameResult, pauseClock]);
 
   const gameState = useMemo(() => ({
-    isGameOver: gameWithHistory.isGameOver(),
+    isGameOver: gameResult !== null,
     isCheckmate: gameWithHistory.isCheckmate(),
     isStalemate: gameWithHistory.isStalemate(),
     isCheck: gameWithHistory.isCheck(),
+    flagged,
+    gameResult,
     turn: gameWithHistory.turn(),
     fen: gameWithHistory.fen(),
     history: gameWithHistory.history(),
-    board: gameWithHistory.board(),
+    board: displayedGame.board(),
     evaluation,
     isEvaluating,
     evaluationError,
@@ -104,7 +324,87 @@ export const useChessGame = () => {
     isStrategyLoading,
     strategyError,
     movesUntilNextUpdate
-  }), [gameWithHistory, evaluation, isEvaluating, evaluationError, currentStrategy, strategyData, isStrategyLoading, strategyError, movesUntilNextUpdate]);
+  }), [gameWithHistory, displayedGame, flagged, gameResult, evaluation, isEvaluating, evaluationError, currentStrategy, strategyData, isStrategyLoading, strategyError, movesUntilNextUpdate]);
+
+  // Export the game as PGN, with the AI's reasoning as move comments
+  const pgnHeaders = useMemo(() => {
+    const opponentName = gameMode === 'ai' ? 'AI (v3)' : 'Human';
+    const headers: Record<string, string> = {
+      White: playerColor === 'w' ? 'Human' : opponentName,
+      Black: playerColor === 'b' ? 'Human' : opponentName,
+    };
+    if (timeControl.initialMs !== null) {
+      headers.TimeControl = `${timeControl.initialMs / 1000}+${timeControl.bonusMs / 1000}`;
+    }
+    if (gameResult) {
+      headers.Result = gameResult.result;
+      headers.Termination = getPgnTermination(gameResult);
+    }
+    return headers;
+  }, [playerColor, timeControl, gameResult, gameMode]);
+
+  const exportGamePgn = useCallback(() => {
+    return exportPgnTree({
+      tree: moveTree,
+      startFen,
+      headers: pgnHeaders,
+    });
+  }, [moveTree, startFen, pgnHeaders]);
+
+  // The game as the archive stores it, saved as it's played; only games against the AI are kept
+  const archiveRecord = useMemo((): ArchivedGameInput | null => {
+    if (gameMode !== 'ai' || moveHistory.length === 0) return null;
+    return {
+      playerColor,
+      startFen,
+      moves: moveHistory,
+      result: gameResult,
+      ai: { version: AI_VERSION, engine: engineName, difficulty },
+      timeControl,
+      bonusType,
+      strategies: strategySnapshots,
+      pgn: exportGamePgn(),
+    };
+  }, [gameMode, moveHistory, playerColor, startFen, gameResult, engineName, difficulty, timeControl, bonusType, strategySnapshots, exportGamePgn]);
+
+  const { saveError: archiveError, startRecord, getArchiveId } = useGameAutosave(archiveRecord);
+
+  // Checkpoint a game in progress against the AI after every move, so a reload can resume it.
+  // An online game lives in its room, which the room link reopens.
+  const buildCheckpoint = useCallback((): GameCheckpoint | null => {
+    if (gameMode !== 'ai' || moveHistory.length === 0 || gameResult) return null;
+    return {
+      moveTree,
+      startFen,
+      playerColor,
+      sideChoice,
+      engineName,
+      difficulty,
+      clock: getClockSnapshot(),
+      strategy: strategyCheckpoint,
+      strategySnapshots,
+      archiveId: getArchiveId(),
+    };
+  }, [gameMode, moveHistory, gameResult, moveTree, startFen, playerColor, sideChoice, engineName, difficulty, getClockSnapshot, strategyCheckpoint, strategySnapshots, getArchiveId]);
+
+  const {
+    resumable: resumableCheckpoint,
+    takeResumable,
+    dismissResumable: dismissResumableGame
+  } = useGameCheckpoint(buildCheckpoint);
+
+  // Enough about the checkpoint found on load to offer it
+  const resumableGame = useMemo(() => {
+    if (!resumableCheckpoint) return null;
+    const { state, savedAt } = resumableCheckpoint;
+    const line = getLine(state.moveTree);
+    return {
+      savedAt,
+      moveCount: line.length,
+      playerColor: state.playerColor,
+      turn: new Chess(line.length > 0 ? line[line.length - 1].fen : state.startFen).turn(),
+    };
+  }, [resumableCheckpoint]);
 
   const validMoves = useMemo(() => {
     if (!selectedSquare) return [];
@@ -112,20 +412,55 @@ export const useChessGame = () => {
       .map((move: any) => move.to);
   }, [game, selectedSquare]);
 
-  const resetGame = useCallback(() => {
-    setGame(new Chess());
+  // Whether a human is to move in a position: in hot-seat both sides are, against the AI only the
+  // player's side. Online, the room says whose turn it is.
+  const isHumanToMove = useCallback((position: Chess, color: PlayerColor, mode: GameMode = gameMode) => {
+    if (mode === 'online') return false;
+    return mode === 'hotseat' || position.turn() === color;
+  }, [gameMode]);
+
+  const startGame = useCallback((choice: SideChoice, mode: GameMode = gameMode) => {
+    const color = resolveSide(choice);
+    const newGame = new Chess();
+    abortAIMove(DISCARD);
+    setGame(newGame);
+    setStartFen(undefined);
+    setPgnError(null);
     setSelectedSquare(null);
-    setIsPlayerTurn(true);
+    setPendingPromotion(null);
+    setPlayerColor(color);
+    setIsPlayerTurn(isHumanToMove(newGame, color, mode));
     setLastAIMove(null);
-    setMoveHistory([]);
+    setMoveTree(createMoveTree());
     setMoveCount(0);
-    setBlackTime(10);
-    setWhiteTime(10);
+    setDeclaredResult(null);
+    setStrategySnapshots([]);
+    startRecord();
+    resetClock();
     clearStrategy(); // Clear tactical strategy for new game
-  }, [clearStrategy]);
+  }, [gameMode, isHumanToMove, clearStrategy, resetClock, abortAIMove, startRecord]);
+
+  const resetGame = useCallback(() => {
+    startGame(sideChoice);
+  }, [startGame, sideChoice]);
+
+  // Pick a side and immediately start a new game with it
+  const chooseSide = useCallback((choice: SideChoice) => {
+    setSideChoice(choice);
+    startGame(choice);
+  }, [startGame]);
+
+  // Switch time control (and increment style); applies from a fresh game
+  const changeTimeControl = useCallback((id: TimeControlId, bonus: BonusType = bonusType) => {
+    startGame(sideChoice);
+    resetClock(TIME_CONTROL_PRESETS[id], bonus);
+  }, [startGame, sideChoice, resetClock, bonusType]);
 
+  // Step back a move; it stays in the tree, so playing something else starts a variation
   const undoMove = useCallback(() => {
+    if (gameMode === 'online') return; // the room's moves are final
     if (moveHistory.length > 0) {
+      abortAIMove(DISCARD);
       const lastMove = moveHistory[moveHistory.length - 1];
       const newMoveHistory = moveHistory.slice(0, -1);
       
@@ -136,105 +471,428 @@ export const useChessGame = () => {
         setIsPlayerTurn(previousMove.isPlayerTurn);
       } else {
         // If no moves left, reset to initial state
-        setGame(new Chess());
-        setIsPlayerTurn(true);
+        const initialGame = new Chess(startFen);
+        setGame(initialGame);
+        setIsPlayerTurn(isHumanToMove(initialGame, playerColor));
       }
       
-      setMoveHistory(newMoveHistory);
+      setMoveTree(prev => selectNode(prev, prev.nodes[prev.currentId].parentId!));
       setMoveCount(newMoveHistory.length);
+      setDeclaredResult(null);
       setSelectedSquare(null);
+      setPendingPromotion(null);
+      pauseClock(); // Taking a move back stops the clock until the next move
       
       if (!lastMove.isPlayerMove) {
         setLastAIMove(null);
       }
     }
-  }, [moveHistory]);
+  }, [gameMode, moveHistory, playerColor, startFen, isHumanToMove, pauseClock, abortAIMove]);
+
+  const resumeClock = useCallback(() => {
+    resumeClockFor(game.turn());
+  }, [resumeClockFor, game]);
+
+  // Start play from a position set up in the editor; the caller validates the FEN first
+  const startFromPosition = useCallback((fen: string) => {
+    const newGame = new Chess(fen);
+    abortAIMove(DISCARD);
+    setStartFen(newGame.fen());
+    setGame(newGame);
+    setSelectedSquare(null);
+    setPendingPromotion(null);
+    setIsPlayerTurn(isHumanToMove(newGame, playerColor));
+    setLastAIMove(null);
+    setMoveTree(createMoveTree());
+    setMoveCount(0);
+    setDeclaredResult(null);
+    setPgnError(null);
+    setStrategySnapshots([]);
+    startRecord();
+    resetClock();
+    seedStrategy(); // Generate a strategy for the new position straight away
+  }, [playerColor, isHumanToMove, seedStrategy, resetClock, abortAIMove, startRecord]);
+
+  // The human gives up; the AI stops thinking. In hot-seat it's the side to move that resigns,
+  // and online the room decides.
+  const resign = useCallback(() => {
+    if (gameResult) return;
+    if (gameMode === 'online') {
+      resignOnline();
+      return;
+    }
+    abortAIMove(DISCARD);
+    setDeclaredResult(getResignationResult(gameMode === 'hotseat' ? game.turn() : playerColor));
+  }, [gameResult, gameMode, resignOnline, game, playerColor, abortAIMove]);
+
+  // Offer the AI a draw; it answers from its evaluation, and an offer lapses once a move is played
+  const {
+    isOfferPending: isDrawOfferPending,
+    response: drawOfferResponse,
+    offerDraw: requestDraw,
+    withdrawOffer: withdrawDrawOffer
+  } = useDrawOffer();
+
+  useEffect(() => {
+    withdrawDrawOffer();
+  }, [fen, withdrawDrawOffer]);
+
+  // In hot-seat the players have agreed over the board; online games have no draw offers
+  const offerDraw = useCallback(async () => {
+    if (gameResult || isDrawOfferPending || gameMode === 'online') return;
+    if (gameMode === 'hotseat') {
+      setDeclaredResult(DRAW_BY_AGREEMENT);
+      return;
+    }
+    if (await requestDraw(fen, aiColor)) {
+      abortAIMove(DISCARD);
+      setDeclaredResult(DRAW_BY_AGREEMENT);
+    }
+  }, [gameResult, isDrawOfferPending, gameMode, requestDraw, fen, aiColor, abortAIMove]);
+
+  // Continue the game from any position in the tree
+  const goToNode = useCallback((id: string) => {
+    if (gameMode === 'online') return;
+    const line = getLine(moveTree, id);
+    const position = new Chess(line.length > 0 ? line[line.length - 1].fen : startFen);
+    abortAIMove(DISCARD);
+    setMoveTree(prev => selectNode(prev, id));
+    setGame(position);
+    setMoveCount(line.length);
+    setDeclaredResult(null);
+    setSelectedSquare(null);
+    setPendingPromotion(null);
+    setLastAIMove(null);
+    setIsPlayerTurn(isHumanToMove(position, playerColor));
+    followLiveGame();
+    pauseClock(); // Like undo, jumping around stops the clock until the next move
+  }, [gameMode, moveTree, startFen, playerColor, isHumanToMove, abortAIMove, pauseClock, followLiveGame]);
+
+  const promoteVariation = useCallback((id: string) => {
+    setMoveTree(prev => promoteToMainLine(prev, id));
+  }, []);
+
+  // Delete a move and everything after it; if that removes the current position, play resumes from before it
+  const deleteVariation = useCallback((id: string) => {
+    if (gameMode === 'online') return;
+    if (currentLineIds.includes(id)) {
+      goToNode(moveTree.nodes[id].parentId!);
+    }
+    setMoveTree(prev => deleteBranch(prev, id));
+  }, [gameMode, currentLineIds, moveTree, goToNode]);
+
+  // Post-game review; a finished analysis only applies while the game still ends where it did
+  const {
+    analysis: latestAnalysis,
+    isAnalyzing,
+    error: analysisError,
+    analyzeGame: requestAnalysis,
+    clearAnalysis
+  } = useGameAnalysis();
+
+  const [analyzedNodeId, setAnalyzedNodeId] = useState<string | null>(null);
+
+  // An analysis applies while the line it covers is still in the tree
+  const gameAnalysis = useMemo(() => {
+    const node = analyzedNodeId ? moveTree.nodes[analyzedNodeId] : undefined;
+    if (!latestAnalysis || !node || latestAnalysis.moves.length !== getLineIds(moveTree, node.id).length) return null;
+    const lastAnalyzed = latestAnalysis.moves[latestAnalysis.moves.length - 1];
+    return lastAnalyzed?.fen === node.entry?.fen ? latestAnalysis : null;
+  }, [latestAnalysis, analyzedNodeId, moveTree]);
+
+  // Analyze the line leading to a node, by default the current position
+  const analyzeGame = useCallback((id: string = moveTree.currentId) => {
+    setAnalyzedNodeId(id);
+    return requestAnalysis(getLine(moveTree, id).map(entry => entry.move), startFen);
+  }, [requestAnalysis, moveTree, startFen]);
+
+  const exportGameAnalysisPgn = useCallback(() => {
+    if (!gameAnalysis) {
+      throw new Error('Analyze the game before exporting the analysis PGN');
+    }
+    return exportAnalysisPgn({ analysis: gameAnalysis, headers: pgnHeaders });
+  }, [gameAnalysis, pgnHeaders]);
+
+  // Load a PGN with its variations and continue from the end of its main line; returns false and sets pgnError if malformed
+  const importGamePgn = useCallback((pgn: string) => {
+    try {
+      const imported = importPgn(pgn);
+      const finalGame = new Chess(imported.game.fen());
+      const now = Date.now();
+      abortAIMove(DISCARD);
+
+      setStartFen(imported.startFen);
+      setMoveTree(mapMoveTree(imported.tree, entry => ({
+        fen: entry.fen,
+        move: entry.move,
+        color: entry.color,
+        timestamp: now,
+        isPlayerMove: entry.color === playerColor,
+        isPlayerTurn: entry.color !== playerColor,
+        reasoning: entry.reasoning,
+      })));
+      setGame(finalGame);
+      setMoveCount(imported.moves.length);
+      setDeclaredResult(null);
+      setSelectedSquare(null);
+      setPendingPromotion(null);
+      setLastAIMove(null);
+      setIsPlayerTurn(isHumanToMove(finalGame, playerColor));
+      setPgnError(null);
+      setStrategySnapshots([]);
+      startRecord();
+      resetClock();
+      clearStrategy();
+      return true;
+    } catch (error) {
+      setPgnError(error instanceof Error ? error.message : 'Failed to import PGN');
+      return false;
+    }
+  }, [playerColor, isHumanToMove, clearStrategy, resetClock, abortAIMove, startRecord]);
+
+  // Back to playing the AI, leaving any online room
+  const returnToAIMode = useCallback(() => {
+    if (gameMode === 'ai') return;
+    leaveRoom();
+    setGameMode('ai');
+    setShowEvaluation(true);
+  }, [gameMode, leaveRoom]);
+
+  // Reopen an archived game at its last position, ready to replay; further moves are saved to it
+  const openArchivedGame = useCallback((archived: ArchivedGame) => {
+    const finalGame = new Chess(archived.moves.length > 0 ? archived.moves[archived.moves.length - 1].fen : archived.startFen);
+    abortAIMove(DISCARD);
+    returnToAIMode();
+
+    setStartFen(archived.startFen);
+    setPlayerColor(archived.playerColor);
+    setMoveTree(moveTreeFromLine(archived.moves.map(entry => ({
+      ...entry,
+      isPlayerTurn: entry.color !== archived.playerColor,
+    }))));
+    setGame(finalGame);
+    setMoveCount(archived.moves.length);
+    // The board shows checkmate and the like again; a resignation, agreement or timeout is restored
+    setDeclaredResult(archived.result);
+    setSelectedSquare(null);
+    setPendingPromotion(null);
+    setLastAIMove(null);
+    setIsPlayerTurn(finalGame.turn() === archived.playerColor);
+    setEngineName(archived.ai.engine);
+    setDifficulty(archived.ai.difficulty);
+    setPgnError(null);
+    setStrategySnapshots(archived.strategies);
+    startRecord(archived.id);
+    resetClock(archived.timeControl, archived.bonusType);
+    clearStrategy();
+    followLiveGame();
+  }, [clearStrategy, resetClock, abortAIMove, returnToAIMode, startRecord, followLiveGame]);
+
+  // Hand the turn over on the clock; returns the mover's time left (with any bonus) for the record
+  const switchClockAfterMove = useCallback((movedColor: PlayerColor) => {
+    if (!switchClock(movedColor)) return null; // The mover's flag fell before the move arrived
+    return timeControl.initialMs === null ? undefined : getRemaining(movedColor);
+  }, [switchClock, timeControl, getRemaining]);
+
+  // Restore the checkpointed game exactly: position, variations, clocks and the strategy countdown.
+  // If the AI was thinking when the page went away, it's the AI's turn again and it asks anew.
+  const resumeGame = useCallback(() => {
+    const checkpoint = takeResumable();
+    if (!checkpoint) return;
+    const line = getLine(checkpoint.moveTree);
+    const position = new Chess(line.length > 0 ? line[line.length - 1].fen : checkpoint.startFen);
+    const lastAIEntry = [...line].reverse().find(entry => !entry.isPlayerMove);
+    abortAIMove(DISCARD);
+    returnToAIMode();
+
+    setStartFen(checkpoint.startFen);
+    setPlayerColor(checkpoint.playerColor);
+    setSideChoice(checkpoint.sideChoice);
+    setMoveTree(checkpoint.moveTree);
+    setGame(position);
+    setMoveCount(line.length);
+    setDeclaredResult(null);
+    setSelectedSquare(null);
+    setPendingPromotion(null);
+    setLastAIMove(lastAIEntry?.reasoning
+      ? { move: lastAIEntry.move, reasoning: lastAIEntry.reasoning, timestamp: lastAIEntry.timestamp }
+      : null);
+    setIsPlayerTurn(position.turn() === checkpoint.playerColor);
+    setEngineName(checkpoint.engineName);
+    setDifficulty(checkpoint.difficulty);
+    setPgnError(null);
+    setStrategySnapshots(checkpoint.strategySnapshots);
+    // Moves since the last autosave may not have reached the archive, so save it again
+    startRecord(checkpoint.archiveId, false);
+    restoreClock(checkpoint.clock);
+    restoreStrategy(checkpoint.strategy);
+    followLiveGame();
+    console.log(`♻️ Resumed game after ${line.length} moves`);
+  }, [takeResumable, abortAIMove, returnToAIMode, startRecord, restoreClock, restoreStrategy, followLiveGame]);
+
+  // Commit a player move; promotion is required when a pawn reaches the last rank. In hot-seat the
+  // other human moves next; online the move shows straight away and the room confirms it.
+  const commitPlayerMove = useCallback((from: string, to: string, promotion?: PromotionPiece) => {
+    try {
+      const move = game.move({
+        from: from as any,
+        to: to as any,
+        promotion,
+      });
+      
+      if (move) {
+        // Create a new game instance with the updated state
+        const newGame = new Chess(game.fen());
+        const clockMs = switchClockAfterMove(move.color); // The opponent's clock runs while they think
+        if (clockMs === null) {
+          game.undo();
+          setSelectedSquare(null);
+          setPendingPromotion(null);
+          return false;
+        }
+        const isHumanNext = gameMode === 'hotseat';
+        setMoveTree(prev => addMove(prev, {
+          fen: newGame.fen(),
+          move: move.san,
+          color: move.color,
+          timestamp: Date.now(),
+          isPlayerMove: true,
+          isPlayerTurn: isHumanNext,
+          clockMs
+        }));
+        
+        setGame(newGame);
+        setMoveCount(prev => prev + 1);
+        setSelectedSquare(null);
+        setPendingPromotion(null);
+        setIsPlayerTurn(isHumanNext);
+        if (gameMode === 'online') {
+          sendOnlineMove(move.san);
+        }
+        return true;
+      }
+    } catch (error) {
+      console.error('Invalid move:', error);
+    }
+    return false;
+  }, [game, gameMode, switchClockAfterMove, sendOnlineMove]);
 
   const handleSquareClick = useCallback((square: string) => {
-    if (!isPlayerTurn || gameWithHistory.isGameOver()) return;
+    if (!isPlayerTurn || gameResult || navigation.isViewingHistory) return;
+
+    // Any click while the promotion chooser is open dismisses it
+    if (pendingPromotion) {
+      setPendingPromotion(null);
+      setSelectedSquare(null);
+      return false;
+    }
 
     const piece = game.get(square as any);
     
     if (piece && piece.color === game.turn()) {
       setSelectedSquare(square);
     } else if (selectedSquare && validMoves.includes(square as any)) {
-      try {
-        const move = game.move({
-          from: selectedSquare as any,
-          to: square as any,
-        });
-        
-        if (move) {
-          // Create a new game instance with the updated state
-          const newGame = new Chess(game.fen());
-          setMoveHistory(prev => [...prev, {
-            fen: newGame.fen(),
-            move: move.san,
-            timestamp: Date.now(),
-            isPlayerMove: true,
-            isPlayerTurn: false // After player move, it's AI's turn
-          }]);
-          
-          setGame(newGame);
-          setMoveCount(prev => prev + 1);
-          setSelectedSquare(null);
-          setIsPlayerTurn(false);
-          return true;
-        }
-      } catch (error) {
-        console.error('Invalid move:', error);
+      const isPromotion = game
+        .moves({ square: selectedSquare as any, verbose: true })
+        .some((move: any) => move.to === square && move.promotion);
+
+      if (isPromotion) {
+        // Hold the move until the player picks a piece
+        setPendingPromotion({ from: selectedSquare, to: square, color: game.turn() });
+        return false;
       }
+
+      return commitPlayerMove(selectedSquare, square);
     } else {
       setSelectedSquare(null);
     }
     
     return false;
-  }, [game, isPlayerTurn, selectedSquare, validMoves, gameWithHistory]);
+  }, [game, isPlayerTurn, selectedSquare, validMoves, gameResult, pendingPromotion, commitPlayerMove, navigation.isViewingHistory]);
+
+  const completePromotion = useCallback((promotion: PromotionPiece) => {
+    if (!pendingPromotion) return false;
+    return commitPlayerMove(pendingPromotion.from, pendingPromotion.to, promotion);
+  }, [pendingPromotion, commitPlayerMove]);
+
+  const cancelPromotion = useCallback(() => {
+    setPendingPromotion(null);
+    setSelectedSquare(null);
+  }, []);
 
   const makeAIMove = useCallback(async () => {
+    const controller = new AbortController();
     try {
+      // Only the AI mode has an AI to move
+      if (gameMode !== 'ai') return null;
+
       // Check if game is over before making AI move
-      if (gameWithHistory.isGameOver()) {
+      if (gameResult || getFlagged()) {
         console.log('🎯 Game is over - not making AI move');
         return null;
       }
 
       const currentFen = gameWithHistory.fen();
-      const currentHistory = gameWithHistory.history();
       
       // Get tactical patterns for AI move
       const tacticalPatterns = getTacticalPatterns();
+      const timeBudget = getMoveTimeBudget(
+        timeControl.initialMs === null ? null : getRemaining(aiColor),
+        timeControl.bonusMs
+      );
+      // The route won't let the local search run longer than this
+      const timeLimitMs = timeBudget === undefined ? undefined : Math.min(timeBudget, MAX_LOCAL_TIME_LIMIT);
       
-      const response = await fetch('/api/ai-move-v3', {
+      aiAbortRef.current?.abort(DISCARD);
+      aiAbortRef.current = controller;
+      setAIThinking(INITIAL_THINKING);
+
+      const response = await fetch('/api/ai-move-v3/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           fen: currentFen,
-          gameHistory: currentHistory,
           tacticalPatterns: tacticalPatterns,
-          moveCount: moveCount
+          moveCount: moveCount,
+          aiColor: aiColor,
+          engine: engineName,
+          timeLimitMs,
+          difficulty
         }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
         const errorData = await response.json();
         if (errorData.gameOver) {
-          console.log('🎯 Game is over:', errorData.result);
+          console.log('🎯 Game is over:', describeResult(errorData));
           setIsPlayerTurn(false); // Prevent further moves
           return null;
         }
         throw new Error('Failed to get AI move');
       }
 
-      const data = await response.json();
+      const data = await readMoveStream(response, event => {
+        setAIThinking(prev => prev && applyThinkingEvent(prev, event));
+      });
+
+      // The AI's flag may have fallen while it was thinking, or before this tick noticed
+      const clockMs = getFlagged() ? null : switchClockAfterMove(aiColor);
+      if (clockMs === null) {
+        console.log('🎯 AI ran out of time - discarding its move');
+        return null;
+      }
       
-      setMoveHistory(prev => [...prev, {
+      setMoveTree(prev => addMove(prev, {
         fen: data.fen,
         move: data.move,
+        color: aiColor,
         timestamp: Date.now(),
         isPlayerMove: false,
-        isPlayerTurn: true // After AI move, it's player's turn
-      }]);
+        isPlayerTurn: true, // After AI move, it's player's turn
+        reasoning: data.reasoning,
+        clockMs
+      }));
       
       setGame(new Chess(data.fen));
       setMoveCount(prev => prev + 1);
@@ -250,34 +908,184 @@ export const useChessGame = () => {
       
       return data;
     } catch (error) {
+      if (controller.signal.aborted && controller.signal.reason !== MOVE_NOW) {
+        console.log('🤖 AI move discarded - the game changed while it was thinking');
+        return null;
+      }
       console.error('Error getting AI move:', error);
-      const moves = game.moves();
-      if (moves.length > 0) {
-        const randomMove = moves[Math.floor(Math.random() * moves.length)];
-        game.move(randomMove);
-        setGame(new Chess(game.fen()));
-        setIsPlayerTurn(true);
+      if (gameResult || getFlagged()) {
+        return null;
+      }
+      // Offline or the server failed: let the built-in searcher play instead of a random move
+      const fallback = await chooseMoveAtLevel(localEngine, {
+        fen: game.fen(),
+        aiColor,
+        moveCount,
+        timeLimitMs: OFFLINE_FALLBACK_TIME_LIMIT,
+        difficulty: DIFFICULTY_LEVELS[difficulty]
+      });
+      // Record the fallback move too, so the history (and PGN export) stays replayable
+      const clockMs = switchClockAfterMove(aiColor);
+      if (clockMs === null) {
+        console.log('🎯 AI ran out of time - discarding its move');
+        return null;
+      }
+      setMoveTree(prev => addMove(prev, {
+        fen: fallback.fen,
+        move: fallback.move,
+        color: aiColor,
+        timestamp: Date.now(),
+        isPlayerMove: false,
+        isPlayerTurn: true,
+        reasoning: fallback.reasoning,
+        clockMs
+      }));
+      setGame(new Chess(fallback.fen));
+      setMoveCount(prev => prev + 1);
+      setIsPlayerTurn(true);
+      setLastAIMove({
+        move: fallback.move,
+        reasoning: fallback.reasoning,
+        timestamp: Date.now()
+      });
+      return fallback;
+    } finally {
+      if (aiAbortRef.current === controller) {
+        aiAbortRef.current = null;
+        setAIThinking(null);
       }
     }
-  }, [gameWithHistory, game, getTacticalPatterns]);
+  }, [gameMode, gameWithHistory, game, gameResult, getTacticalPatterns, moveCount, aiColor, engineName, difficulty, timeControl, getRemaining, getFlagged, switchClockAfterMove]);
+
+  // Switch between playing the AI, hot-seat and online play; each starts a fresh game.
+  // Online games are untimed.
+  const changeGameMode = useCallback((mode: GameMode) => {
+    if (mode === gameMode) return;
+    leaveRoom();
+    setGameMode(mode);
+    setShowEvaluation(mode === 'ai');
+    startGame(sideChoice, mode);
+    if (mode === 'online') {
+      resetClock(TIME_CONTROL_PRESETS.untimed);
+    }
+  }, [gameMode, sideChoice, startGame, leaveRoom, resetClock]);
+
+  const leaveOnlineRoom = useCallback(() => {
+    leaveRoom();
+    startGame(sideChoice);
+  }, [leaveRoom, startGame, sideChoice]);
+
+  // Online, the board follows the room: its moves, whose turn it is and how the game ended.
+  // Spectators watch from White's side.
+  useEffect(() => {
+    if (gameMode !== 'online' || !onlineRoom) return;
+    const isSeated = onlineSeat !== null;
+    const bothSeatsTaken = onlineRoom.seats.w.taken && onlineRoom.seats.b.taken;
+    setStartFen(undefined);
+    setMoveTree(moveTreeFromLine(onlineRoom.moves.map(entry => ({
+      ...entry,
+      isPlayerMove: entry.color === onlineSeat,
+      isPlayerTurn: isSeated && entry.color !== onlineSeat,
+    }))));
+    setGame(new Chess(onlineRoom.fen));
+    setMoveCount(onlineRoom.moves.length);
+    setDeclaredResult(onlineRoom.result);
+    setPlayerColor(onlineSeat ?? 'w');
+    setIsPlayerTurn(isSeated && bothSeatsTaken && onlineRoom.turn === onlineSeat);
+  }, [gameMode, onlineRoom, onlineSeat]);
+
+  // A room link (?room=<id>) opens that room: at our seat if we have one, otherwise to watch or join
+  useEffect(() => {
+    const roomId = new URLSearchParams(window.location.search).get('room');
+    if (!roomId) return;
+    setGameMode('online');
+    setShowEvaluation(false);
+    setIsPlayerTurn(false);
+    resetClock(TIME_CONTROL_PRESETS.untimed);
+    openRoom(roomId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   return {
     game,
     gameState,
     selectedSquare,
     validMoves,
+    pendingPromotion,
     isPlayerTurn,
     lastAIMove,
     moveHistory,
     moveCount,
+    opening,
+    // Variation tree
+    moveTree,
+    currentLineIds,
+    goToNode,
+    promoteVariation,
+    deleteVariation,
+    playerColor,
+    aiColor,
+    sideChoice,
+    chooseSide,
     resetGame,
+    startFromPosition,
     undoMove,
     handleSquareClick,
+    completePromotion,
+    cancelPromotion,
+    exportGamePgn,
+    importGamePgn,
+    pgnError,
+    // Game archive
+    openArchivedGame,
+    archiveError,
+    // Resuming after a reload
+    resumableGame,
+    resumeGame,
+    dismissResumableGame,
+    // Result, resignation and draw offers
+    resign,
+    offerDraw,
+    isDrawOfferPending,
+    drawOfferResponse,
+    // Move list navigation and replay
+    ...navigation,
+    // Post-game analysis
+    gameAnalysis,
+    isAnalyzing,
+    analysisError,
+    analyzeGame,
+    clearAnalysis,
+    exportGameAnalysisPgn,
     makeAIMove,
+    aiThinking,
+    stopAIThinking,
+    engineName,
+    setEngineName,
+    difficulty,
+    setDifficulty,
+    // Game modes and online rooms
+    gameMode,
+    changeGameMode,
+    showEvaluation,
+    setShowEvaluation,
+    onlineRoom,
+    onlineSeat,
+    onlineError,
+    createOnlineRoom: createRoom,
+    joinOnlineRoom: joinRoom,
+    leaveOnlineRoom,
     setGame,
     setIsPlayerTurn,
+    // Clock state and controls
     whiteTime,
     blackTime,
+    timeControl,
+    bonusType,
+    runningClock: clock.runningColor,
+    isClockPaused: clock.isPaused,
+    changeTimeControl,
+    resumeClock,
     // Tactical strategy controls
     refreshStrategy,
     clearStrategy
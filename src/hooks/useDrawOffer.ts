@@ -0,0 +1,57 @@
+import { useState, useCallback, useRef } from 'react';
+
+// Ask the AI to agree a draw; only the latest offer may update state
+export const useDrawOffer = () => {
+  const [isOfferPending, setIsOfferPending] = useState(false);
+  const [response, setResponse] = useState<string | null>(null);
+
+  const latestOfferRef = useRef(0);
+
+  // Resolves to true when the AI accepts; a withdrawn or failed offer counts as declined
+  const offerDraw = useCallback(async (fen: string, aiColor: 'w' | 'b') => {
+    const offerId = ++latestOfferRef.current;
+    setIsOfferPending(true);
+    setResponse(null);
+
+    try {
+      const res = await fetch('/api/draw-offer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fen, aiColor }),
+      });
+
+      const data = await res.json();
+      if (offerId !== latestOfferRef.current) return false;
+
+      if (!res.ok) {
+        throw new Error(data.error || `Draw offer error: ${res.status}`);
+      }
+
+      console.log(`🤝 Draw offer ${data.accepted ? 'accepted' : 'declined'}`);
+      setResponse(data.message);
+      return data.accepted === true;
+    } catch (err) {
+      if (offerId !== latestOfferRef.current) return false;
+      console.error('Draw offer error:', err);
+      setResponse(err instanceof Error ? err.message : 'Failed to offer a draw');
+      return false;
+    } finally {
+      if (offerId === latestOfferRef.current) {
+        setIsOfferPending(false);
+      }
+    }
+  }, []);
+
+  const withdrawOffer = useCallback(() => {
+    latestOfferRef.current++;
+    setIsOfferPending(false);
+    setResponse(null);
+  }, []);
+
+  return {
+    isOfferPending,
+    response,
+    offerDraw,
+    withdrawOffer,
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useCallback, useRef } from 'react';
+import type { GameAnalysis } from '@/utils/moveClassification';
+
+// Think time per position; a 40-move game takes about 20 seconds with the built-in engine
+const ANALYSIS_TIME_LIMIT_MS = 250;
+
+export const useGameAnalysis = () => {
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the latest request may update state
+  const latestRequestRef = useRef(0);
+
+  const analyzeGame = useCallback(async (moves: string[], startFen?: string) => {
+    const requestId = ++latestRequestRef.current;
+    setIsAnalyzing(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/analyze-game', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ moves, startFen, timeLimitMs: ANALYSIS_TIME_LIMIT_MS }),
+      });
+
+      const data = await response.json();
+      if (requestId !== latestRequestRef.current) return;
+
+      if (!response.ok) {
+        throw new Error(data.error || `Analysis error: ${response.status}`);
+      }
+
+      console.log(`📊 Game analysis ready - accuracy White ${data.accuracy.w ?? '-'}%, Black ${data.accuracy.b ?? '-'}%`);
+      setAnalysis(data);
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
+      console.error('Game analysis error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to analyze game');
+    } finally {
+      if (requestId === latestRequestRef.current) {
+        setIsAnalyzing(false);
+      }
+    }
+  }, []);
+
+  const clearAnalysis = useCallback(() => {
+    latestRequestRef.current++;
+    setAnalysis(null);
+    setIsAnalyzing(false);
+    setError(null);
+  }, []);
+
+  return {
+    analysis,
+    isAnalyzing,
+    error,
+    analyzeGame,
+    clearAnalysis,
+  };
+};
@@ -0,0 +1,79 @@
+import { useState, useCallback, useRef } from 'react';
+import type { ArchivedGame, ArchivedGameSummary, GameFilter } from '@/games/types';
+
+// Browse the saved games: list them with filters, load one in full, or delete it
+export const useGameArchive = () => {
+  const [games, setGames] = useState<ArchivedGameSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the latest list request may update the list
+  const latestRequestRef = useRef(0);
+
+  const listGames = useCallback(async (filter: GameFilter = {}) => {
+    const requestId = ++latestRequestRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams(
+        Object.entries(filter).filter((entry): entry is [string, string] => Boolean(entry[1]))
+      );
+      const response = await fetch(`/api/games?${query}`);
+      const data = await response.json();
+      if (requestId !== latestRequestRef.current) return;
+
+      if (!response.ok) {
+        throw new Error(data.error || `Archive error: ${response.status}`);
+      }
+      setGames(data.games);
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
+      console.error('Game archive error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load games');
+    } finally {
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  // The full record of a game, or null (with `error` set) if it can't be loaded
+  const fetchGame = useCallback(async (id: string): Promise<ArchivedGame | null> => {
+    try {
+      const response = await fetch(`/api/games/${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Archive error: ${response.status}`);
+      }
+      return data;
+    } catch (err) {
+      console.error('Game archive error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load game');
+      return null;
+    }
+  }, []);
+
+  const deleteGame = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/games/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Archive error: ${response.status}`);
+      }
+      setGames(prev => prev.filter(game => game.id !== id));
+    } catch (err) {
+      console.error('Game archive error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete game');
+    }
+  }, []);
+
+  return {
+    games,
+    isLoading,
+    error,
+    listGames,
+    fetchGame,
+    deleteGame,
+  };
+};
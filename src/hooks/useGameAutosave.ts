@@ -0,0 +1,93 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { ArchivedGameInput } from '@/games/types';
+
+// Wait for play to settle before saving, so a quick exchange of moves is one request
+const AUTOSAVE_DELAY_MS = 1000;
+
+// The archived copy a game saves to; `id` is null until its first save creates it
+interface ArchiveTarget {
+  id: string | null;
+}
+
+interface PendingSave {
+  record: ArchivedGameInput;
+  target: ArchiveTarget;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Keep the archive in step with the game being played. `record` is null while there's nothing
+// to save; every change to it is saved shortly after, to the same archived game until
+// `startRecord` begins a new one.
+export const useGameAutosave = (record: ArchivedGameInput | null) => {
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const targetRef = useRef<ArchiveTarget>({ id: null });
+  const pendingRef = useRef<PendingSave | null>(null);
+  // Saves run one at a time, so a game's first save has its id before the next one goes out
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const skipNextRef = useRef(false);
+
+  const save = useCallback((gameRecord: ArchivedGameInput, target: ArchiveTarget) => {
+    queueRef.current = queueRef.current.then(async () => {
+      const body = JSON.stringify(gameRecord);
+      let response = target.id
+        ? await fetch(`/api/games/${target.id}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body })
+        : null;
+      // Deleted from the archive while it was being played: save it as a new game
+      if (!response || response.status === 404) {
+        response = await fetch('/api/games', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Archive error: ${response.status}`);
+      }
+      target.id = data.id;
+      setSaveError(null);
+    }).catch(err => {
+      console.error('Game autosave error:', err);
+      setSaveError(err instanceof Error ? err.message : 'Failed to save game');
+    });
+  }, []);
+
+  const flush = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pendingRef.current = null;
+    save(pending.record, pending.target);
+  }, [save]);
+
+  useEffect(() => {
+    if (skipNextRef.current) {
+      skipNextRef.current = false;
+      return;
+    }
+    if (!record) return;
+
+    if (pendingRef.current) {
+      clearTimeout(pendingRef.current.timer);
+    }
+    pendingRef.current = { record, target: targetRef.current, timer: setTimeout(flush, AUTOSAVE_DELAY_MS) };
+  }, [record, flush]);
+
+  // Don't lose the last moves when the board goes away
+  useEffect(() => flush, [flush]);
+
+  // Finish saving the current game, then save from now on to a new archived game, or to the
+  // archived game `id`. A reopened game is already saved as it is, so its next change isn't saved.
+  const startRecord = useCallback((id: string | null = null, isSaved = id !== null) => {
+    flush();
+    targetRef.current = { id };
+    skipNextRef.current = isSaved;
+    setSaveError(null);
+  }, [flush]);
+
+  // The archived game being saved to, once its first save has gone through
+  const getArchiveId = useCallback(() => targetRef.current.id, []);
+
+  return {
+    saveError,
+    startRecord,
+    getArchiveId,
+  };
+};
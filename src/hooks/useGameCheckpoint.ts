@@ -0,0 +1,91 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+
+const CHECKPOINT_KEY = 'ai-chess:checkpoint';
+// Bump when the checkpoint's shape changes; older checkpoints are then ignored
+const CHECKPOINT_VERSION = 1;
+
+export interface StoredCheckpoint<T> {
+  version: number;
+  savedAt: number;
+  state: T;
+}
+
+function readCheckpoint<T>(): StoredCheckpoint<T> | null {
+  try {
+    const raw = localStorage.getItem(CHECKPOINT_KEY);
+    if (!raw) return null;
+    const checkpoint: StoredCheckpoint<T> = JSON.parse(raw);
+    return checkpoint.version === CHECKPOINT_VERSION ? checkpoint : null;
+  } catch (error) {
+    console.warn('⚠️ Ignoring unreadable game checkpoint:', error);
+    return null;
+  }
+}
+
+// Storage can be full or switched off; the game carries on without checkpoints then
+function writeCheckpoint<T>(state: T | null) {
+  try {
+    if (state === null) {
+      localStorage.removeItem(CHECKPOINT_KEY);
+    } else {
+      const checkpoint: StoredCheckpoint<T> = { version: CHECKPOINT_VERSION, savedAt: Date.now(), state };
+      localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not save game checkpoint:', error);
+  }
+}
+
+// Keep the game in localStorage so a reload can pick it up again. `buildCheckpoint` returns the
+// state to keep, or null when there's nothing to resume; it's saved whenever it changes (after
+// every move) and again when the page is hidden or closed. A checkpoint found on load is offered
+// as `resumable` and left alone until it's resumed or dismissed, or another game gets under way.
+export const useGameCheckpoint = <T>(buildCheckpoint: () => T | null) => {
+  // undefined until storage has been read, which can't happen while rendering on the server
+  const [resumable, setResumable] = useState<StoredCheckpoint<T> | null | undefined>(undefined);
+  const resumableRef = useRef(resumable);
+  resumableRef.current = resumable;
+  const buildCheckpointRef = useRef(buildCheckpoint);
+  buildCheckpointRef.current = buildCheckpoint;
+
+  useEffect(() => {
+    setResumable(readCheckpoint<T>());
+  }, []);
+
+  useEffect(() => {
+    if (resumable === undefined) return;
+    const state = buildCheckpoint();
+    if (resumable) {
+      // A new game has started instead, so the one on offer is gone
+      if (state !== null) setResumable(null);
+      return;
+    }
+    writeCheckpoint(state);
+  }, [buildCheckpoint, resumable]);
+
+  // Catch the clocks as they are when the page goes away
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (resumableRef.current === null) {
+        writeCheckpoint(buildCheckpointRef.current());
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  // Hand over the offered state to restore; checkpoints carry on from whatever is restored
+  const takeResumable = useCallback(() => {
+    const state = resumableRef.current?.state ?? null;
+    setResumable(null);
+    return state;
+  }, []);
+
+  const dismissResumable = useCallback(() => setResumable(null), []);
+
+  return {
+    resumable: resumable ?? null,
+    takeResumable,
+    dismissResumable,
+  };
+};
@@ -0,0 +1,76 @@
+import { useState, useCallback, useEffect } from 'react';
+
+interface UseMoveNavigationProps {
+  plyCount: number; // moves played in the live game
+}
+
+export const REPLAY_SPEEDS = [
+  { ms: 500, label: 'Fast' },
+  { ms: 1000, label: 'Normal' },
+  { ms: 2000, label: 'Slow' },
+];
+
+// Browse the positions of the game without touching it. `viewedPly` is null while following the
+// live game, otherwise the number of moves played in the viewed position (0 = start position).
+export const useMoveNavigation = ({ plyCount }: UseMoveNavigationProps) => {
+  const [viewedPly, setViewedPly] = useState<number | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(REPLAY_SPEEDS[1].ms);
+
+  // Viewing the last move is the same as following the live game
+  const goToPly = useCallback((ply: number) => {
+    const clamped = Math.max(0, Math.min(plyCount, ply));
+    setViewedPly(clamped === plyCount ? null : clamped);
+  }, [plyCount]);
+
+  const currentPly = viewedPly ?? plyCount;
+
+  const goToFirst = useCallback(() => goToPly(0), [goToPly]);
+  const goToPrevious = useCallback(() => goToPly(currentPly - 1), [goToPly, currentPly]);
+  const goToNext = useCallback(() => goToPly(currentPly + 1), [goToPly, currentPly]);
+  const goToLast = useCallback(() => setViewedPly(null), []);
+
+  // Replay from the viewed position, or from the start when already at the live position
+  const toggleReplay = useCallback(() => {
+    if (isReplaying) {
+      setIsReplaying(false);
+      return;
+    }
+    if (plyCount === 0) return;
+    if (viewedPly === null) {
+      setViewedPly(0);
+    }
+    setIsReplaying(true);
+  }, [isReplaying, plyCount, viewedPly]);
+
+  useEffect(() => {
+    if (!isReplaying) return;
+    if (viewedPly === null) {
+      setIsReplaying(false);
+      return;
+    }
+    const timer = setTimeout(() => goToPly(viewedPly + 1), replaySpeed);
+    return () => clearTimeout(timer);
+  }, [isReplaying, viewedPly, replaySpeed, goToPly]);
+
+  // Undo or a new game can remove the viewed move
+  useEffect(() => {
+    if (viewedPly !== null && viewedPly >= plyCount) {
+      setViewedPly(null);
+    }
+  }, [viewedPly, plyCount]);
+
+  return {
+    viewedPly,
+    isViewingHistory: viewedPly !== null,
+    goToPly,
+    goToFirst,
+    goToPrevious,
+    goToNext,
+    goToLast,
+    isReplaying,
+    toggleReplay,
+    replaySpeed,
+    setReplaySpeed,
+  };
+};
@@ -0,0 +1,182 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { RoomState, Seat, SeatTicket } from '@/multiplayer/types';
+
+// Seat tickets are kept per room, so a reload (or the room link) takes the player back to their seat
+const ticketKey = (roomId: string) => `ai-chess:room:${roomId}`;
+
+function loadTicket(roomId: string): SeatTicket | null {
+  try {
+    const raw = localStorage.getItem(ticketKey(roomId));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeTicket(ticket: SeatTicket) {
+  try {
+    localStorage.setItem(ticketKey(ticket.roomId), JSON.stringify(ticket));
+  } catch (error) {
+    console.warn('⚠️ Could not keep the seat ticket:', error);
+  }
+}
+
+// The room link: this page with ?room=<id>
+export const getRoomLink = (roomId: string) => {
+  const url = new URL(window.location.href);
+  url.search = new URLSearchParams({ room: roomId }).toString();
+  return url.toString();
+};
+
+const setRoomInUrl = (roomId: string | null) => {
+  const url = new URL(window.location.href);
+  if (roomId) {
+    url.searchParams.set('room', roomId);
+  } else {
+    url.searchParams.delete('room');
+  }
+  window.history.replaceState(null, '', url);
+};
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Room error: ${response.status}`);
+  }
+  return data;
+}
+
+// A human-vs-human game room on the server: create or join one, follow it over server-sent
+// events, and send moves, which the server checks. Without a ticket the room is only watched.
+export const useOnlineRoom = () => {
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [ticket, setTicket] = useState<SeatTicket | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const eventsRef = useRef<EventSource | null>(null);
+
+  const disconnect = useCallback(() => {
+    eventsRef.current?.close();
+    eventsRef.current = null;
+  }, []);
+
+  // Follow a room, as a player if `seat` is given
+  const connect = useCallback((roomId: string, seat: SeatTicket | null) => {
+    disconnect();
+    setTicket(seat);
+    setError(null);
+    setRoomInUrl(roomId);
+
+    const query = seat ? `?token=${encodeURIComponent(seat.token)}` : '';
+    const events = new EventSource(`/api/rooms/${roomId}/events${query}`);
+    events.onmessage = (event) => {
+      setRoom(JSON.parse(event.data));
+      setError(null);
+    };
+    // EventSource reconnects by itself; say so while it does
+    events.onerror = () => {
+      setError('Connection to the room lost - reconnecting...');
+    };
+    eventsRef.current = events;
+  }, [disconnect]);
+
+  const createRoom = useCallback(async (color: Seat | 'random') => {
+    try {
+      const { ticket: created, room: state } = await postJson('/api/rooms', { color });
+      storeTicket(created);
+      setRoom(state);
+      connect(created.roomId, created);
+      console.log(`👥 Created room ${created.roomId}`);
+      return created as SeatTicket;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create room');
+      return null;
+    }
+  }, [connect]);
+
+  // Take the free seat
+  const joinRoom = useCallback(async (roomId: string) => {
+    try {
+      const { ticket: joined, room: state } = await postJson(`/api/rooms/${roomId}/join`, {});
+      storeTicket(joined);
+      setRoom(state);
+      connect(roomId, joined);
+      return joined as SeatTicket;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join room');
+      return null;
+    }
+  }, [connect]);
+
+  // Open a room from its link: back to our seat if we have one, otherwise watch until joining
+  const openRoom = useCallback(async (roomId: string) => {
+    try {
+      const response = await fetch(`/api/rooms/${roomId}`);
+      if (!response.ok) {
+        setRoomInUrl(null);
+        setError(`Room ${roomId} doesn't exist (rooms end when the server restarts)`);
+        return false;
+      }
+      setRoom(await response.json());
+      connect(roomId, loadTicket(roomId));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open room');
+      return false;
+    }
+  }, [connect]);
+
+  const leaveRoom = useCallback(() => {
+    disconnect();
+    setRoom(null);
+    setTicket(null);
+    setError(null);
+    setRoomInUrl(null);
+  }, [disconnect]);
+
+  // The server answers with the new state; it also reaches every client through the events
+  const sendMove = useCallback(async (move: string) => {
+    if (!room || !ticket) return false;
+    try {
+      setRoom(await postJson(`/api/rooms/${room.id}/moves`, { token: ticket.token, move }));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Move rejected');
+      // Put the board back as the server has it; if that fails too, the room events will
+      try {
+        const response = await fetch(`/api/rooms/${room.id}`);
+        if (response.ok) setRoom(await response.json());
+      } catch (refreshError) {
+        console.warn('⚠️ Could not reload the room:', refreshError);
+      }
+      return false;
+    }
+  }, [room, ticket]);
+
+  const resign = useCallback(async () => {
+    if (!room || !ticket) return;
+    try {
+      setRoom(await postJson(`/api/rooms/${room.id}/resign`, { token: ticket.token }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resign');
+    }
+  }, [room, ticket]);
+
+  useEffect(() => disconnect, [disconnect]);
+
+  return {
+    room,
+    seat: ticket?.color ?? null, // null while watching
+    error,
+    createRoom,
+    joinRoom,
+    openRoom,
+    leaveRoom,
+    sendMove,
+    resign,
+  };
+};
@@ -1,6 +1,7 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { StructuredOutputMetadata } from '@/utils/structuredOutput';
 
-interface TacticalStrategy {
+export interface TacticalStrategy {
   primaryGoal: string;
   tacticalPatterns: string[];
   pieceCoordination: string;
@@ -10,23 +11,34 @@ interface TacticalStrategy {
   movePriorities: string[];
 }
 
-interface StrategyData {
-  strategy: TacticalStrategy;
-  reasoning: string;
+export interface StrategyData {
+  strategy: TacticalStrategy | null; // null in degraded mode
+  reasoning: string | null;
   gamePhase: string;
   timestamp: number;
   fen: string;
+  degraded: boolean;
+  metadata: StructuredOutputMetadata;
+}
+
+// What a reload needs to carry on with the same strategy and countdown
+export interface StrategyCheckpoint {
+  currentStrategy: TacticalStrategy | null;
+  strategyData: StrategyData | null;
+  lastUpdateMove: number;
 }
 
 interface UseTacticalStrategyProps {
   fen: string;
   gameHistory: string[];
   moveCount: number;
+  aiColor: 'w' | 'b';
+  enabled?: boolean; // false when there's no AI in the game, so no strategy is generated
 }
 
 const STRATEGY_UPDATE_INTERVAL = 3; // Update every 3 moves
 
-export const useTacticalStrategy = ({ fen, gameHistory, moveCount }: UseTacticalStrategyProps) => {
+export const useTacticalStrategy = ({ fen, gameHistory, moveCount, aiColor, enabled = true }: UseTacticalStrategyProps) => {
   const [currentStrategy, setCurrentStrategy] = useState<TacticalStrategy | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -62,7 +74,8 @@ export const useTacticalStrategy = ({ fen, gameHistory, moveCount }: UseTactical
           fen: fenToUse,
           gameHistory: historyToUse,
           currentStrategy: currentStrategy,
-          moveCount: moveCount
+          moveCount: moveCount,
+          aiColor: aiColor
         }),
       });
 
@@ -76,10 +89,17 @@ export const useTacticalStrategy = ({ fen, gameHistory, moveCount }: UseTactical
       }
 
       const data: StrategyData = await response.json();
-      
+      setLastUpdateMove(moveCount);
+
+      if (data.degraded || !data.strategy) {
+        // Keep the previous strategy and try again at the next interval
+        console.warn('🎯 Strategy response failed validation:', data.metadata.schemaViolations);
+        setError('Strategy unavailable this time (invalid model response)');
+        return;
+      }
+
       setStrategyData(data);
       setCurrentStrategy(data.strategy);
-      setLastUpdateMove(moveCount);
       
       console.log('🎯 New strategy generated:', data.strategy.primaryGoal);
       
@@ -89,11 +109,11 @@ export const useTacticalStrategy = ({ fen, gameHistory, moveCount }: UseTactical
     } finally {
       setIsLoading(false);
     }
-  }, [fen, gameHistory, currentStrategy, moveCount]);
+  }, [fen, gameHistory, currentStrategy, moveCount, aiColor]);
 
   // Auto-update strategy when conditions are met
   useEffect(() => {
-    if (shouldUpdateStrategy() && !isLoading) {
+    if (enabled && shouldUpdateStrategy() && !isLoading) {
       // Clear any existing timeout
       if (updateTimeoutRef.current) {
         clearTimeout(updateTimeoutRef.current);
@@ -110,7 +130,7 @@ export const useTacticalStrategy = ({ fen, gameHistory, moveCount }: UseTactical
         clearTimeout(updateTimeoutRef.current);
       }
     };
-  }, [shouldUpdateStrategy, generateStrategy, isLoading]);
+  }, [enabled, shouldUpdateStrategy, generateStrategy, isLoading]);
 
   // Manual strategy refresh
   const refreshStrategy = useCallback(() => {
@@ -126,6 +146,30 @@ export const useTacticalStrategy = ({ fen, gameHistory, moveCount }: UseTactical
     console.log('🎯 Strategy cleared');
   }, []);
 
+  // Start a fresh strategy for a new starting position; the auto-update fires on the next render
+  const seedStrategy = useCallback(() => {
+    setCurrentStrategy(null);
+    setStrategyData(null);
+    setLastUpdateMove(-STRATEGY_UPDATE_INTERVAL);
+    setError(null);
+    console.log('🎯 Strategy seeded for new position');
+  }, []);
+
+  const checkpoint = useMemo((): StrategyCheckpoint => ({
+    currentStrategy,
+    strategyData,
+    lastUpdateMove
+  }), [currentStrategy, strategyData, lastUpdateMove]);
+
+  // Carry on from a checkpoint, e.g. when a game is resumed after a reload
+  const restoreStrategy = useCallback((saved: StrategyCheckpoint) => {
+    setCurrentStrategy(saved.currentStrategy);
+    setStrategyData(saved.strategyData);
+    setLastUpdateMove(saved.lastUpdateMove);
+    setError(null);
+    console.log('🎯 Strategy restored');
+  }, []);
+
   // Get tactical patterns for AI move API
   const getTacticalPatterns = useCallback(() => {
     if (!currentStrategy) return [];
@@ -148,6 +192,9 @@ export const useTacticalStrategy = ({ fen, gameHistory, moveCount }: UseTactical
     generateStrategy,
     refreshStrategy,
     clearStrategy,
+    seedStrategy,
+    checkpoint,
+    restoreStrategy,
     getTacticalPatterns,
     shouldUpdateStrategy: shouldUpdateStrategy()
   };
@@ -0,0 +1,82 @@
+import { readFileSync } from 'fs';
+import { createMockProvider } from './mockProvider';
+import { createOpenAIProvider } from './openaiProvider';
+import { withUsageTracking } from './usage';
+import type { LlmProvider, LlmProviderName } from './types';
+
+export type { LlmCompletion, LlmCompletionOptions, LlmMessage, LlmProvider, LlmProviderName, LlmUsage } from './types';
+export type { LlmUsageTotals } from './usage';
+export { emptyUsage, trackLlmUsage } from './usage';
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+export const LLM_PROVIDER_NAMES: LlmProviderName[] = ['openai', 'openai-compatible', 'mock'];
+
+let cachedProvider: LlmProvider | null = null;
+
+function isLlmProviderName(name: unknown): name is LlmProviderName {
+  return typeof name === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(name);
+}
+
+export function getLlmProviderName(): LlmProviderName {
+  const name = process.env.LLM_PROVIDER || 'openai';
+  if (!isLlmProviderName(name)) {
+    throw new Error(`LLM_PROVIDER must be one of: ${LLM_PROVIDER_NAMES.join(', ')}`);
+  }
+  return name;
+}
+
+// Whether the configured provider has what it needs to answer (a key, a base URL, or nothing for the mock)
+export function isLlmConfigured(): boolean {
+  switch (getLlmProviderName()) {
+    case 'openai':
+      return !!process.env.OPENAI_API_KEY;
+    case 'openai-compatible':
+      return !!process.env.LLM_BASE_URL;
+    case 'mock':
+      return true;
+  }
+}
+
+// Replies for the mock provider, read from the JSON array of strings at LLM_MOCK_SCRIPT
+function readMockScript(): string[] {
+  const path = process.env.LLM_MOCK_SCRIPT;
+  if (!path) return [];
+
+  const script: unknown = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(script) || script.some(entry => typeof entry !== 'string')) {
+    throw new Error('LLM_MOCK_SCRIPT must contain a JSON array of strings');
+  }
+  return script;
+}
+
+function createProviderFromEnv(): LlmProvider {
+  const name = getLlmProviderName();
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider({
+        name,
+        apiKey: process.env.OPENAI_API_KEY ?? '',
+        defaultModel: process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+      });
+    case 'openai-compatible':
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+      }
+      return createOpenAIProvider({
+        name,
+        // Local servers usually ignore the key, but the client insists on one
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL: process.env.LLM_BASE_URL,
+        defaultModel: process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+      });
+    case 'mock':
+      return createMockProvider({ responses: readMockScript() });
+  }
+}
+
+// The provider picked by LLM_PROVIDER, created once so the mock's script runs across requests.
+// Its completions count towards trackLlmUsage.
+export function getLlmProvider(): LlmProvider {
+  cachedProvider ??= withUsageTracking(createProviderFromEnv());
+  return cachedProvider;
+}
@@ -0,0 +1,65 @@
+import type { JsonSchema } from '@/utils/structuredOutput';
+import type { LlmCompletion, LlmCompletionOptions, LlmMessage, LlmProvider } from './types';
+
+export const MOCK_MODEL = 'mock-scripted';
+
+// The mock has no tokenizer; about four characters a token is close enough for usage reports
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export interface MockProviderOptions {
+  responses?: string[]; // replies handed out in order before falling back to generated ones
+}
+
+// Smallest value that satisfies the schema: first enum entry, one-item arrays, placeholder strings
+export function mockValueForSchema(schema: JsonSchema, label = 'value'): unknown {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum?.[0] ?? `Mock ${label}`;
+    case 'array':
+      return [mockValueForSchema(schema.items, label)];
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, property]) => [key, mockValueForSchema(property, key)])
+      );
+  }
+}
+
+// Deterministic offline provider: scripted replies first, then schema-shaped JSON or a fixed text reply.
+// Every request is recorded so callers can check what was sent.
+export function createMockProvider({ responses = [] }: MockProviderOptions = {}): LlmProvider & { calls: LlmMessage[][] } {
+  const script = [...responses];
+  const calls: LlmMessage[][] = [];
+
+  return {
+    name: 'mock',
+    defaultModel: MOCK_MODEL,
+    calls,
+
+    async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<LlmCompletion> {
+      options.signal?.throwIfAborted();
+      calls.push(messages);
+      const model = options.model ?? MOCK_MODEL;
+
+      const scripted = script.shift();
+      const content = scripted !== undefined ? scripted
+        : options.responseFormat ? JSON.stringify(mockValueForSchema(options.responseFormat.schema))
+          : `Mock response ${calls.length}.`;
+
+      // Hand streamed replies out a word at a time, like a real model would
+      if (options.onToken) {
+        for (const token of content.match(/\S+\s*|\s+/g) ?? []) {
+          options.onToken(token);
+        }
+      }
+      return {
+        content,
+        model,
+        provider: 'mock',
+        usage: {
+          promptTokens: estimateTokens(messages.map(message => message.content).join('\n')),
+          completionTokens: estimateTokens(content),
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import OpenAI from 'openai';
+import { jsonSchemaFormat } from '@/utils/structuredOutput';
+import type { LlmCompletion, LlmCompletionOptions, LlmMessage, LlmProvider, LlmProviderName, LlmUsage } from './types';
+
+export interface OpenAIProviderConfig {
+  name: Extract<LlmProviderName, 'openai' | 'openai-compatible'>;
+  apiKey: string;
+  baseURL?: string; // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+  defaultModel: string;
+}
+
+const toUsage = (usage: OpenAI.CompletionUsage | null | undefined): LlmUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+
+// OpenAI itself, or any server that speaks the OpenAI chat completions API
+export function createOpenAIProvider({ name, apiKey, baseURL, defaultModel }: OpenAIProviderConfig): LlmProvider {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name,
+    defaultModel,
+
+    async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<LlmCompletion> {
+      const model = options.model ?? defaultModel;
+      const body = {
+        model,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        response_format: options.responseFormat
+          ? jsonSchemaFormat(options.responseFormat.name, options.responseFormat.schema)
+          : undefined,
+      };
+
+      if (options.onToken) {
+        // OpenAI reports a streamed reply's usage only when asked; other servers may not know the option
+        const stream = await client.chat.completions.create({
+          ...body,
+          stream: true,
+          stream_options: name === 'openai' ? { include_usage: true } : undefined,
+        }, { signal: options.signal });
+        let content = '';
+        let refusal = '';
+        let usage: LlmUsage | undefined;
+        for await (const chunk of stream) {
+          usage = toUsage(chunk.usage) ?? usage;
+          const delta = chunk.choices[0]?.delta;
+          if (delta?.content) {
+            content += delta.content;
+            options.onToken(delta.content);
+          }
+          refusal += delta?.refusal ?? '';
+        }
+        return { content: content || null, refusal: refusal || null, model, provider: name, usage };
+      }
+
+      const completion = await client.chat.completions.create(body, { signal: options.signal });
+      const message = completion.choices[0]?.message;
+      return {
+        content: message?.content ?? null,
+        refusal: message?.refusal ?? null,
+        model,
+        provider: name,
+        usage: toUsage(completion.usage),
+      };
+    },
+  };
+}
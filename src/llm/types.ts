@@ -0,0 +1,38 @@
+import type { JsonSchema } from '@/utils/structuredOutput';
+
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionOptions {
+  model?: string; // defaults to the provider's model (LLM_MODEL)
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: { name: string; schema: JsonSchema }; // ask for JSON matching the schema
+  onToken?: (delta: string) => void; // streams the reply as it is generated
+  signal?: AbortSignal;
+}
+
+// Tokens a completion took, as the provider reports (or, for the mock, estimates) them
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string | null;
+  refusal?: string | null;
+  model: string;
+  provider: LlmProviderName;
+  usage?: LlmUsage; // missing when the server doesn't report it
+}
+
+// Anything that can answer a chat prompt
+export interface LlmProvider {
+  name: LlmProviderName;
+  defaultModel: string;
+  complete(messages: LlmMessage[], options?: LlmCompletionOptions): Promise<LlmCompletion>;
+}
@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LlmCompletion, LlmProvider } from './types';
+
+// Everything the LLM was asked while some piece of work ran
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+const usageStorage = new AsyncLocalStorage<LlmUsageTotals>();
+
+export const emptyUsage = (): LlmUsageTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0 });
+
+// Run `work` and total every completion made on its behalf, however deep in the call they happen.
+// Work running alongside it is counted separately.
+export async function trackLlmUsage<T>(work: () => Promise<T>): Promise<{ value: T; usage: LlmUsageTotals }> {
+  const usage = emptyUsage();
+  const value = await usageStorage.run(usage, work);
+  return { value, usage };
+}
+
+function recordUsage(completion: LlmCompletion) {
+  const usage = usageStorage.getStore();
+  if (!usage) return;
+  usage.calls++;
+  usage.promptTokens += completion.usage?.promptTokens ?? 0;
+  usage.completionTokens += completion.usage?.completionTokens ?? 0;
+}
+
+// The same provider, with every completion counted towards the usage being tracked, if any
+export function withUsageTracking(provider: LlmProvider): LlmProvider {
+  return {
+    ...provider,
+    async complete(messages, options) {
+      const completion = await provider.complete(messages, options);
+      recordUsage(completion);
+      return completion;
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { createRoomStore, type RoomStore } from './roomStore';
+
+export type { RoomMove, RoomResult, RoomState, Seat, SeatStatus, SeatTicket } from './types';
+export type { RoomStore } from './roomStore';
+export { createRoomStore } from './roomStore';
+
+// One set of rooms per server process; kept on globalThis so every route (and dev-server reloads)
+// sees the same rooms
+const globalForRooms = globalThis as typeof globalThis & { chessRoomStore?: RoomStore };
+
+export function getRoomStore(): RoomStore {
+  if (!globalForRooms.chessRoomStore) {
+    globalForRooms.chessRoomStore = createRoomStore();
+  }
+  return globalForRooms.chessRoomStore;
+}
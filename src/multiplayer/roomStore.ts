@@ -0,0 +1,175 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { Chess } from 'chess.js';
+import { getBoardResult, getResignationResult, type GameResult } from '@/utils/gameResult';
+import type { RoomMove, RoomResult, RoomState, Seat, SeatTicket } from './types';
+
+// Rooms nobody has looked at for this long are dropped when the next room is created
+const IDLE_ROOM_TTL_MS = 6 * 60 * 60 * 1000;
+
+interface Listener {
+  seat: Seat | null; // null for spectators
+  send: (state: RoomState) => void;
+}
+
+interface Room {
+  id: string;
+  createdAt: string;
+  lastActivity: number;
+  game: Chess;
+  positions: string[]; // every FEN of the game, for repetitions
+  moves: RoomMove[];
+  tokens: Partial<Record<Seat, string>>;
+  resignation: GameResult | null;
+  listeners: Set<Listener>;
+}
+
+export interface RoomStore {
+  create(color: Seat): SeatTicket;
+  join(id: string): RoomResult<SeatTicket>;
+  get(id: string): RoomState | null;
+  move(id: string, token: string, move: string): RoomResult<RoomState>;
+  resign(id: string, token: string): RoomResult<RoomState>;
+  // Call `send` with the state now and after every change; returns the unsubscribe function,
+  // or null if there's no such room
+  subscribe(id: string, token: string | null, send: (state: RoomState) => void): (() => void) | null;
+}
+
+const SEATS: Seat[] = ['w', 'b'];
+const failure = <T>(error: string, status: number): RoomResult<T> => ({ ok: false, error, status });
+
+function getResult(room: Room): GameResult | null {
+  return getBoardResult(room.game, room.positions) ?? room.resignation;
+}
+
+function toState(room: Room): RoomState {
+  const listeners = [...room.listeners];
+  const seatStatus = (seat: Seat) => ({
+    taken: room.tokens[seat] !== undefined,
+    connected: listeners.some(listener => listener.seat === seat),
+  });
+  return {
+    id: room.id,
+    createdAt: room.createdAt,
+    moves: room.moves,
+    fen: room.game.fen(),
+    turn: room.game.turn(),
+    seats: { w: seatStatus('w'), b: seatStatus('b') },
+    spectators: listeners.filter(listener => listener.seat === null).length,
+    result: getResult(room),
+  };
+}
+
+const seatOf = (room: Room, token: string | null): Seat | null =>
+  (token && SEATS.find(seat => room.tokens[seat] === token)) || null;
+
+// Rooms live in memory: a server restart ends every game in progress
+export function createRoomStore(): RoomStore {
+  const rooms = new Map<string, Room>();
+
+  const broadcast = (room: Room) => {
+    room.lastActivity = Date.now();
+    const state = toState(room);
+    room.listeners.forEach(listener => listener.send(state));
+  };
+
+  const pruneIdleRooms = () => {
+    const cutoff = Date.now() - IDLE_ROOM_TTL_MS;
+    rooms.forEach((room, id) => {
+      if (room.listeners.size === 0 && room.lastActivity < cutoff) rooms.delete(id);
+    });
+  };
+
+  // The room and the seat the token holds, or why the request can't go ahead
+  const findSeat = (id: string, token: string): RoomResult<{ room: Room; seat: Seat }> => {
+    const room = rooms.get(id);
+    if (!room) return failure(`No room ${id}`, 404);
+    const seat = seatOf(room, token);
+    if (!seat) return failure('Not a player in this room', 403);
+    if (getResult(room)) return failure('Game is already over', 409);
+    return { ok: true, value: { room, seat } };
+  };
+
+  return {
+    create(color) {
+      pruneIdleRooms();
+      const game = new Chess();
+      const token = randomUUID();
+      const room: Room = {
+        id: randomBytes(6).toString('base64url'),
+        createdAt: new Date().toISOString(),
+        lastActivity: Date.now(),
+        game,
+        positions: [game.fen()],
+        moves: [],
+        tokens: { [color]: token },
+        resignation: null,
+        listeners: new Set(),
+      };
+      rooms.set(room.id, room);
+      return { roomId: room.id, color, token };
+    },
+
+    // Take whichever seat is still free
+    join(id) {
+      const room = rooms.get(id);
+      if (!room) return failure(`No room ${id}`, 404);
+      const seat = SEATS.find(candidate => room.tokens[candidate] === undefined);
+      if (!seat) return failure('Both seats are taken - you can still watch', 409);
+
+      const token = randomUUID();
+      room.tokens[seat] = token;
+      broadcast(room);
+      return { ok: true, value: { roomId: id, color: seat, token } };
+    },
+
+    get(id) {
+      const room = rooms.get(id);
+      return room ? toState(room) : null;
+    },
+
+    move(id, token, move) {
+      const found = findSeat(id, token);
+      if (!found.ok) return found;
+      const { room, seat } = found.value;
+
+      if (room.game.turn() !== seat) return failure('Not your turn', 409);
+      if (SEATS.some(candidate => room.tokens[candidate] === undefined)) {
+        return failure('Waiting for an opponent to join', 409);
+      }
+
+      try {
+        const played = room.game.move(move);
+        room.positions.push(room.game.fen());
+        room.moves.push({ move: played.san, color: played.color, fen: room.game.fen(), timestamp: Date.now() });
+      } catch {
+        return failure(`Illegal move: ${move}`, 400);
+      }
+
+      broadcast(room);
+      return { ok: true, value: toState(room) };
+    },
+
+    resign(id, token) {
+      const found = findSeat(id, token);
+      if (!found.ok) return found;
+      const { room, seat } = found.value;
+
+      room.resignation = getResignationResult(seat);
+      broadcast(room);
+      return { ok: true, value: toState(room) };
+    },
+
+    subscribe(id, token, send) {
+      const room = rooms.get(id);
+      if (!room) return null;
+
+      const listener: Listener = { seat: seatOf(room, token), send };
+      room.listeners.add(listener);
+      broadcast(room); // everyone sees who's connected
+      return () => {
+        room.listeners.delete(listener);
+        broadcast(room);
+      };
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import type { GameResult } from '@/utils/gameResult';
+
+export type Seat = 'w' | 'b';
+
+export interface RoomMove {
+  move: string; // SAN
+  color: Seat;
+  fen: string; // position after the move
+  timestamp: number;
+}
+
+export interface SeatStatus {
+  taken: boolean;
+  connected: boolean; // the player has the room open
+}
+
+// A room as its players and spectators see it; sent again after every change
+export interface RoomState {
+  id: string;
+  createdAt: string;
+  moves: RoomMove[];
+  fen: string;
+  turn: Seat;
+  seats: Record<Seat, SeatStatus>;
+  spectators: number;
+  result: GameResult | null;
+}
+
+// Proof of a seat: only its holder can move (or resign) for that colour
+export interface SeatTicket {
+  roomId: string;
+  color: Seat;
+  token: string;
+}
+
+export type RoomResult<T> = { ok: true; value: T } | { ok: false; error: string; status: number };
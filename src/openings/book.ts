@@ -0,0 +1,67 @@
+import { Chess } from 'chess.js';
+import { positionKey } from '@/utils/fenUtils';
+import { ECO_OPENINGS } from './ecoTable';
+import type { BookMove, OpeningBook } from './types';
+
+export interface BookGame {
+  moves: string[]; // SAN
+  startFen?: string;
+  result?: string; // PGN result token
+}
+
+// Only the first moves of each game go into the book
+export const DEFAULT_BOOK_PLIES = 20;
+
+// A move earns its player's score in the game, doubled so a draw counts 1: moves that lost are never
+// played from the book, and moves from lines without a result all count the same
+function moveWeight(result: string | undefined, color: 'w' | 'b'): number {
+  if (result === '1-0') return color === 'w' ? 2 : 0;
+  if (result === '0-1') return color === 'b' ? 2 : 0;
+  return 1;
+}
+
+// A book as a tree of positions: every game adds its moves' weights to the positions they were played from
+export function buildOpeningBook(name: string, games: BookGame[], maxPlies = DEFAULT_BOOK_PLIES): OpeningBook {
+  const positions = new Map<string, Map<string, number>>();
+
+  games.forEach(({ moves, startFen, result }) => {
+    const game = new Chess(startFen);
+    moves.slice(0, maxPlies).forEach(san => {
+      const key = positionKey(game.fen());
+      const move = game.move(san);
+      const weights = positions.get(key) ?? new Map<string, number>();
+      weights.set(move.san, (weights.get(move.san) ?? 0) + moveWeight(result, move.color));
+      positions.set(key, weights);
+    });
+  });
+
+  const getMoves = (fen: string): BookMove[] =>
+    [...(positions.get(positionKey(fen)) ?? [])]
+      .filter(([, weight]) => weight > 0)
+      .map(([san, weight]) => ({ san, weight }))
+      .sort((a, b) => b.weight - a.weight);
+
+  return {
+    name,
+    positions: [...positions.keys()].filter(key => getMoves(key).length > 0).length,
+    getMoves,
+  };
+}
+
+// The named lines of the ECO table as a book; moves shared by many named lines are played more often
+export function createEcoBook(): OpeningBook {
+  return buildOpeningBook('built-in ECO lines', ECO_OPENINGS.map(({ moves }) => ({ moves: moves.split(' ') })));
+}
+
+// Pick a book move with probability proportional to its weight
+export function pickBookMove(moves: BookMove[], random: () => number = Math.random): BookMove | null {
+  const total = moves.reduce((sum, move) => sum + move.weight, 0);
+  if (total <= 0) return null;
+
+  let roll = random() * total;
+  for (const move of moves) {
+    roll -= move.weight;
+    if (roll < 0) return move;
+  }
+  return moves[moves.length - 1];
+}
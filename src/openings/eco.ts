@@ -0,0 +1,37 @@
+import { Chess } from 'chess.js';
+import { positionKey } from '@/utils/fenUtils';
+import { ECO_OPENINGS } from './ecoTable';
+import type { OpeningInfo } from './types';
+
+let openingsByPosition: Map<string, OpeningInfo> | null = null;
+
+// Built on first use: the position each named line reaches
+function getOpeningsByPosition(): Map<string, OpeningInfo> {
+  if (!openingsByPosition) {
+    openingsByPosition = new Map();
+    for (const { eco, name, moves } of ECO_OPENINGS) {
+      const game = new Chess();
+      moves.split(' ').forEach(san => game.move(san));
+      openingsByPosition.set(positionKey(game.fen()), { eco, name });
+    }
+  }
+  return openingsByPosition;
+}
+
+export function getOpeningAt(fen: string): OpeningInfo | null {
+  return getOpeningsByPosition().get(positionKey(fen)) ?? null;
+}
+
+// Name the opening of a game from its positions in order: the last named position wins,
+// so a game keeps its opening's name after it leaves the table
+export function classifyOpening(fens: string[]): OpeningInfo | null {
+  for (let i = fens.length - 1; i >= 0; i--) {
+    const opening = getOpeningAt(fens[i]);
+    if (opening) return opening;
+  }
+  return null;
+}
+
+export function formatOpening({ eco, name }: OpeningInfo): string {
+  return `${eco} ${name}`;
+}
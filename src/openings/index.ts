@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { importPgn, splitPgnGames } from '@/utils/pgnUtils';
+import { buildOpeningBook, createEcoBook, type BookGame } from './book';
+import type { OpeningBook } from './types';
+
+export type { BookMove, OpeningBook, OpeningInfo } from './types';
+export { pickBookMove } from './book';
+export { classifyOpening, formatOpening, getOpeningAt } from './eco';
+
+let cachedBook: OpeningBook | null | undefined;
+
+// Every readable game of a PGN database; unreadable ones are skipped
+function loadPgnBook(path: string): OpeningBook {
+  const games: BookGame[] = [];
+  let skipped = 0;
+
+  splitPgnGames(readFileSync(path, 'utf8')).forEach(pgn => {
+    try {
+      const imported = importPgn(pgn);
+      games.push({
+        moves: imported.moves.map(entry => entry.move),
+        startFen: imported.startFen,
+        result: imported.headers.Result,
+      });
+    } catch {
+      skipped++;
+    }
+  });
+
+  if (games.length === 0) {
+    throw new Error(`No readable games in ${path}`);
+  }
+  if (skipped > 0) {
+    console.warn(`⚠️ Opening book: skipped ${skipped} unreadable games in ${path}`);
+  }
+  return buildOpeningBook(basename(path), games);
+}
+
+// The opening book the AI plays from: the PGN file at OPENING_BOOK, the built-in ECO lines when it
+// isn't set (or can't be read), or none with OPENING_BOOK=off
+export function getOpeningBook(): OpeningBook | null {
+  if (cachedBook !== undefined) return cachedBook;
+
+  const source = process.env.OPENING_BOOK;
+  if (source === 'off') {
+    cachedBook = null;
+  } else if (source) {
+    try {
+      cachedBook = loadPgnBook(source);
+    } catch (error) {
+      console.warn(`⚠️ Opening book ${source} could not be loaded - using the built-in ECO lines:`, error);
+      cachedBook = createEcoBook();
+    }
+  } else {
+    cachedBook = createEcoBook();
+  }
+
+  if (cachedBook) {
+    console.log(`📖 Opening book: ${cachedBook.name} (${cachedBook.positions} positions)`);
+  }
+  return cachedBook;
+}
@@ -0,0 +1,15 @@
+export interface OpeningInfo {
+  eco: string; // e.g. "B90"
+  name: string; // e.g. "Sicilian Defense: Najdorf Variation"
+}
+
+export interface BookMove {
+  san: string;
+  weight: number; // relative chance of being played
+}
+
+export interface OpeningBook {
+  name: string;
+  positions: number; // positions with at least one book move
+  getMoves(fen: string): BookMove[];
+}
@@ -1,120 +1,16 @@
 // src/prompts/openings.ts
-export const openingsPrompt = `
-
-# Standard Chess Openings
-
-This file lists common chess openings with their main move sequences and short descriptions.
-
-CHOOSE A RANDOM OPENING
-
----
-
-## 1. Ruy Lopez (Spanish Opening)  
-**Moves:** "1. e4 e5 2. Nf3 Nc6 3. Bb5"  
-**Description:** White develops quickly and pressures Black's knight on c6, indirectly targeting the center.
-
----
-
-## 2. Italian Game  
-**Moves:** "1. e4 e5 2. Nf3 Nc6 3. Bc4"  
-**Description:** Aiming for quick development and central control, with chances for aggressive play against f7.
-
----
-
-## 3. Sicilian Defense  
-**Moves:** "1. e4 c5"  
-**Description:** Black counters in the center asymmetrically, leading to sharp, tactical, and popular lines.
-
----
-
-## 4. French Defense  
-**Moves:** "1. e4 e6"  
-**Description:** Black builds a solid pawn structure, planning ...d5 to challenge White's center.
-
----
-
-## 5. Caro-Kann Defense  
-**Moves:** "1. e4 c6"  
-**Description:** A solid defense; Black supports ...d5 without blocking the light-squared bishop.
-
----
-
-## 6. Scandinavian Defense (Center Counter)  
-**Moves:** "1. e4 d5"  
-**Description:** Immediate central confrontation; Black sacrifices some development speed.
-
----
-
-## 7. Pirc Defense  
-**Moves:** "1. e4 d6 2. d4 Nf6 3. Nc3 g6"  
-**Description:** Black allows White strong center control, aiming to counterattack later.
-
----
-
-## 8. Alekhine's Defense  
-**Moves:** "1. e4 Nf6"  
-**Description:** Black tempts White to overextend pawns, planning to undermine them later.
-
----
-
-## 9. King's Gambit  
-**Moves:** "1. e4 e5 2. f4"  
-**Description:** An aggressive gambit aiming to open the f-file and seize initiative.
-
----
-
-## 10. Queen's Gambit  
-**Moves:** "1. d4 d5 2. c4"  
-**Description:** White offers a pawn to gain central control. Can lead to Queen's Gambit Accepted (QGA) or Declined (QGD).
-
----
-
-## 11. Slav Defense  
-**Moves:** "1. d4 d5 2. c4 c6"  
-**Description:** Black defends solidly against the Queen's Gambit without blocking their bishop.
-
----
-
-## 12. Nimzo-Indian Defense  
-**Moves:** "1. d4 Nf6 2. c4 e6 3. Nc3 Bb4"  
-**Description:** Black pins White's knight, aiming for control of the center and flexible pawn structures.
-
----
-
-## 13. King's Indian Defense  
-**Moves:** "1. d4 Nf6 2. c4 g6 3. Nc3 Bg7"  
-**Description:** Black allows White to build a big center, then strikes with ...e5 or ...c5.
-
----
-
-## 14. Grunfeld Defense  
-**Moves:** "1. d4 Nf6 2. c4 g6 3. Nc3 d5"  
-**Description:** Black attacks White's strong pawn center immediately, leading to dynamic play.
-
----
-
-## 15. English Opening  
-**Moves:** "1. c4"  
-**Description:** White controls the center from the flank, often transposing into other systems.
-
----
-
-## 16. Réti Opening  
-**Moves:** "1. Nf3"  
-**Description:** Flexible hypermodern opening; White develops pieces first and delays central pawn moves.
-
----
-
-## 17. Benoni Defense  
-**Moves:** "1. d4 Nf6 2. c4 c5 3. d5 e6"  
-**Description:** Black creates an imbalanced pawn structure and seeks counterplay on the queenside.
-
----
-
-## 18. Dutch Defense  
-**Moves:** "1. d4 f5"  
-**Description:** Black controls e4 and aims for aggressive kingside play, at the cost of some weaknesses.
-
----
-
+import type { OpeningInfo } from '@/openings/types';
+
+// Known lines are played from the opening book, so this only guides the moves after the book runs out
+export const createOpeningPrompt = (opening: OpeningInfo | null) => `
+${opening
+  ? `The game is a ${opening.name} (ECO ${opening.eco}). Follow the usual plans of this opening.`
+  : 'The game has left the known opening lines.'}
+
+OPENING PRINCIPLES:
+- Fight for the center (e4, d4, e5, d5) with pawns and pieces
+- Develop knights and bishops before moving the same piece twice
+- Castle early to get the king safe and connect the rooks
+- Don't bring the queen out early where it can be chased with tempo
+- Don't grab pawns at the cost of development unless the gain is clear
 `;
@@ -0,0 +1,103 @@
+import { existsSync, readdirSync } from 'fs';
+import { delimiter, join } from 'path';
+import { Chess } from 'chess.js';
+import { probeRoot, type TableSet } from './probe';
+import { SyzygyTable, TABLE_EXTENSIONS, TABLE_NAME_PATTERN, type TableKind } from './syzygy';
+import { WDL_DRAW, type Tablebase, type TablebaseProbe } from './types';
+
+export type { Tablebase, TablebaseMove, TablebaseProbe, Wdl } from './types';
+
+// KQvK and KRvK tables small enough to ship, so tablebase play works without downloading anything
+export const BUNDLED_TABLEBASE_PATH = join(process.cwd(), 'src', 'tablebase', 'fixtures');
+
+let cachedTablebase: Tablebase | null | undefined;
+
+// Every table in the directories, by name; the first directory to have a table wins
+function findTables(directories: string[]): TableSet {
+  const tables: TableSet = { wdl: new Map(), dtz: new Map() };
+
+  directories.filter(directory => existsSync(directory)).forEach(directory => {
+    readdirSync(directory).forEach(fileName => {
+      (Object.keys(TABLE_EXTENSIONS) as TableKind[]).forEach(kind => {
+        const extension = TABLE_EXTENSIONS[kind];
+        if (!fileName.endsWith(extension)) return;
+        const name = fileName.slice(0, -extension.length);
+        if (TABLE_NAME_PATTERN.test(name) && !tables[kind].has(name)) {
+          tables[kind].set(name, new SyzygyTable(kind, name, join(directory, fileName)));
+        }
+      });
+    });
+  });
+  return tables;
+}
+
+export function openTablebase(directories: string[]): Tablebase {
+  const tables = findTables(directories);
+  const maxPieces = Math.max(0, ...[...tables.wdl.values()].map(table => table.pieceCount));
+
+  return {
+    name: directories.join(delimiter),
+    maxPieces,
+    tables: tables.wdl.size,
+
+    probe(fen: string): TablebaseProbe | null {
+      const [placement, , castling] = fen.split(' ');
+      const pieces = placement.replace(/[^a-zA-Z]/g, '').length;
+      // Tables know nothing of castling
+      if (pieces > maxPieces || castling !== '-') return null;
+      return probeRoot(tables, fen);
+    },
+  };
+}
+
+// The Syzygy tables in SYZYGY_PATH (directories separated like PATH), the bundled KQvK/KRvK tables
+// when it isn't set, or none with SYZYGY_PATH=off
+export function getTablebase(): Tablebase | null {
+  if (cachedTablebase !== undefined) return cachedTablebase;
+
+  const source = process.env.SYZYGY_PATH;
+  const directories = source ? source.split(delimiter).filter(Boolean) : [BUNDLED_TABLEBASE_PATH];
+
+  if (source === 'off') {
+    cachedTablebase = null;
+  } else {
+    cachedTablebase = openTablebase(directories);
+    if (cachedTablebase.tables === 0) {
+      console.warn(`⚠️ No Syzygy tables found in ${cachedTablebase.name}`);
+      cachedTablebase = null;
+    }
+  }
+
+  if (cachedTablebase) {
+    console.log(`🏁 Tablebase: ${cachedTablebase.tables} tables, up to ${cachedTablebase.maxPieces} pieces`);
+  }
+  return cachedTablebase;
+}
+
+// Probe with the configured tables; a broken table file is logged and treated as not covered
+export function probeTablebase(fen: string): TablebaseProbe | null {
+  const tablebase = getTablebase();
+  if (!tablebase) return null;
+
+  try {
+    return tablebase.probe(fen);
+  } catch (error) {
+    console.warn('⚠️ Tablebase probe failed:', error);
+    return null;
+  }
+}
+
+const WDL_LABELS: Record<number, string> = {
+  [-2]: 'loss',
+  [-1]: 'draw (blessed loss)',
+  0: 'draw',
+  1: 'draw (cursed win)',
+  2: 'win',
+};
+
+// e.g. "Tablebase win for White, DTZ 13", from the side to move's point of view
+export function describeTablebaseProbe(probe: TablebaseProbe, fen: string): string {
+  const side = new Chess(fen).turn() === 'w' ? 'White' : 'Black';
+  const result = probe.wdl === WDL_DRAW ? WDL_LABELS[0] : `${WDL_LABELS[probe.wdl]} for ${side}`;
+  return `Tablebase ${result}${probe.dtz !== undefined ? `, DTZ ${Math.abs(probe.dtz)}` : ''}`;
+}
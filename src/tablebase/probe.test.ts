@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { withTablebase } from '@/engines/tablebaseEngine';
+import type { MoveEngine } from '@/engines/types';
+import { BUNDLED_TABLEBASE_PATH, openTablebase } from './index';
+
+const tablebase = openTablebase([BUNDLED_TABLEBASE_PATH]);
+
+// Rh8 mates; the same with colours swapped, Black mating with Rh1
+const KRVK_MATE_IN_1 = 'k7/8/1K6/8/8/8/8/7R w - - 0 1';
+const KVKR_MATE_IN_1 = '7r/8/8/8/8/1k6/8/K7 b - - 0 1';
+// Kb6 (or Qg7) and mate next move; nothing mates at once
+const KQVK_MATE_IN_2 = 'k7/8/2K5/8/8/8/8/6Q1 w - - 0 1';
+// Black's only move is Kb8, then Qg8 mates
+const KQVK_LOST_IN_2 = 'k7/8/1K6/8/8/8/8/6Q1 b - - 0 1';
+const KVKQ_LOST_IN_2 = '6q1/8/8/8/8/1k6/8/K7 w - - 0 1';
+
+const withClock = (fen: string, halfmoveClock: number) => fen.replace(/ \d+ (\d+)$/, ` ${halfmoveClock} $1`);
+
+describe('bundled tables', () => {
+  it('finds KQvK and KRvK', () => {
+    expect(tablebase).toMatchObject({ maxPieces: 3, tables: 2 });
+  });
+});
+
+describe('probing', () => {
+  it('scores a KRvK mate in one for either colour', () => {
+    for (const fen of [KRVK_MATE_IN_1, KVKR_MATE_IN_1]) {
+      const probe = tablebase.probe(fen);
+      expect(probe).toMatchObject({ wdl: 2, dtz: 1 });
+      expect(probe?.bestMove).toMatchObject({ wdl: 2, dtz: 1 });
+    }
+    expect(tablebase.probe(KRVK_MATE_IN_1)?.bestMove?.san).toBe('Rh8#');
+    expect(tablebase.probe(KVKR_MATE_IN_1)?.bestMove?.san).toBe('Rh1#');
+  });
+
+  it('scores a KQvK mate in two, and only the moves that keep it count as best', () => {
+    const probe = tablebase.probe(KQVK_MATE_IN_2)!;
+    expect(probe).toMatchObject({ wdl: 2, dtz: 3 });
+    expect(probe.bestMove).toMatchObject({ wdl: 2, dtz: 3 });
+    expect(probe.moves.find(move => move.san === 'Kb6')).toMatchObject({ wdl: 2, dtz: 3 });
+    expect(probe.moves.every(move => move.dtz! >= 3 || move.wdl < 2)).toBe(true);
+    // Kc7 stalemates
+    expect(probe.moves.find(move => move.san === 'Kc7')).toMatchObject({ wdl: 0, dtz: 0 });
+  });
+
+  it('scores the losing side from its own point of view, in both colours', () => {
+    for (const fen of [KQVK_LOST_IN_2, KVKQ_LOST_IN_2]) {
+      const probe = tablebase.probe(fen)!;
+      expect(probe).toMatchObject({ wdl: -2, dtz: -2 });
+      expect(probe.moves).toHaveLength(1);
+    }
+    expect(tablebase.probe(KQVK_LOST_IN_2)?.bestMove).toMatchObject({ san: 'Kb8', wdl: -2, dtz: -2 });
+  });
+
+  it('calls a position where the rook can be taken a draw', () => {
+    expect(tablebase.probe('k7/8/8/8/8/8/1r6/K7 w - - 0 1')).toMatchObject({
+      wdl: 0,
+      dtz: 0,
+      bestMove: { san: 'Kxb2', wdl: 0 },
+    });
+  });
+});
+
+describe('the fifty-move rule', () => {
+  it('turns a win that takes too long into a cursed win', () => {
+    expect(tablebase.probe(withClock(KQVK_MATE_IN_2, 97))).toMatchObject({ wdl: 2, dtz: 3 });
+    expect(tablebase.probe(withClock(KQVK_MATE_IN_2, 98))).toMatchObject({ wdl: 1, dtz: 3 });
+  });
+
+  it('turns the matching loss into a blessed loss', () => {
+    expect(tablebase.probe(withClock(KQVK_LOST_IN_2, 98))).toMatchObject({ wdl: -2 });
+    expect(tablebase.probe(withClock(KQVK_LOST_IN_2, 99))).toMatchObject({ wdl: -1, dtz: -2 });
+  });
+});
+
+describe('positions the tables do not cover', () => {
+  it('returns null with castling rights', () => {
+    expect(tablebase.probe('4k3/8/8/8/8/8/8/4K2R w K - 0 1')).toBeNull();
+  });
+
+  it('returns null for material without a table', () => {
+    expect(tablebase.probe('4k3/8/8/8/8/8/8/2B1K3 w - - 0 1')).toBeNull();
+    expect(tablebase.probe('4k3/8/8/8/8/8/8/R3K2R w - - 0 1')).toBeNull();
+  });
+});
+
+describe('withTablebase', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const fallback = () => {
+    const engine: MoveEngine = {
+      name: 'local',
+      chooseMove: vi.fn(async ({ fen }) => ({ move: 'Kd2', reasoning: 'Fallback', fen, engine: 'local' as const })),
+    };
+    return engine;
+  };
+
+  it('plays the move with the best DTZ', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const engine = fallback();
+    const result = await withTablebase(engine, fen => tablebase.probe(fen))
+      .chooseMove({ fen: KQVK_MATE_IN_2, aiColor: 'w', moveCount: 80 });
+
+    // Most queen and king moves still win, but only a couple mate next move
+    const wins = tablebase.probe(KQVK_MATE_IN_2)!.moves.filter(move => move.wdl === 2);
+    expect(wins.some(move => move.dtz! > 3)).toBe(true);
+    expect(wins.filter(move => move.dtz === 3).map(move => move.san)).toContain(result.move);
+    expect(result).toMatchObject({ engine: 'local', tablebase: 'Tablebase win for White, DTZ 3' });
+    expect(engine.chooseMove).not.toHaveBeenCalled();
+  });
+
+  it('leaves uncovered positions to the engine', async () => {
+    const engine = fallback();
+    const fen = '4k3/8/8/8/8/8/8/4K2R w K - 0 1';
+    const result = await withTablebase(engine, position => tablebase.probe(position))
+      .chooseMove({ fen, aiColor: 'w', moveCount: 80 });
+
+    expect(result.move).toBe('Kd2');
+    expect(engine.chooseMove).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,161 @@
+// Turning raw table lookups into results, as Stockfish's probe_wdl/probe_dtz/root_probe do. Tables
+// store "don't care" values wherever a capture (or, for DTZ, a pawn move) decides the position, so
+// every probe first searches those moves. The search runs on the local engine's board, as chess.js
+// builds SAN for every move it generates.
+import { Chess } from 'chess.js';
+import { PAWN, SearchBoard, type SearchMove } from '@/engines/search/board';
+import { materialSignature, mirrorSignature, type SyzygyTable, type TableKind } from './syzygy';
+import { WDL_BLESSED_LOSS, WDL_CURSED_WIN, WDL_DRAW, WDL_LOSS, WDL_WIN, type TablebaseMove, type TablebaseProbe, type Wdl } from './types';
+
+export type TableSet = Record<TableKind, Map<string, SyzygyTable>>;
+
+// A table the position needs is missing
+class MissingTableError extends Error {}
+
+const isZeroing = (move: SearchMove) => move.captured !== 0 || Math.abs(move.piece) === PAWN;
+const isCheckmate = (board: SearchBoard) => board.inCheck() && board.generateMoves().length === 0;
+const sign = (n: number) => (n > 0 ? 1 : n < 0 ? -1 : 0);
+const negate = (wdl: Wdl) => (wdl === WDL_DRAW ? WDL_DRAW : -wdl) as Wdl;
+
+// DTZ just before a zeroing move that leads to `wdl`
+const dtzBeforeZeroing = (wdl: Wdl): number =>
+  wdl === WDL_WIN ? 1 : wdl === WDL_CURSED_WIN ? 101 : wdl === WDL_BLESSED_LOSS ? -101 : wdl === WDL_LOSS ? -1 : 0;
+
+function probeTable(tables: TableSet, kind: TableKind, board: SearchBoard, wdl: Wdl = WDL_DRAW): number | 'change-stm' {
+  const signature = materialSignature(board);
+  if (signature === 'KvK') return WDL_DRAW;
+
+  const table = tables[kind].get(signature) ?? tables[kind].get(mirrorSignature(signature));
+  if (!table) throw new MissingTableError(`No ${kind.toUpperCase()} table for ${signature}`);
+  return table.probe(board, wdl);
+}
+
+interface SearchResult {
+  wdl: Wdl;
+  zeroingBest: boolean; // a capture (or pawn move) is at least as good as the stored value
+}
+
+function search(tables: TableSet, board: SearchBoard, checkZeroingMoves: boolean): SearchResult {
+  const moves = board.generateMoves();
+  let best: Wdl = WDL_LOSS;
+  let searched = 0;
+
+  for (const move of moves) {
+    if (!move.captured && !(checkZeroingMoves && Math.abs(move.piece) === PAWN)) continue;
+    searched++;
+
+    board.makeMove(move);
+    const value = negate(search(tables, board, false).wdl);
+    board.unmakeMove();
+
+    if (value > best) {
+      best = value;
+      if (value >= WDL_WIN) return { wdl: value, zeroingBest: true };
+    }
+  }
+
+  // With every move searched the table isn't needed (and would ignore en passant rights anyway)
+  const noMoreMoves = searched > 0 && searched === moves.length;
+  const value = noMoreMoves ? best : (probeTable(tables, 'wdl', board) as Wdl);
+
+  if (best >= value) {
+    return { wdl: best, zeroingBest: best > WDL_DRAW || noMoreMoves };
+  }
+  return { wdl: value, zeroingBest: false };
+}
+
+export function probeWdl(tables: TableSet, board: SearchBoard): Wdl {
+  return search(tables, board, false).wdl;
+}
+
+// Plies to a zeroing move or mate: positive when winning, negative when losing, 0 for draws
+export function probeDtz(tables: TableSet, board: SearchBoard): number {
+  const { wdl, zeroingBest } = search(tables, board, true);
+  if (wdl === WDL_DRAW) return 0;
+  if (zeroingBest) return dtzBeforeZeroing(wdl);
+
+  const dtz = probeTable(tables, 'dtz', board, wdl);
+  if (dtz !== 'change-stm') {
+    return (dtz + (wdl === WDL_BLESSED_LOSS || wdl === WDL_CURSED_WIN ? 100 : 0)) * sign(wdl);
+  }
+
+  // The table stores the other side to move: find the best reply one ply down
+  let minDtz = Infinity;
+  for (const move of board.generateMoves()) {
+    const zeroing = isZeroing(move);
+    board.makeMove(move);
+    let value = zeroing ? -dtzBeforeZeroing(search(tables, board, false).wdl) : -probeDtz(tables, board);
+    if (value === 1 && isCheckmate(board)) minDtz = 1;
+    if (!zeroing) value += sign(value);
+    board.unmakeMove();
+
+    if (value < minDtz && sign(value) === sign(wdl)) minDtz = value;
+  }
+  return minDtz === Infinity ? -1 : minDtz;
+}
+
+// Order moves by result, then by speed: the quickest win, the slowest loss
+function compareMoves(a: TablebaseMove, b: TablebaseMove): number {
+  if (a.wdl !== b.wdl) return b.wdl - a.wdl;
+  if (a.dtz === undefined || b.dtz === undefined || a.wdl === WDL_DRAW) return 0;
+  return a.dtz - b.dtz; // winning DTZ is positive and losing DTZ negative, so ascending works for both
+}
+
+// A win or loss that the fifty-move rule cuts short is only worth a draw
+function withFiftyMoveRule(wdl: Wdl, dtz: number | undefined, halfmoveClock: number): Wdl {
+  if (dtz === undefined || halfmoveClock === 0) return wdl;
+  if (wdl === WDL_WIN && dtz + halfmoveClock > 100) return WDL_CURSED_WIN;
+  if (wdl === WDL_LOSS && -dtz + halfmoveClock > 100) return WDL_BLESSED_LOSS;
+  return wdl;
+}
+
+// Probe a position and rank its moves; DTZ is left out when the DTZ tables are missing
+export function probeRoot(tables: TableSet, fen: string): TablebaseProbe | null {
+  const board = new SearchBoard(fen);
+  const sanByUci = new Map(new Chess(fen).moves({ verbose: true }).map(move => [move.lan, move.san]));
+
+  try {
+    const wdl = probeWdl(tables, board);
+    let dtz: number | undefined;
+    try {
+      dtz = probeDtz(tables, board);
+    } catch (error) {
+      if (!(error instanceof MissingTableError)) throw error;
+    }
+
+    const moves = board.generateMoves().map((move): TablebaseMove => {
+      board.makeMove(move);
+      const moveWdl = negate(probeWdl(tables, board));
+      let moveDtz: number | undefined;
+      if (dtz !== undefined) {
+        if (isZeroing(move)) {
+          moveDtz = dtzBeforeZeroing(moveWdl);
+        } else if (isCheckmate(board)) {
+          moveDtz = 1;
+        } else {
+          const after = -probeDtz(tables, board);
+          moveDtz = after + sign(after);
+        }
+      }
+      board.unmakeMove();
+
+      const uci = SearchBoard.toUci(move);
+      return {
+        san: sanByUci.get(uci) ?? uci,
+        uci,
+        wdl: withFiftyMoveRule(moveWdl, moveDtz, board.halfmoveClock),
+        dtz: moveDtz,
+      };
+    }).sort(compareMoves);
+
+    return {
+      wdl: withFiftyMoveRule(wdl, dtz, board.halfmoveClock),
+      dtz,
+      bestMove: moves[0] ?? null,
+      moves,
+    };
+  } catch (error) {
+    if (error instanceof MissingTableError) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,650 @@
+// Reader for Syzygy WDL (.rtbw) and DTZ (.rtbz) tables, ported from the probing code in Stockfish
+// (src/syzygy/tbprobe.cpp). Only the table lookup lives here; the capture search that turns a raw
+// lookup into a real result is in probe.ts.
+import { closeSync, fstatSync, openSync, readSync } from 'fs';
+import { onBoard, WHITE, type SearchBoard } from '@/engines/search/board';
+import type { Wdl } from './types';
+
+export type TableKind = 'wdl' | 'dtz';
+
+const MAGIC: Record<TableKind, number[]> = {
+  wdl: [0x71, 0xe8, 0x23, 0x5d],
+  dtz: [0xd7, 0x66, 0x0c, 0xa5],
+};
+
+export const TABLE_EXTENSIONS: Record<TableKind, string> = { wdl: '.rtbw', dtz: '.rtbz' };
+
+// Table names list white's pieces, then black's: "KRPvKR"
+export const TABLE_NAME_PATTERN = /^K[QRBNP]*vK[QRBNP]*$/;
+const PIECE_ORDER = 'KQRBNP';
+const PIECE_LETTERS = ' PNBRQK';
+
+// Piece codes inside the files are the search board's piece types, plus 8 for black
+const BLACK_PIECE = 8;
+
+// PairsData flags
+const FLAG_STM = 1;
+const FLAG_MAPPED = 2;
+const FLAG_WIN_PLIES = 4;
+const FLAG_LOSS_PLIES = 8;
+const FLAG_WIDE = 16;
+const FLAG_SINGLE_VALUE = 128;
+
+// File header flags
+const HEADER_SPLIT = 1;
+const HEADER_HAS_PAWNS = 2;
+
+const fileOf = (square: number) => square & 7;
+const rankOf = (square: number) => square >> 3;
+const offA1H8 = (square: number) => rankOf(square) - fileOf(square);
+const flipFile = (square: number) => square ^ 7;
+const flipRank = (square: number) => square ^ 56;
+
+// Index tables shared by every table, built once as in Tablebases::init()
+const binomial: number[][] = Array.from({ length: 7 }, () => new Array<number>(64).fill(0));
+const mapB1H1H7 = new Array<number>(64).fill(0);
+const mapA1D1D4 = new Array<number>(64).fill(0);
+const mapKK: number[][] = Array.from({ length: 10 }, () => new Array<number>(64).fill(0));
+const mapPawns = new Array<number>(64).fill(0);
+const leadPawnIdx: number[][] = Array.from({ length: 6 }, () => new Array<number>(64).fill(0));
+const leadPawnsSize: number[][] = Array.from({ length: 6 }, () => new Array<number>(4).fill(0));
+
+(() => {
+  let code = 0;
+  for (let s = 0; s < 64; s++) {
+    if (offA1H8(s) < 0) mapB1H1H7[s] = code++;
+  }
+
+  const diagonal: number[] = [];
+  code = 0;
+  for (let s = 0; s <= 27; s++) {
+    if (offA1H8(s) < 0 && fileOf(s) <= 3) mapA1D1D4[s] = code++;
+    else if (offA1H8(s) === 0 && fileOf(s) <= 3) diagonal.push(s);
+  }
+  diagonal.forEach(s => (mapA1D1D4[s] = code++));
+
+  const kingsTouch = (a: number, b: number) =>
+    Math.abs(fileOf(a) - fileOf(b)) <= 1 && Math.abs(rankOf(a) - rankOf(b)) <= 1;
+  const bothOnDiagonal: [number, number][] = [];
+  code = 0;
+  for (let idx = 0; idx < 10; idx++) {
+    for (let s1 = 0; s1 <= 27; s1++) {
+      if (mapA1D1D4[s1] !== idx || (idx === 0 && s1 !== 1)) continue; // b1 is the only square mapped to 0
+      for (let s2 = 0; s2 < 64; s2++) {
+        if (kingsTouch(s1, s2)) continue;
+        if (offA1H8(s1) === 0 && offA1H8(s2) > 0) continue;
+        if (offA1H8(s1) === 0 && offA1H8(s2) === 0) bothOnDiagonal.push([idx, s2]);
+        else mapKK[idx][s2] = code++;
+      }
+    }
+  }
+  bothOnDiagonal.forEach(([idx, s2]) => (mapKK[idx][s2] = code++));
+
+  binomial[0][0] = 1;
+  for (let n = 1; n < 64; n++) {
+    for (let k = 0; k < 7 && k <= n; k++) {
+      binomial[k][n] = (k > 0 ? binomial[k - 1][n - 1] : 0) + (k < n ? binomial[k][n - 1] : 0);
+    }
+  }
+
+  let availableSquares = 47;
+  for (let leadPawns = 1; leadPawns <= 5; leadPawns++) {
+    for (let file = 0; file < 4; file++) {
+      let idx = 0;
+      for (let rank = 1; rank <= 6; rank++) {
+        const s = rank * 8 + file;
+        if (leadPawns === 1) {
+          mapPawns[s] = availableSquares--;
+          mapPawns[flipFile(s)] = availableSquares--;
+        }
+        leadPawnIdx[leadPawns][s] = idx;
+        idx += binomial[leadPawns - 1][mapPawns[s]];
+      }
+      leadPawnsSize[leadPawns][file] = idx;
+    }
+  }
+})();
+
+const PAGE_SIZE = 4096;
+const MAX_CACHED_PAGES = 256;
+
+// Tables can run to gigabytes, so they are read a page at a time instead of loaded whole
+class TableFile {
+  private readonly fd: number;
+  private readonly size: number;
+  private readonly pages = new Map<number, Buffer>();
+
+  constructor(readonly path: string) {
+    this.fd = openSync(path, 'r');
+    this.size = fstatSync(this.fd).size;
+  }
+
+  // Reads past the end (the decoder looks a few bytes ahead) come back as zeros
+  byte(offset: number): number {
+    if (offset >= this.size) return 0;
+    return this.page(Math.floor(offset / PAGE_SIZE))[offset % PAGE_SIZE];
+  }
+
+  u16(offset: number): number {
+    return this.byte(offset) | (this.byte(offset + 1) << 8);
+  }
+
+  u32(offset: number): number {
+    return (this.u16(offset) | (this.u16(offset + 2) << 16)) >>> 0;
+  }
+
+  u32BigEndian(offset: number): number {
+    return ((this.byte(offset) << 24) | (this.byte(offset + 1) << 16) | (this.byte(offset + 2) << 8) | this.byte(offset + 3)) >>> 0;
+  }
+
+  close() {
+    closeSync(this.fd);
+  }
+
+  private page(index: number): Buffer {
+    const cached = this.pages.get(index);
+    if (cached) {
+      this.pages.delete(index);
+      this.pages.set(index, cached);
+      return cached;
+    }
+
+    const page = Buffer.alloc(PAGE_SIZE);
+    readSync(this.fd, page, 0, PAGE_SIZE, index * PAGE_SIZE);
+    if (this.pages.size >= MAX_CACHED_PAGES) {
+      this.pages.delete(this.pages.keys().next().value as number);
+    }
+    this.pages.set(index, page);
+    return page;
+  }
+}
+
+// Decoding data for one side to move (and, with pawns, one leading-pawn file) of a table
+interface PairsData {
+  flags: number;
+  minSymLen: number;
+  blockSize: number;
+  span: number;
+  sparseIndexSize: number;
+  blockLengthSize: number;
+  numBlocks: number;
+  lowestSym: number[];
+  base64: bigint[];
+  symlen: number[];
+  symLeft: number[];
+  symRight: number[];
+  sparseIndex: number; // file offsets
+  blockLength: number;
+  data: number;
+  pieces: number[];
+  groupIdx: number[];
+  groupLen: number[];
+  mapIdx: number[]; // DTZ value maps for win, loss, cursed win and blessed loss
+}
+
+const emptyPairsData = (): PairsData => ({
+  flags: 0, minSymLen: 0, blockSize: 0, span: 0, sparseIndexSize: 0, blockLengthSize: 0, numBlocks: 0,
+  lowestSym: [], base64: [], symlen: [], symLeft: [], symRight: [],
+  sparseIndex: 0, blockLength: 0, data: 0,
+  pieces: [], groupIdx: [], groupLen: [], mapIdx: [0, 0, 0, 0],
+});
+
+// "KQvK" -> the signature of the same material with colours swapped, "KvKQ"
+export const mirrorSignature = (signature: string) => signature.split('v').reverse().join('v');
+
+const sortPieces = (pieces: string) =>
+  [...pieces].sort((a, b) => PIECE_ORDER.indexOf(a) - PIECE_ORDER.indexOf(b)).join('');
+
+// The material of a position in table-name form, white first
+export function materialSignature(board: SearchBoard): string {
+  let white = '';
+  let black = '';
+  board.squares.forEach((piece, square) => {
+    if (!piece || !onBoard(square)) return;
+    if (piece > 0) white += PIECE_LETTERS[piece];
+    else black += PIECE_LETTERS[-piece];
+  });
+  return `${sortPieces(white)}v${sortPieces(black)}`;
+}
+
+const MASK64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+export class SyzygyTable {
+  readonly pieceCount: number;
+  readonly symmetric: boolean;
+  private readonly hasPawns: boolean;
+  private readonly hasUniquePieces: boolean;
+  private readonly pawnCount: [number, number]; // leading colour, other colour
+  private file: TableFile | null = null;
+  private items: PairsData[][] = []; // [side to move][leading pawn file]
+  private dtzMap = 0;
+
+  constructor(readonly kind: TableKind, readonly name: string, private readonly path: string) {
+    const [white, black] = name.split('v');
+    const count = (side: string, piece: string) => [...side].filter(p => p === piece).length;
+
+    this.pieceCount = white.length + black.length;
+    this.symmetric = name === mirrorSignature(name);
+    this.hasPawns = name.includes('P');
+    this.hasUniquePieces = [white, black].some(side => [...'PNBRQ'].some(piece => count(side, piece) === 1));
+
+    // The side with fewer pawns leads, as it compresses better
+    const whitePawns = count(white, 'P');
+    const blackPawns = count(black, 'P');
+    const whiteLeads = blackPawns === 0 || (whitePawns > 0 && blackPawns >= whitePawns);
+    this.pawnCount = whiteLeads ? [whitePawns, blackPawns] : [blackPawns, whitePawns];
+  }
+
+  // Look up a position of this table's material. Returns the raw stored score, or 'change-stm' when
+  // a DTZ table only stores the other side to move.
+  probe(board: SearchBoard, wdl: Wdl): number | 'change-stm' {
+    this.open();
+
+    const squares: number[] = [];
+    const pieces: number[] = [];
+    const signature = materialSignature(board);
+    const turn = board.side === WHITE ? 0 : 1;
+
+    // Tables are stored with the stronger side as white; flip the board when black holds that material
+    const blackSymmetric = turn === 1 && this.symmetric;
+    const blackStronger = signature !== this.name;
+    const flip = blackSymmetric || blackStronger;
+    const flipColor = flip ? BLACK_PIECE : 0;
+    const flipSquares = flip ? 56 : 0;
+    const stm = (flip ? 1 : 0) ^ turn;
+
+    // In square order, a1 = 0 ... h8 = 63
+    const boardPieces: { square: number; code: number }[] = [];
+    board.squares.forEach((piece, square) => {
+      if (!piece || !onBoard(square)) return;
+      boardPieces.push({ square: (square >> 4) * 8 + (square & 7), code: piece > 0 ? piece : BLACK_PIECE - piece });
+    });
+
+    let tbFile = 0;
+    let leadPawnsCount = 0;
+    let rest = boardPieces;
+
+    if (this.hasPawns) {
+      // Every per-file table starts with the leading pawns, so the first one tells their colour
+      const leadPawn = this.item(0, 0).pieces[0] ^ flipColor;
+      const isLead = (piece: { code: number }) => piece.code === leadPawn;
+      boardPieces.filter(isLead).forEach(piece => squares.push(piece.square ^ flipSquares));
+      rest = boardPieces.filter(piece => !isLead(piece));
+      leadPawnsCount = squares.length;
+
+      const lead = squares.reduce((best, square, i) => (mapPawns[square] > mapPawns[squares[best]] ? i : best), 0);
+      [squares[0], squares[lead]] = [squares[lead], squares[0]];
+      tbFile = Math.min(fileOf(squares[0]), 7 - fileOf(squares[0]));
+    }
+
+    if (this.kind === 'dtz' && !this.storesSide(stm, tbFile)) {
+      return 'change-stm';
+    }
+
+    rest.forEach(piece => {
+      squares.push(piece.square ^ flipSquares);
+      pieces[squares.length - 1] = piece.code ^ flipColor;
+    });
+
+    const d = this.item(stm, tbFile);
+    const size = squares.length;
+
+    // Put the pieces in the order the table was encoded with
+    for (let i = leadPawnsCount; i < size - 1; i++) {
+      for (let j = i + 1; j < size; j++) {
+        if (d.pieces[i] === pieces[j]) {
+          [pieces[i], pieces[j]] = [pieces[j], pieces[i]];
+          [squares[i], squares[j]] = [squares[j], squares[i]];
+          break;
+        }
+      }
+    }
+
+    // Mirror so the leading piece is on files a-d
+    if (fileOf(squares[0]) > 3) {
+      for (let i = 0; i < size; i++) squares[i] = flipFile(squares[i]);
+    }
+
+    let idx: number;
+    if (this.hasPawns) {
+      idx = leadPawnIdx[leadPawnsCount][squares[0]];
+      const others = squares.slice(1, leadPawnsCount).sort((a, b) => mapPawns[a] - mapPawns[b]);
+      others.forEach((square, i) => {
+        squares[i + 1] = square;
+        idx += binomial[i + 1][mapPawns[square]];
+      });
+    } else {
+      idx = this.encodeLeadingPieces(squares, d);
+    }
+
+    // The remaining groups, each as a combination of free squares
+    idx *= d.groupIdx[0];
+    let groupStart = d.groupLen[0];
+    let remainingPawns = this.hasPawns && this.pawnCount[1] > 0;
+
+    for (let next = 1; d.groupLen[next]; next++) {
+      const groupEnd = groupStart + d.groupLen[next];
+      const group = squares.slice(groupStart, groupEnd).sort((a, b) => a - b);
+      let n = 0;
+      group.forEach((square, i) => {
+        const adjust = squares.slice(0, groupStart).filter(s => square > s).length;
+        n += binomial[i + 1][square - adjust - (remainingPawns ? 8 : 0)];
+      });
+      remainingPawns = false;
+      idx += n * d.groupIdx[next];
+      groupStart = groupEnd;
+    }
+
+    return this.mapScore(tbFile, this.decompressPairs(d, idx), wdl);
+  }
+
+  // Pawnless tables: fold the board so the leading piece is in the a1-d1-d4 triangle
+  private encodeLeadingPieces(squares: number[], d: PairsData): number {
+    const size = squares.length;
+
+    if (rankOf(squares[0]) > 3) {
+      for (let i = 0; i < size; i++) squares[i] = flipRank(squares[i]);
+    }
+
+    for (let i = 0; i < d.groupLen[0]; i++) {
+      if (!offA1H8(squares[i])) continue;
+      if (offA1H8(squares[i]) > 0) {
+        for (let j = i; j < size; j++) squares[j] = ((squares[j] >> 3) | (squares[j] << 3)) & 63;
+      }
+      break;
+    }
+
+    if (!this.hasUniquePieces) {
+      return mapKK[mapA1D1D4[squares[0]]][squares[1]];
+    }
+
+    const [s0, s1, s2] = squares;
+    const adjust1 = s1 > s0 ? 1 : 0;
+    const adjust2 = (s2 > s0 ? 1 : 0) + (s2 > s1 ? 1 : 0);
+
+    if (offA1H8(s0)) {
+      return (mapA1D1D4[s0] * 63 + (s1 - adjust1)) * 62 + s2 - adjust2;
+    }
+    if (offA1H8(s1)) {
+      return (6 * 63 + rankOf(s0) * 28 + mapB1H1H7[s1]) * 62 + s2 - adjust2;
+    }
+    if (offA1H8(s2)) {
+      return 6 * 63 * 62 + 4 * 28 * 62 + rankOf(s0) * 7 * 28 + (rankOf(s1) - adjust1) * 28 + mapB1H1H7[s2];
+    }
+    return 6 * 63 * 62 + 4 * 28 * 62 + 4 * 7 * 28 + rankOf(s0) * 7 * 6 + (rankOf(s1) - adjust1) * 6 + (rankOf(s2) - adjust2);
+  }
+
+  // DTZ tables only store one side to move, except pawnless tables with the same material both sides
+  private storesSide(stm: number, tbFile: number): boolean {
+    return (this.item(0, tbFile).flags & FLAG_STM) === stm || (this.symmetric && !this.hasPawns);
+  }
+
+  private item(stm: number, file: number): PairsData {
+    const sides = this.items.length;
+    return this.items[stm % sides][this.hasPawns ? file : 0];
+  }
+
+  private mapScore(tbFile: number, value: number, wdl: Wdl): number {
+    if (this.kind === 'wdl') return value - 2;
+
+    const d = this.item(0, tbFile);
+    const file = this.file as TableFile;
+    if (d.flags & FLAG_MAPPED) {
+      const mapIndex = d.mapIdx[[1, 3, 0, 2, 0][wdl + 2]] + value;
+      value = d.flags & FLAG_WIDE ? file.u16(this.dtzMap + 2 * mapIndex) : file.byte(this.dtzMap + mapIndex);
+    }
+
+    // Stored in moves or plies; always answer in plies
+    if ((wdl === 2 && !(d.flags & FLAG_WIN_PLIES)) || (wdl === -2 && !(d.flags & FLAG_LOSS_PLIES)) || wdl === 1 || wdl === -1) {
+      value *= 2;
+    }
+    return value + 1;
+  }
+
+  // Canonical Huffman codes expanding into Re-Pair symbols; find the value at position `idx`
+  private decompressPairs(d: PairsData, idx: number): number {
+    if (d.flags & FLAG_SINGLE_VALUE) return d.minSymLen;
+
+    const file = this.file as TableFile;
+    const k = Math.floor(idx / d.span);
+    let block = file.u32(d.sparseIndex + 6 * k);
+    let offset = file.u16(d.sparseIndex + 6 * k + 4);
+    offset += (idx % d.span) - Math.floor(d.span / 2);
+
+    const blockLength = (b: number) => file.u16(d.blockLength + 2 * b);
+    while (offset < 0) offset += blockLength(--block) + 1;
+    while (offset > blockLength(block)) offset -= blockLength(block++) + 1;
+
+    let ptr = d.data + block * d.blockSize;
+    let buf = (BigInt(file.u32BigEndian(ptr)) << BigInt(32)) | BigInt(file.u32BigEndian(ptr + 4));
+    ptr += 8;
+    let bufSize = 64;
+    let sym: number;
+
+    for (;;) {
+      let len = 0;
+      while (len < d.base64.length - 1 && buf < d.base64[len]) len++;
+
+      sym = Number((buf - d.base64[len]) >> BigInt(64 - len - d.minSymLen));
+      sym = (sym + d.lowestSym[len]) & 0xffff;
+
+      if (offset < d.symlen[sym] + 1) break;
+
+      offset -= d.symlen[sym] + 1;
+      len += d.minSymLen;
+      buf = (buf << BigInt(len)) & MASK64;
+      bufSize -= len;
+
+      if (bufSize <= 32) {
+        bufSize += 32;
+        buf |= BigInt(file.u32BigEndian(ptr)) << BigInt(64 - bufSize);
+        ptr += 4;
+      }
+    }
+
+    // Walk down the pair tree to the single value we want
+    while (d.symlen[sym]) {
+      const left = d.symLeft[sym];
+      if (offset < d.symlen[left] + 1) {
+        sym = left;
+      } else {
+        offset -= d.symlen[left] + 1;
+        sym = d.symRight[sym];
+      }
+    }
+    return d.symLeft[sym];
+  }
+
+  // Parse the header on first use
+  private open() {
+    if (this.file) return;
+
+    const file = new TableFile(this.path);
+    try {
+      MAGIC[this.kind].forEach((byte, i) => {
+        if (file.byte(i) !== byte) throw new Error(`${this.path} is not a Syzygy ${this.kind.toUpperCase()} table`);
+      });
+      this.parse(file);
+    } catch (error) {
+      file.close();
+      throw error;
+    }
+    this.file = file;
+  }
+
+  private parse(file: TableFile) {
+    let data = 4;
+    const header = file.byte(data++);
+    if (Boolean(header & HEADER_HAS_PAWNS) !== this.hasPawns || Boolean(header & HEADER_SPLIT) === this.symmetric) {
+      throw new Error(`${this.path} does not match the material of ${this.name}`);
+    }
+
+    const sides = this.kind === 'wdl' && !this.symmetric ? 2 : 1;
+    const files = this.hasPawns ? 4 : 1;
+    const bothSidesHavePawns = this.hasPawns && this.pawnCount[1] > 0;
+    this.items = Array.from({ length: sides }, () => Array.from({ length: files }, emptyPairsData));
+
+    for (let f = 0; f < files; f++) {
+      const order = [
+        [file.byte(data) & 0xf, bothSidesHavePawns ? file.byte(data + 1) & 0xf : 0xf],
+        [file.byte(data) >> 4, bothSidesHavePawns ? file.byte(data + 1) >> 4 : 0xf],
+      ];
+      data += bothSidesHavePawns ? 2 : 1;
+
+      for (let k = 0; k < this.pieceCount; k++, data++) {
+        for (let i = 0; i < sides; i++) {
+          this.items[i][f].pieces[k] = i ? file.byte(data) >> 4 : file.byte(data) & 0xf;
+        }
+      }
+      for (let i = 0; i < sides; i++) {
+        this.setGroups(this.items[i][f], order[i], f);
+      }
+    }
+
+    data += data & 1;
+
+    for (let f = 0; f < files; f++) {
+      for (let i = 0; i < sides; i++) data = this.setSizes(file, this.items[i][f], data);
+    }
+
+    if (this.kind === 'dtz') {
+      data = this.setDtzMap(file, data, files);
+    }
+
+    for (let f = 0; f < files; f++) {
+      for (let i = 0; i < sides; i++) {
+        this.items[i][f].sparseIndex = data;
+        data += this.items[i][f].sparseIndexSize * 6;
+      }
+    }
+    for (let f = 0; f < files; f++) {
+      for (let i = 0; i < sides; i++) {
+        this.items[i][f].blockLength = data;
+        data += this.items[i][f].blockLengthSize * 2;
+      }
+    }
+    for (let f = 0; f < files; f++) {
+      for (let i = 0; i < sides; i++) {
+        data = Math.ceil(data / 64) * 64;
+        this.items[i][f].data = data;
+        data += this.items[i][f].numBlocks * this.items[i][f].blockSize;
+      }
+    }
+  }
+
+  // Pieces of the same kind are encoded together; without pawns the first group is the kings plus one
+  // unique piece (or just the kings)
+  private setGroups(d: PairsData, order: number[], f: number) {
+    let n = 0;
+    let firstLen = this.hasPawns ? 0 : this.hasUniquePieces ? 3 : 2;
+    d.groupLen[n] = 1;
+
+    for (let i = 1; i < this.pieceCount; i++) {
+      if (--firstLen > 0 || d.pieces[i] === d.pieces[i - 1]) d.groupLen[n]++;
+      else d.groupLen[++n] = 1;
+    }
+    d.groupLen[++n] = 0;
+
+    const bothSidesHavePawns = this.hasPawns && this.pawnCount[1] > 0;
+    let next = bothSidesHavePawns ? 2 : 1;
+    let freeSquares = 64 - d.groupLen[0] - (bothSidesHavePawns ? d.groupLen[1] : 0);
+    let idx = 1;
+
+    for (let k = 0; next < n || k === order[0] || k === order[1]; k++) {
+      if (k === order[0]) {
+        d.groupIdx[0] = idx;
+        idx *= this.hasPawns ? leadPawnsSize[d.groupLen[0]][f] : this.hasUniquePieces ? 31332 : 462;
+      } else if (k === order[1]) {
+        d.groupIdx[1] = idx;
+        idx *= binomial[d.groupLen[1]][48 - d.groupLen[0]];
+      } else {
+        d.groupIdx[next] = idx;
+        idx *= binomial[d.groupLen[next]][freeSquares];
+        freeSquares -= d.groupLen[next++];
+      }
+    }
+    d.groupIdx[n] = idx;
+  }
+
+  private setSizes(file: TableFile, d: PairsData, data: number): number {
+    d.flags = file.byte(data++);
+
+    if (d.flags & FLAG_SINGLE_VALUE) {
+      d.minSymLen = file.byte(data++); // the single value
+      return data;
+    }
+
+    const tbSize = d.groupIdx[d.groupLen.indexOf(0)];
+    d.blockSize = 2 ** file.byte(data++);
+    d.span = 2 ** file.byte(data++);
+    d.sparseIndexSize = Math.ceil(tbSize / d.span);
+    const padding = file.byte(data++);
+    d.numBlocks = file.u32(data);
+    data += 4;
+    d.blockLengthSize = d.numBlocks + padding;
+    const maxSymLen = file.byte(data++);
+    d.minSymLen = file.byte(data++);
+
+    const lengths = maxSymLen - d.minSymLen + 1;
+    d.lowestSym = Array.from({ length: lengths }, (_, i) => file.u16(data + 2 * i));
+    data += 2 * lengths;
+
+    // base64[i] is the lowest code of length minSymLen + i, left-aligned in 64 bits
+    d.base64 = new Array<bigint>(lengths).fill(BigInt(0));
+    for (let i = lengths - 2; i >= 0; i--) {
+      d.base64[i] = (d.base64[i + 1] + BigInt(d.lowestSym[i]) - BigInt(d.lowestSym[i + 1])) / BigInt(2);
+    }
+    for (let i = 0; i < lengths; i++) {
+      d.base64[i] <<= BigInt(64 - i - d.minSymLen);
+    }
+
+    const symbols = file.u16(data);
+    data += 2;
+    for (let s = 0; s < symbols; s++) {
+      const lr = data + 3 * s;
+      d.symLeft[s] = ((file.byte(lr + 1) & 0xf) << 8) | file.byte(lr);
+      d.symRight[s] = (file.byte(lr + 2) << 4) | (file.byte(lr + 1) >> 4);
+    }
+
+    // How many values each symbol expands to, less one
+    d.symlen = new Array<number>(symbols).fill(0);
+    const visited = new Array<boolean>(symbols).fill(false);
+    const setSymlen = (s: number): number => {
+      visited[s] = true;
+      if (d.symRight[s] === 0xfff) return 0;
+      const left = d.symLeft[s];
+      const right = d.symRight[s];
+      if (!visited[left]) d.symlen[left] = setSymlen(left);
+      if (!visited[right]) d.symlen[right] = setSymlen(right);
+      return d.symlen[left] + d.symlen[right] + 1;
+    };
+    for (let s = 0; s < symbols; s++) {
+      if (!visited[s]) d.symlen[s] = setSymlen(s);
+    }
+
+    return data + 3 * symbols + (symbols & 1);
+  }
+
+  private setDtzMap(file: TableFile, data: number, files: number): number {
+    this.dtzMap = data;
+
+    for (let f = 0; f < files; f++) {
+      const d = this.item(0, f);
+      if (!(d.flags & FLAG_MAPPED)) continue;
+
+      if (d.flags & FLAG_WIDE) {
+        data += data & 1;
+        for (let i = 0; i < 4; i++) {
+          d.mapIdx[i] = Math.floor((data - this.dtzMap) / 2) + 1;
+          data += 2 * file.u16(data) + 2;
+        }
+      } else {
+        for (let i = 0; i < 4; i++) {
+          d.mapIdx[i] = data - this.dtzMap + 1;
+          data += file.byte(data) + 1;
+        }
+      }
+    }
+    return data + (data & 1);
+  }
+}
@@ -0,0 +1,31 @@
+// Win/draw/loss for the side to move, as Syzygy stores it. A cursed win is won but not within the
+// fifty-move rule, a blessed loss lost but saved by it; both count as draws over the board.
+export type Wdl = -2 | -1 | 0 | 1 | 2;
+
+export const WDL_LOSS: Wdl = -2;
+export const WDL_BLESSED_LOSS: Wdl = -1;
+export const WDL_DRAW: Wdl = 0;
+export const WDL_CURSED_WIN: Wdl = 1;
+export const WDL_WIN: Wdl = 2;
+
+export interface TablebaseMove {
+  san: string;
+  uci: string; // long algebraic, e.g. e2e4
+  wdl: Wdl; // for the side playing the move
+  dtz?: number; // plies to a capture, pawn move or mate; missing without DTZ tables
+}
+
+// A probed position, from the side to move's point of view
+export interface TablebaseProbe {
+  wdl: Wdl;
+  dtz?: number; // positive when winning, negative when losing, 0 for draws
+  bestMove: TablebaseMove | null; // null when there are no legal moves
+  moves: TablebaseMove[]; // best first
+}
+
+export interface Tablebase {
+  name: string;
+  maxPieces: number; // largest table found, kings included
+  tables: number;
+  probe(fen: string): TablebaseProbe | null; // null when the position isn't covered
+}
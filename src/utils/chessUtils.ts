@@ -1,16 +1,37 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { Chess } from 'chess.js';
-import OpenAI from 'openai';
 import { middleGamePrompt } from '@/prompts/middleGame';
 import { endgamePrompt } from '@/prompts/endGame';
-import { openingsPrompt } from '@/prompts/openings';
+import { createOpeningPrompt } from '@/prompts/openings';
+import { getOpeningAt } from '@/openings/eco';
+import type { LlmProvider } from '@/llm';
+import {
+  computePositionFeatures,
+  describeCenterControl,
+  describeKingSafety,
+  describePawnStructure,
+  describePieceActivity,
+  describeTactics,
+  type PositionFeatures
+} from './positionAnalysis';
+import { staticExchangeEval } from './staticExchange';
+import { detectTacticalMotifs } from './tacticsDetector';
+
+// Material on the board in the standard starting position
+const STARTING_MATERIAL = 78;
+// The opening lasts up to move 10 while no more than a piece's worth of material has been traded,
+// and for as long as the position is a named opening
+const OPENING_PLIES = 20;
+const OPENING_MATERIAL = STARTING_MATERIAL - 6;
 
 // Determine game phase based on position and moves
 export function determineGamePhase(game: Chess, moveCount: number): string {
   const materialCount = countMaterial(game);
+  // Games set up from a FEN may start mid-game, so also count plies from the FEN move number
+  const pliesPlayed = Math.max(moveCount, (game.moveNumber() - 1) * 2 + (game.turn() === 'b' ? 1 : 0));
   
-  if (moveCount <= 2) {
+  if ((pliesPlayed <= OPENING_PLIES && materialCount >= OPENING_MATERIAL) || getOpeningAt(game.fen())) {
     return 'opening';
   } 
   else if (materialCount < 20) {
@@ -41,27 +62,65 @@ export function countMaterial(game: Chess): number {
   return count;
 }
 
-// Analyze current position characteristics
+// Whether a side still has enough material to deliver mate at all (a lone king, or king and one minor piece, cannot)
+export function hasMatingMaterial(game: Chess, color: 'w' | 'b'): boolean {
+  const pieces = game.board().flat().filter(piece => piece && piece.color === color && piece.type !== 'k');
+  if (pieces.some(piece => piece!.type === 'p' || piece!.type === 'r' || piece!.type === 'q')) {
+    return true;
+  }
+  return pieces.length >= 2;
+}
+
+// Play a line of long algebraic moves (e2e4, e7e8q) through chess.js to get SAN
+export function uciLineToSan(fen: string, moves: string[]): string[] {
+  const game = new Chess(fen);
+  const san: string[] = [];
+  for (const move of moves) {
+    try {
+      san.push(game.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] }).san);
+    } catch {
+      break;
+    }
+  }
+  return san;
+}
+
+// Analyze current position characteristics: structured features plus prompt-ready descriptions
 export function analyzePosition(game: Chess): {
   kingSafety: string;
   centerControl: string;
   pieceActivity: string;
   pawnStructure: string;
   tacticalOpportunities: string[];
+  features: PositionFeatures;
+  summary: string;
 } {
-  const isCheck = game.isCheck();
-  
+  const features = computePositionFeatures(game);
+  const kingSafety = describeKingSafety(features);
+  const centerControl = describeCenterControl(features);
+  const pieceActivity = describePieceActivity(features);
+  const pawnStructure = describePawnStructure(features);
+  const tacticalOpportunities = describeTactics(game, features);
+
   return {
-    kingSafety: isCheck ? 'King is in check - immediate threat' : 'King appears safe',
-    centerControl: 'Analyze center control based on piece placement',
-    pieceActivity: 'Evaluate piece mobility and coordination',
-    pawnStructure: 'Assess pawn chains and weaknesses',
-    tacticalOpportunities: ['Look for pins', 'Check for forks', 'Identify skewers', 'Find discovered attacks']
+    kingSafety,
+    centerControl,
+    pieceActivity,
+    pawnStructure,
+    tacticalOpportunities,
+    features,
+    summary: [
+      `- King Safety: ${kingSafety}`,
+      `- Center Control: ${centerControl}`,
+      `- Piece Activity: ${pieceActivity}`,
+      `- Pawn Structure: ${pawnStructure}`,
+      `- Tactical Opportunities: ${tacticalOpportunities.join('; ')}`
+    ].join('\n')
   };
 }
 
 // Analyze historical moves using LLM to understand what's happening
-export async function analyzeHistoricalMoves(recentMoves: string[], openai: OpenAI): Promise<string> {
+export async function analyzeHistoricalMoves(recentMoves: string[], llm: LlmProvider, signal?: AbortSignal): Promise<string> {
   if (recentMoves.length === 0) {
     return "This is the beginning of the game - no moves have been played yet.";
   }
@@ -76,51 +135,55 @@ Analyze and provide insights about:
 3. Repetitive Moves: If you notice the same move or sequence being repeated (e.g., shuffling the same piece back and forth), call it out and stop it.`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: historicalPrompt }],
+    const completion = await llm.complete([{ role: 'user', content: historicalPrompt }], {
       temperature: 0.3,
-      max_tokens: 300,
+      maxTokens: 300,
+      signal,
     });
 
-    const analysis = completion.choices[0]?.message?.content || "Unable to analyze historical moves.";
+    const analysis = completion.content || "Unable to analyze historical moves.";
     return analysis;
   } catch (error) {
     return `Recent moves: ${recentMoves.join(', ')}. Unable to provide detailed analysis due to technical issues.`;
   }
 }
 
+// Human-readable name for a chess.js colour
+export function getColorName(color: 'w' | 'b'): string {
+  return color === 'w' ? 'white' : 'black';
+}
+
 // Create dynamic prompt based on game state
 export function createDynamicPrompt({
   boardVisual,
   fen,
+  aiColor,
   formattedMoves,
   gamePhase,
   positionAnalysis,
   historicalAnalysis,
   recentMoves,
-  tacticalPatterns,
-  availableMoves,
-  previousAttempt
+  tacticalPatterns
 }: {
   boardVisual: string;
   fen: string;  
+  aiColor: 'w' | 'b';
   formattedMoves: any[];
   gamePhase: string;
-  positionAnalysis: any;
+  positionAnalysis: ReturnType<typeof analyzePosition>;
   historicalAnalysis: string;
   recentMoves: string[];
   tacticalPatterns?: string;
-  availableMoves?: string[];
-  previousAttempt?: string;
 }): string {
   
-  let prompt = `You are a chess expert playing as black. Here's the current board position:
+  const sideName = getColorName(aiColor);
+
+  let prompt = `You are a chess expert playing as ${sideName}. Here's the current board position:
   
 ${boardVisual}
 
 Current FEN: ${fen}
-It's black's turn to move.
+It's ${sideName}'s turn to move.
 
 🎯 CRITICAL INSTRUCTION: You MUST choose EXACTLY one move from the available moves list below. Copy the move notation EXACTLY as shown - do not modify it in any way.
 
@@ -129,11 +192,7 @@ Current phase: ${gamePhase.toUpperCase()}
 Recent moves (last 6): ${recentMoves.length > 0 ? recentMoves.join(', ') : 'Game just started'}
 
 POSITION ANALYSIS:
-- King Safety: ${positionAnalysis.kingSafety}
-- Center Control: ${positionAnalysis.centerControl}
-- Piece Activity: ${positionAnalysis.pieceActivity}
-- Pawn Structure: ${positionAnalysis.pawnStructure}
-- Tactical Opportunities: ${positionAnalysis.tacticalOpportunities.join(', ')}
+${positionAnalysis.summary}
 
 HISTORICAL MOVE ANALYSIS:
 ${historicalAnalysis}
@@ -141,18 +200,14 @@ ${historicalAnalysis}
 ${tacticalPatterns ? `TACTICAL PATTERNS:
 ${tacticalPatterns}
 ` : ''}🎯 AVAILABLE MOVES (CHOOSE EXACTLY ONE):
-${formattedMoves.map((move, index) => `${index + 1}. ${move.notation} - ${move.description}`).join('\n')}
-
-${availableMoves ? `✅ VALID MOVES ONLY: ${availableMoves.join(', ')}` : ''}`;
+${formattedMoves.map((move, index) => `${index + 1}. ${move.notation} - ${move.description}`).join('\n')}`;
 
   // Add phase-specific guidance
-  if (gamePhase === 'opening' && openingsPrompt) {
+  if (gamePhase === 'opening') {
     prompt += `
 
-Since this is the opening phase, you must choose a random opening from the following list:
-${openingsPrompt}
-
-Following established opening principles`;
+Since this is the opening phase, follow established opening principles:
+${createOpeningPrompt(getOpeningAt(fen))}`;
   } 
   else if (gamePhase === 'middlegame') {
     prompt += `
@@ -169,28 +224,17 @@ ${endgamePrompt}`;
 
 CRITICAL: You MUST respond with EXACTLY one of the available moves listed above.
 
-RESPONSE FORMAT (follow exactly):
-MOVE: [exact move notation from the list above]
-REASONING: [your analysis considering the game phase, historical context, and position characteristics]
-
-AVAILABLE MOVES (choose ONLY from these):
-${formattedMoves.map((move, index) => `${index + 1}. ${move.notation}`).join('\n')}
+RESPONSE FORMAT:
+Respond with a JSON object with two fields:
+- "move": the exact move notation from the list above
+- "reasoning": your analysis considering the game phase, historical context, and position characteristics
 
-EXAMPLES OF CORRECT RESPONSES:
-MOVE: e5
-REASONING: This move controls the center and develops the pawn.
-
-MOVE: Nf6
-REASONING: This develops the knight and prepares for castling.
-
-MOVE: Bc5
-REASONING: This develops the bishop and puts pressure on the center.
+EXAMPLE OF A CORRECT RESPONSE:
+{"move": "Nf6", "reasoning": "This develops the knight and prepares for castling."}
 
 ⚠️ IMPORTANT RULES:
 - Use EXACTLY the notation from the available moves list
 - Do NOT modify, abbreviate, or change the notation
-- Do NOT add extra characters or spaces
-- Do NOT use algebraic notation variations
 - Copy the move notation EXACTLY as shown in the list above
 `
 
@@ -229,31 +273,18 @@ export function getPieceSymbol(piece: { color: string; type: string }): string {
   return symbols[piece.color]?.[piece.type] || '?';
 }
 
-// Helper function to calculate piece value
-function getPieceValue(piece: string): number {
-  const values: { [key: string]: number } = {
-    'p': 1, 'n': 3, 'b': 3, 'r': 5, 'q': 9, 'k': 0
-  };
-  return values[piece] || 0;
-}
-
 // Format and score moves with detailed analysis
 export function formatAndScoreMoves(moves: any[], fen: string, opponentColor: 'w' | 'b') {
+  const startGame = new Chess(fen);
   const formattedMoves = moves.map(move => {
     let desc = `${move.piece.toUpperCase()} from ${move.from} to ${move.to}`;
     let score = 0;
     
-    // Points for capturing
     if (move.captured) {
-      const captureValue = getPieceValue(move.captured);
-      score += captureValue * 10; // Multiply by 10 for clearer scoring
       desc += ` - CAPTURES ${move.captured.toUpperCase()}`;
     }
     
-    // Points for promotion
     if (move.promotion) {
-      const promotionValue = getPieceValue(move.promotion) - 1; // Subtract pawn value
-      score += promotionValue * 10;
       desc += ` - PROMOTES TO ${move.promotion.toUpperCase()}`;
     }
     
@@ -265,6 +296,7 @@ export function formatAndScoreMoves(moves: any[], fen: string, opponentColor: 'w
     const testGame = new Chess(fen);
     testGame.move(move.san);
     const isDefended = testGame.isAttacked(move.to, opponentColor);
+    const isProtected = testGame.isAttacked(move.to, move.color);
     
     // Check if this move gives check or checkmate
     if (testGame.isCheckmate()) {
@@ -275,20 +307,22 @@ export function formatAndScoreMoves(moves: any[], fen: string, opponentColor: 'w
       desc += ' - CHECK';
     }
     
-    if (isDefended) {
-      // Penalty for moving to defended square (risk of losing the piece)
-      const pieceValue = getPieceValue(move.piece);
-      // If capturing, penalty is reduced (trade scenario)
-      if (!move.captured) {
-        score -= pieceValue * 5; // Half penalty if not capturing
-      } else {
-        // Trade evaluation: if our piece is worth more, it's a bad trade
-        const captureValue = getPieceValue(move.captured);
-        if (pieceValue > captureValue) {
-          score -= (pieceValue - captureValue) * 5;
-        }
-      }
-      desc += ' - SQUARE IS DEFENDED BY OPPONENT';
+    // Material from captures and promotions once the exchange on the target square is played out
+    const exchange = staticExchangeEval(startGame, move);
+    score += exchange * 10; // Multiply by 10 for clearer scoring
+    if (exchange < 0) {
+      desc += ` - LOSES MATERIAL (EXCHANGE ${exchange})`;
+    } else if (isDefended && isProtected) {
+      desc += ' - SQUARE IS ATTACKED BUT PROTECTED';
+    } else if (isDefended) {
+      desc += exchange > 0 ? ` - SQUARE IS ATTACKED BUT THE EXCHANGE WINS ${exchange}` : ' - SQUARE IS ATTACKED, EVEN EXCHANGE';
+    }
+
+    // Forks, pins, skewers, discoveries, overloads and traps set up by the move
+    const motifs = detectTacticalMotifs(startGame, testGame, move);
+    for (const motif of motifs) {
+      score += motif.score;
+      desc += ` - ${motif.label}`;
     }
     
     return {
@@ -298,6 +332,8 @@ export function formatAndScoreMoves(moves: any[], fen: string, opponentColor: 'w
       piece: move.piece,
       captured: move.captured,
       isDefended: isDefended,
+      exchange,
+      motifs: motifs.map(motif => motif.type),
       score: score,
       description: desc
     };
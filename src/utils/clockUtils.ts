@@ -0,0 +1,61 @@
+export type TimeControlId = 'bullet' | 'blitz' | 'rapid' | 'classical' | 'untimed';
+
+// Fischer adds the full bonus after every move; Bronstein refunds the time used, up to the bonus
+export type BonusType = 'fischer' | 'bronstein';
+
+export interface TimeControl {
+  id: TimeControlId;
+  label: string;
+  initialMs: number | null; // null means untimed
+  bonusMs: number;
+}
+
+export const TIME_CONTROL_PRESETS: Record<TimeControlId, TimeControl> = {
+  bullet: { id: 'bullet', label: 'Bullet 1+0', initialMs: 60_000, bonusMs: 0 },
+  blitz: { id: 'blitz', label: 'Blitz 3+2', initialMs: 3 * 60_000, bonusMs: 2_000 },
+  rapid: { id: 'rapid', label: 'Rapid 10+5', initialMs: 10 * 60_000, bonusMs: 5_000 },
+  classical: { id: 'classical', label: 'Classical 30+20', initialMs: 30 * 60_000, bonusMs: 20_000 },
+  untimed: { id: 'untimed', label: 'Untimed', initialMs: null, bonusMs: 0 },
+};
+
+export const DEFAULT_TIME_CONTROL: TimeControlId = 'blitz';
+
+// Remaining time after a move that took elapsedMs, including the increment or delay bonus
+export function applyMoveTime(
+  remainingMs: number,
+  elapsedMs: number,
+  bonusMs: number,
+  bonusType: BonusType
+): number {
+  const afterMove = remainingMs - elapsedMs;
+  if (afterMove <= 0) {
+    return 0;
+  }
+  const bonus = bonusType === 'fischer' ? bonusMs : Math.min(elapsedMs, bonusMs);
+  return afterMove + bonus;
+}
+
+// Format milliseconds as m:ss, with tenths once under ten seconds
+export function formatClock(ms: number | null): string {
+  if (ms === null) {
+    return '∞';
+  }
+  const clamped = Math.max(0, ms);
+  const minutes = Math.floor(clamped / 60_000);
+  const seconds = Math.floor((clamped % 60_000) / 1000);
+
+  if (clamped < 10_000) {
+    const tenths = Math.floor((clamped % 1000) / 100);
+    return `${seconds}.${tenths}`;
+  }
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// How long an engine may think: a slice of what is left plus most of the increment
+export function getMoveTimeBudget(remainingMs: number | null, bonusMs: number): number | undefined {
+  if (remainingMs === null) {
+    return undefined;
+  }
+  const budget = remainingMs / 30 + bonusMs * 0.8;
+  return Math.round(Math.min(5_000, Math.max(100, budget)));
+}
@@ -0,0 +1,209 @@
+import { Chess, validateFen, DEFAULT_POSITION } from 'chess.js';
+import type { Color, Piece, Square } from 'chess.js';
+
+export const START_FEN = DEFAULT_POSITION;
+export const EMPTY_FEN = '8/8/8/8/8/8/8/8 w - - 0 1';
+
+// The parts of a FEN that make two positions the same: pieces, side to move, castling rights and en passant square
+export function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+export interface CastlingRights {
+  K: boolean;
+  Q: boolean;
+  k: boolean;
+  q: boolean;
+}
+
+export interface PositionSetup {
+  board: Partial<Record<Square, Piece>>;
+  turn: Color;
+  castling: CastlingRights;
+  enPassant: Square | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+const FILES = 'abcdefgh';
+
+// Squares from a8 to h1, in FEN order
+export const EDITOR_SQUARES: Square[] = Array.from({ length: 64 }, (_, index) => {
+  const file = FILES[index % 8];
+  const rank = 8 - Math.floor(index / 8);
+  return `${file}${rank}` as Square;
+});
+
+// Parse a FEN into editable parts; the board is read even if the position is illegal
+export function fenToSetup(fen: string): PositionSetup {
+  const [placement, turn = 'w', castling = '-', enPassant = '-', halfmove = '0', fullmove = '1'] = fen.trim().split(/\s+/);
+  const ranks = placement.split('/');
+
+  if (ranks.length !== 8) {
+    throw new Error('FEN board must have 8 ranks separated by "/"');
+  }
+
+  const board: Partial<Record<Square, Piece>> = {};
+  ranks.forEach((rankText, rankIndex) => {
+    let fileIndex = 0;
+    for (const char of rankText) {
+      if (/[1-8]/.test(char)) {
+        fileIndex += Number(char);
+      } else if (/[pnbrqkPNBRQK]/.test(char)) {
+        if (fileIndex > 7) {
+          throw new Error(`FEN rank ${8 - rankIndex} describes more than 8 squares`);
+        }
+        const square = `${FILES[fileIndex]}${8 - rankIndex}` as Square;
+        board[square] = {
+          color: char === char.toUpperCase() ? 'w' : 'b',
+          type: char.toLowerCase() as Piece['type'],
+        };
+        fileIndex++;
+      } else {
+        throw new Error(`Unexpected character "${char}" in FEN rank ${8 - rankIndex}`);
+      }
+    }
+    if (fileIndex !== 8) {
+      throw new Error(`FEN rank ${8 - rankIndex} does not describe exactly 8 squares`);
+    }
+  });
+
+  return {
+    board,
+    turn: turn === 'b' ? 'b' : 'w',
+    castling: {
+      K: castling.includes('K'),
+      Q: castling.includes('Q'),
+      k: castling.includes('k'),
+      q: castling.includes('q'),
+    },
+    enPassant: enPassant !== '-' ? (enPassant as Square) : null,
+    halfmoveClock: Number(halfmove) || 0,
+    fullmoveNumber: Math.max(1, Number(fullmove) || 1),
+  };
+}
+
+// Serialise an editor setup back into a FEN string
+export function setupToFen(setup: PositionSetup): string {
+  const ranks: string[] = [];
+
+  for (let rank = 8; rank >= 1; rank--) {
+    let rankText = '';
+    let empty = 0;
+    for (const file of FILES) {
+      const piece = setup.board[`${file}${rank}` as Square];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty) {
+        rankText += empty;
+        empty = 0;
+      }
+      rankText += piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+    }
+    ranks.push(rankText + (empty ? empty : ''));
+  }
+
+  const castling = (['K', 'Q', 'k', 'q'] as const)
+    .filter(right => setup.castling[right])
+    .join('') || '-';
+
+  return [
+    ranks.join('/'),
+    setup.turn,
+    castling,
+    setup.enPassant || '-',
+    setup.halfmoveClock,
+    setup.fullmoveNumber,
+  ].join(' ');
+}
+
+// En passant targets that are plausible for the side to move: a double-stepped enemy pawn just passed them
+export function getEnPassantCandidates(setup: PositionSetup): Square[] {
+  const targetRank = setup.turn === 'w' ? 6 : 3;
+  const pawnRank = setup.turn === 'w' ? 5 : 4;
+  const originRank = setup.turn === 'w' ? 7 : 2;
+  const enemy: Color = setup.turn === 'w' ? 'b' : 'w';
+
+  return FILES.split('')
+    .filter(file => {
+      const pawn = setup.board[`${file}${pawnRank}` as Square];
+      return pawn?.type === 'p' && pawn.color === enemy &&
+        !setup.board[`${file}${targetRank}` as Square] &&
+        !setup.board[`${file}${originRank}` as Square];
+    })
+    .map(file => `${file}${targetRank}` as Square);
+}
+
+// Castling rights that the current piece placement can actually support
+export function getAvailableCastling(setup: PositionSetup): CastlingRights {
+  const has = (square: Square, color: Color, type: Piece['type']) =>
+    setup.board[square]?.color === color && setup.board[square]?.type === type;
+
+  return {
+    K: has('e1', 'w', 'k') && has('h1', 'w', 'r'),
+    Q: has('e1', 'w', 'k') && has('a1', 'w', 'r'),
+    k: has('e8', 'b', 'k') && has('h8', 'b', 'r'),
+    q: has('e8', 'b', 'k') && has('a8', 'b', 'r'),
+  };
+}
+
+// Check a FEN for a legal, playable position; returns a list of problems (empty when valid)
+export function validatePosition(fen: string): string[] {
+  const errors: string[] = [];
+
+  let setup: PositionSetup;
+  try {
+    setup = fenToSetup(fen);
+  } catch (error) {
+    return [error instanceof Error ? error.message : 'Invalid FEN'];
+  }
+
+  const pieces = Object.values(setup.board) as Piece[];
+  (['w', 'b'] as Color[]).forEach(color => {
+    const name = color === 'w' ? 'White' : 'Black';
+    const own = pieces.filter(piece => piece.color === color);
+    const kings = own.filter(piece => piece.type === 'k').length;
+    const pawns = own.filter(piece => piece.type === 'p').length;
+
+    if (kings !== 1) errors.push(`${name} must have exactly one king (found ${kings})`);
+    if (pawns > 8) errors.push(`${name} has more than 8 pawns`);
+    if (own.length > 16) errors.push(`${name} has more than 16 pieces`);
+  });
+
+  const available = getAvailableCastling(setup);
+  (['K', 'Q', 'k', 'q'] as const).forEach(right => {
+    if (setup.castling[right] && !available[right]) {
+      errors.push(`Castling right "${right}" needs the king and rook on their starting squares`);
+    }
+  });
+
+  if (setup.enPassant && !getEnPassantCandidates(setup).includes(setup.enPassant)) {
+    errors.push(`En passant square ${setup.enPassant} does not match a pawn that just moved two squares`);
+  }
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // chess.js catches the remaining structural problems (pawns on the back ranks, bad counters)
+  const result = validateFen(fen);
+  if (!result.ok) {
+    return [(result.error || 'Invalid FEN').replace(/^Invalid FEN: /, '')];
+  }
+
+  // The side that just moved cannot have left its own king in check
+  const game = new Chess(fen);
+  const waiting: Color = setup.turn === 'w' ? 'b' : 'w';
+  const [waitingKing] = game.findPiece({ type: 'k', color: waiting });
+  if (waitingKing && game.isAttacked(waitingKing, setup.turn)) {
+    errors.push(`${waiting === 'w' ? 'White' : 'Black'} is in check but it is not their move`);
+  }
+
+  if (game.isGameOver()) {
+    errors.push('The position is already game over');
+  }
+
+  return errors;
+}
@@ -0,0 +1,93 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { hasMatingMaterial } from './chessUtils';
+import { positionKey } from './fenUtils';
+
+export type GameResultToken = '1-0' | '0-1' | '1/2-1/2';
+
+export type GameEndReason =
+  | 'checkmate'
+  | 'resignation'
+  | 'timeout'
+  | 'stalemate'
+  | 'threefold-repetition'
+  | 'fifty-move-rule'
+  | 'insufficient-material'
+  | 'agreement';
+
+export interface GameResult {
+  result: GameResultToken;
+  reason: GameEndReason;
+}
+
+export const END_REASON_LABELS: Record<GameEndReason, string> = {
+  checkmate: 'checkmate',
+  resignation: 'resignation',
+  timeout: 'timeout',
+  stalemate: 'stalemate',
+  'threefold-repetition': 'threefold repetition',
+  'fifty-move-rule': 'fifty-move rule',
+  'insufficient-material': 'insufficient material',
+  agreement: 'agreement',
+};
+
+const winFor = (color: 'w' | 'b'): GameResultToken => (color === 'w' ? '1-0' : '0-1');
+
+// `fens` is every position of the game in order, starting with the initial one
+export function isThreefoldRepetition(fens: string[]): boolean {
+  const counts = new Map<string, number>();
+  return fens.some(fen => {
+    const key = positionKey(fen);
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+    return count >= 3;
+  });
+}
+
+// A result decided on the board by the last position. The Chess instance is often rebuilt from a FEN
+// and has no history, so repetitions are counted from the FENs of the whole line instead.
+export function getBoardResult(game: Chess, fens: string[] = [game.fen()]): GameResult | null {
+  if (game.isCheckmate()) return { result: winFor(game.turn() === 'w' ? 'b' : 'w'), reason: 'checkmate' };
+  if (game.isStalemate()) return { result: '1/2-1/2', reason: 'stalemate' };
+  if (game.isInsufficientMaterial()) return { result: '1/2-1/2', reason: 'insufficient-material' };
+  if (isThreefoldRepetition(fens)) return { result: '1/2-1/2', reason: 'threefold-repetition' };
+  if (game.isDrawByFiftyMoves()) return { result: '1/2-1/2', reason: 'fifty-move-rule' };
+  return null;
+}
+
+// The flag falling loses, unless the opponent couldn't possibly mate
+export function getTimeoutResult(game: Chess, flagged: 'w' | 'b'): GameResult {
+  const opponent = flagged === 'w' ? 'b' : 'w';
+  return {
+    result: hasMatingMaterial(game, opponent) ? winFor(opponent) : '1/2-1/2',
+    reason: 'timeout',
+  };
+}
+
+export function getResignationResult(resigning: 'w' | 'b'): GameResult {
+  return { result: winFor(resigning === 'w' ? 'b' : 'w'), reason: 'resignation' };
+}
+
+export const DRAW_BY_AGREEMENT: GameResult = { result: '1/2-1/2', reason: 'agreement' };
+
+// Every position of a line: the start position and the one after each move
+export function getLinePositions(moves: { fen: string }[], startFen = DEFAULT_POSITION): string[] {
+  return [startFen, ...moves.map(move => move.fen)];
+}
+
+// "1-0", "0-1" or "½-½" for display
+export function formatResultToken(result: GameResultToken): string {
+  return result === '1/2-1/2' ? '½-½' : result;
+}
+
+// e.g. "White wins by checkmate", "Draw by threefold repetition"
+export function describeResult({ result, reason }: GameResult): string {
+  if (result === '1/2-1/2') {
+    return `Draw by ${END_REASON_LABELS[reason]}`;
+  }
+  return `${result === '1-0' ? 'White' : 'Black'} wins by ${END_REASON_LABELS[reason]}`;
+}
+
+// PGN Termination tag value
+export function getPgnTermination({ reason }: GameResult): string {
+  return reason === 'timeout' ? 'time forfeit' : 'normal';
+}
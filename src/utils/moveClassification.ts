@@ -0,0 +1,153 @@
+import type { Color } from 'chess.js';
+
+export type MoveClassification = 'best' | 'excellent' | 'good' | 'inaccuracy' | 'mistake' | 'blunder' | 'missed-mate';
+
+export const MOVE_CLASSIFICATIONS: MoveClassification[] = [
+  'best',
+  'excellent',
+  'good',
+  'inaccuracy',
+  'mistake',
+  'blunder',
+  'missed-mate'
+];
+
+export const CLASSIFICATION_LABELS: Record<MoveClassification, string> = {
+  best: 'Best',
+  excellent: 'Excellent',
+  good: 'Good',
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+  blunder: 'Blunder',
+  'missed-mate': 'Missed mate',
+};
+
+// Numeric Annotation Glyphs: $6 = ?!, $2 = ?, $4 = ??
+export const CLASSIFICATION_NAGS: Partial<Record<MoveClassification, string>> = {
+  inaccuracy: '$6',
+  mistake: '$2',
+  blunder: '$4',
+  'missed-mate': '$2',
+};
+
+// Win-probability points a move may lose before it counts as an inaccuracy, mistake or blunder
+const WIN_CHANCE_LOSS_THRESHOLDS = { inaccuracy: 10, mistake: 20, blunder: 30 };
+// Among the moves that lose less than that, the centipawn loss separates excellent from good
+const EXCELLENT_MAX_CENTIPAWN_LOSS = 20;
+// Mate scores are capped here so a missed mate doesn't read as a 10,000 centipawn loss
+const CENTIPAWN_LOSS_CAP = 1000;
+
+// An evaluation from White's point of view, as /api/evaluate returns it
+export interface ScoredPosition {
+  eval: number; // pawns
+  winChance: number; // White's winning chances, 0-100
+  mate?: number; // positive when White mates
+  san?: string; // engine's best move
+  continuationArr?: string[]; // engine's best line, SAN
+}
+
+export interface AnalyzedMove {
+  ply: number; // 1-based index into the game's moves
+  moveNumber: number;
+  color: Color;
+  move: string;
+  fen: string; // position after the move
+  evalBefore: number; // pawns, White's point of view
+  evalAfter: number;
+  mateAfter?: number;
+  winChanceLoss: number; // for the side that moved, 0-100
+  centipawnLoss: number;
+  accuracy: number; // 0-100
+  classification: MoveClassification;
+  bestMove?: string; // engine's choice when it differs from the move played
+  bestLine?: string[];
+}
+
+export interface GameAnalysis {
+  startFen?: string;
+  moves: AnalyzedMove[];
+  evaluations: number[]; // pawns from White's point of view, the start position then one per move
+  accuracy: Record<Color, number | null>; // null when that side made no moves
+  summary: Record<Color, Record<MoveClassification, number>>;
+  timeLimitMs: number;
+}
+
+const clampCentipawns = (pawns: number) =>
+  Math.max(-CENTIPAWN_LOSS_CAP, Math.min(CENTIPAWN_LOSS_CAP, Math.round(pawns * 100)));
+
+// Per-move accuracy from the win-probability loss (the curve Lichess uses)
+export function moveAccuracy(winChanceLoss: number): number {
+  const accuracy = 103.1668 * Math.exp(-0.04354 * winChanceLoss) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+// Score one move by comparing the evaluations either side of it
+export function classifyMove({
+  color,
+  move,
+  before,
+  after,
+  deliversMate,
+}: {
+  color: Color;
+  move: string;
+  before: ScoredPosition;
+  after: ScoredPosition;
+  deliversMate: boolean;
+}): Pick<AnalyzedMove, 'winChanceLoss' | 'centipawnLoss' | 'accuracy' | 'classification' | 'bestMove' | 'bestLine'> {
+  const perspective = color === 'w' ? 1 : -1;
+  const winBefore = color === 'w' ? before.winChance : 100 - before.winChance;
+  const winAfter = color === 'w' ? after.winChance : 100 - after.winChance;
+  const winChanceLoss = deliversMate ? 0 : Math.max(0, winBefore - winAfter);
+  const centipawnLoss = deliversMate
+    ? 0
+    : Math.max(0, (clampCentipawns(before.eval) - clampCentipawns(after.eval)) * perspective);
+
+  const isBest = deliversMate || before.san === move;
+  const hadMate = before.mate !== undefined && Math.sign(before.mate) === perspective;
+  const keepsMate = after.mate !== undefined && Math.sign(after.mate) === perspective;
+
+  let classification: MoveClassification;
+  if (isBest) {
+    classification = 'best';
+  } else if (winChanceLoss >= WIN_CHANCE_LOSS_THRESHOLDS.blunder) {
+    classification = 'blunder';
+  } else if (hadMate && !keepsMate) {
+    classification = 'missed-mate';
+  } else if (winChanceLoss >= WIN_CHANCE_LOSS_THRESHOLDS.mistake) {
+    classification = 'mistake';
+  } else if (winChanceLoss >= WIN_CHANCE_LOSS_THRESHOLDS.inaccuracy) {
+    classification = 'inaccuracy';
+  } else {
+    classification = centipawnLoss <= EXCELLENT_MAX_CENTIPAWN_LOSS ? 'excellent' : 'good';
+  }
+
+  return {
+    winChanceLoss: Math.round(winChanceLoss * 10) / 10,
+    centipawnLoss,
+    accuracy: Math.round(moveAccuracy(winChanceLoss) * 10) / 10,
+    classification,
+    bestMove: isBest ? undefined : before.san,
+    bestLine: isBest ? undefined : before.continuationArr,
+  };
+}
+
+// Average accuracy and classification counts for each side
+export function summarizeMoves(moves: AnalyzedMove[]): Pick<GameAnalysis, 'accuracy' | 'summary'> {
+  const emptyCounts = () =>
+    Object.fromEntries(MOVE_CLASSIFICATIONS.map(classification => [classification, 0])) as Record<MoveClassification, number>;
+  const summary: Record<Color, Record<MoveClassification, number>> = { w: emptyCounts(), b: emptyCounts() };
+
+  const sideAccuracy = (color: Color) => {
+    const sideMoves = moves.filter(move => move.color === color);
+    if (sideMoves.length === 0) return null;
+    const total = sideMoves.reduce((sum, move) => sum + move.accuracy, 0);
+    return Math.round((total / sideMoves.length) * 10) / 10;
+  };
+
+  moves.forEach(move => {
+    summary[move.color][move.classification]++;
+  });
+
+  return { accuracy: { w: sideAccuracy('w'), b: sideAccuracy('b') }, summary };
+}
@@ -0,0 +1,151 @@
+// A game as a tree of moves: every position can have several continuations, the first of which
+// is the main line. The tree also holds the cursor - the position the game continues from.
+// All updates return a new tree so it can live in React state.
+
+export const ROOT_ID = 'root';
+
+export interface MoveTreeNode<T> {
+  id: string;
+  parentId: string | null;
+  children: string[]; // first child continues the main line, the rest are variations
+  entry: T | null; // null only for the root, which stands for the start position
+}
+
+export interface MoveTree<T> {
+  nodes: Record<string, MoveTreeNode<T>>;
+  currentId: string;
+  nextId: number;
+}
+
+interface TreeMove {
+  move: string; // SAN
+}
+
+export function createMoveTree<T extends TreeMove>(): MoveTree<T> {
+  return {
+    nodes: { [ROOT_ID]: { id: ROOT_ID, parentId: null, children: [], entry: null } },
+    currentId: ROOT_ID,
+    nextId: 1,
+  };
+}
+
+// Play a move from the current position. Replaying a move that is already in the tree follows
+// (and refreshes) that branch; a new move becomes the main line if it is the first continuation,
+// otherwise a variation.
+export function addMove<T extends TreeMove>(tree: MoveTree<T>, entry: T): MoveTree<T> {
+  const parent = tree.nodes[tree.currentId];
+  const existingId = parent.children.find(childId => tree.nodes[childId].entry?.move === entry.move);
+
+  if (existingId) {
+    return {
+      ...tree,
+      nodes: { ...tree.nodes, [existingId]: { ...tree.nodes[existingId], entry } },
+      currentId: existingId,
+    };
+  }
+
+  const id = `n${tree.nextId}`;
+  return {
+    nodes: {
+      ...tree.nodes,
+      [parent.id]: { ...parent, children: [...parent.children, id] },
+      [id]: { id, parentId: parent.id, children: [], entry },
+    },
+    currentId: id,
+    nextId: tree.nextId + 1,
+  };
+}
+
+// A tree holding a single line, with the cursor at its end
+export function moveTreeFromLine<T extends TreeMove>(entries: T[]): MoveTree<T> {
+  return entries.reduce((tree, entry) => addMove(tree, entry), createMoveTree<T>());
+}
+
+// The same tree with every move's entry replaced
+export function mapMoveTree<T, U>(tree: MoveTree<T>, mapEntry: (entry: T) => U): MoveTree<U> {
+  const nodes = Object.fromEntries(Object.values(tree.nodes).map(node => [
+    node.id,
+    { ...node, entry: node.entry === null ? null : mapEntry(node.entry) },
+  ]));
+  return { ...tree, nodes };
+}
+
+export function selectNode<T>(tree: MoveTree<T>, id: string): MoveTree<T> {
+  if (!tree.nodes[id]) {
+    throw new Error(`Unknown move node: ${id}`);
+  }
+  return { ...tree, currentId: id };
+}
+
+// Node ids from the first move down to `id` (the root itself is left out)
+export function getLineIds<T>(tree: MoveTree<T>, id = tree.currentId): string[] {
+  const ids: string[] = [];
+  for (let node = tree.nodes[id]; node && node.id !== ROOT_ID; node = tree.nodes[node.parentId!]) {
+    ids.unshift(node.id);
+  }
+  return ids;
+}
+
+// The moves leading to `id`, by default the current position
+export function getLine<T>(tree: MoveTree<T>, id = tree.currentId): T[] {
+  return getLineIds(tree, id).map(nodeId => tree.nodes[nodeId].entry!);
+}
+
+// Follow first children from `id` to the end of its line
+export function getContinuationIds<T>(tree: MoveTree<T>, id: string): string[] {
+  const ids: string[] = [];
+  for (let childId = tree.nodes[id].children[0]; childId; childId = tree.nodes[childId].children[0]) {
+    ids.push(childId);
+  }
+  return ids;
+}
+
+export function getMainLine<T>(tree: MoveTree<T>): T[] {
+  return getContinuationIds(tree, ROOT_ID).map(nodeId => tree.nodes[nodeId].entry!);
+}
+
+// True when every move leading to `id` is its parent's first continuation
+export function isMainLine<T>(tree: MoveTree<T>, id: string): boolean {
+  return getLineIds(tree, id).every(nodeId => {
+    const node = tree.nodes[nodeId];
+    return tree.nodes[node.parentId!].children[0] === nodeId;
+  });
+}
+
+// Make the line through `id` the main line by moving it (and each move before it) to the front
+export function promoteToMainLine<T>(tree: MoveTree<T>, id: string): MoveTree<T> {
+  const nodes = { ...tree.nodes };
+  getLineIds(tree, id).forEach(nodeId => {
+    const parentId = nodes[nodeId].parentId!;
+    const parent = nodes[parentId];
+    nodes[parentId] = { ...parent, children: [nodeId, ...parent.children.filter(childId => childId !== nodeId)] };
+  });
+  return { ...tree, nodes };
+}
+
+// Remove `id` and everything after it; a cursor inside the branch moves back to where it started
+export function deleteBranch<T>(tree: MoveTree<T>, id: string): MoveTree<T> {
+  const node = tree.nodes[id];
+  if (!node || node.id === ROOT_ID) {
+    throw new Error('Only moves can be deleted');
+  }
+
+  const nodes = { ...tree.nodes };
+  const removed: string[] = [];
+  const stack = [id];
+  while (stack.length > 0) {
+    const nodeId = stack.pop()!;
+    removed.push(nodeId);
+    stack.push(...nodes[nodeId].children);
+    delete nodes[nodeId];
+  }
+
+  const parent = nodes[node.parentId!];
+  nodes[parent.id] = { ...parent, children: parent.children.filter(childId => childId !== id) };
+
+  return {
+    ...tree,
+    nodes,
+    currentId: removed.includes(tree.currentId) ? parent.id : tree.currentId,
+  };
+}
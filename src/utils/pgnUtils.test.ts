@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getContinuationIds, getLine, ROOT_ID } from './moveTree';
+import { exportPgnTree, importPgn } from './pgnUtils';
+
+// Written exactly as exportPgnTree writes it, so it has to come back unchanged
+const PGN_WITH_VARIATIONS = `[Event "Club night"]
+[Site "Here"]
+[Date "2024.01.01"]
+[Round "1"]
+[White "A"]
+[Black "B"]
+[Result "*"]
+
+1. e4 e5 (1... c5 2. Nf3 (2. Nc3) 2... d6) 2. Nf3 { Develops } 2... Nc6 *
+`;
+
+describe('importPgn', () => {
+  it('reads variations into the move tree and leaves the cursor at the end of the main line', () => {
+    const { moves, tree } = importPgn(PGN_WITH_VARIATIONS);
+
+    expect(moves.map(entry => entry.move)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    expect(moves[2].reasoning).toBe('Develops');
+    expect(getLine(tree)).toEqual(moves);
+
+    const [e4] = tree.nodes[ROOT_ID].children;
+    const [, c5] = tree.nodes[e4].children;
+    expect(tree.nodes[c5].entry?.move).toBe('c5');
+    const [nf3, nc3] = tree.nodes[c5].children;
+    expect(getContinuationIds(tree, c5).map(id => tree.nodes[id].entry?.move)).toEqual(['Nf3', 'd6']);
+    expect(tree.nodes[nc3].entry).toMatchObject({ move: 'Nc3', color: 'w' });
+    expect(tree.nodes[nf3].children).toHaveLength(1);
+  });
+
+  it('round-trips a game exported with variations', () => {
+    const { tree, headers } = importPgn(PGN_WITH_VARIATIONS);
+    expect(exportPgnTree({ tree, headers })).toBe(PGN_WITH_VARIATIONS);
+  });
+
+  it('names an illegal move inside a variation', () => {
+    expect(() => importPgn('1. e4 e5 (1... e4) *')).toThrow(
+      'Move 1... e4 (in a variation) is not legal for Black in position ' +
+      'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+    );
+  });
+
+  it('rejects unbalanced or misplaced parentheses', () => {
+    expect(() => importPgn('1. e4 (1. d4 *')).toThrow('Unterminated variation');
+    expect(() => importPgn('1. e4 ) e5 *')).toThrow('Unmatched ")"');
+    expect(() => importPgn('(1. d4) 1. e4 *')).toThrow('has no move to replace');
+  });
+});
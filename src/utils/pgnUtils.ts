@@ -0,0 +1,414 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { CLASSIFICATION_LABELS, CLASSIFICATION_NAGS, type GameAnalysis } from './moveClassification';
+import { addMove, createMoveTree, getMainLine, moveTreeFromLine, ROOT_ID, selectNode, type MoveTree } from './moveTree';
+
+export interface PgnMove {
+  move: string;
+  color: 'w' | 'b';
+  fen: string;
+  reasoning?: string;
+}
+
+export interface PgnImportResult {
+  headers: Record<string, string>;
+  moves: PgnMove[]; // the main line
+  tree: MoveTree<PgnMove>; // every move, variations included, with the cursor at the end of the main line
+  startFen?: string;
+  game: Chess;
+}
+
+const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+const PGN_LINE_WIDTH = 80;
+const MAX_VARIATION_PLIES = 6;
+
+// Format a date as the PGN "YYYY.MM.DD" tag value
+export function formatPgnDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+// Work out the PGN result token from the final position
+export function getPgnResult(game: Chess): string {
+  if (game.isCheckmate()) {
+    return game.turn() === 'w' ? '0-1' : '1-0';
+  }
+  if (game.isDraw() || game.isStalemate()) {
+    return '1/2-1/2';
+  }
+  return '*';
+}
+
+// A move as written in PGN movetext, with its annotations and any sidelines played instead of it
+interface MovetextMove {
+  san: string;
+  moveNumber: number;
+  color: 'w' | 'b';
+  nag?: string;
+  comment?: string;
+  variations?: MovetextMove[][];
+}
+
+// Movetext tokens for a line; Black's moves are numbered at the start of a line and after a comment or variation
+function lineTokens(line: MovetextMove[]): string[] {
+  const tokens: string[] = [];
+  let needsNumber = true;
+
+  line.forEach(move => {
+    if (move.color === 'w') {
+      tokens.push(`${move.moveNumber}.`);
+    } else if (needsNumber) {
+      tokens.push(`${move.moveNumber}...`);
+    }
+    tokens.push(move.san);
+    if (move.nag) tokens.push(move.nag);
+    needsNumber = false;
+
+    if (move.comment) {
+      tokens.push(`{ ${move.comment} }`);
+      needsNumber = true;
+    }
+    move.variations?.forEach(variation => {
+      const variationTokens = lineTokens(variation);
+      variationTokens[0] = `(${variationTokens[0]}`;
+      variationTokens[variationTokens.length - 1] += ')';
+      tokens.push(...variationTokens);
+      needsNumber = true;
+    });
+  });
+
+  return tokens;
+}
+
+// Join movetext tokens into lines of at most PGN_LINE_WIDTH characters
+function wrapMovetext(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+  tokens.forEach(token => {
+    if (line && line.length + 1 + token.length > PGN_LINE_WIDTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+// Fill in the Seven Tag Roster defaults and order it first, followed by any extra tags
+function buildHeaders(headers: Record<string, string>, finalGame: Chess, startFen?: string): [string, string][] {
+  const allHeaders: Record<string, string> = {
+    Event: 'AI Chess Game',
+    Site: 'AI Chess App',
+    Date: formatPgnDate(new Date()),
+    Round: '-',
+    White: '?',
+    Black: '?',
+    ...headers,
+    Result: headers.Result || getPgnResult(finalGame),
+  };
+  if (startFen && startFen !== DEFAULT_POSITION) {
+    allHeaders.SetUp = '1';
+    allHeaders.FEN = startFen;
+  }
+
+  const orderedKeys = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(allHeaders).filter(key => !SEVEN_TAG_ROSTER.includes(key)),
+  ];
+  return orderedKeys.map(key => [key, allHeaders[key]]);
+}
+
+function writePgn(headers: [string, string][], leadingComment: string | undefined, line: MovetextMove[]): string {
+  const result = headers.find(([key]) => key === 'Result')?.[1] ?? '*';
+  const headerText = headers.map(([key, value]) => `[${key} "${value.replace(/[\\"]/g, '\\$&')}"]`).join('\n');
+  const tokens = [...(leadingComment ? [`{ ${leadingComment} }`] : []), ...lineTokens(line), result];
+  return `${headerText}\n\n${wrapMovetext(tokens)}\n`;
+}
+
+// Comments can't span lines or contain braces
+const toComment = (text: string) => text.replace(/\s+/g, ' ').replace(/{/g, '[').replace(/}/g, ']').trim();
+
+// Build a PGN with the Seven Tag Roster, replaying the SAN history and attaching reasoning as comments
+export function exportPgn({
+  moves,
+  startFen,
+  headers = {},
+}: {
+  moves: PgnMove[];
+  startFen?: string;
+  headers?: Record<string, string>;
+}): string {
+  return exportPgnTree({ tree: moveTreeFromLine(moves), startFen, headers });
+}
+
+// Same as exportPgn for a move tree: the main line, with every other branch as a RAV ( ... )
+export function exportPgnTree({
+  tree,
+  startFen,
+  headers = {},
+}: {
+  tree: MoveTree<PgnMove>;
+  startFen?: string;
+  headers?: Record<string, string>;
+}): string {
+  // The main line is replayed in one game so repetition draws count towards the result
+  const game = new Chess(startFen);
+  getMainLine(tree).forEach((entry, index) => {
+    try {
+      game.move(entry.move);
+    } catch {
+      throw new Error(`Cannot export PGN: move ${index + 1} (${entry.move}) is not legal from ${game.fen()}`);
+    }
+  });
+
+  // Write the line starting with `firstId`, each alternative to a move branching off just after it
+  const writeLine = (firstId: string, fen: string): MovetextMove[] => {
+    const line: MovetextMove[] = [];
+    const position = new Chess(fen);
+    for (let id: string | undefined = firstId; id; id = tree.nodes[id].children[0]) {
+      const node = tree.nodes[id];
+      const entry = node.entry!;
+      const before = position.fen();
+      const moveNumber = position.moveNumber();
+      const color = position.turn();
+      try {
+        position.move(entry.move);
+      } catch {
+        throw new Error(`Cannot export PGN: ${entry.move} is not legal from ${before}`);
+      }
+
+      const siblings = tree.nodes[node.parentId!].children;
+      line.push({
+        san: entry.move,
+        moveNumber,
+        color,
+        comment: entry.reasoning ? toComment(entry.reasoning) : undefined,
+        // Alternatives are written after the main-line move they replace
+        variations: siblings[0] === id
+          ? siblings.slice(1).map(siblingId => writeLine(siblingId, before))
+          : undefined,
+      });
+    }
+    return line;
+  };
+
+  const [firstId] = tree.nodes[ROOT_ID].children;
+  const line = firstId ? writeLine(firstId, new Chess(startFen).fen()) : [];
+  return writePgn(buildHeaders(headers, game, startFen), undefined, line);
+}
+
+const formatEval = (pawns: number, mate?: number) =>
+  mate !== undefined ? `#${mate}` : pawns.toFixed(2);
+
+// SAN moves with their move numbers, starting from the given move number and side
+function numberLine(line: string[], moveNumber: number, color: 'w' | 'b'): MovetextMove[] {
+  return line.map((san, index) => {
+    const ply = index + (color === 'b' ? 1 : 0);
+    return { san, moveNumber: moveNumber + Math.floor(ply / 2), color: ply % 2 === 0 ? 'w' : 'b' };
+  });
+}
+
+// Build a PGN of a reviewed game: NAGs for inaccuracies, mistakes and blunders, [%eval] comments
+// on every move and the engine's best line as a variation wherever the move played fell short
+export function exportAnalysisPgn({
+  analysis,
+  headers = {},
+}: {
+  analysis: GameAnalysis;
+  headers?: Record<string, string>;
+}): string {
+  const game = new Chess(analysis.startFen);
+  analysis.moves.forEach(entry => game.move(entry.move));
+
+  const allHeaders = buildHeaders({ ...headers, Annotator: 'Local engine analysis' }, game, analysis.startFen);
+  const formatAccuracy = (accuracy: number | null) => (accuracy === null ? '-' : `${accuracy}%`);
+
+  const line = analysis.moves.map((entry): MovetextMove => {
+    const nag = CLASSIFICATION_NAGS[entry.classification];
+    const remark = nag && entry.bestMove
+      ? ` ${CLASSIFICATION_LABELS[entry.classification]}. ${entry.bestMove} was best.`
+      : '';
+    return {
+      san: entry.move,
+      moveNumber: entry.moveNumber,
+      color: entry.color,
+      nag,
+      // Checkmate ends the game, so there is nothing left to evaluate
+      comment: entry.move.endsWith('#') ? undefined : `[%eval ${formatEval(entry.evalAfter, entry.mateAfter)}]${remark}`,
+      variations: nag && entry.bestLine?.length
+        ? [numberLine(entry.bestLine.slice(0, MAX_VARIATION_PLIES), entry.moveNumber, entry.color)]
+        : undefined,
+    };
+  });
+
+  return writePgn(
+    allHeaders,
+    `Accuracy: White ${formatAccuracy(analysis.accuracy.w)}, Black ${formatAccuracy(analysis.accuracy.b)}`,
+    line
+  );
+}
+
+// A move read from movetext, with its trailing {comment} and the RAVs played instead of it
+interface MovetextToken {
+  san: string;
+  comment?: string;
+  variations: MovetextToken[][];
+}
+
+// Split PGN movetext into the main line's moves; each ( ... ) becomes a variation of the move before it
+function tokenizeMovetext(movetext: string): MovetextToken[] {
+  const mainLine: MovetextToken[] = [];
+  const openLines = [mainLine]; // the line being read is last
+  let index = 0;
+
+  while (index < movetext.length) {
+    const char = movetext[index];
+    const line = openLines[openLines.length - 1];
+    const previous = line[line.length - 1];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = movetext.indexOf('}', index);
+      if (end === -1) {
+        throw new Error(`Unterminated comment starting at character ${index + 1}`);
+      }
+      const comment = movetext.slice(index + 1, end).trim();
+      if (previous && comment) {
+        previous.comment = previous.comment ? `${previous.comment} ${comment}` : comment;
+      }
+      index = end + 1;
+      continue;
+    }
+
+    if (char === ';') {
+      const end = movetext.indexOf('\n', index);
+      index = end === -1 ? movetext.length : end + 1;
+      continue;
+    }
+
+    if (char === '(') {
+      if (!previous) {
+        throw new Error(`Variation at character ${index + 1} has no move to replace`);
+      }
+      const variation: MovetextToken[] = [];
+      previous.variations.push(variation);
+      openLines.push(variation);
+      index++;
+      continue;
+    }
+    if (char === ')') {
+      if (openLines.length === 1) {
+        throw new Error(`Unmatched ")" at character ${index + 1}`);
+      }
+      openLines.pop();
+      index++;
+      continue;
+    }
+
+    const match = movetext.slice(index).match(/^[^\s{}();]+/);
+    const token = match ? match[0] : char;
+    index += token.length;
+
+    if (token.startsWith('$') || RESULT_TOKENS.includes(token)) {
+      continue;
+    }
+
+    // Strip move numbers such as "12." or "12..." and annotation glyphs such as "!?"
+    const san = token.replace(/^\d+\.+/, '').replace(/[!?]+$/, '');
+    if (san) {
+      line.push({ san, variations: [] });
+    }
+  }
+
+  if (openLines.length > 1) {
+    throw new Error('Unterminated variation: missing ")"');
+  }
+
+  return mainLine;
+}
+
+// Parse a PGN, replaying every move (variations included) and reporting exactly which move is malformed
+export function importPgn(pgn: string): PgnImportResult {
+  const headers: Record<string, string> = {};
+  const headerPattern = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]\s*$/;
+  const lines = pgn.replace(/\r\n?/g, '\n').split('\n');
+  let movetextStart = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    if (!line.startsWith('[')) {
+      movetextStart = i;
+      break;
+    }
+    const match = line.match(headerPattern);
+    if (!match) {
+      throw new Error(`Malformed header on line ${i + 1}: ${line}`);
+    }
+    headers[match[1]] = match[2].replace(/\\(.)/g, '$1');
+    movetextStart = i + 1;
+  }
+
+  const startFen = headers.SetUp === '1' && headers.FEN ? headers.FEN : undefined;
+  let game: Chess;
+  try {
+    game = new Chess(startFen);
+  } catch (error) {
+    throw new Error(`Invalid FEN header: ${error instanceof Error ? error.message : startFen}`);
+  }
+
+  const tokens = tokenizeMovetext(lines.slice(movetextStart).join('\n'));
+  let tree = createMoveTree<PgnMove>();
+
+  // Play `line` on from the tree's cursor; the main line is played in `game` itself, each variation
+  // in a position of its own set up from just before the move it replaces
+  const playLine = (line: MovetextToken[], position: Chess) => {
+    line.forEach(({ san, comment, variations }) => {
+      const before = position.fen();
+      const parentId = tree.currentId;
+      const moveNumber = position.moveNumber();
+      const color = position.turn();
+      const label = `${moveNumber}${color === 'w' ? '.' : '...'} ${san}`;
+
+      let move;
+      try {
+        move = position.move(san);
+      } catch {
+        move = null;
+      }
+      if (!move) {
+        throw new Error(
+          `Move ${label}${position === game ? '' : ' (in a variation)'} is not legal for ` +
+          `${color === 'w' ? 'White' : 'Black'} in position ${before}`
+        );
+      }
+
+      tree = addMove(tree, { move: move.san, color: move.color, fen: position.fen(), reasoning: comment });
+      const moveId = tree.currentId;
+      variations.forEach(variation => {
+        tree = selectNode(tree, parentId);
+        playLine(variation, new Chess(before));
+      });
+      tree = selectNode(tree, moveId);
+    });
+  };
+  playLine(tokens, game);
+
+  const moves = getMainLine(tree);
+  return { headers, moves, tree, startFen, game };
+}
+
+// Split a PGN database into its games: a new game starts at a tag section after a blank line
+export function splitPgnGames(pgn: string): string[] {
+  return pgn
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n(?=\s*\[)/)
+    .map(game => game.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,152 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { computePositionFeatures, findPins } from './positionAnalysis';
+import { analyzePosition } from './chessUtils';
+
+const features = (fen: string) => computePositionFeatures(new Chess(fen));
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+// 1. e4 e5 2. Nf3 Nc6
+const OPEN_GAME = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3';
+
+describe('king safety', () => {
+  it('counts shelter pawns up to two ranks ahead and the pieces bearing on the king', () => {
+    // Nh3 checks the king and hits f2, which Bc5 hits too; Black's g6 still shelters g8
+    const { kingSafety } = features('6k1/5p1p/6p1/2b5/8/7n/5PPP/6K1 w - - 0 1');
+
+    expect(kingSafety.w).toEqual({
+      square: 'g1',
+      inCheck: true,
+      shelterPawns: 3,
+      attackersNearKing: 2,
+      attackedZoneSquares: 2,
+    });
+    expect(kingSafety.b).toMatchObject({ square: 'g8', inCheck: false, shelterPawns: 3, attackersNearKing: 0 });
+  });
+
+  it('sees no attackers in the starting position', () => {
+    const { kingSafety } = features(START);
+    expect(kingSafety.w).toMatchObject({ shelterPawns: 3, attackersNearKing: 0, attackedZoneSquares: 0 });
+  });
+});
+
+describe('centre control', () => {
+  it('counts the attackers of d4, d5, e4 and e5 and names their occupants', () => {
+    expect(features(OPEN_GAME).center).toEqual({
+      d4: { white: 1, black: 2, occupant: undefined }, // Nf3 against Nc6 and e5
+      d5: { white: 1, black: 0, occupant: undefined }, // e4
+      e4: { white: 0, black: 0, occupant: 'white pawn' },
+      e5: { white: 1, black: 1, occupant: 'black pawn' }, // Nf3 against Nc6
+    });
+  });
+
+  it('is empty in the starting position', () => {
+    const { center } = features(START);
+    expect(Object.values(center).every(square => square.white === 0 && square.black === 0)).toBe(true);
+  });
+});
+
+describe('mobility', () => {
+  it('counts pseudo-legal moves of pieces, including captures but not own-occupied squares', () => {
+    const { mobility } = features(OPEN_GAME);
+    // Nf3: d4, e5 (capture), g5, h4 and g1
+    expect(mobility.w.pieces).toContainEqual({ square: 'f3', type: 'n', moves: 5 });
+    // Bf1 opened by e4: e2, d3, c4, b5, a6
+    expect(mobility.w.pieces).toContainEqual({ square: 'f1', type: 'b', moves: 5 });
+  });
+
+  it('leaves out pawns and kings', () => {
+    const { mobility } = features(START);
+    expect(mobility.w.total).toBe(4); // two knight moves each
+    expect(mobility.w.pieces.some(piece => piece.type === 'p' || piece.type === 'k')).toBe(false);
+  });
+});
+
+describe('files and pawn structure', () => {
+  // White c4-d3-e4 against Black's lone e5: d3 is backward, c4 passed, e5 isolated
+  const BACKWARD_D3 = '4k3/8/8/4p3/2P1P3/3P4/8/4K3 w - - 0 1';
+
+  it('finds open and half-open files', () => {
+    expect(features(BACKWARD_D3).files).toEqual({
+      open: ['a', 'b', 'f', 'g', 'h'],
+      halfOpen: { w: [], b: ['c', 'd'] },
+    });
+    expect(features(START).files).toEqual({ open: [], halfOpen: { w: [], b: [] } });
+  });
+
+  it('finds backward, passed and isolated pawns', () => {
+    const { pawns } = features(BACKWARD_D3);
+    expect(pawns.w).toEqual({ isolated: [], doubled: [], passed: ['c4'], backward: ['d3'] });
+    expect(pawns.b).toEqual({ isolated: ['e5'], doubled: [], passed: [], backward: [] });
+  });
+
+  it('does not call a pawn backward when its stop square is not guarded', () => {
+    expect(features('4k3/8/8/8/2P1P3/3P4/8/4K3 w - - 0 1').pawns.w.backward).toEqual([]);
+  });
+
+  it('finds doubled and isolated pawns', () => {
+    const { pawns } = features('4k3/p7/8/3p4/8/2P5/P1P5/4K3 w - - 0 1');
+    expect(pawns.w.doubled).toEqual(['c']);
+    expect([...pawns.w.isolated].sort()).toEqual(['a2', 'c2', 'c3']);
+    expect(pawns.w.passed).toEqual([]); // a7 and d5 stand in front of every white pawn
+  });
+
+  it('finds nothing wrong with the starting pawns', () => {
+    expect(features(START).pawns.w).toEqual({ isolated: [], doubled: [], passed: [], backward: [] });
+  });
+});
+
+describe('hanging pieces', () => {
+  it('flags an undefended attacked piece', () => {
+    expect(features('4k3/8/8/3n4/8/8/8/3RK3 w - - 0 1').hanging).toEqual([
+      { square: 'd5', type: 'n', color: 'b', attackers: 1, defenders: 0, reason: 'undefended' },
+    ]);
+  });
+
+  it('flags a defended piece attacked by a cheaper one', () => {
+    expect(features('4k3/8/4p3/3n4/2P5/8/8/4K3 w - - 0 1').hanging).toEqual([
+      { square: 'd5', type: 'n', color: 'b', attackers: 1, defenders: 1, reason: 'attacked by a cheaper piece' },
+    ]);
+  });
+
+  it('ignores a defended piece attacked only by dearer ones', () => {
+    expect(features('4k3/8/4p3/3n4/8/8/8/3RK3 w - - 0 1').hanging).toEqual([]);
+  });
+});
+
+describe('findPins', () => {
+  it('finds an absolute pin against the king', () => {
+    expect(findPins(new Chess('4k3/4r3/8/8/8/8/4B3/4K3 w - - 0 1'))).toEqual([
+      { pinner: 'e7', pinned: 'e2', target: 'e1', color: 'w', absolute: true },
+    ]);
+  });
+
+  it('finds a relative pin against the queen', () => {
+    expect(findPins(new Chess('4k3/3q4/2n5/1B6/8/8/8/4K3 b - - 0 1'))).toEqual([
+      { pinner: 'b5', pinned: 'c6', target: 'd7', color: 'b', absolute: false },
+    ]);
+  });
+
+  it('ignores a queen lined up with a queen, and pieces that cannot slide along the line', () => {
+    expect(findPins(new Chess('4q2k/8/8/4n3/8/8/8/K3Q3 w - - 0 1'))).toEqual([]);
+    // The bishop on e7 can't pin along the file
+    expect(findPins(new Chess('4k3/4b3/8/8/8/8/4N3/4K3 w - - 0 1'))).toEqual([]);
+  });
+});
+
+describe('analyzePosition', () => {
+  it('builds the prompt-ready summary', () => {
+    expect(analyzePosition(new Chess(OPEN_GAME)).summary).toBe([
+      // The e-pawns have left the kings' shelter
+      '- King Safety: White king e1: 2 shelter pawns, 0 enemy pieces bearing on 0 of its squares; ' +
+        'Black king e8: 2 shelter pawns, 0 enemy pieces bearing on 0 of its squares',
+      '- Center Control: Centre control is even (3-3): d4 W1/B2, d5 W1/B0, e4 W0/B0 (white pawn), e5 W1/B1 (black pawn)',
+      '- Piece Activity: White mobility 14 (most active Nf3 with 5, least active Bc1 with 0); ' +
+        'Black mobility 18 (most active Bf8 with 5, least active Rh8 with 0)',
+      '- Pawn Structure: White - isolated: none, doubled files: none, passed: none, backward: none. ' +
+        'Black - isolated: none, doubled files: none, passed: none, backward: none. ' +
+        'Open files: none; half-open for White: none, for Black: none',
+      '- Tactical Opportunities: No hanging pieces or pins',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,374 @@
+import type { Chess, Color, PieceSymbol, Square } from 'chess.js';
+
+export interface KingSafety {
+  square: Square;
+  inCheck: boolean;
+  shelterPawns: number; // own pawns on the king's and neighbouring files, one or two ranks ahead
+  attackersNearKing: number; // enemy pieces hitting the king or a square next to it
+  attackedZoneSquares: number;
+}
+
+export interface CenterSquareControl {
+  white: number;
+  black: number;
+  occupant?: string;
+}
+
+export interface PieceMobility {
+  square: Square;
+  type: PieceSymbol;
+  moves: number;
+}
+
+export interface PawnStructure {
+  isolated: Square[];
+  doubled: string[]; // files
+  passed: Square[];
+  backward: Square[];
+}
+
+export interface HangingPiece {
+  square: Square;
+  type: PieceSymbol;
+  color: Color;
+  attackers: number;
+  defenders: number;
+  reason: 'undefended' | 'attacked by a cheaper piece';
+}
+
+export interface Pin {
+  pinner: Square;
+  pinned: Square;
+  target: Square; // the king (absolute pin) or queen behind the pinned piece
+  color: Color; // side whose piece is pinned
+  absolute: boolean;
+}
+
+export interface PositionFeatures {
+  kingSafety: Record<Color, KingSafety | null>;
+  center: Record<'d4' | 'd5' | 'e4' | 'e5', CenterSquareControl>;
+  mobility: Record<Color, { total: number; pieces: PieceMobility[] }>;
+  files: { open: string[]; halfOpen: Record<Color, string[]> };
+  pawns: Record<Color, PawnStructure>;
+  hanging: HangingPiece[];
+  pins: Pin[];
+}
+
+export interface BoardPiece {
+  type: PieceSymbol;
+  color: Color;
+  square: Square;
+}
+
+const FILES = 'abcdefgh';
+const CENTER_SQUARES = ['d4', 'd5', 'e4', 'e5'] as const;
+export const PIECE_VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+export const PIECE_NAMES: Record<PieceSymbol, string> = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king'
+};
+const KNIGHT_STEPS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const KING_STEPS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+export const DIAGONALS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+export const ORTHOGONALS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+export const opposite = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+const sideName = (color: Color) => (color === 'w' ? 'White' : 'Black');
+export const toSquare = (file: number, rank: number) => `${FILES[file]}${rank + 1}` as Square;
+export const fileOf = (square: Square) => FILES.indexOf(square[0]);
+export const rankOf = (square: Square) => Number(square[1]) - 1;
+export const onBoard = (file: number, rank: number) => file >= 0 && file < 8 && rank >= 0 && rank < 8;
+
+export function listPieces(game: Chess): BoardPiece[] {
+  return game.board().flat().filter((piece): piece is BoardPiece => piece !== null);
+}
+
+// Squares a piece could move to ignoring pins and checks, excluding ones held by its own side
+function pseudoMobility(game: Chess, piece: BoardPiece): number {
+  const file = fileOf(piece.square);
+  const rank = rankOf(piece.square);
+  let count = 0;
+
+  const visit = (targetFile: number, targetRank: number) => {
+    const occupant = game.get(toSquare(targetFile, targetRank));
+    if (!occupant || occupant.color !== piece.color) count++;
+    return !occupant;
+  };
+
+  if (piece.type === 'n' || piece.type === 'k') {
+    for (const [df, dr] of piece.type === 'n' ? KNIGHT_STEPS : KING_STEPS) {
+      if (onBoard(file + df, rank + dr)) visit(file + df, rank + dr);
+    }
+    return count;
+  }
+
+  const directions = piece.type === 'b' ? DIAGONALS : piece.type === 'r' ? ORTHOGONALS : [...DIAGONALS, ...ORTHOGONALS];
+  for (const [df, dr] of directions) {
+    let f = file + df;
+    let r = rank + dr;
+    while (onBoard(f, r) && visit(f, r)) {
+      f += df;
+      r += dr;
+    }
+  }
+  return count;
+}
+
+function analyzeKingSafety(game: Chess, color: Color): KingSafety | null {
+  const [square] = game.findPiece({ type: 'k', color });
+  if (!square) return null;
+
+  const file = fileOf(square);
+  const rank = rankOf(square);
+  const forward = color === 'w' ? 1 : -1;
+  const enemy = opposite(color);
+
+  let shelterPawns = 0;
+  for (let df = -1; df <= 1; df++) {
+    for (const distance of [1, 2]) {
+      const f = file + df;
+      const r = rank + forward * distance;
+      if (!onBoard(f, r)) continue;
+      const piece = game.get(toSquare(f, r));
+      if (piece && piece.type === 'p' && piece.color === color) shelterPawns++;
+    }
+  }
+
+  const zone = [square, ...KING_STEPS
+    .filter(([df, dr]) => onBoard(file + df, rank + dr))
+    .map(([df, dr]) => toSquare(file + df, rank + dr))];
+  const attackers = new Set<Square>();
+  let attackedZoneSquares = 0;
+  for (const zoneSquare of zone) {
+    const zoneAttackers = game.attackers(zoneSquare, enemy);
+    if (zoneAttackers.length > 0) attackedZoneSquares++;
+    zoneAttackers.forEach(attacker => attackers.add(attacker));
+  }
+
+  return {
+    square,
+    inCheck: game.isAttacked(square, enemy),
+    shelterPawns,
+    attackersNearKing: attackers.size,
+    attackedZoneSquares,
+  };
+}
+
+function analyzePawns(pawns: BoardPiece[], color: Color): PawnStructure {
+  const own = pawns.filter(pawn => pawn.color === color);
+  const enemy = pawns.filter(pawn => pawn.color !== color);
+  const forward = color === 'w' ? 1 : -1;
+  const filesWithPawns = (list: BoardPiece[]) => list.map(pawn => fileOf(pawn.square));
+
+  const ownFiles = filesWithPawns(own);
+  const doubled = FILES.split('').filter((_, file) => ownFiles.filter(f => f === file).length > 1);
+
+  const isolated: Square[] = [];
+  const passed: Square[] = [];
+  const backward: Square[] = [];
+
+  for (const pawn of own) {
+    const file = fileOf(pawn.square);
+    const rank = rankOf(pawn.square);
+    const neighbours = own.filter(other => Math.abs(fileOf(other.square) - file) === 1);
+
+    if (neighbours.length === 0) {
+      isolated.push(pawn.square);
+    }
+
+    const blockers = enemy.filter(other =>
+      Math.abs(fileOf(other.square) - file) <= 1 && (rankOf(other.square) - rank) * forward > 0
+    );
+    if (blockers.length === 0) {
+      passed.push(pawn.square);
+    }
+
+    // Backward: neighbours exist but are all further advanced, and the stop square is held by an enemy pawn
+    if (neighbours.length > 0 && neighbours.every(other => (rankOf(other.square) - rank) * forward > 0)) {
+      const stopRank = rank + forward;
+      const stopGuarded = enemy.some(other =>
+        Math.abs(fileOf(other.square) - file) === 1 && rankOf(other.square) === stopRank + forward
+      );
+      if (stopGuarded) backward.push(pawn.square);
+    }
+  }
+
+  return { isolated, doubled, passed, backward };
+}
+
+function findHangingPieces(game: Chess, pieces: BoardPiece[]): HangingPiece[] {
+  const hanging: HangingPiece[] = [];
+  for (const piece of pieces) {
+    if (piece.type === 'k') continue;
+    const attackers = game.attackers(piece.square, opposite(piece.color));
+    if (attackers.length === 0) continue;
+
+    const defenders = game.attackers(piece.square, piece.color);
+    const cheapestAttacker = Math.min(...attackers.map(square => PIECE_VALUES[game.get(square)!.type]));
+
+    if (defenders.length === 0) {
+      hanging.push({ ...piece, attackers: attackers.length, defenders: 0, reason: 'undefended' });
+    } else if (cheapestAttacker < PIECE_VALUES[piece.type]) {
+      hanging.push({
+        ...piece,
+        attackers: attackers.length,
+        defenders: defenders.length,
+        reason: 'attacked by a cheaper piece'
+      });
+    }
+  }
+  return hanging;
+}
+
+// Pins against each king (absolute) and each queen (relative)
+export function findPins(game: Chess, pieces: BoardPiece[] = listPieces(game)): Pin[] {
+  const pins: Pin[] = [];
+  const targets = pieces.filter(piece => piece.type === 'k' || piece.type === 'q');
+
+  for (const target of targets) {
+    const file = fileOf(target.square);
+    const rank = rankOf(target.square);
+
+    for (const [df, dr] of [...DIAGONALS, ...ORTHOGONALS]) {
+      const diagonal = df !== 0 && dr !== 0;
+      let candidate: Square | null = null;
+      let f = file + df;
+      let r = rank + dr;
+
+      while (onBoard(f, r)) {
+        const square = toSquare(f, r);
+        const piece = game.get(square);
+        if (piece) {
+          if (!candidate) {
+            if (piece.color !== target.color || piece.type === 'k') break;
+            candidate = square;
+          } else {
+            const slides = piece.type === 'q' || piece.type === (diagonal ? 'b' : 'r');
+            // A queen can't usefully pin something to a queen
+            if (piece.color !== target.color && slides && !(target.type === 'q' && piece.type === 'q')) {
+              pins.push({
+                pinner: square,
+                pinned: candidate,
+                target: target.square,
+                color: target.color,
+                absolute: target.type === 'k',
+              });
+            }
+            break;
+          }
+        }
+        f += df;
+        r += dr;
+      }
+    }
+  }
+  return pins;
+}
+
+// Concrete static features of the position for both sides
+export function computePositionFeatures(game: Chess): PositionFeatures {
+  const pieces = listPieces(game);
+  const pawns = pieces.filter(piece => piece.type === 'p');
+
+  const center = Object.fromEntries(CENTER_SQUARES.map(square => {
+    const occupant = game.get(square);
+    return [square, {
+      white: game.attackers(square, 'w').length,
+      black: game.attackers(square, 'b').length,
+      occupant: occupant ? `${sideName(occupant.color).toLowerCase()} ${PIECE_NAMES[occupant.type]}` : undefined,
+    }];
+  })) as PositionFeatures['center'];
+
+  const mobilityFor = (color: Color) => {
+    const list = pieces
+      .filter(piece => piece.color === color && piece.type !== 'p' && piece.type !== 'k')
+      .map(piece => ({ square: piece.square, type: piece.type, moves: pseudoMobility(game, piece) }));
+    return { total: list.reduce((sum, piece) => sum + piece.moves, 0), pieces: list };
+  };
+
+  const open: string[] = [];
+  const halfOpen: Record<Color, string[]> = { w: [], b: [] };
+  for (let file = 0; file < 8; file++) {
+    const onFile = pawns.filter(pawn => fileOf(pawn.square) === file);
+    const white = onFile.some(pawn => pawn.color === 'w');
+    const black = onFile.some(pawn => pawn.color === 'b');
+    if (!white && !black) open.push(FILES[file]);
+    else if (!white) halfOpen.w.push(FILES[file]);
+    else if (!black) halfOpen.b.push(FILES[file]);
+  }
+
+  return {
+    kingSafety: { w: analyzeKingSafety(game, 'w'), b: analyzeKingSafety(game, 'b') },
+    center,
+    mobility: { w: mobilityFor('w'), b: mobilityFor('b') },
+    files: { open, halfOpen },
+    pawns: { w: analyzePawns(pawns, 'w'), b: analyzePawns(pawns, 'b') },
+    hanging: findHangingPieces(game, pieces),
+    pins: findPins(game, pieces),
+  };
+}
+
+const listOrNone = (items: string[]) => (items.length > 0 ? items.join(', ') : 'none');
+
+export function describeKingSafety(features: PositionFeatures): string {
+  return (['w', 'b'] as Color[]).map(color => {
+    const king = features.kingSafety[color];
+    if (!king) return `${sideName(color)} has no king`;
+    return `${sideName(color)} king ${king.square}${king.inCheck ? ' (IN CHECK)' : ''}: ` +
+      `${king.shelterPawns} shelter pawns, ${king.attackersNearKing} enemy pieces bearing on ` +
+      `${king.attackedZoneSquares} of its squares`;
+  }).join('; ');
+}
+
+export function describeCenterControl(features: PositionFeatures): string {
+  let white = 0;
+  let black = 0;
+  const squares = CENTER_SQUARES.map(square => {
+    const control = features.center[square];
+    white += control.white;
+    black += control.black;
+    return `${square} W${control.white}/B${control.black}${control.occupant ? ` (${control.occupant})` : ''}`;
+  });
+  const leader = white === black ? 'Centre control is even' : `${white > black ? 'White' : 'Black'} controls the centre`;
+  return `${leader} (${white}-${black}): ${squares.join(', ')}`;
+}
+
+export function describePieceActivity(features: PositionFeatures): string {
+  return (['w', 'b'] as Color[]).map(color => {
+    const { total, pieces } = features.mobility[color];
+    if (pieces.length === 0) return `${sideName(color)}: no pieces besides king and pawns`;
+    const sorted = [...pieces].sort((a, b) => b.moves - a.moves);
+    const best = sorted[0];
+    const worst = sorted[sorted.length - 1];
+    return `${sideName(color)} mobility ${total} (most active ${best.type.toUpperCase()}${best.square} with ${best.moves}, ` +
+      `least active ${worst.type.toUpperCase()}${worst.square} with ${worst.moves})`;
+  }).join('; ');
+}
+
+export function describePawnStructure(features: PositionFeatures): string {
+  const sides = (['w', 'b'] as Color[]).map(color => {
+    const pawns = features.pawns[color];
+    return `${sideName(color)} - isolated: ${listOrNone(pawns.isolated)}, doubled files: ${listOrNone(pawns.doubled)}, ` +
+      `passed: ${listOrNone(pawns.passed)}, backward: ${listOrNone(pawns.backward)}`;
+  });
+  const { open, halfOpen } = features.files;
+  return `${sides.join('. ')}. Open files: ${listOrNone(open)}; half-open for White: ${listOrNone(halfOpen.w)}, ` +
+    `for Black: ${listOrNone(halfOpen.b)}`;
+}
+
+export function describeTactics(game: Chess, features: PositionFeatures): string[] {
+  const describePiece = (square: Square) => {
+    const piece = game.get(square)!;
+    return `${sideName(piece.color).toLowerCase()} ${PIECE_NAMES[piece.type]} on ${square}`;
+  };
+
+  const notes = [
+    ...features.hanging.map(piece =>
+      `Loose ${describePiece(piece.square)} (${piece.reason}; ${piece.attackers} attackers, ${piece.defenders} defenders)`
+    ),
+    ...features.pins.map(pin =>
+      `${describePiece(pin.pinner)} pins the ${describePiece(pin.pinned)} to the ${PIECE_NAMES[game.get(pin.target)!.type]}` +
+      `${pin.absolute ? ' (absolute pin)' : ''}`
+    ),
+  ];
+  return notes.length > 0 ? notes : ['No hanging pieces or pins'];
+}
@@ -0,0 +1,47 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { staticExchangeEval } from './staticExchange';
+
+// What `san` nets from `fen` once the exchange on its target square is over
+const see = (fen: string, san: string) => {
+  const game = new Chess(fen);
+  return staticExchangeEval(game, new Chess(fen).move(san));
+};
+
+describe('staticExchangeEval', () => {
+  it('wins the whole piece when nothing recaptures', () => {
+    expect(see('4k3/8/8/n7/8/8/8/R3K3 w - - 0 1', 'Rxa5')).toBe(3);
+  });
+
+  it('counts the recapture on a defended square', () => {
+    // b6 takes the queen back
+    expect(see('4k3/8/1p6/p7/8/8/8/Q3K3 w - - 0 1', 'Qxa5')).toBe(-8);
+    // A pawn taking a defended knight still wins the difference
+    expect(see('4k3/8/8/3n4/4P3/8/8/4K3 w - - 0 1', 'exd5')).toBe(3);
+    expect(see('4k3/8/4p3/3n4/4P3/8/8/4K3 w - - 0 1', 'exd5')).toBe(2);
+  });
+
+  it('brings in an x-ray attacker once the piece in front has captured', () => {
+    // Ra1 backs up Ra2 through it, so Rxa5 Rxa5 Rxa5 keeps the knight
+    expect(see('r3k3/8/8/n7/8/8/R7/R3K3 w - - 0 1', 'Rxa5')).toBe(3);
+    expect(see('r3k3/8/8/n7/8/8/R7/4K3 w - - 0 1', 'Rxa5')).toBe(-2);
+  });
+
+  it('lets the king recapture only on an undefended square', () => {
+    expect(see('8/8/8/3k4/4p3/8/5N2/4K3 w - - 0 1', 'Nxe4')).toBe(-2);
+    // d3 guards e4, so Kxe4 would be illegal
+    expect(see('8/8/8/3k4/4p3/3P4/5N2/4K3 w - - 0 1', 'Nxe4')).toBe(1);
+  });
+
+  it('removes the pawn taken en passant', () => {
+    expect(see('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1', 'exd6')).toBe(1);
+    expect(see('4k3/2p5/8/3pP3/8/8/8/4K3 w - d6 0 1', 'exd6')).toBe(0);
+  });
+
+  it('counts the promotion gain, and the new piece when it is taken back', () => {
+    expect(see('7k/P7/8/8/8/8/8/4K3 w - - 0 1', 'a8=Q+')).toBe(8);
+    // Rxa8 leaves White a pawn down
+    expect(see('7r/P7/8/8/8/8/8/k3K3 w - - 0 1', 'a8=Q')).toBe(-1);
+    expect(see('r6k/1P6/8/8/8/8/8/4K3 w - - 0 1', 'bxa8=Q+')).toBe(13);
+  });
+});
@@ -0,0 +1,50 @@
+import { Chess, type Color, type Move, type PieceSymbol, type Square } from 'chess.js';
+import { PIECE_VALUES, opposite } from './positionAnalysis';
+
+// Cheapest piece of `color` attacking `square`; recomputed after every capture so x-rays join in
+function leastValuableAttacker(game: Chess, square: Square, color: Color): { square: Square; type: PieceSymbol } | null {
+  let best: { square: Square; type: PieceSymbol } | null = null;
+  for (const attacker of game.attackers(square, color)) {
+    const type = game.get(attacker)!.type;
+    // The king may only recapture when nothing can take it back
+    if (type === 'k' && game.attackers(square, opposite(color)).length > 0) continue;
+    if (!best || PIECE_VALUES[type] < PIECE_VALUES[best.type]) {
+      best = { square: attacker, type };
+    }
+  }
+  return best;
+}
+
+// Net material (in pawns) that `move` wins or loses once the exchange on its target square is played
+// out with least-valuable-attacker ordering, each side free to stop capturing when it stops paying
+export function staticExchangeEval(game: Chess, move: Move): number {
+  const board = new Chess(game.fen());
+  const target = move.to;
+  const placed = move.promotion ?? move.piece;
+
+  board.remove(move.from);
+  if (move.isEnPassant()) {
+    board.remove(`${move.to[0]}${move.from[1]}` as Square);
+  }
+  board.put({ type: placed, color: move.color }, target);
+
+  const gains = [
+    (move.captured ? PIECE_VALUES[move.captured] : 0) + (move.promotion ? PIECE_VALUES[move.promotion] - PIECE_VALUES.p : 0)
+  ];
+  let onSquare = PIECE_VALUES[placed];
+  let side = opposite(move.color);
+
+  for (let attacker = leastValuableAttacker(board, target, side); attacker; attacker = leastValuableAttacker(board, target, side)) {
+    gains.push(onSquare - gains[gains.length - 1]);
+    board.remove(attacker.square);
+    board.put({ type: attacker.type, color: side }, target);
+    onSquare = PIECE_VALUES[attacker.type];
+    side = opposite(side);
+  }
+
+  // Unwind: at every step the side to capture picks the better of capturing or standing pat
+  for (let depth = gains.length - 1; depth > 0; depth--) {
+    gains[depth - 1] = -Math.max(-gains[depth - 1], gains[depth]);
+  }
+  return gains[0] || 0; // an even trade unwinds to -0
+}
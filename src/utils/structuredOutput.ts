@@ -0,0 +1,186 @@
+import type { ResponseFormatJSONSchema } from 'openai/resources/shared';
+
+// The subset of JSON Schema that OpenAI strict structured outputs accept and we validate against
+export type JsonSchema =
+  | { type: 'string'; enum?: string[]; description?: string }
+  | { type: 'array'; items: JsonSchema; description?: string }
+  | {
+    type: 'object';
+    properties: Record<string, JsonSchema>;
+    required: string[];
+    additionalProperties: false;
+    description?: string;
+  };
+
+export interface StructuredOutputMetadata {
+  responseFormat: string; // json_schema name the model was held to
+  attempts: number;
+  schemaViolations: string[]; // every violation seen, prefixed with the attempt number
+  degraded: boolean; // true when no attempt produced a valid response
+}
+
+export interface StructuredMoveResponse {
+  move: string;
+  reasoning: string;
+}
+
+export interface StructuredStrategyResponse {
+  strategy: {
+    primaryGoal: string;
+    tacticalPatterns: string[];
+    pieceCoordination: string;
+    keySquares: string[];
+    pawnStructure: string;
+    opponentThreats: string;
+    movePriorities: string[];
+  };
+  reasoning: string;
+}
+
+const text = (description: string): JsonSchema => ({ type: 'string', description });
+const list = (description: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+
+// The move must be one of the SAN strings offered to the model
+export function buildMoveSchema(moves: string[]): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      move: { type: 'string', enum: moves, description: 'Chosen move, copied exactly from the list of available moves' },
+      reasoning: text('Analysis considering the game phase, historical context and position characteristics'),
+    },
+    required: ['move', 'reasoning'],
+    additionalProperties: false,
+  };
+}
+
+export const STRATEGY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    strategy: {
+      type: 'object',
+      properties: {
+        primaryGoal: text('Main strategic objective for the next few moves'),
+        tacticalPatterns: list('Specific tactical patterns to look for'),
+        pieceCoordination: text('How pieces should work together'),
+        keySquares: list('Key squares in algebraic notation, e.g. e4'),
+        pawnStructure: text('Pawn structure goals and weaknesses to target'),
+        opponentThreats: text('What to watch out for from the opponent'),
+        movePriorities: list('Specific moves or ideas in priority order'),
+      },
+      required: [
+        'primaryGoal',
+        'tacticalPatterns',
+        'pieceCoordination',
+        'keySquares',
+        'pawnStructure',
+        'opponentThreats',
+        'movePriorities'
+      ],
+      additionalProperties: false,
+    },
+    reasoning: text('Why this strategy fits the current position'),
+  },
+  required: ['strategy', 'reasoning'],
+  additionalProperties: false,
+};
+
+// `response_format` for chat.completions.create holding the model to `schema`
+export function jsonSchemaFormat(name: string, schema: JsonSchema): ResponseFormatJSONSchema {
+  return { type: 'json_schema', json_schema: { name, strict: true, schema } };
+}
+
+// Check a parsed value against a schema; returns one message per violation
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} "${value}" is not one of the allowed values`];
+      return [];
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return value.flatMap((item, index) => validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      const missing = schema.required
+        .filter(key => !(key in record))
+        .map(key => `${path}.${key} is required`);
+      const extra = Object.keys(record)
+        .filter(key => !(key in schema.properties))
+        .map(key => `${path}.${key} is not allowed`);
+      const nested = Object.entries(schema.properties)
+        .filter(([key]) => key in record)
+        .flatMap(([key, property]) => validateAgainstSchema(record[key], property, `${path}.${key}`));
+      return [...missing, ...extra, ...nested];
+    }
+  }
+}
+
+// Parse and validate a structured completion message
+export function parseStructuredResponse<T>(
+  message: { content: string | null; refusal?: string | null } | undefined,
+  schema: JsonSchema
+): { data: T | null; violations: string[] } {
+  if (message?.refusal) {
+    return { data: null, violations: [`model refused: ${message.refusal}`] };
+  }
+  if (!message?.content) {
+    return { data: null, violations: ['empty response'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message.content);
+  } catch {
+    return { data: null, violations: ['response is not valid JSON'] };
+  }
+
+  const violations = validateAgainstSchema(parsed, schema);
+  return { data: violations.length === 0 ? parsed as T : null, violations };
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+// Feed a JSON reply in as it streams and get back the decoded text of one string field as it arrives
+export function streamJsonStringField(field: string, onText: (text: string) => void): (delta: string) => void {
+  const opener = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = '';
+  let position = -1; // next unread character of the field's value
+  let finished = false;
+
+  return delta => {
+    if (finished) return;
+    buffer += delta;
+    if (position < 0) {
+      const match = opener.exec(buffer);
+      if (!match) return;
+      position = match.index + match[0].length;
+    }
+
+    let text = '';
+    while (position < buffer.length) {
+      const char = buffer[position];
+      if (char === '"') {
+        finished = true;
+        break;
+      }
+      if (char !== '\\') {
+        text += char;
+        position++;
+        continue;
+      }
+
+      // Wait for the rest of an escape sequence before decoding it
+      const escaped = buffer[position + 1];
+      if (escaped === undefined || (escaped === 'u' && position + 6 > buffer.length)) break;
+      if (escaped === 'u') {
+        text += String.fromCharCode(parseInt(buffer.slice(position + 2, position + 6), 16));
+        position += 6;
+      } else {
+        text += JSON_ESCAPES[escaped] ?? escaped;
+        position += 2;
+      }
+    }
+    if (text) onText(text);
+  };
+}
@@ -0,0 +1,136 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { detectTacticalMotifs, type TacticalMotifType } from './tacticsDetector';
+
+// The motifs of one type that `san` creates from `fen`
+const motifs = (fen: string, san: string, type: TacticalMotifType) => {
+  const before = new Chess(fen);
+  const after = new Chess(fen);
+  const move = after.move(san);
+  return detectTacticalMotifs(before, after, move).filter(motif => motif.type === type);
+};
+
+describe('forks', () => {
+  it('finds a knight forking queen and rook', () => {
+    expect(motifs('k7/1q3r2/8/8/4N3/8/8/4K3 w - - 0 1', 'Nd6', 'fork')).toEqual([
+      { type: 'fork', label: 'FORKS QUEEN AND ROOK', score: 30, squares: ['b7', 'f7'] },
+    ]);
+  });
+
+  it('adds the king-fork bonus when the king is one of the targets', () => {
+    expect(motifs('r3k3/8/8/1N6/8/8/8/4K3 w - - 0 1', 'Nc7+', 'fork')).toEqual([
+      { type: 'fork', label: 'FORKS ROOK AND KING', score: 50, squares: ['a8', 'e8'] },
+    ]);
+  });
+
+  it('does not count pawns as fork targets', () => {
+    expect(motifs('7k/1p3p2/8/8/4N3/8/8/4K3 w - - 0 1', 'Nd6', 'fork')).toEqual([]);
+  });
+
+  it('does not count a forker that can be taken for free', () => {
+    // e7 takes the knight, and nothing of White's guards d6
+    expect(motifs('k7/1q2pr2/8/8/4N3/8/8/4K3 w - - 0 1', 'Nd6', 'fork')).toEqual([]);
+  });
+});
+
+describe('pins', () => {
+  it('finds an absolute pin with its bonus', () => {
+    expect(motifs('4k3/8/2n5/8/8/3B4/8/4K3 w - - 0 1', 'Bb5', 'pin')).toEqual([
+      { type: 'pin', label: 'PINS KNIGHT TO KING', score: 25, squares: ['c6', 'e8'] },
+    ]);
+  });
+
+  it('finds a relative pin against the queen', () => {
+    expect(motifs('3q3k/8/8/3n4/8/8/8/R3K3 w - - 0 1', 'Rd1', 'pin')).toEqual([
+      { type: 'pin', label: 'PINS KNIGHT TO QUEEN', score: 15, squares: ['d5', 'd8'] },
+    ]);
+  });
+
+  it('does not report a pin that was already on the board', () => {
+    expect(motifs('4k3/8/2n5/1B6/8/8/8/4K2R w - - 0 1', 'Rh2', 'pin')).toEqual([]);
+  });
+});
+
+describe('skewers', () => {
+  it('finds a rook skewering king to queen', () => {
+    expect(motifs('8/8/8/4k2q/8/8/8/R3K3 w - - 0 1', 'Ra5+', 'skewer')).toEqual([
+      { type: 'skewer', label: 'SKEWERS KING TO QUEEN', score: 25, squares: ['e5', 'h5'] },
+    ]);
+  });
+
+  it('calls a cheaper piece in front of a dearer one a pin, not a skewer', () => {
+    const fen = '7k/8/8/4n2q/8/8/8/R3K3 w - - 0 1';
+    expect(motifs(fen, 'Ra5', 'skewer')).toEqual([]);
+    expect(motifs(fen, 'Ra5', 'pin')).toHaveLength(1);
+  });
+});
+
+describe('discovered attacks', () => {
+  it('finds a bishop uncovered against the queen', () => {
+    expect(motifs('k7/8/8/6q1/8/8/3N4/2B1K3 w - - 0 1', 'Nb3', 'discovered-attack')).toEqual([
+      { type: 'discovered-attack', label: 'DISCOVERED ATTACK ON QUEEN', score: 15, squares: ['g5'] },
+    ]);
+  });
+
+  it('ignores an uncovered attack on a defended piece of equal value', () => {
+    expect(motifs('k7/8/5p2/6n1/8/8/3N4/2B1K3 w - - 0 1', 'Nb3', 'discovered-attack')).toEqual([]);
+  });
+});
+
+describe('discovered and double checks', () => {
+  // The knight on e4 stands between Re1 and the king on e8
+  const BATTERY = '4k3/8/8/8/4N3/8/8/K3R3 w - - 0 1';
+
+  it('finds a discovered check', () => {
+    expect(motifs(BATTERY, 'Nc3+', 'discovered-check')).toEqual([
+      { type: 'discovered-check', label: 'DISCOVERED CHECK', score: 25, squares: ['e8'] },
+    ]);
+  });
+
+  it('scores a double check twice', () => {
+    expect(motifs(BATTERY, 'Nf6+', 'discovered-check')).toEqual([
+      { type: 'discovered-check', label: 'DOUBLE CHECK', score: 50, squares: ['e8'] },
+    ]);
+  });
+
+  it('does not call a direct check discovered', () => {
+    expect(motifs('4k3/8/8/8/4N3/8/8/R3K3 w - - 0 1', 'Nf6+', 'discovered-check')).toEqual([]);
+  });
+});
+
+describe('overloaded defenders', () => {
+  it('finds a queen left as the only guard of two attacked pieces', () => {
+    // Rd1 already hits the knight; h4 hits the bishop too, and the queen guards both
+    expect(motifs('3q3k/8/8/3n2b1/8/7P/8/K2R4 w - - 0 1', 'h4', 'overloaded-defender')).toEqual([
+      {
+        type: 'overloaded-defender',
+        label: 'OVERLOADS QUEEN (DEFENDS KNIGHT AND BISHOP)',
+        score: 15,
+        squares: ['d8', 'd5', 'g5'],
+      },
+    ]);
+  });
+
+  it('ignores a defender with help', () => {
+    // e6 guards the knight as well
+    expect(motifs('3q3k/8/4p3/3n2b1/8/7P/8/K2R4 w - - 0 1', 'h4', 'overloaded-defender')).toEqual([]);
+  });
+});
+
+describe('trapped pieces', () => {
+  // Rg1 hits the knight on h1, whose squares f2 and g3 are covered by the king and the h2 pawn
+  it('finds a knight with no safe square', () => {
+    expect(motifs('k7/8/8/8/8/8/4K2P/2R4n w - - 0 1', 'Rg1', 'trapped-piece')).toEqual([
+      { type: 'trapped-piece', label: 'TRAPS KNIGHT', score: 30, squares: ['h1'] },
+    ]);
+  });
+
+  it('ignores a piece that can still escape', () => {
+    expect(motifs('k7/8/8/8/8/8/7P/K1R4n w - - 0 1', 'Rg1', 'trapped-piece')).toEqual([]);
+  });
+
+  it('does not look for trapped pieces when the move gives check', () => {
+    // The same trap, but Rg1 also checks the king on g8
+    expect(motifs('6k1/8/8/8/8/8/4K2P/2R4n w - - 0 1', 'Rg1+', 'trapped-piece')).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+import type { Chess, Color, Move, PieceSymbol, Square } from 'chess.js';
+import {
+  DIAGONALS,
+  ORTHOGONALS,
+  PIECE_NAMES,
+  PIECE_VALUES,
+  fileOf,
+  findPins,
+  listPieces,
+  onBoard,
+  opposite,
+  rankOf,
+  toSquare,
+  type BoardPiece,
+  type Pin
+} from './positionAnalysis';
+
+export type TacticalMotifType =
+  | 'fork'
+  | 'pin'
+  | 'skewer'
+  | 'discovered-attack'
+  | 'discovered-check'
+  | 'overloaded-defender'
+  | 'trapped-piece';
+
+export interface TacticalMotif {
+  type: TacticalMotifType;
+  label: string; // upper-case annotation appended to the move description
+  score: number; // bonus on the formatAndScoreMoves scale (pawn = 10)
+  squares: Square[]; // pieces the motif is aimed at
+}
+
+const MOTIF_SCORES: Record<TacticalMotifType, number> = {
+  'fork': 30,
+  'pin': 15,
+  'skewer': 25,
+  'discovered-attack': 15,
+  'discovered-check': 25,
+  'overloaded-defender': 15,
+  'trapped-piece': 30,
+};
+const ABSOLUTE_PIN_BONUS = 10;
+const KING_FORK_BONUS = 20;
+
+// The king can't be traded, so it outranks everything when comparing targets
+const targetValue = (type: PieceSymbol) => (type === 'k' ? 100 : PIECE_VALUES[type]);
+const upperName = (type: PieceSymbol) => PIECE_NAMES[type].toUpperCase();
+const joinNames = (pieces: BoardPiece[]) => pieces.map(piece => upperName(piece.type)).join(' AND ');
+const pinKey = (pin: Pin) => `${pin.pinner}-${pin.pinned}-${pin.target}`;
+
+const isDefended = (game: Chess, piece: BoardPiece) => game.attackers(piece.square, piece.color).length > 0;
+
+// Something worth hitting: the king, an undefended piece, or one worth more than the attacker
+function isWorthAttacking(game: Chess, target: BoardPiece, attackerValue: number): boolean {
+  return target.type === 'k' || targetValue(target.type) > attackerValue || !isDefended(game, target);
+}
+
+function findForks(after: Chess, mover: BoardPiece, enemies: BoardPiece[]): TacticalMotif[] {
+  const moverValue = PIECE_VALUES[mover.type];
+  // A forking piece that can simply be taken for nothing isn't a fork
+  if (after.isAttacked(mover.square, opposite(mover.color)) && after.attackers(mover.square, mover.color).length === 0) {
+    return [];
+  }
+
+  const targets = enemies.filter(enemy =>
+    enemy.type !== 'p' &&
+    after.attackers(enemy.square, mover.color).includes(mover.square) &&
+    isWorthAttacking(after, enemy, moverValue)
+  );
+  if (targets.length < 2) return [];
+
+  const hitsKing = targets.some(target => target.type === 'k');
+  return [{
+    type: 'fork',
+    label: `FORKS ${joinNames(targets)}`,
+    score: MOTIF_SCORES.fork + (hitsKing ? KING_FORK_BONUS : 0),
+    squares: targets.map(target => target.square),
+  }];
+}
+
+function findNewPins(before: Chess, after: Chess, enemyColor: Color): TacticalMotif[] {
+  const existing = new Set(findPins(before).map(pinKey));
+  return findPins(after)
+    .filter(pin => pin.color === enemyColor && !existing.has(pinKey(pin)))
+    .map(pin => {
+      const pinned = after.get(pin.pinned)!;
+      const target = after.get(pin.target)!;
+      return {
+        type: 'pin' as const,
+        label: `PINS ${upperName(pinned.type)} TO ${upperName(target.type)}`,
+        score: MOTIF_SCORES.pin + (pin.absolute ? ABSOLUTE_PIN_BONUS : 0),
+        squares: [pin.pinned, pin.target],
+      };
+    });
+}
+
+// A slider hitting a valuable piece with a lesser one lined up behind it
+function findSkewers(after: Chess, mover: BoardPiece): TacticalMotif[] {
+  const directions = mover.type === 'b' ? DIAGONALS : mover.type === 'r' ? ORTHOGONALS :
+    mover.type === 'q' ? [...DIAGONALS, ...ORTHOGONALS] : [];
+  const moverValue = PIECE_VALUES[mover.type];
+  const skewers: TacticalMotif[] = [];
+
+  for (const [df, dr] of directions) {
+    const hit: BoardPiece[] = [];
+    let f = fileOf(mover.square) + df;
+    let r = rankOf(mover.square) + dr;
+    while (onBoard(f, r) && hit.length < 2) {
+      const square = toSquare(f, r);
+      const piece = after.get(square);
+      if (piece) hit.push({ ...piece, square });
+      f += df;
+      r += dr;
+    }
+
+    const [front, back] = hit;
+    if (!front || !back || front.color === mover.color || back.color === mover.color) continue;
+    if (targetValue(front.type) <= targetValue(back.type) || targetValue(front.type) <= moverValue) continue;
+    if (back.type === 'p' || !isWorthAttacking(after, back, moverValue)) continue;
+
+    skewers.push({
+      type: 'skewer',
+      label: `SKEWERS ${upperName(front.type)} TO ${upperName(back.type)}`,
+      score: MOTIF_SCORES.skewer,
+      squares: [front.square, back.square],
+    });
+  }
+  return skewers;
+}
+
+// Lines opened by the move: pieces other than the one that moved now attack the king or a piece
+function findDiscoveries(before: Chess, after: Chess, move: Move, enemies: BoardPiece[]): TacticalMotif[] {
+  if (move.isKingsideCastle() || move.isQueensideCastle()) return [];
+
+  const motifs: TacticalMotif[] = [];
+  const attacked: BoardPiece[] = [];
+  for (const enemy of enemies) {
+    if (enemy.type === 'p') continue;
+    const previous = before.attackers(enemy.square, move.color);
+    const uncovered = after.attackers(enemy.square, move.color)
+      .filter(square => square !== move.to && !previous.includes(square));
+    if (uncovered.length === 0) continue;
+
+    if (enemy.type === 'k') {
+      const double = after.attackers(enemy.square, move.color).includes(move.to);
+      motifs.push({
+        type: 'discovered-check',
+        label: double ? 'DOUBLE CHECK' : 'DISCOVERED CHECK',
+        score: MOTIF_SCORES['discovered-check'] + (double ? MOTIF_SCORES['discovered-check'] : 0),
+        squares: [enemy.square],
+      });
+    } else {
+      const cheapest = Math.min(...uncovered.map(square => PIECE_VALUES[after.get(square)!.type]));
+      if (isWorthAttacking(after, enemy, cheapest)) attacked.push(enemy);
+    }
+  }
+
+  if (attacked.length > 0) {
+    motifs.push({
+      type: 'discovered-attack',
+      label: `DISCOVERED ATTACK ON ${joinNames(attacked)}`,
+      score: MOTIF_SCORES['discovered-attack'],
+      squares: attacked.map(piece => piece.square),
+    });
+  }
+  return motifs;
+}
+
+// Defenders that are the only guard of two or more attacked pieces
+function overloadedDefenders(game: Chess, attackerColor: Color): Map<Square, BoardPiece[]> {
+  const duties = new Map<Square, BoardPiece[]>();
+  const defended = listPieces(game).filter(piece =>
+    piece.color !== attackerColor && piece.type !== 'k' && piece.type !== 'p'
+  );
+
+  for (const piece of defended) {
+    if (!game.isAttacked(piece.square, attackerColor)) continue;
+    const defenders = game.attackers(piece.square, piece.color);
+    if (defenders.length !== 1) continue;
+    duties.set(defenders[0], [...(duties.get(defenders[0]) ?? []), piece]);
+  }
+
+  for (const [square, pieces] of duties) {
+    if (pieces.length < 2) duties.delete(square);
+  }
+  return duties;
+}
+
+function findOverloads(before: Chess, after: Chess, moverColor: Color): TacticalMotif[] {
+  const previous = overloadedDefenders(before, moverColor);
+  return [...overloadedDefenders(after, moverColor)]
+    .filter(([square]) => !previous.has(square))
+    .map(([square, pieces]) => ({
+      type: 'overloaded-defender' as const,
+      label: `OVERLOADS ${upperName(after.get(square)!.type)} (DEFENDS ${joinNames(pieces)})`,
+      score: MOTIF_SCORES['overloaded-defender'],
+      squares: [square, ...pieces.map(piece => piece.square)],
+    }));
+}
+
+// Pieces the mover now attacks profitably that have no safe square to run to
+function findTrappedPieces(after: Chess, mover: BoardPiece, enemies: BoardPiece[]): TacticalMotif[] {
+  // In check every reply is forced anyway, so "no escape" says nothing about the piece
+  if (after.isCheck()) return [];
+
+  const moverValue = PIECE_VALUES[mover.type];
+  const trapped = enemies.filter(enemy => {
+    if (enemy.type === 'k' || PIECE_VALUES[enemy.type] < 3) return false;
+    if (!after.attackers(enemy.square, mover.color).includes(mover.square)) return false;
+    if (PIECE_VALUES[enemy.type] <= moverValue && isDefended(after, enemy)) return false;
+
+    const escapes = after.moves({ square: enemy.square, verbose: true });
+    return escapes.every(escape =>
+      after.isAttacked(escape.to, mover.color) &&
+      (!escape.captured || PIECE_VALUES[escape.captured] < PIECE_VALUES[enemy.type])
+    );
+  });
+
+  return trapped.map(piece => ({
+    type: 'trapped-piece' as const,
+    label: `TRAPS ${upperName(piece.type)}`,
+    score: MOTIF_SCORES['trapped-piece'],
+    squares: [piece.square],
+  }));
+}
+
+// Tactical motifs created by `move`, given the positions before and after it is played
+export function detectTacticalMotifs(before: Chess, after: Chess, move: Move): TacticalMotif[] {
+  const enemyColor = opposite(move.color);
+  const enemies = listPieces(after).filter(piece => piece.color === enemyColor);
+  const mover: BoardPiece = { type: move.promotion ?? move.piece, color: move.color, square: move.to };
+
+  return [
+    ...findForks(after, mover, enemies),
+    ...findNewPins(before, after, enemyColor),
+    ...findSkewers(after, mover),
+    ...findDiscoveries(before, after, move, enemies),
+    ...findOverloads(before, after, move.color),
+    ...findTrappedPieces(after, mover, enemies),
+  ];
+}